@@ -1,15 +1,22 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppState, Concept, PhotoboothSettings, ProcessNotification, AspectRatio, GalleryItem } from './types';
+import { AppState, Concept, PhotoboothSettings, ProcessNotification, AspectRatio, GalleryItem, KioskCommand } from './types';
 import { DEFAULT_CONCEPTS, DEFAULT_SETTINGS, DEFAULT_GAS_URL } from './constants';
-import { fetchSettings, fetchEvents, uploadToDrive } from './lib/appsScript';
-import { generateAIImage } from './lib/gemini';
-import { applyOverlay, getGoogleDriveDirectLink } from './lib/imageUtils'; 
-import { OverlayCache } from './lib/overlayCache'; 
-import { aiQueue } from './lib/aiQueue'; 
+import { fetchSettings, fetchEvents, fetchEventProfile } from './lib/appsScript';
+import { applyEventProfile } from './lib/eventProfiles';
+import { getGoogleDriveDirectLink } from './lib/imageUtils'; 
+import { resolveOverlayTemplate, preloadTemplateAssets } from './lib/overlayCompositor';
+import { JobQueue } from './lib/jobQueue'; 
+import { Outbox } from './lib/outbox';
+import { apiFetch } from './lib/apiClient';
+import { watchConfigVersion } from './lib/configSync';
+import { startKioskAgent, isKioskLocked, setKioskLocked, getPinnedEventId, setPinnedEventId, clearKioskCache } from './lib/kioskAgent';
+import { clampShotCount } from './lib/layoutEngine';
+import { BURST_FRAME_COUNT } from './lib/boomerang';
 import { saveLargeData, getLargeData } from './lib/storage'; 
 import LandingPage from './pages/LandingPage';
 import ThemesPage from './pages/ThemesPage';
+import ConsentPage from './pages/ConsentPage';
 import CameraPage from './pages/CameraPage';
 import ResultPage from './pages/ResultPage';
 import GalleryPage from './pages/GalleryPage';
@@ -26,10 +33,16 @@ const safeLocalStorageSet = (key: string, value: string) => {
     }
 };
 
+// Config sync that failed (or applied an older version than announced) retries with backoff
+const CONFIG_RETRY_BASE_MS = 5000;
+const CONFIG_RETRY_MAX_MS = 5 * 60000;
+
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<AppState>(AppState.LANDING);
   const [selectedConcept, setSelectedConcept] = useState<Concept | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [capturedShots, setCapturedShots] = useState<string[]>([]); // Multi-shot session frames
+  const [capturedBurst, setCapturedBurst] = useState<string[]>([]); // Boomerang burst frames
   const [settings, setSettings] = useState<PhotoboothSettings>(DEFAULT_SETTINGS);
   const [concepts, setConcepts] = useState<Concept[]>(DEFAULT_CONCEPTS);
   const autoResetTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -42,17 +55,120 @@ const App: React.FC = () => {
 
   // Background Processing State
   const [notifications, setNotifications] = useState<ProcessNotification[]>([]);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
 
   // Gallery Cache State (New)
   const [galleryCache, setGalleryCache] = useState<GalleryItem[]>([]);
 
+  // Remote fleet control (Admin > Fleet): booth held on the landing page
+  const [kioskLocked, setKioskLockedState] = useState(isKioskLocked());
+  const deferredCommands = useRef<KioskCommand[]>([]);
+
+  // Live config: version this kiosk runs vs the newest one the backend reported
+  const [configVersion, setConfigVersion] = useState({ applied: 0, latest: 0 });
+  const appliedConfigVersion = useRef(0);
+  const latestConfigVersion = useRef(0);
+  const isSyncingConfig = useRef(false);
+
+  const kioskSnapshot = useRef({ page: currentPage as string, configVersion: 0, eventId: '', outboxPending: 0 });
+  kioskSnapshot.current = { page: currentPage, configVersion: configVersion.applied, eventId: settings.activeEventId || '', outboxPending: pendingSyncCount };
+
   // --- OVERLAY PRELOADER ---
   useEffect(() => {
-     if (settings.overlayImage) {
-         OverlayCache.preloadOverlay(settings.overlayImage)
-            .catch(err => console.warn("Background Overlay Preload Failed:", err));
-     }
-  }, [settings.overlayImage]);
+     preloadTemplateAssets(resolveOverlayTemplate(settings))
+        .catch(err => console.warn("Background Overlay Preload Failed:", err));
+  }, [settings.overlayImage, settings.overlayTemplate]);
+
+  // --- DURABLE FAST MODE QUEUE (Resume + Notifications) ---
+  useEffect(() => {
+     const unsubscribe = JobQueue.subscribe((job) => {
+         const status: ProcessNotification['status'] =
+             job.status === 'done' ? 'completed' : job.status === 'dead' ? 'failed' : 'processing';
+
+         setNotifications(prev => {
+             const notif: ProcessNotification = {
+                 id: job.id,
+                 thumbnail: job.concept.thumbnail,
+                 conceptName: job.concept.name,
+                 status,
+                 timestamp: job.createdAt
+             };
+             const exists = prev.some(n => n.id === job.id);
+             return exists
+                 ? prev.map(n => n.id === job.id ? notif : n)
+                 : [notif, ...prev].slice(0, 5);
+         });
+
+         if (status !== 'processing') {
+             setTimeout(() => {
+                 setNotifications(prev => prev.filter(n => n.id !== job.id));
+             }, 10000);
+         }
+     });
+
+     JobQueue.resume().catch(err => console.warn("Job resume failed:", err));
+     return unsubscribe;
+  }, []);
+
+  // --- OFFLINE UPLOAD OUTBOX (Resume + Pending Count) ---
+  useEffect(() => {
+     const unsubscribe = Outbox.subscribe(setPendingSyncCount);
+     Outbox.resume().catch(err => console.warn("Outbox resume failed:", err));
+     return unsubscribe;
+  }, []);
+
+  // --- KIOSK HEARTBEAT & REMOTE COMMANDS ---
+  // Reload / switch event / clear cache wait until a running generation is done (ResultPage)
+  const runKioskCommand = async (command: KioskCommand) => {
+      switch (command.type) {
+          case 'lock':
+              setKioskLocked(true);
+              setKioskLockedState(true);
+              break;
+          case 'unlock':
+              setKioskLocked(false);
+              setKioskLockedState(false);
+              break;
+          case 'switchEvent':
+              setPinnedEventId(command.eventId || '');
+              window.location.reload(); // syncCloud picks the pinned event
+              break;
+          case 'clearCache':
+              await clearKioskCache();
+              window.location.reload();
+              break;
+          case 'reload':
+              window.location.reload();
+              break;
+      }
+  };
+
+  useEffect(() => {
+     return startKioskAgent({
+         snapshot: () => kioskSnapshot.current,
+         onCommand: (command) => {
+             const isDisruptive = command.type !== 'lock' && command.type !== 'unlock';
+             if (isDisruptive && kioskSnapshot.current.page === AppState.GENERATING) {
+                 deferredCommands.current.push(command);
+                 return;
+             }
+             return runKioskCommand(command);
+         }
+     });
+  }, []);
+
+  useEffect(() => {
+     if (currentPage === AppState.GENERATING || deferredCommands.current.length === 0) return;
+     const commands = deferredCommands.current.splice(0);
+     commands.reduce((chain, command) => chain.then(() => runKioskCommand(command)), Promise.resolve())
+         .catch(err => console.error("[Kiosk] Deferred command failed:", err));
+  }, [currentPage]);
+
+  // Locked: guest pages fall back to landing (a running generation finishes first, Admin stays usable)
+  useEffect(() => {
+     const allowed = [AppState.LANDING, AppState.GENERATING, AppState.ADMIN];
+     if (kioskLocked && !allowed.includes(currentPage)) handleReset();
+  }, [kioskLocked, currentPage]);
 
   // --- GLOBAL ADAPTIVE TICKER FOR VIDEO PROCESSING ---
   useEffect(() => {
@@ -71,7 +187,7 @@ const App: React.FC = () => {
          let nextInterval = 15000; 
 
          try {
-             const res = await fetch('/api/video/tick');
+             const res = await apiFetch('/api/video/tick');
              const contentType = res.headers.get("content-type");
              
              if (res.ok && contentType && contentType.includes("application/json")) {
@@ -99,6 +215,98 @@ const App: React.FC = () => {
      };
   }, [settings.boothMode]);
 
+  // --- CLOUD SYNC (Settings, Concepts & Events) ---
+  // On mount, then again on LANDING whenever the backend reports a newer config version
+  const syncCloud = async () => {
+    if (isSyncingConfig.current) return;
+    isSyncingConfig.current = true;
+    const latestAtStart = latestConfigVersion.current;
+    try {
+      const [res, events] = await Promise.all([fetchSettings(), fetchEvents()]);
+      // Kiosk pinned to an event by Admin > Fleet (switchEvent); unknown / archived id = active event
+      const pinnedEventId = getPinnedEventId();
+      const pinned = events.find(e => e.id === pinnedEventId && !e.archivedAt);
+      const active = pinned || events.find(e => e.isActive);
+      // A pinned event that is not live runs on its own profile snapshot (same rule as lib/boothConfig.ts)
+      const pinnedProfile = pinned && !pinned.isActive ? await fetchEventProfile(pinned.id) : null;
+      if (pinnedProfile && !pinnedProfile.ok) throw new Error(`Pinned event ${pinned?.id}: ${pinnedProfile.error}`);
+      const profile = pinnedProfile?.profile || null;
+
+      if (res.ok) {
+        // Merge remote settings
+        setSettings(prev => ({ ...prev, ...res.settings }));
+        
+        const remoteConcepts = profile ? profile.concepts : res.concepts;
+        if (remoteConcepts && Array.isArray(remoteConcepts) && remoteConcepts.length > 0) {
+          setConcepts(remoteConcepts);
+          saveLargeData('pb_concepts', remoteConcepts).catch(err => 
+              console.error("Failed to cache concepts to DB", err)
+          );
+        } else if (profile) {
+           setConcepts(DEFAULT_CONCEPTS);
+        } else {
+           console.log("Cloud concepts empty (New Sheet). Using Defaults.");
+        }
+      }
+      
+      if (pinned && pinnedProfile) {
+        setSettings(prev => applyEventProfile(prev, pinned, profile));
+      } else if (active) {
+        setSettings(prev => ({
+          ...prev,
+          eventName: active.name,
+          eventDescription: active.description,
+          folderId: active.folderId,
+          activeEventId: active.id
+        }));
+      }
+
+      // Only once everything above is in; the version came with the same getSettings response
+      if (res.ok && res.configVersion) {
+        const applied = Number(res.configVersion.version) || 0;
+        appliedConfigVersion.current = applied;
+        // A version reported while syncing may be newer than what was fetched: keep it pending
+        if (latestConfigVersion.current === latestAtStart) latestConfigVersion.current = applied;
+        const latest = latestConfigVersion.current;
+        // Same numbers = same state object, so the sync effect below only reruns on a real change
+        setConfigVersion(prev => prev.applied === applied && prev.latest === latest ? prev : { applied, latest });
+      }
+    } catch (e) {
+      console.warn("Cloud sync error:", e);
+    } finally {
+      isSyncingConfig.current = false;
+    }
+  };
+
+  // --- LIVE CONFIG PUSH (/api/config/stream) ---
+  useEffect(() => {
+     return watchConfigVersion(() => appliedConfigVersion.current, (version) => {
+         console.log(`[Config] Version ${version.version} available (running ${appliedConfigVersion.current})`);
+         latestConfigVersion.current = version.version;
+         setConfigVersion(prev => ({ ...prev, latest: version.version }));
+     });
+  }, []);
+
+  // Applied only between guests: mid-session changes would swap concepts / overlay under them
+  useEffect(() => {
+     if (currentPage !== AppState.LANDING || configVersion.latest === configVersion.applied) return;
+     let cancelled = false;
+     let attempt = 0;
+     let retryTimer: ReturnType<typeof setTimeout> | null = null;
+     const run = async () => {
+         await syncCloud();
+         if (cancelled || latestConfigVersion.current === appliedConfigVersion.current) return;
+         const delay = Math.min(CONFIG_RETRY_MAX_MS, CONFIG_RETRY_BASE_MS * 2 ** attempt++);
+         console.warn(`[Config] Version ${latestConfigVersion.current} not applied yet, retrying in ${Math.round(delay / 1000)}s`);
+         retryTimer = setTimeout(run, delay);
+     };
+     run();
+     return () => {
+         cancelled = true;
+         if (retryTimer) clearTimeout(retryTimer);
+     };
+  }, [currentPage, configVersion]);
+
   // --- INITIALIZATION & SYNC ---
   useEffect(() => {
     // 1. HARD RESET URL KONEKSI
@@ -150,38 +358,6 @@ const App: React.FC = () => {
     loadConcepts();
     
     // 3. Sync Cloud (Settings & Events from NEW Sheet)
-    const syncCloud = async () => {
-      try {
-        const res = await fetchSettings();
-        if (res.ok) {
-          // Merge remote settings
-          setSettings(prev => ({ ...prev, ...res.settings }));
-          
-          if (res.concepts && Array.isArray(res.concepts) && res.concepts.length > 0) {
-            setConcepts(res.concepts);
-            saveLargeData('pb_concepts', res.concepts).catch(err => 
-                console.error("Failed to cache concepts to DB", err)
-            );
-          } else {
-             console.log("Cloud concepts empty (New Sheet). Using Defaults.");
-          }
-        }
-        
-        const events = await fetchEvents();
-        const active = events.find(e => e.isActive);
-        if (active) {
-          setSettings(prev => ({
-            ...prev,
-            eventName: active.name,
-            eventDescription: active.description,
-            folderId: active.folderId,
-            activeEventId: active.id
-          }));
-        }
-      } catch (e) {
-        console.warn("Cloud sync error:", e);
-      }
-    };
     syncCloud();
   }, []);
 
@@ -197,12 +373,16 @@ const App: React.FC = () => {
     setCurrentPage(AppState.LANDING);
     setSelectedConcept(null);
     setCapturedImage(null);
+    setCapturedShots([]);
+    setCapturedBurst([]);
     setRegenUltraQuality(false);
     setCurrentSession(null); 
   };
 
   const handleRegenerate = (image: string, concept: Concept, useUltra: boolean = false, sessionData?: {id: string, url: string}) => {
     setCapturedImage(image);
+    setCapturedShots([]);
+    setCapturedBurst([]);
     setSelectedConcept(concept);
     setRegenUltraQuality(useUltra);
     if (sessionData) {
@@ -228,6 +408,8 @@ const App: React.FC = () => {
 
   const handleCapture = (image: string) => {
     setCapturedImage(image);
+    setCapturedShots([]);
+    setCapturedBurst([]);
     setRegenUltraQuality(false); 
     setCurrentSession(null); 
     
@@ -239,76 +421,29 @@ const App: React.FC = () => {
     }
   };
 
-  const processInBackground = (base64Image: string, concept: Concept) => {
-      const jobId = Date.now().toString();
-      
-      const newNotif: ProcessNotification = {
-          id: jobId,
-          thumbnail: concept.thumbnail,
-          conceptName: concept.name,
-          status: 'processing', 
-          timestamp: Date.now()
-      };
-      setNotifications(prev => [newNotif, ...prev].slice(0, 5)); 
-
-      aiQueue.add(async () => {
-          console.log(`[Queue] Starting Job ${jobId} | Concept: ${concept.name}`);
-          
-          try {
-            let originalId: string | null = null;
-            if (settings.originalFolderId && settings.originalFolderId.trim() !== "") {
-                try {
-                    const origRes = await uploadToDrive(base64Image, {
-                      conceptName: "ORIGINAL_CAPTURE",
-                      eventName: settings.eventName,
-                      eventId: settings.activeEventId,
-                      folderId: settings.originalFolderId,
-                      skipGallery: true 
-                    });
-                    if (origRes.ok) originalId = origRes.id;
-                } catch(e) { console.warn("Background: Original upload failed"); }
-            }
-
-            const aiOutput = await generateAIImage(base64Image, concept, settings.outputRatio);
-
-            if (settings.overlayImage) {
-                 await OverlayCache.preloadOverlay(settings.overlayImage);
-            }
+  // Multi-shot sessions always go through ResultPage (fast mode queue handles single photos only)
+  const handleCaptureShots = (images: string[]) => {
+    setCapturedImage(images[0]);
+    setCapturedShots(images);
+    setCapturedBurst([]);
+    setRegenUltraQuality(false);
+    setCurrentSession(null);
+    setCurrentPage(AppState.GENERATING);
+  };
 
-            let targetWidth = 1080;
-            let targetHeight = 1920;
-            if (settings.outputRatio === '16:9') { targetWidth = 1920; targetHeight = 1080; }
-            else if (settings.outputRatio === '3:2') { targetWidth = 1800; targetHeight = 1200; }
-            else if (settings.outputRatio === '2:3') { targetWidth = 1200; targetHeight = 1800; }
-
-            const finalImage = await applyOverlay(aiOutput, settings.overlayImage, targetWidth, targetHeight);
-
-            const res = await uploadToDrive(finalImage, {
-                conceptName: concept.name,
-                eventName: settings.eventName,
-                eventId: settings.activeEventId,
-                folderId: settings.folderId,
-                originalId: originalId || undefined,
-            });
-
-            if (res.ok) {
-                console.log(`[Queue] Job ${jobId} Completed`);
-                setNotifications(prev => prev.map(n => n.id === jobId ? { ...n, status: 'completed' } : n));
-                setTimeout(() => {
-                    setNotifications(prev => prev.filter(n => n.id !== jobId));
-                }, 10000);
-            } else {
-                throw new Error("Upload Failed");
-            }
+  // Boomerang is foreground only as well (GIF/video encoding needs the page alive)
+  const handleCaptureBurst = (frames: string[]) => {
+    setCapturedImage(frames[0]);
+    setCapturedShots([]);
+    setCapturedBurst(frames);
+    setRegenUltraQuality(false);
+    setCurrentSession(null);
+    setCurrentPage(AppState.GENERATING);
+  };
 
-          } catch (e: any) {
-            console.error(`[Queue] Job ${jobId} Failed:`, e);
-            setNotifications(prev => prev.map(n => n.id === jobId ? { ...n, status: 'failed' } : n));
-            setTimeout(() => {
-                setNotifications(prev => prev.filter(n => n.id !== jobId));
-            }, 10000);
-          }
-      }).catch((err) => {
+  const processInBackground = (base64Image: string, concept: Concept) => {
+      // Persisted first (IndexedDB), so the job survives a reload or closed tab
+      JobQueue.enqueue(base64Image, concept, settings).catch((err) => {
           console.error("Queue Addition Error:", err);
       });
   };
@@ -316,9 +451,16 @@ const App: React.FC = () => {
   const renderPage = () => {
     switch (currentPage) {
       case AppState.LANDING:
-        return <LandingPage onStart={() => setCurrentPage(AppState.THEMES)} onGallery={() => setCurrentPage(AppState.GALLERY)} onAdmin={() => setCurrentPage(AppState.ADMIN)} settings={settings} notifications={notifications} />;
+        return <LandingPage onStart={() => setCurrentPage(AppState.THEMES)} onGallery={() => setCurrentPage(AppState.GALLERY)} onAdmin={() => setCurrentPage(AppState.ADMIN)} settings={settings} notifications={notifications} pendingSyncCount={pendingSyncCount} locked={kioskLocked} />;
       case AppState.THEMES:
-        return <ThemesPage concepts={concepts} onSelect={(c) => { setSelectedConcept(c); setCurrentPage(AppState.CAMERA); }} onBack={() => setCurrentPage(AppState.LANDING)} />;
+        return <ThemesPage concepts={concepts} onSelect={(c) => { setSelectedConcept(c); setCurrentPage(settings.requireConsent ? AppState.CONSENT : AppState.CAMERA); }} onBack={() => setCurrentPage(AppState.LANDING)} />;
+      case AppState.CONSENT:
+        return <ConsentPage 
+            text={settings.consentText || DEFAULT_SETTINGS.consentText!} 
+            timeoutSeconds={settings.autoResetTime} 
+            onAccept={() => setCurrentPage(AppState.CAMERA)} 
+            onDecline={handleReset} 
+        />;
       case AppState.CAMERA:
         return <CameraPage 
             onCapture={handleCapture} 
@@ -330,10 +472,16 @@ const App: React.FC = () => {
             aspectRatio={settings.outputRatio}
             settings={settings} 
             onUpdateSettings={handleUpdateSettings} 
+            shotCount={settings.captureMode === 'multi' && settings.boothMode !== 'boomerang' ? clampShotCount(settings.shotCount) : 1}
+            onCaptureShots={handleCaptureShots}
+            burstFrames={settings.boothMode === 'boomerang' ? BURST_FRAME_COUNT : 0}
+            onCaptureBurst={handleCaptureBurst}
         />;
       case AppState.GENERATING:
         return <ResultPage 
             capturedImage={capturedImage!} 
+            capturedShots={capturedShots}
+            capturedBurst={capturedBurst}
             concept={selectedConcept!} 
             settings={settings} 
             concepts={concepts} 
@@ -353,16 +501,17 @@ const App: React.FC = () => {
                 concepts={concepts} 
                 settings={settings} 
                 notifications={notifications}
+                pendingSyncCount={pendingSyncCount}
                 cachedItems={galleryCache} 
                 onUpdateCache={setGalleryCache} 
             />
         );
       case AppState.ADMIN:
-        return <AdminPage settings={settings} concepts={concepts} onSaveSettings={handleUpdateSettings} onSaveConcepts={handleUpdateConcepts} onBack={() => setCurrentPage(AppState.LANDING)} onLaunchMonitor={() => setCurrentPage(AppState.MONITOR)} />;
+        return <AdminPage settings={settings} concepts={concepts} onSaveSettings={handleUpdateSettings} onSaveConcepts={handleUpdateConcepts} onBack={() => setCurrentPage(AppState.LANDING)} onLaunchMonitor={() => setCurrentPage(AppState.MONITOR)} configVersion={configVersion} />;
       case AppState.MONITOR:
         return <MonitorPage onBack={() => setCurrentPage(AppState.ADMIN)} activeEventId={settings.activeEventId} eventName={settings.eventName} monitorSize={settings.monitorImageSize} theme={settings.monitorTheme} />;
       default:
-        return <LandingPage onStart={() => setCurrentPage(AppState.THEMES)} onGallery={() => setCurrentPage(AppState.GALLERY)} onAdmin={() => setCurrentPage(AppState.ADMIN)} settings={settings} notifications={notifications} />;
+        return <LandingPage onStart={() => setCurrentPage(AppState.THEMES)} onGallery={() => setCurrentPage(AppState.GALLERY)} onAdmin={() => setCurrentPage(AppState.ADMIN)} settings={settings} notifications={notifications} pendingSyncCount={pendingSyncCount} locked={kioskLocked} />;
     }
   };
 
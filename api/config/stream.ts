@@ -0,0 +1,57 @@
+import { isStorageConfigured } from '../../lib/serverStorage.js';
+import { CONFIG_POLL_MS, loadConfigVersion } from '../../lib/configFeed.js';
+import { withApi } from '../../lib/apiMiddleware.js';
+
+export const config = {
+  maxDuration: 60,
+};
+
+// Ditutup sebelum maxDuration; kiosk (lib/configSync.ts) langsung menyambung lagi
+const STREAM_MS = 50000;
+const KEEPALIVE_MS = 20000; // Proxy / load balancer memutus koneksi yang diam terlalu lama
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Server-Sent Events: `event: config` tiap versi konfigurasi berubah. ?since=<versi yang sudah
+// dipakai kiosk> → versi lebih baru langsung dikirim, kalau sama stream diam sampai ada perubahan.
+async function handler(req: any, res: any) {
+  if (!isStorageConfigured()) return res.status(503).json({ ok: false, error: 'Storage not configured' });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${CONFIG_POLL_MS}\n\n`);
+
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  let sent = Number(req.query.since);
+  const startedAt = Date.now();
+  let lastWriteAt = startedAt;
+
+  while (!closed && Date.now() - startedAt < STREAM_MS) {
+    const current = await loadConfigVersion();
+    if (closed) break;
+    if (current && current.version !== sent) {
+      res.write(`event: config\nid: ${current.version}\ndata: ${JSON.stringify(current)}\n\n`);
+      sent = current.version;
+      lastWriteAt = Date.now();
+    } else if (Date.now() - lastWriteAt >= KEEPALIVE_MS) {
+      res.write(': keepalive\n\n');
+      lastWriteAt = Date.now();
+    }
+    await sleep(CONFIG_POLL_MS);
+  }
+
+  res.end();
+}
+
+export default withApi({
+  name: 'config-stream',
+  methods: ['GET'],
+  auth: 'kiosk',
+  rateLimit: { capacity: 10, refillPerMinute: 6 } // ~1 reconnect per STREAM_MS, plus slack for flaky venue Wi-Fi
+}, handler);
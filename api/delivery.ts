@@ -0,0 +1,25 @@
+import { isStorageConfigured, requestBaseUrl } from '../lib/serverStorage.js';
+import { isDeliveryConfigured, runDeliveries } from '../lib/deliveryJobs.js';
+import { withApi } from '../lib/apiMiddleware.js';
+
+export const config = {
+  maxDuration: 60,
+};
+
+// Dipanggil kiosk setelah tamu mengisi kontak (link foto langsung terkirim).
+// Video & retry ikut terkirim dari /api/video/tick.
+async function handler(req: any, res: any) {
+  if (!isStorageConfigured() || !isDeliveryConfigured()) {
+    return res.status(503).json({ ok: false, error: 'Delivery not configured (DELIVERY_SECRET)' });
+  }
+
+  try {
+    const report = await runDeliveries(requestBaseUrl(req));
+    return res.status(200).json({ ok: true, report });
+  } catch (e: any) {
+    console.error("[API Delivery] Error:", e);
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+}
+
+export default withApi({ name: 'delivery', methods: ['POST'], auth: 'kiosk', rateLimit: { capacity: 10, refillPerMinute: 6 } }, handler);
@@ -1,28 +1,13 @@
 
 import OpenAI, { toFile } from 'openai';
 import { Buffer } from 'node:buffer';
+import { withApi } from '../lib/apiMiddleware.js';
 
 export const config = {
   maxDuration: 60,
 };
 
-export default async function handler(req: any, res: any) {
-  // CORS Headers
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  // Handle Preflight
-  if (req.method === 'OPTIONS') {
-    res.status(200).end();
-    return;
-  }
-
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
+async function handler(req: any, res: any) {
   try {
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) {
@@ -92,3 +77,5 @@ export default async function handler(req: any, res: any) {
     });
   }
 }
+
+export default withApi({ name: 'image-openai', methods: ['POST'], auth: 'kiosk', rateLimit: { capacity: 30, refillPerMinute: 20 } }, handler);
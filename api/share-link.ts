@@ -0,0 +1,35 @@
+import { isStorageConfigured, serverStoragePost } from '../lib/serverStorage.js';
+import { isDeliveryConfigured, workerSecret } from '../lib/deliveryJobs.js';
+import { withApi } from '../lib/apiMiddleware.js';
+
+export const config = {
+  maxDuration: 15,
+};
+
+const MAX_IDS = 50;
+
+// Share tokens for the QR codes in the kiosk Gallery / Monitor (GET ?ids=a,b,c -> { tokens: { id: token } }).
+// Tokens are the guest's key to /share/:token, so public gallery reads never carry them; the kiosk asks here
+// with its kiosk key and the server reads them with the worker secret. Not configured = QR keeps the Drive link.
+async function handler(req: any, res: any) {
+  res.setHeader('Cache-Control', 'no-store');
+  if (!isStorageConfigured() || !isDeliveryConfigured()) {
+    return res.status(503).json({ ok: false, error: 'Share links not configured (DELIVERY_SECRET)' });
+  }
+
+  const ids = String(req.query.ids || '').split(',').map(id => id.trim()).filter(Boolean);
+  if (ids.length === 0 || ids.length > MAX_IDS) {
+    return res.status(400).json({ ok: false, error: `ids must list 1-${MAX_IDS} photo ids` });
+  }
+
+  try {
+    const data = await serverStoragePost({ action: 'shareTokens', workerSecret: workerSecret(), photoIds: ids });
+    if (!data.ok) return res.status(502).json({ ok: false, error: data.error || 'shareTokens failed' });
+    return res.status(200).json({ ok: true, tokens: data.tokens || {} });
+  } catch (e: any) {
+    console.error("[API Share Link] Error:", e);
+    return res.status(502).json({ ok: false, error: 'Storage unavailable' });
+  }
+}
+
+export default withApi({ name: 'share-link', methods: ['GET'], auth: 'kiosk', rateLimit: { capacity: 60, refillPerMinute: 60 } }, handler);
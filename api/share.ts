@@ -0,0 +1,47 @@
+import { isLocalStorageBackend, isStorageConfigured, serverStorageGet, serverStoragePost } from '../lib/serverStorage.js';
+import { isShareDeleteKey, isShareToken } from '../lib/share.js';
+import { withApi } from '../lib/apiMiddleware.js';
+
+export const config = {
+  maxDuration: 15,
+};
+
+// Guest share page data (/share/:token). Ponsel tamu tidak tahu backend / URL GAS yang dipakai
+// kiosk, jadi lookup selalu lewat server dengan konfigurasi env (STORAGE_BACKEND / APPS_SCRIPT_BASE_URL).
+// POST { token, deleteKey } = "Delete my data": purge permanen sesi tamu itu (lib/retention.ts). deleteKey hanya
+// ada di link delivery ke kontak tamu sendiri; token saja (QR kiosk) tidak cukup.
+async function handler(req: any, res: any) {
+  // Status video berubah selama render, jangan di-cache
+  res.setHeader('Cache-Control', 'no-store');
+
+  const token = req.method === 'POST' ? (req.body || {}).token : req.query.token;
+  if (!isShareToken(token)) return res.status(404).json({ ok: false, error: 'Not found' });
+  if (!isStorageConfigured()) return res.status(503).json({ ok: false, error: 'Storage not configured' });
+
+  if (req.method === 'POST') {
+    try {
+      const deleteKey = (req.body || {}).deleteKey;
+      if (!isShareDeleteKey(deleteKey)) return res.status(403).json({ ok: false, error: 'Delete link required' });
+      const data = await serverStoragePost({ action: 'forgetShare', shareToken: token, deleteKey });
+      if (!data.ok && data.error === 'AUTH_REQUIRED') return res.status(403).json({ ok: false, error: 'Delete link required' });
+      if (!data.ok) return res.status(404).json({ ok: false, error: 'Not found' });
+      console.log(`[API Share] Guest data purged (${data.purged} items)`);
+      return res.status(200).json({ ok: true, purged: data.purged });
+    } catch (e: any) {
+      console.error("[API Share] Purge error:", e);
+      return res.status(502).json({ ok: false, error: 'Storage unavailable' });
+    }
+  }
+
+  try {
+    const data = await serverStorageGet('share', { token });
+    if (!data.ok || !data.share) return res.status(404).json({ ok: false, error: 'Not found' });
+    return res.status(200).json({ ok: true, backend: isLocalStorageBackend() ? 'local' : 'apps-script', share: data.share });
+  } catch (e: any) {
+    console.error("[API Share] Error:", e);
+    return res.status(502).json({ ok: false, error: 'Storage unavailable' });
+  }
+}
+
+// Guest phones: no kiosk key, limited per IP (token guessing, polling while the video renders)
+export default withApi({ name: 'share', methods: ['GET', 'POST'], auth: 'public', rateLimit: { capacity: 30, refillPerMinute: 30 } }, handler);
@@ -0,0 +1,67 @@
+import { handleLocalGet, handleLocalPost, listSessionFiles, readStoredFile } from '../lib/fsStorage.js';
+import { isLocalStorageBackend, requestBaseUrl } from '../lib/serverStorage.js';
+
+// Local storage backend endpoint (same action protocol as apps-script.gs)
+export const config = {
+  maxDuration: 60,
+  api: {
+    bodyParser: { sizeLimit: '25mb' }, // Base64 photos / videos
+    responseLimit: false
+  },
+};
+
+export default async function handler(req: any, res: any) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+
+  // Never write to disk on a deployment that uses Apps Script
+  if (!isLocalStorageBackend()) {
+    return res.status(404).json({ ok: false, error: 'Local storage disabled (set STORAGE_BACKEND=local)' });
+  }
+
+  const ctx = { publicBaseUrl: requestBaseUrl(req) };
+
+  try {
+    if (req.method === 'GET') {
+      const action = String(req.query.action || '');
+
+      if (action === 'file') {
+        const file = await readStoredFile(String(req.query.id || ''));
+        if (!file) return res.status(404).json({ ok: false, error: 'File not found' });
+        res.setHeader('Content-Type', file.mimeType);
+        res.setHeader('Content-Length', String(file.data.length));
+        res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+        return res.status(200).send(file.data);
+      }
+
+      // Pengganti halaman folder Drive untuk link "session" di QR
+      if (action === 'session') {
+        const files = await listSessionFiles(String(req.query.id || ''));
+        const links = files.map(f => {
+          const url = `${ctx.publicBaseUrl}/api/storage?action=file&id=${encodeURIComponent(f.id)}`;
+          return f.mimeType.startsWith('video/')
+            ? `<video src="${url}" controls playsinline></video>`
+            : `<a href="${url}" download><img src="${url}" /></a>`;
+        }).join('\n');
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        return res.status(200).send(`<!doctype html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><style>body{background:#000;margin:0;padding:12px;display:grid;gap:12px}img,video{width:100%;border-radius:8px}</style></head><body>${links || '<p style="color:#fff">Empty session</p>'}</body></html>`);
+      }
+
+      return res.status(200).json(await handleLocalGet(action, req.query, ctx));
+    }
+
+    if (req.method === 'POST') {
+      // Client sends text/plain (same as GAS) so the body may arrive unparsed
+      const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
+      return res.status(200).json(await handleLocalPost(body, ctx));
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (e: any) {
+    console.error("[API Storage] Error:", e);
+    return res.status(500).json({ ok: false, error: e.message });
+  }
+}
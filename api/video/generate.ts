@@ -1,48 +1,19 @@
 
 import { assertVideoModel, sanitizeLog } from '../../lib/guards.js';
 import { startArkVideoTask } from '../../lib/ark.js';
+import { transitionVideo } from '../../lib/videoJobs.js';
+import { isStorageConfigured, photoInputUrl } from '../../lib/serverStorage.js';
+import { loadEventBudget } from '../../lib/budget.js';
+import { allowsVideo, BUDGET_VIDEO_ERROR } from '../../lib/costs.js';
+import { withApi } from '../../lib/apiMiddleware.js';
 
 export const config = {
   maxDuration: 60, // Increased to allow for retries
 };
 
-// Helper: Robust Fetch for GAS with Retry
-const fetchGasWithRetry = async (url: string, payload: any, retries = 3) => {
-    for (let i = 0; i < retries; i++) {
-        try {
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(), 10000); // 10s timeout per attempt
-
-            const res = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'text/plain' }, // Use text/plain for GAS to avoid preflight issues
-                body: JSON.stringify(payload),
-                signal: controller.signal
-            });
-            
-            clearTimeout(timeout);
-
-            if (res.ok) return await res.json();
-            throw new Error(`GAS Status: ${res.status}`);
-        } catch (e: any) {
-            console.warn(`[API Video] GAS Update Attempt ${i + 1} failed:`, e.message);
-            if (i === retries - 1) throw e;
-            await new Promise(r => setTimeout(r, 1000)); // Wait 1s before retry
-        }
-    }
-};
-
-export default async function handler(req: any, res: any) {
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') return res.status(200).end();
-  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
-
+async function handler(req: any, res: any) {
   try {
-    const { prompt, imageBase64, driveFileId, sessionFolderId, model, resolution } = req.body;
+    const { prompt, imageBase64, driveFileId, sessionFolderId, model, resolution, eventId } = req.body;
 
     // 1. DEFAULT MODEL & GUARD
     const selectedModel = model || process.env.VIDEO_MODEL || 'seedance-1-0-pro-fast-251015';
@@ -54,6 +25,12 @@ export default async function handler(req: any, res: any) {
       return res.status(400).json({ error: e.message });
     }
 
+    // BUDGET: hard cap on the photo's event (kiosk sends it; none = active event) stops new renders
+    const budget = await loadEventBudget(typeof eventId === 'string' ? eventId : '');
+    if (!allowsVideo(budget.level)) {
+      return res.status(402).json({ error: BUDGET_VIDEO_ERROR });
+    }
+
     // PATCH: STRICT RESOLUTION VALIDATION
     let videoResolution = resolution || '480p';
     
@@ -70,8 +47,8 @@ export default async function handler(req: any, res: any) {
     if (driveFileId) {
        // PATCH A: Use Thumbnail URL for smaller input size to reduce Seedance output bitrate/size
        const sizeParam = videoResolution === '720p' ? 'w720' : 'w480';
-       inputImageUrl = `https://drive.google.com/thumbnail?id=${driveFileId}&sz=${sizeParam}`;
-       console.log(`[API Video] drive input = thumbnail sz=${sizeParam}`);
+       inputImageUrl = (await photoInputUrl(driveFileId, sizeParam)) || "";
+       console.log(`[API Video] stored input sz=${sizeParam}`);
     } else if (imageBase64) {
        inputImageUrl = imageBase64; 
     }
@@ -99,18 +76,16 @@ export default async function handler(req: any, res: any) {
 
     // 4. REGISTER TO GOOGLE SHEET (QUEUE) - WITH AWAIT & RETRY
     // Critical: If this fails, the frontend won't track the video properly.
-    const gasUrl = process.env.APPS_SCRIPT_BASE_URL;
-    if (gasUrl && driveFileId) {
+    if (isStorageConfigured() && driveFileId) {
         try {
-            await fetchGasWithRetry(gasUrl, {
-                action: 'updateVideoStatus',
-                photoId: driveFileId,
-                status: 'processing',
+            // Direct start: idle/failed -> processing (legality checked by GAS)
+            const result = await transitionVideo(driveFileId, null, 'processing', {
                 taskId: taskId,
                 videoModel: selectedModel,
                 videoResolution: videoResolution // Persist actual resolution
             });
-            console.log("[API Video] GAS Updated Successfully");
+            if (result.ok) console.log("[API Video] GAS Updated Successfully");
+            else console.warn("[API Video] GAS rejected transition:", result.error);
         } catch (gasError: any) {
             console.error("[API Video] CRITICAL: Failed to update GAS after retries.", gasError);
             // We proceed to return 200 because the video generation actually started.
@@ -133,3 +108,6 @@ export default async function handler(req: any, res: any) {
     return res.status(status).json({ error: error.message });
   }
 }
+
+// Shared by /api/video/start (re-export), so both paths draw from the same bucket
+export default withApi({ name: 'video-start', methods: ['POST'], auth: 'kiosk', rateLimit: { capacity: 6, refillPerMinute: 3 } }, handler);
@@ -1,5 +1,6 @@
 
 import { Readable } from 'stream';
+import { withApi } from '../../lib/apiMiddleware.js';
 
 export const config = {
   maxDuration: 60, // Allow longer streaming if needed
@@ -8,22 +9,9 @@ export const config = {
   },
 };
 
-export default async function handler(req: any, res: any) {
-  // CORS Headers
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Range'); // Allow Range header
-
-  if (req.method === 'OPTIONS') {
-    res.status(200).end();
-    return;
-  }
-
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
+// Video stream proxy (GET ?url=). Kiosk only: without the key this is an open proxy to any host.
+// <video src> cannot send the kiosk headers, so the kiosk Gallery loads it via lib/videoPlayback.ts
+async function handler(req: any, res: any) {
   try {
     const rawUrl = String(req.query.url || "");
 
@@ -104,3 +92,5 @@ export default async function handler(req: any, res: any) {
     res.end();
   }
 }
+
+export default withApi({ name: 'video-proxy', methods: ['GET'], auth: 'kiosk', rateLimit: { capacity: 30, refillPerMinute: 30 } }, handler);
@@ -1,23 +1,11 @@
+import { withApi } from '../../lib/apiMiddleware.js';
+
 export const config = {
   maxDuration: 10,
 };
 
-export default async function handler(req: any, res: any) {
-  // CORS Headers
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-
-  if (req.method === 'OPTIONS') {
-    res.status(200).end();
-    return;
-  }
-
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
+// Status task ARK (GET ?taskId=). Memakai kunci ARK, jadi hanya untuk kiosk (lib/apiMiddleware.ts)
+async function handler(req: any, res: any) {
   try {
     const { taskId } = req.query;
 
@@ -132,4 +120,6 @@ export default async function handler(req: any, res: any) {
     console.error("[Video Status] Error:", error);
     return res.status(500).json({ error: error.message || "Internal Server Error" });
   }
-}
\ No newline at end of file
+}
+
+export default withApi({ name: 'video-status', methods: ['GET'], auth: 'kiosk', rateLimit: { capacity: 60, refillPerMinute: 60 } }, handler);
@@ -1,171 +1,211 @@
+import { fetchVideoJobs, transitionVideo } from '../../lib/videoJobs.js';
+import { findStuckTransition, VideoJob } from '../../lib/videoStateMachine.js';
+import { isStorageConfigured, photoInputUrl, requestBaseUrl, serverStoragePost } from '../../lib/serverStorage.js';
+import { isDeliveryConfigured, runDeliveries, DeliveryReport } from '../../lib/deliveryJobs.js';
+import { loadEventBudget } from '../../lib/budget.js';
+import { allowsVideo, BUDGET_VIDEO_ERROR } from '../../lib/costs.js';
+import { withApi } from '../../lib/apiMiddleware.js';
 
 // This endpoint is polled by the App (Global) to process the queue
 export const config = {
   maxDuration: 60, 
 };
 
-// Helper: Robust Fetch for GAS with Retry
-const fetchGasWithRetry = async (url: string, payload: any, retries = 2) => {
-    for (let i = 0; i < retries; i++) {
-        try {
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(), 10000); 
-
-            const res = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'text/plain' }, 
-                body: JSON.stringify(payload),
-                signal: controller.signal
-            });
-            
-            clearTimeout(timeout);
-            if (res.ok) return await res.json();
-            throw new Error(`Status: ${res.status}`);
-        } catch (e: any) {
-            if (i === retries - 1) throw e;
-            await new Promise(r => setTimeout(r, 500));
-        }
-    }
-};
-
-export default async function handler(req: any, res: any) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  if (req.method !== 'GET') return res.status(405).end();
-
+async function handler(req: any, res: any) {
   const apiKey = process.env.ARK_API_KEY;
   const baseUrl = process.env.ARK_BASE_URL;
-  const gasUrl = process.env.APPS_SCRIPT_BASE_URL;
   const defaultModelId = process.env.SEEDANCE_MODEL_ID || 'seedance-1-0-pro-fast-251015';
 
-  if (!apiKey || !baseUrl || !gasUrl) return res.status(500).json({ error: 'Config missing' });
+  if (!apiKey || !baseUrl || !isStorageConfigured()) return res.status(500).json({ error: 'Config missing' });
 
   try {
-    const sheetRes = await fetch(`${gasUrl}?action=gallery&t=${Date.now()}`);
-    if (!sheetRes.ok) throw new Error(`Failed to fetch Gallery: ${sheetRes.status}`);
-
-    const sheetData = await sheetRes.json();
-    const items: any[] = sheetData.items || [];
-
-    const processingTasks = items.filter(i => i.videoStatus === 'processing');
-    const queuedTasks = items.filter(i => i.videoStatus === 'queued');
-    const activeCount = processingTasks.length + queuedTasks.length;
+    const jobs: VideoJob[] = await fetchVideoJobs();
+    const report = { processed: 0, started: 0, rescued: 0, finalized: 0, errors: [] as string[] };
+
+    // 0. REAPER (Selamatkan job yang macet di processing / uploading)
+    const now = Date.now();
+    for (const job of jobs) {
+       const rescue = findStuckTransition(job, now);
+       if (!rescue) continue;
+       try {
+           const result = await transitionVideo(job.photoId, job.status, rescue.to, { error: rescue.reason });
+           if (result.ok) {
+               console.warn(`[TICK] Reaper ${job.photoId}: ${job.status} -> ${rescue.to} (${rescue.reason})`);
+               job.status = rescue.to;
+               report.rescued++;
+           }
+       } catch (e: any) {
+           report.errors.push(`reap ${job.photoId}: ${e.message}`);
+       }
+    }
 
-    const report = { processed: 0, started: 0, rescued: 0, errors: [] as string[] };
+    const processingTasks = jobs.filter(j => j.status === 'processing');
+    const readyTasks = jobs.filter(j => j.status === 'ready_url');
+    const queuedTasks = jobs.filter(j => j.status === 'queued');
+    const activeCount = jobs.filter(j => j.status !== 'failed').length;
 
     // 1. CHECK PROCESSING TASKS (Cek status yang sedang berjalan)
     for (const task of processingTasks) {
-       if (!task.videoTaskId) continue;
-       const statusUrl = `${baseUrl.replace(/\/$/, '')}/contents/generations/tasks/${task.videoTaskId}`;
-       const sRes = await fetch(statusUrl, { headers: { 'Authorization': `Bearer ${apiKey}` } });
+       if (!task.taskId) continue;
+       // Per task: one network error from ARK must not skip the other tasks, finalize, delivery and purge
+       try {
+           const statusUrl = `${baseUrl.replace(/\/$/, '')}/contents/generations/tasks/${task.taskId}`;
+           const sRes = await fetch(statusUrl, { headers: { 'Authorization': `Bearer ${apiKey}` } });
        
-       if (sRes.ok) {
-           const sData = await sRes.json();
-           const resultObj = sData.Result || sData.data || sData;
-           const status = (resultObj.status || 'processing').toLowerCase();
+           if (sRes.ok) {
+               const sData = await sRes.json();
+               const resultObj = sData.Result || sData.data || sData;
+               const status = (resultObj.status || 'processing').toLowerCase();
            
-           if (status === 'succeeded' || status === 'success') {
-               let videoUrl = resultObj.content?.video_url || resultObj.output?.video_url || resultObj.video_url;
-               if (videoUrl) {
-                   // [CRITICAL FIX] ATOMIC LOCK with RETRY
-                   console.log(`[TICK] Attempting lock for ${task.id}...`);
-                   
-                   try {
-                       const lockJson = await fetchGasWithRetry(gasUrl, { 
-                           action: 'updateVideoStatus', 
-                           photoId: task.id, 
-                           status: 'uploading', // Intermediate Lock State
-                           providerUrl: videoUrl,
-                           requireStatus: 'processing' // Optimistic Locking Requirement
-                       });
-
-                       if (lockJson.ok) {
-                           console.log(`[TICK] Lock acquired for ${task.id}. Triggering Finalize.`);
-                           
-                           // Trigger background upload to Drive
-                           // We use fire-and-forget logic here but with retry wrapper if needed, 
-                           // though `finalizeVideoUpload` is server-to-server and might be long running.
-                           fetch(gasUrl, {
-                               method: 'POST',
-                               headers: { "Content-Type": "text/plain" }, 
-                               body: JSON.stringify({ 
-                                   action: 'finalizeVideoUpload', 
-                                   photoId: task.id, 
-                                   videoUrl: videoUrl, 
-                                   sessionFolderId: task.sessionFolderId 
-                               })
-                           }).catch(e => console.error(`[TICK] Finalize trigger failed for ${task.id}`, e));
-                           
-                           report.processed++;
-                       } else {
-                           console.warn(`[TICK] Race condition detected for ${task.id}. Skipping duplicate upload.`);
+               if (status === 'succeeded' || status === 'success') {
+                   const videoUrl = resultObj.content?.video_url || resultObj.output?.video_url || resultObj.video_url;
+                   if (videoUrl) {
+                       try {
+                           const result = await transitionVideo(task.photoId, 'processing', 'ready_url', { providerUrl: videoUrl });
+                           if (result.ok) {
+                               task.status = 'ready_url';
+                               task.providerUrl = videoUrl;
+                               readyTasks.push(task);
+                               report.processed++;
+                           }
+                       } catch (e: any) {
+                           report.errors.push(`ready ${task.photoId}: ${e.message}`);
                        }
-                   } catch(lockErr: any) {
-                       console.error(`[TICK] Lock failed for ${task.id}:`, lockErr.message);
                    }
+               } else if (status === 'failed' || status === 'error') {
+                   const result = await transitionVideo(task.photoId, 'processing', 'failed', { error: `Provider status: ${status}` })
+                       .catch(e => { console.error("Fail update error", e); return null; });
+                   if (result?.ok) task.status = 'failed'; // Frees its render slot for step 3
                }
-           } else if (status === 'failed' || status === 'error') {
-               await fetchGasWithRetry(gasUrl, { action: 'updateVideoStatus', photoId: task.id, status: 'failed' }).catch(e => console.error("Fail update error", e));
            }
+       } catch (e: any) {
+           report.errors.push(`status ${task.photoId}: ${e.message}`);
+       }
+    }
+
+    // 2. FINALIZE READY TASKS (ready_url -> uploading -> done, upload oleh storage backend)
+    for (const task of readyTasks) {
+       if (!task.providerUrl) continue;
+       try {
+           // Compare-and-set: only one worker wins the upload
+           const lock = await transitionVideo(task.photoId, 'ready_url', 'uploading');
+           if (!lock.ok) {
+               console.warn(`[TICK] Race condition detected for ${task.photoId}. Skipping duplicate upload.`);
+               continue;
+           }
+           console.log(`[TICK] Lock acquired for ${task.photoId}. Triggering Finalize.`);
+
+           // Awaited: once the response is sent the platform may freeze this instance. finalizeVideoUpload moves
+           // the row to done / failed itself; a row it leaves in uploading is picked up by the reaper above
+           const finalized = await serverStoragePost({
+               action: 'finalizeVideoUpload',
+               photoId: task.photoId,
+               videoUrl: task.providerUrl,
+               sessionFolderId: task.sessionFolderId
+           });
+           if (!finalized?.ok) {
+               report.errors.push(`finalize ${task.photoId}: ${finalized?.error || 'unknown error'}`);
+               continue;
+           }
+
+           report.finalized++;
+       } catch (err: any) {
+           console.error(`[TICK] Finalize failed for ${task.photoId}:`, err.message);
+           report.errors.push(`finalize ${task.photoId}: ${err.message}`);
        }
     }
 
-    // 2. START QUEUED TASKS (Mulai render untuk antrian baru)
+    // 3. START QUEUED TASKS (Mulai render untuk antrian baru)
     const MAX_CONCURRENT = 3;
-    const availableSlots = MAX_CONCURRENT - processingTasks.length;
+    const availableSlots = MAX_CONCURRENT - processingTasks.filter(t => t.status === 'processing').length;
 
     if (availableSlots > 0 && queuedTasks.length > 0) {
         for (const task of queuedTasks.slice(0, availableSlots)) {
-             // PATCH: NATIVE RESOLUTION HANDLING
-             let finalRes = task.videoResolution || '480p'; 
-             if (finalRes !== '720p' && finalRes !== '480p') finalRes = '480p';
+            try {
+                // BUDGET: hard cap on the task's event (its own caps) fails the job instead of rendering
+                const budget = await loadEventBudget(task.eventId || '');
+                if (!allowsVideo(budget.level)) {
+                    const result = await transitionVideo(task.photoId, 'queued', 'failed', { error: BUDGET_VIDEO_ERROR });
+                    if (result.ok) console.warn(`[TICK] ${task.photoId} not started: budget ${budget.level}`);
+                    continue;
+                }
+
+                // PATCH: NATIVE RESOLUTION HANDLING
+                let finalRes = task.videoResolution || '480p'; 
+                if (finalRes !== '720p' && finalRes !== '480p') finalRes = '480p';
              
-             // PATCH A: Use Thumbnail URL for smaller input
-             const sizeParam = finalRes === '720p' ? 'w720' : 'w480';
-             const driveInputUrl = `https://drive.google.com/thumbnail?id=${task.id}&sz=${sizeParam}`;
-             console.log(`[TICK] Starting task ${task.id} with Drive input sz=${sizeParam}`);
-
-             // PATCH B: FORCE PROMPT FLAGS
-             const duration = 5;
-             const basePrompt = task.videoPrompt || "Cinematic movement";
-             const forcedPrompt = `${basePrompt} --rs ${finalRes} --dur ${duration}`;
-
-             const payload = {
-                model: task.videoModel || defaultModelId,
-                content: [
-                    { type: "text", text: forcedPrompt },
-                    { type: "image_url", image_url: { url: driveInputUrl } }
-                ],
-                parameters: { duration: duration, resolution: finalRes, audio: false }
-             };
-
-             const startRes = await fetch(`${baseUrl.replace(/\/$/, '')}/contents/generations/tasks`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-                body: JSON.stringify(payload)
-             });
+                // PATCH A: Use Thumbnail URL for smaller input
+                const sizeParam = finalRes === '720p' ? 'w720' : 'w480';
+                const driveInputUrl = await photoInputUrl(task.photoId, sizeParam);
+                if (!driveInputUrl) {
+                    report.errors.push(`start ${task.photoId}: input photo not found`);
+                    continue;
+                }
+                console.log(`[TICK] Starting task ${task.photoId} with input sz=${sizeParam}`);
+
+                // PATCH B: FORCE PROMPT FLAGS
+                const duration = 5;
+                const basePrompt = task.videoPrompt || "Cinematic movement";
+                const forcedPrompt = `${basePrompt} --rs ${finalRes} --dur ${duration}`;
+
+                const payload = {
+                   model: task.videoModel || defaultModelId,
+                   content: [
+                       { type: "text", text: forcedPrompt },
+                       { type: "image_url", image_url: { url: driveInputUrl } }
+                   ],
+                   parameters: { duration: duration, resolution: finalRes, audio: false }
+                };
+
+                const startRes = await fetch(`${baseUrl.replace(/\/$/, '')}/contents/generations/tasks`, {
+                   method: 'POST',
+                   headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+                   body: JSON.stringify(payload)
+                });
              
-             if (startRes.ok) {
-                 const startData = await startRes.json();
-                 const taskId = startData.id || startData.Result?.id;
-                 if (taskId) {
-                     try {
-                         await fetchGasWithRetry(gasUrl, { 
-                             action: 'updateVideoStatus', 
-                             photoId: task.id, 
-                             status: 'processing', 
-                             taskId: taskId 
-                         });
-                         report.started++;
-                     } catch(e) {
-                         console.error(`[TICK] Failed to update start status for ${task.id}`, e);
-                     }
-                 }
-             }
+                if (startRes.ok) {
+                    const startData = await startRes.json();
+                    const taskId = startData.id || startData.Result?.id;
+                    if (taskId) {
+                        try {
+                            const result = await transitionVideo(task.photoId, 'queued', 'processing', { taskId });
+                            if (result.ok) report.started++;
+                        } catch(e) {
+                            console.error(`[TICK] Failed to update start status for ${task.photoId}`, e);
+                        }
+                    }
+                }
+            } catch (e: any) {
+                report.errors.push(`start ${task.photoId}: ${e.message}`);
+            }
         }
     }
 
-    return res.status(200).json({ ok: true, report, activeCount });
+    // 4. GUEST DELIVERY (link video yang sudah done + retry kiriman foto yang gagal)
+    let delivery: DeliveryReport | null = null;
+    if (isDeliveryConfigured()) {
+        try {
+            delivery = await runDeliveries(requestBaseUrl(req));
+        } catch (e: any) {
+            report.errors.push(`delivery: ${e.message}`);
+        }
+    }
+
+    // 5. DATA RETENTION (backend membatasi sendiri ke sekali per PURGE_INTERVAL_MS)
+    let purged = 0;
+    try {
+        const purge = await serverStoragePost({ action: 'purgeExpired' });
+        if (purge.ok) purged = purge.purged || 0;
+        else report.errors.push(`purge: ${purge.error}`);
+    } catch (e: any) {
+        report.errors.push(`purge: ${e.message}`);
+    }
+
+    return res.status(200).json({ ok: true, report, delivery, purged, activeCount });
   } catch (e: any) {
     return res.status(500).json({ error: e.message });
   }
 }
+
+// Polled every 5-20s per kiosk while video mode is on
+export default withApi({ name: 'video-tick', methods: ['GET'], auth: 'kiosk', rateLimit: { capacity: 30, refillPerMinute: 20 } }, handler);
@@ -25,94 +25,121 @@ function doGet(e) {
   const ss = getOrInitSpreadsheet(); 
   
   if (action === 'getSettings') {
-    const storedConcepts = getConceptsData();
+    runEventSchedule(ss);
+    return createJsonResponse({ ok: true, settings: readSettings(ss), concepts: getConceptsData(), configVersion: readConfigVersion() });
+  }
+
+  // Dipoll /api/config/stream; juga memicu jadwal event supaya aktivasi terjadwal sampai ke kiosk
+  if (action === 'configVersion') {
+    runEventSchedule(ss);
+    return createJsonResponse(Object.assign({ ok: true }, readConfigVersion()));
+  }
+
+  if (action === 'getEvents') {
+    runEventSchedule(ss);
+    return createJsonResponse({ ok: true, events: listEvents(ss) });
+  }
+
+  if (action === 'getEventProfile') {
+    const eventId = String(e.parameter.id || '');
+    const event = listEvents(ss).find((ev) => ev.id === eventId);
+    if (!event) return createJsonResponse({ ok: false, error: 'Event not found' });
+    const revisions = listProfileRevisions(ss, eventId);
+    const target = e.parameter.revision
+      ? revisions.find((r) => r.revision === Number(e.parameter.revision))
+      : revisions[revisions.length - 1];
+    if (e.parameter.revision && !target) return createJsonResponse({ ok: false, error: 'Revision not found' });
     return createJsonResponse({
       ok: true,
-      settings: {
-        eventName: SCRIPT_PROP.getProperty('EVENT_NAME') || 'COROAI PHOTOBOOTH',
-        eventDescription: SCRIPT_PROP.getProperty('EVENT_DESC') || 'Transform Your Reality',
-        folderId: SCRIPT_PROP.getProperty('FOLDER_ID') || '',
-        originalFolderId: SCRIPT_PROP.getProperty('ORIGINAL_FOLDER_ID') || '',
-        // Return ID spreadsheet yang sedang aktif digunakan untuk verifikasi di frontend
-        spreadsheetId: ss.getId(), 
-        spreadsheetUrl: ss.getUrl(), 
-        overlayImage: SCRIPT_PROP.getProperty('OVERLAY_IMAGE') || null,
-        backgroundImage: SCRIPT_PROP.getProperty('BACKGROUND_IMAGE') || null,
-        backgroundVideoUrl: SCRIPT_PROP.getProperty('BACKGROUND_VIDEO') || null,
-        backgroundAudio: SCRIPT_PROP.getProperty('BACKGROUND_AUDIO') || null,
-        videoPrompt: SCRIPT_PROP.getProperty('VIDEO_PROMPT') || 'Cinematic slow motion',
-        boothMode: SCRIPT_PROP.getProperty('BOOTH_MODE') || 'video',
-        videoResolution: SCRIPT_PROP.getProperty('VIDEO_RESOLUTION') || '480p', 
-        videoModel: SCRIPT_PROP.getProperty('VIDEO_MODEL') || 'seedance-1-0-pro-fast-251015', 
-        monitorImageSize: SCRIPT_PROP.getProperty('MONITOR_IMG_SIZE') || 'medium',
-        monitorTheme: SCRIPT_PROP.getProperty('MONITOR_THEME') || 'physics',
-        gptModelSize: SCRIPT_PROP.getProperty('GPT_MODEL_SIZE') || '1024',
-        adminPin: SCRIPT_PROP.getProperty('ADMIN_PIN') || '1234',
-        autoResetTime: parseInt(SCRIPT_PROP.getProperty('AUTO_RESET')) || 60,
-        orientation: SCRIPT_PROP.getProperty('ORIENTATION') || 'portrait',
-        outputRatio: SCRIPT_PROP.getProperty('OUTPUT_RATIO') || '9:16',
-        cameraRotation: parseInt(SCRIPT_PROP.getProperty('CAMERA_ROTATION')) || 0,
-        promptMode: SCRIPT_PROP.getProperty('PROMPT_MODE') || 'wrapped'
-      },
-      concepts: storedConcepts
+      event: event,
+      revision: target ? target.revision : 0,
+      profile: target ? readProfileFile(target.fileId) : null,
+      revisions: revisions.map((r) => ({ eventId: r.eventId, revision: r.revision, savedAt: r.savedAt, note: r.note }))
     });
   }
 
+  // Halaman (filter + before) atau delta (since), lihat lib/galleryQuery.ts
   if (action === 'gallery') {
     const sheet = ss.getSheetByName('Gallery');
-    if (!sheet) return createJsonResponse({ items: [], nextCursor: 0 });
+    if (!sheet) return createJsonResponse({ items: [], nextCursor: 0, olderCursor: '' });
     
     const since = e.parameter.since ? Number(e.parameter.since) : 0;
-    const isFullSync = since === 0;
-    
-    const dataRange = sheet.getDataRange();
-    const values = dataRange.getValues();
+    const isDelta = since > 0;
     
-    if (values.length <= 1) return createJsonResponse({ items: [], nextCursor: 0 });
+    const values = sheet.getDataRange().getValues();
+    if (values.length <= 1) return createJsonResponse({ items: [], nextCursor: 0, olderCursor: '' });
     
     const headers = values[0];
-    const idIndex = headers.indexOf('id');
-    const createdAtIndex = headers.indexOf('createdAt');
-    const updatedAtIndex = headers.indexOf('updatedAt');
-    
-    let items = [];
+    let rows = [];
     let maxTimestamp = since;
 
     for (let i = values.length - 1; i >= 1; i--) {
-        const row = values[i];
-        if (!row[idIndex]) continue;
-
-        let rowTs = 0;
-        if (updatedAtIndex !== -1 && row[updatedAtIndex]) {
-            rowTs = new Date(row[updatedAtIndex]).getTime();
-        } else if (createdAtIndex !== -1 && row[createdAtIndex]) {
-            rowTs = new Date(row[createdAtIndex]).getTime();
-        }
+        let obj = {};
+        headers.forEach((h, idx) => { if (PRIVATE_GALLERY_COLUMNS.indexOf(h) === -1) obj[h] = values[i][idx]; });
+        if (!obj.id) continue;
 
+        const rowTs = new Date(obj.updatedAt || obj.createdAt || 0).getTime() || 0;
         if (rowTs > maxTimestamp) maxTimestamp = rowTs;
-
-        if (isFullSync) {
-            if (items.length < 50) { 
-                let obj = {};
-                headers.forEach((h, idx) => { obj[h] = row[idx]; });
-                items.push(obj);
-            }
-        } else {
-            if (rowTs > since) { 
-                let obj = {};
-                headers.forEach((h, idx) => { obj[h] = row[idx]; });
-                items.push(obj);
-            }
-        }
+        // Delta tanpa filter; baris terhapus ikut supaya client membuangnya
+        if (!isDelta || rowTs > since) rows.push(obj);
     }
-    
+
+    if (isDelta) return createJsonResponse({ items: rows, nextCursor: maxTimestamp, isDelta: true });
+
+    const page = pageGalleryRows(rows, normalizeGalleryQuery(e.parameter), e.parameter.before, clampGalleryLimit(e.parameter.limit));
     return createJsonResponse({ 
-        items: items, 
+        items: page.rows, 
         nextCursor: maxTimestamp,
-        isDelta: !isFullSync
+        olderCursor: page.olderCursor,
+        isDelta: false
     }); 
   }
   
+  // Halaman tamu /share/:token (lewat /api/share). Token = satu-satunya kunci; baris terhapus tidak tampil
+  if (action === 'share') {
+    const token = String(e.parameter.token || '').trim();
+    const row = token ? findShareRow(ss, token) : null;
+    if (!row) return createJsonResponse({ ok: false, error: 'Not found' });
+    return createJsonResponse({ ok: true, share: toSharedPhoto(row, shareBranding(ss, row)) });
+  }
+
+  // Active video jobs across the whole sheet (tick worker), not limited like 'gallery'
+  if (action === 'videoJobs') {
+    const sheet = ss.getSheetByName('Gallery');
+    if (!sheet) return createJsonResponse({ items: [] });
+    const values = sheet.getDataRange().getValues();
+    if (values.length <= 1) return createJsonResponse({ items: [] });
+
+    const headers = values[0];
+    const statusIndex = headers.indexOf('videoStatus');
+    const deletedAtIndex = headers.indexOf('deletedAt');
+    const items = [];
+    for (let i = 1; i < values.length; i++) {
+        if (VIDEO_ACTIVE_STATES.indexOf(values[i][statusIndex]) === -1) continue;
+        if (deletedAtIndex !== -1 && values[i][deletedAtIndex]) continue;
+        let obj = {};
+        headers.forEach((h, idx) => { if (PRIVATE_GALLERY_COLUMNS.indexOf(h) === -1) obj[h] = values[i][idx]; });
+        items.push(obj);
+    }
+    return createJsonResponse({ items: items });
+  }
+
+  // Biaya event (lib/costs.ts): baris terhapus / purged tetap dihitung, uangnya sudah keluar.
+  // eventId kosong = baris tanpa event
+  if (action === 'costRows') {
+    const eventId = String(e.parameter.eventId || '').trim();
+    const sheets = [ss.getSheetByName('Gallery'), ss.getSheetByName('GalleryArchive')].filter((sheet) => sheet);
+    const rows = [];
+    sheets.forEach((sheet) => {
+      readSheetObjects(sheet).rows.filter((r) => String(r.eventId || '').trim() === eventId).forEach((r) => {
+        const item = {};
+        COST_ROW_COLUMNS.forEach((column) => { if (r[column] !== undefined) item[column] = r[column]; });
+        rows.push(item);
+      });
+    });
+    return createJsonResponse({ ok: true, rows: rows });
+  }
+
   if (action === 'getBase64') {
     const id = e.parameter.id;
     try {
@@ -140,11 +167,54 @@ function doPost(e) {
       
       const action = data.action;
       const ss = getOrInitSpreadsheet();
-      const adminPin = SCRIPT_PROP.getProperty('ADMIN_PIN') || "1234";
       const nowIso = new Date().toISOString(); 
       
+      // --- ADMIN AUTH ---
+      if (action === 'adminLogin') {
+          return executeWithLock(() => {
+              if (!hasAdminPin()) return createJsonResponse({ ok: false, error: 'SETUP_REQUIRED' });
+              const lockedUntil = Number(SCRIPT_PROP.getProperty('ADMIN_LOCKED_UNTIL')) || 0;
+              if (lockedUntil > Date.now()) {
+                  return createJsonResponse({ ok: false, error: 'LOCKED', lockedUntil: new Date(lockedUntil).toISOString() });
+              }
+              if (!verifyAdminPin(data.pin)) return createJsonResponse(registerFailedLogin());
+              SCRIPT_PROP.deleteProperty('ADMIN_FAILED_LOGINS');
+              return createJsonResponse(Object.assign({ ok: true }, issueAdminToken()));
+          });
+      }
+
+      if (action === 'setupAdminPin') {
+          return executeWithLock(() => {
+              if (hasAdminPin()) return createJsonResponse({ ok: false, error: 'PIN already configured' });
+              const pinError = validateNewPin(String(data.pin || ''));
+              if (pinError) return createJsonResponse({ ok: false, error: pinError });
+              storeAdminPin(String(data.pin));
+              return createJsonResponse(Object.assign({ ok: true }, issueAdminToken()));
+          });
+      }
+
+      if (action === 'changeAdminPin') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          return executeWithLock(() => {
+              const lockedUntil = Number(SCRIPT_PROP.getProperty('ADMIN_LOCKED_UNTIL')) || 0;
+              if (lockedUntil > Date.now()) {
+                  return createJsonResponse({ ok: false, error: 'LOCKED', lockedUntil: new Date(lockedUntil).toISOString() });
+              }
+              if (!verifyAdminPin(data.currentPin)) return createJsonResponse(registerFailedLogin());
+              const pinError = validateNewPin(String(data.newPin || ''));
+              if (pinError) return createJsonResponse({ ok: false, error: pinError });
+              storeAdminPin(String(data.newPin)); // Semua sesi lain ikut tidak berlaku
+              return createJsonResponse(Object.assign({ ok: true }, issueAdminToken()));
+          });
+      }
+
+      if (action === 'adminLogout') {
+          if (data.token) CacheService.getScriptCache().remove(adminTokenKey(data.token));
+          return createJsonResponse({ ok: true });
+      }
+
       if (action === 'updateConcepts') {
-          if (String(data.pin) !== String(adminPin)) return createJsonResponse({ ok: false, error: 'INVALID PIN' });
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
           if (data.concepts) {
             return executeWithLock(() => {
                 saveConceptsData(data.concepts);
@@ -193,6 +263,10 @@ function doPost(e) {
                      if (status === 'done' || (fileId && fileId !== '')) {
                          return { skip: true, reason: 'Already uploaded' };
                      }
+                     // Only the worker that won ready_url -> uploading may upload
+                     if (status !== 'uploading') {
+                         return { skip: true, reason: 'Not in uploading state (' + status + ')' };
+                     }
                      return { skip: false };
                  }
              }
@@ -245,10 +319,9 @@ function doPost(e) {
                  const gallerySheet = ensureGallerySheet(ss);
                  const values = gallerySheet.getDataRange().getValues();
                  const idIndex = values[0].indexOf('id');
-                 const statusIndex = values[0].indexOf('videoStatus');
                  for (let i = 1; i < values.length; i++) {
                      if (values[i][idIndex] === photoId) {
-                         gallerySheet.getRange(i + 1, statusIndex + 1).setValue('failed');
+                         applyVideoTransition(gallerySheet, values[0], values[i], i + 1, 'failed', { from: 'uploading', error: e.toString() }, nowIso);
                          break;
                      }
                  }
@@ -263,33 +336,37 @@ function doPost(e) {
              const headers = values[0];
              
              const idIndex = headers.indexOf('id');
-             const statusIndex = headers.indexOf('videoStatus');
              const fileIdIndex = headers.indexOf('videoFileId');
-             const updatedAtIndex = headers.indexOf('updatedAt');
              
-             let targetRowIndex = -1;
+             let targetIndex = -1;
              
              for (let i = 1; i < values.length; i++) {
                  if (values[i][idIndex] === photoId) {
-                     targetRowIndex = i + 1;
+                     targetIndex = i;
                      break;
                  }
              }
 
-             if (targetRowIndex === -1) return createJsonResponse({ ok: false, error: "Photo ID not found" });
+             if (targetIndex === -1) return createJsonResponse({ ok: false, error: "Photo ID not found" });
 
-             gallerySheet.getRange(targetRowIndex, statusIndex + 1).setValue('done');
-             gallerySheet.getRange(targetRowIndex, fileIdIndex + 1).setValue(fileId);
-             if (updatedAtIndex !== -1) gallerySheet.getRange(targetRowIndex, updatedAtIndex + 1).setValue(nowIso);
+             const result = applyVideoTransition(gallerySheet, headers, values[targetIndex], targetIndex + 1, 'done', { from: 'uploading' }, nowIso);
+             if (!result.ok) return createJsonResponse(result);
+             gallerySheet.getRange(targetIndex + 1, fileIdIndex + 1).setValue(fileId);
              
              return createJsonResponse({ ok: true, fileId: fileId, folderId: folderId });
          });
       }
 
       if (action === 'uploadGenerated' || action === 'uploadGeneratedVideo') {
+        const startedAt = Date.now();
         const skipGallery = data.skipGallery === true;
         const isVideo = action === 'uploadGeneratedVideo';
         const targetFolderId = data.folderId || SCRIPT_PROP.getProperty('FOLDER_ID');
+        const idempotencyKey = isIdempotencyKey(data.idempotencyKey) ? data.idempotencyKey : '';
+
+        // Request ulang (response pertama hilang / retry bersamaan): hasil yang sama, tanpa file / baris baru
+        const reservation = reserveIdempotentKey(idempotencyKey);
+        if (reservation.result) return createJsonResponse(reservation.result);
         
         let file;
         try {
@@ -299,7 +376,11 @@ function doPost(e) {
             
             let blob;
             if (isVideo) {
-              blob = Utilities.newBlob(Utilities.base64Decode(data.image.split(',')[1]), 'video/mp4', `VIDEO_${new Date().getTime()}.mp4`);
+              // Boomerang uploads GIF + WebM/MP4 lewat jalur yang sama
+              const mimeType = data.mimeType || 'video/mp4';
+              const ext = mimeType === 'image/gif' ? 'gif' : mimeType === 'video/webm' ? 'webm' : 'mp4';
+              const prefix = data.mediaType === 'boomerang' ? 'BOOMERANG' : 'VIDEO';
+              blob = Utilities.newBlob(Utilities.base64Decode(data.image.split(',')[1]), mimeType, `${prefix}_${new Date().getTime()}.${ext}`);
             } else {
               // CHANGE: Save as JPG (image/jpeg)
               blob = Utilities.newBlob(Utilities.base64Decode(data.image.split(',')[1]), 'image/jpeg', `PHOTO_${new Date().getTime()}.jpg`);
@@ -308,11 +389,13 @@ function doPost(e) {
             file = folder.createFile(blob);
             file.setSharing(DriveApp.Access.ANYONE_WITH_LINK, DriveApp.Permission.VIEW);
         } catch(e) {
+            releaseIdempotentKey(idempotencyKey);
             return createJsonResponse({ ok: false, error: "Drive Upload Failed: " + e.message });
         }
         
         if (!skipGallery) {
-            return executeWithLock(() => {
+          try {
+            executeWithLock(() => {
                 const gallerySheet = ensureGallerySheet(ss);
                 const headers = gallerySheet.getRange(1, 1, 1, gallerySheet.getLastColumn()).getValues()[0];
                 const rowData = new Array(headers.length).fill("");
@@ -324,45 +407,49 @@ function doPost(e) {
                     'imageUrl': `https://drive.google.com/thumbnail?id=${file.getId()}&sz=w1000`,
                     'downloadUrl': `https://drive.google.com/file/d/${file.getId()}/view`,
                     'token': Utilities.getUuid(),
-                    'type': isVideo ? 'video' : 'image',
+                    'type': data.mediaType === 'boomerang' ? 'boomerang' : (isVideo ? 'video' : 'image'),
                     'originalId': data.originalId || "", 
                     'relatedPhotoId': data.relatedPhotoId || "",
                     'sessionFolderId': data.sessionFolderId || "",
                     'sessionFolderUrl': data.sessionFolderUrl || "",
                     'videoStatus': isVideo ? 'done' : 'idle',
-                    'videoFileId': isVideo ? file.getId() : ""
+                    'videoFileId': data.videoFileId || (isVideo ? file.getId() : ""),
+                    'aiModel': data.aiModel || "",
+                    'layout': data.layout || "",
+                    'frames': data.frames || ""
                 };
+                Object.assign(map, generationColumns(data, startedAt, Date.now()));
                 headers.forEach((h, i) => { if (map[h] !== undefined) rowData[i] = map[h]; });
                 gallerySheet.appendRow(rowData);
-                return createJsonResponse({ ok: true, id: file.getId() });
             });
+          } catch (e) {
+            releaseIdempotentKey(idempotencyKey);
+            throw e;
+          }
         }
         
-        return createJsonResponse({ ok: true, id: file.getId() });
+        const result = { ok: true, id: file.getId() };
+        rememberIdempotentResult(idempotencyKey, result);
+        return createJsonResponse(result);
       }
 
       if (action === 'queueVideo') {
          return executeWithLock(() => {
              const gallerySheet = ensureGallerySheet(ss);
-             const dataRange = gallerySheet.getDataRange();
-             const values = dataRange.getValues();
+             const values = gallerySheet.getDataRange().getValues();
              const headers = values[0];
              const idIndex = headers.indexOf('id');
-             const statusIndex = headers.indexOf('videoStatus');
              const promptIndex = headers.indexOf('videoPrompt');
-             const resIndex = headers.indexOf('videoResolution');
-             const modelIndex = headers.indexOf('videoModel');
-             const updatedAtIndex = headers.indexOf('updatedAt');
              
              for (let i = 1; i < values.length; i++) {
                  if (values[i][idIndex] === data.photoId) {
                      const row = i + 1;
-                     gallerySheet.getRange(row, statusIndex + 1).setValue('queued');
-                     if (data.prompt) gallerySheet.getRange(row, promptIndex + 1).setValue(data.prompt);
-                     if (data.resolution) gallerySheet.getRange(row, resIndex + 1).setValue(data.resolution);
-                     if (data.model) gallerySheet.getRange(row, modelIndex + 1).setValue(data.model);
-                     if (updatedAtIndex !== -1) gallerySheet.getRange(row, updatedAtIndex + 1).setValue(nowIso);
-                     return createJsonResponse({ ok: true });
+                     const result = applyVideoTransition(gallerySheet, headers, values[i], row, 'queued', {
+                         videoModel: data.model,
+                         videoResolution: data.resolution
+                     }, nowIso);
+                     if (result.ok && data.prompt) gallerySheet.getRange(row, promptIndex + 1).setValue(data.prompt);
+                     return createJsonResponse(result);
                  }
              }
              return createJsonResponse({ ok: false, error: 'Photo ID not found' });
@@ -372,101 +459,450 @@ function doPost(e) {
       if (action === 'updateVideoStatus') {
          return executeWithLock(() => {
              const gallerySheet = ensureGallerySheet(ss);
-             const dataRange = gallerySheet.getDataRange();
-             const values = dataRange.getValues();
+             const values = gallerySheet.getDataRange().getValues();
              const headers = values[0];
              const idIndex = headers.indexOf('id');
-             const statusIndex = headers.indexOf('videoStatus');
-             const taskIndex = headers.indexOf('videoTaskId');
-             const providerUrlIndex = headers.indexOf('providerUrl');
-             const updatedAtIndex = headers.indexOf('updatedAt');
              
              for (let i = 1; i < values.length; i++) {
                  if (values[i][idIndex] === data.photoId) {
-                     const row = i + 1;
-                     
-                     if (data.requireStatus) {
-                         const currentStatus = values[i][statusIndex];
-                         if (currentStatus !== data.requireStatus) {
-                             return createJsonResponse({ ok: false, error: 'Status mismatch', current: currentStatus });
-                         }
-                     }
-
-                     if (data.status) gallerySheet.getRange(row, statusIndex + 1).setValue(data.status);
-                     if (data.taskId) gallerySheet.getRange(row, taskIndex + 1).setValue(data.taskId);
-                     if (data.providerUrl) gallerySheet.getRange(row, providerUrlIndex + 1).setValue(data.providerUrl);
-                     if (updatedAtIndex !== -1) gallerySheet.getRange(row, updatedAtIndex + 1).setValue(nowIso);
-                     return createJsonResponse({ ok: true });
+                     // requireStatus = compare-and-set (optimistic lock)
+                     const result = applyVideoTransition(gallerySheet, headers, values[i], i + 1, data.status, {
+                         from: data.requireStatus,
+                         taskId: data.taskId,
+                         providerUrl: data.providerUrl,
+                         videoModel: data.videoModel,
+                         videoResolution: data.videoResolution,
+                         error: data.error
+                     }, nowIso);
+                     return createJsonResponse(result);
                  }
              }
              return createJsonResponse({ ok: false, error: 'Photo ID not found' });
          });
       }
 
+      // Soft delete: baris ditandai (deletedAt/deletedBy), file & folder sesi dipindah ke Trash Drive
       if (action === 'deletePhoto') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const targetId = String(data.id).trim();
+          const result = executeWithLock(() => {
+              const gallerySheet = ensureGallerySheet(ss);
+              const table = readSheetObjects(gallerySheet);
+              const row = table.rows.find((r) => String(r.id).trim() === targetId && !r.deletedAt);
+              if (!row) return { ok: false, error: `ID ${targetId} not found in sheet` };
+              markGalleryRows(gallerySheet, table, [row], { deletedAt: nowIso, deletedBy: adminActor(data.token), updatedAt: nowIso });
+              // Original / folder sesi bisa dipakai bersama hasil regenerate yang masih tampil
+              const inUse = galleryDriveIds(table.rows.filter((r) => r !== row && !r.deletedAt));
+              return { ok: true, files: galleryDriveIds([row]).filter((id) => inUse.indexOf(id) === -1) };
+          });
+          if (!result.ok) return createJsonResponse(result);
+          setDriveTrashed(result.files, true);
+          return createJsonResponse({ ok: true, deletedAt: nowIso });
+      }
+
+      if (action === 'deleteAllPhotos') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const result = executeWithLock(() => {
+              const gallerySheet = ensureGallerySheet(ss);
+              const table = readSheetObjects(gallerySheet);
+              const live = table.rows.filter((r) => String(r.id).trim() !== '' && !r.deletedAt);
+              markGalleryRows(gallerySheet, table, live, { deletedAt: nowIso, deletedBy: adminActor(data.token), updatedAt: nowIso });
+              return { count: live.length, files: galleryDriveIds(live) };
+          });
+          // Di luar lock: Drive lambat dan upload kiosk tidak perlu menunggu
+          setDriveTrashed(result.files, true);
+          return createJsonResponse({ ok: true, deleted: result.count });
+      }
+
+      if (action === 'listDeletedPhotos') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const table = readSheetObjects(ensureGallerySheet(ss));
+          const items = table.rows
+              .filter((r) => r.deletedAt && !r.purgedAt)
+              .map((r) => {
+                  const item = {};
+                  table.headers.forEach((h) => { if (PRIVATE_GALLERY_COLUMNS.indexOf(h) === -1) item[h] = r[h]; });
+                  item.deletedAt = toIsoValue(r.deletedAt);
+                  return item;
+              })
+              .sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime())
+              .slice(0, DELETED_GALLERY_LIMIT);
+          return createJsonResponse({ ok: true, items: items });
+      }
+
+      if (action === 'restorePhoto') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const targetId = String(data.id).trim();
+          const result = executeWithLock(() => {
+              const gallerySheet = ensureGallerySheet(ss);
+              const table = readSheetObjects(gallerySheet);
+              const row = table.rows.find((r) => String(r.id).trim() === targetId && r.deletedAt && !r.purgedAt);
+              if (!row) return { ok: false, error: `Deleted photo ${targetId} not found` };
+              markGalleryRows(gallerySheet, table, [row], { deletedAt: '', deletedBy: '', updatedAt: nowIso });
+              return { ok: true, files: galleryDriveIds([row]) };
+          });
+          if (!result.ok) return createJsonResponse(result);
+          setDriveTrashed(result.files, false);
+          return createJsonResponse({ ok: true, restoredAt: nowIso });
+      }
+
+      // --- GUEST DELIVERY ---
+
+      // Dari kiosk (tanpa sesi admin). Kontak bisa diganti selama belum ada kiriman yang terkirim
+      if (action === 'setGuestContact') {
+          const normalized = normalizeContact(data.contact || {});
+          if (!normalized.contact) return createJsonResponse({ ok: false, error: normalized.error });
           return executeWithLock(() => {
               const gallerySheet = ensureGallerySheet(ss);
-              const dataRange = gallerySheet.getDataRange();
-              const values = dataRange.getValues();
-              const headers = values[0];
-              const idIndex = headers.indexOf('id');
-              if (idIndex === -1) return createJsonResponse({ ok: false, error: 'ID column not found in sheet' });
-              const targetId = String(data.id).trim();
-              for (let i = 1; i < values.length; i++) {
-                 const rowId = String(values[i][idIndex]).trim();
-                 if (rowId === targetId) {
-                     gallerySheet.deleteRow(i + 1);
-                     return createJsonResponse({ ok: true });
-                 }
+              const table = readSheetObjects(gallerySheet);
+              const row = table.rows.find((r) => String(r.id).trim() === String(data.photoId).trim() && !r.deletedAt);
+              if (!row) return createJsonResponse({ ok: false, error: 'Photo ID not found' });
+              const log = parseDeliveryLog(row.delivery);
+              if (Object.keys(log).some((kind) => log[kind] && log[kind].status === 'sent')) {
+                  return createJsonResponse({ ok: false, error: 'ALREADY_SENT' });
               }
-              return createJsonResponse({ ok: false, error: `ID ${targetId} not found in sheet` });
+              gallerySheet.getRange(row._row, table.headers.indexOf('guestContact') + 1).setValue(JSON.stringify(normalized.contact));
+              gallerySheet.getRange(row._row, table.headers.indexOf('delivery') + 1).setValue('');
+              return createJsonResponse({ ok: true });
           });
       }
 
-      if (action === 'deleteAllPhotos') {
-          if (String(data.pin) !== String(adminPin)) return createJsonResponse({ ok: false, error: 'INVALID PIN' });
+      if (action === 'pendingDeliveries') {
+          if (!isWorkerRequest(data.workerSecret)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const now = Date.now();
+          const items = [];
+          readSheetObjects(ensureGallerySheet(ss)).rows.forEach((row) => {
+              const kinds = dueDeliveryKinds(row, now);
+              const contact = parseContact(row.guestContact);
+              if (kinds.length === 0 || !contact) return;
+              items.push({
+                  photoId: String(row.id),
+                  token: String(row.token),
+                  deleteKey: shareDeleteKey(String(row.token)),
+                  type: row.type === 'video' || row.type === 'boomerang' ? row.type : 'image',
+                  conceptName: String(row.conceptName || ''),
+                  eventName: shareBranding(ss, row).eventName,
+                  contact: contact,
+                  kinds: kinds
+              });
+          });
+          return createJsonResponse({ ok: true, items: items });
+      }
+
+      // Token share untuk QR Gallery / Monitor kiosk (/api/share-link); tidak pernah lewat read publik
+      if (action === 'shareTokens') {
+          if (!isWorkerRequest(data.workerSecret)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const ids = (Array.isArray(data.photoIds) ? data.photoIds : []).map((id) => String(id).trim());
+          const tokens = {};
+          readSheetObjects(ensureGallerySheet(ss)).rows.forEach((row) => {
+              if (ids.indexOf(String(row.id).trim()) !== -1 && row.token && !row.deletedAt) tokens[String(row.id)] = String(row.token);
+          });
+          return createJsonResponse({ ok: true, tokens: tokens });
+      }
+
+      if (action === 'updateDelivery') {
+          if (!isWorkerRequest(data.workerSecret)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
           return executeWithLock(() => {
               const gallerySheet = ensureGallerySheet(ss);
-              const lastRow = gallerySheet.getLastRow();
-              if (lastRow > 1) {
-                 gallerySheet.deleteRows(2, lastRow - 1);
+              const table = readSheetObjects(gallerySheet);
+              const row = table.rows.find((r) => String(r.id).trim() === String(data.photoId).trim());
+              if (!row) return createJsonResponse({ ok: false, error: 'Photo ID not found' });
+              const result = applyDeliveryUpdate(row, data.kind, data.status, { error: data.error, channels: data.channels }, nowIso);
+              if (result.ok) gallerySheet.getRange(row._row, table.headers.indexOf('delivery') + 1).setValue(row.delivery);
+              return createJsonResponse(result);
+          });
+      }
+
+      // --- DATA RETENTION ---
+
+      // Dari /api/video/tick (dibatasi PURGE_INTERVAL_MS) atau Admin "Run Purge Now" (force, perlu sesi admin).
+      // Tanpa auth untuk tick: hanya menjalankan retentionDays yang sudah diatur admin.
+      if (action === 'purgeExpired') {
+          if (data.force && !isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          return createJsonResponse(purgeExpiredRows(ss, !!data.force, data.force ? adminActor(data.token) : 'system'));
+      }
+
+      // "Delete my data" dari /share/:token. Butuh token share + deleteKey dari link delivery tamu (bukan QR)
+      if (action === 'forgetShare') {
+          const shareToken = String(data.shareToken || '').trim();
+          if (!/^[A-Za-z0-9-]{8,64}$/.test(shareToken)) return createJsonResponse({ ok: false, error: 'Not found' });
+          if (!isShareDeleteKey(shareToken, data.deleteKey)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const result = executeWithLock(() => purgeGalleryRows(ss, (rows) => {
+              const target = rows.find((r) => String(r.token).trim() === shareToken && !r.purgedAt);
+              return target ? guestSessionRows(rows, target) : [];
+          }, 'guest_request', 'guest', nowIso));
+          if (result.count === 0) return createJsonResponse({ ok: false, error: 'Not found' });
+          deleteDriveItems(result.files);
+          return createJsonResponse({ ok: true, purged: result.count });
+      }
+
+      if (action === 'listPurgeLog') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const entries = readSheetObjects(ensurePurgeLogSheet(ss)).rows
+              .slice(-PURGE_LOG_LIMIT)
+              .reverse()
+              .map((r) => ({
+                  at: toIsoValue(r.at),
+                  reason: String(r.reason),
+                  actor: String(r.actor),
+                  photoId: String(r.photoId),
+                  eventId: String(r.eventId || ''),
+                  capturedAt: toIsoValue(r.capturedAt),
+                  files: Number(r.files) || 0
+              }));
+          return createJsonResponse({ ok: true, entries: entries });
+      }
+
+      // --- ANALYTICS ---
+
+      // Dari kiosk (tanpa sesi admin), best-effort. updatedAt tidak diubah: cetak tidak perlu ikut delta gallery
+      if (action === 'recordPrint') {
+          return executeWithLock(() => {
+              const gallerySheet = ensureGallerySheet(ss);
+              const table = readSheetObjects(gallerySheet);
+              const row = table.rows.find((r) => String(r.id).trim() === String(data.photoId).trim());
+              if (!row) return createJsonResponse({ ok: false, error: 'Photo ID not found' });
+              const prints = (Number(row.prints) || 0) + 1;
+              gallerySheet.getRange(row._row, table.headers.indexOf('prints') + 1).setValue(prints);
+              return createJsonResponse({ ok: true, prints: prints });
+          });
+      }
+
+      // Data mentah (kolom seperlunya) untuk lib/analytics.ts; eventId kosong = semua event
+      if (action === 'analyticsData') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const eventId = String(data.eventId || '').trim();
+          const inEvent = (r) => !eventId || String(r.eventId || '').trim() === eventId;
+          const sheets = [ensureGallerySheet(ss), ss.getSheetByName('GalleryArchive')].filter((sheet) => sheet);
+          const rows = [];
+          sheets.forEach((sheet) => {
+              readSheetObjects(sheet).rows.filter(inEvent).forEach((r) => {
+                  const item = {};
+                  ANALYTICS_ROW_COLUMNS.forEach((column) => {
+                      if (r[column] !== undefined) item[column] = r[column] instanceof Date ? r[column].toISOString() : r[column];
+                  });
+                  rows.push(item);
+              });
+          });
+          const jobs = readSheetObjects(ensureJobsSheet(ss)).rows.filter(inEvent).map((j) => ({
+              status: String(j.status),
+              conceptName: String(j.conceptName || ''),
+              eventId: String(j.eventId || ''),
+              aiModel: String(j.aiModel || ''),
+              createdAt: Number(j.createdAt) || 0,
+              updatedAt: Number(j.updatedAt) || 0
+          }));
+          return createJsonResponse({ ok: true, rows: rows, jobs: jobs });
+      }
+
+      if (action === 'recordJob') {
+          const job = data.job || {};
+          if (!job.id) return createJsonResponse({ ok: false, error: 'Missing job id' });
+          return executeWithLock(() => {
+              const jobsSheet = ensureJobsSheet(ss);
+              const headers = jobsSheet.getRange(1, 1, 1, jobsSheet.getLastColumn()).getValues()[0];
+              const ids = jobsSheet.getRange(1, 1, jobsSheet.getLastRow(), 1).getValues();
+              let rowIndex = -1;
+              for (let i = 1; i < ids.length; i++) {
+                  if (String(ids[i][0]) === String(job.id)) { rowIndex = i + 1; break; }
               }
+              const rowData = headers.map((h) => job[h] !== undefined ? job[h] : "");
+              if (rowIndex === -1) jobsSheet.appendRow(rowData);
+              else jobsSheet.getRange(rowIndex, 1, 1, rowData.length).setValues([rowData]);
+              return createJsonResponse({ ok: true });
+          });
+      }
+
+      // --- KIOSK FLEET ---
+
+      // Dari kiosk (tanpa sesi admin): status masuk, perintah yang menunggu keluar
+      if (action === 'kioskHeartbeat') {
+          const heartbeat = sanitizeHeartbeat(data.kiosk);
+          if (!heartbeat) return createJsonResponse({ ok: false, error: 'Invalid kiosk id' });
+          return executeWithLock(() => {
+              const sheet = ensureKiosksSheet(ss);
+              const table = readSheetObjects(sheet);
+              const row = table.rows.find((r) => String(r.id) === heartbeat.id) || {};
+              const commands = applyHeartbeat(row, heartbeat, nowIso);
+              writeKioskRow(sheet, table.headers, row);
+              return createJsonResponse({ ok: true, commands: commands });
+          });
+      }
+
+      if (action === 'listKiosks') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const now = Date.now();
+          const kiosks = readSheetObjects(ensureKiosksSheet(ss)).rows
+              .filter((r) => String(r.id).trim() !== '')
+              .map((r) => toKioskRecord(r, now));
+          return createJsonResponse({ ok: true, kiosks: kiosks });
+      }
+
+      // kioskId '*' = semua kiosk yang pernah terdaftar
+      if (action === 'sendKioskCommand') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const created = createKioskCommand(data.command, adminActor(data.token), nowIso);
+          if (!created.command) return createJsonResponse({ ok: false, error: created.error });
+          return executeWithLock(() => {
+              const sheet = ensureKiosksSheet(ss);
+              const table = readSheetObjects(sheet);
+              const targets = table.rows.filter((r) => String(r.id).trim() !== '' && (data.kioskId === '*' || String(r.id) === String(data.kioskId)));
+              if (targets.length === 0) return createJsonResponse({ ok: false, error: 'Kiosk not found' });
+              // Antrian penuh = kiosk itu dilewati (biasanya sudah lama offline)
+              const skipped = [];
+              targets.forEach((row) => {
+                  if (queueKioskCommand(row, created.command).ok) writeKioskRow(sheet, table.headers, row);
+                  else skipped.push(String(row.id));
+              });
+              if (skipped.length === targets.length) return createJsonResponse({ ok: false, error: 'Too many pending commands' });
+              return createJsonResponse({ ok: true, command: created.command, queued: targets.length - skipped.length, skipped: skipped });
+          });
+      }
+
+      // Tablet yang sudah tidak dipakai; kalau masih hidup ia muncul lagi di heartbeat berikutnya
+      if (action === 'removeKiosk') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          return executeWithLock(() => {
+              const sheet = ensureKiosksSheet(ss);
+              const row = readSheetObjects(sheet).rows.find((r) => String(r.id) === String(data.kioskId));
+              if (!row) return createJsonResponse({ ok: false, error: 'Kiosk not found' });
+              sheet.deleteRow(row._row);
               return createJsonResponse({ ok: true });
           });
       }
 
       if (action === 'updateSettings') {
-          if (String(data.pin) !== String(adminPin)) return createJsonResponse({ ok: false, error: 'INVALID PIN' });
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
           
           return executeWithLock(() => {
-              const s = data.settings;
-              if (s.eventName) SCRIPT_PROP.setProperty('EVENT_NAME', s.eventName);
-              if (s.eventDescription) SCRIPT_PROP.setProperty('EVENT_DESC', s.eventDescription);
-              if (s.folderId) SCRIPT_PROP.setProperty('FOLDER_ID', s.folderId);
-              if (s.originalFolderId) SCRIPT_PROP.setProperty('ORIGINAL_FOLDER_ID', s.originalFolderId);
-              if (s.adminPin) SCRIPT_PROP.setProperty('ADMIN_PIN', s.adminPin);
-              if (s.boothMode) SCRIPT_PROP.setProperty('BOOTH_MODE', s.boothMode);
-              if (s.overlayImage) SCRIPT_PROP.setProperty('OVERLAY_IMAGE', s.overlayImage);
-              if (s.backgroundImage) SCRIPT_PROP.setProperty('BACKGROUND_IMAGE', s.backgroundImage);
-              if (s.backgroundVideoUrl !== undefined) SCRIPT_PROP.setProperty('BACKGROUND_VIDEO', s.backgroundVideoUrl || '');
-              if (s.backgroundAudio) SCRIPT_PROP.setProperty('BACKGROUND_AUDIO', s.backgroundAudio);
-              if (s.videoPrompt) SCRIPT_PROP.setProperty('VIDEO_PROMPT', s.videoPrompt);
-              if (s.videoResolution) SCRIPT_PROP.setProperty('VIDEO_RESOLUTION', s.videoResolution);
-              if (s.videoModel) SCRIPT_PROP.setProperty('VIDEO_MODEL', s.videoModel);
-              if (s.monitorImageSize) SCRIPT_PROP.setProperty('MONITOR_IMG_SIZE', s.monitorImageSize);
-              if (s.monitorTheme) SCRIPT_PROP.setProperty('MONITOR_THEME', s.monitorTheme);
-              if (s.gptModelSize) SCRIPT_PROP.setProperty('GPT_MODEL_SIZE', s.gptModelSize);
-              if (s.autoResetTime) SCRIPT_PROP.setProperty('AUTO_RESET', String(s.autoResetTime));
-              if (s.orientation) SCRIPT_PROP.setProperty('ORIENTATION', s.orientation);
-              if (s.outputRatio) SCRIPT_PROP.setProperty('OUTPUT_RATIO', s.outputRatio);
-              if (s.cameraRotation !== undefined) SCRIPT_PROP.setProperty('CAMERA_ROTATION', String(s.cameraRotation));
-              if (s.promptMode) SCRIPT_PROP.setProperty('PROMPT_MODE', s.promptMode);
+              writeSettings(data.settings);
               return createJsonResponse({ ok: true });
           });
       }
 
+      if (action === 'saveEventProfile') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          if (!data.eventId || !data.settings) return createJsonResponse({ ok: false, error: 'Missing eventId or settings' });
+          return executeWithLock(() => {
+              const event = listEvents(ss).find((ev) => ev.id === String(data.eventId));
+              if (!event) return createJsonResponse({ ok: false, error: 'Event not found' });
+              const saved = saveProfileRevision(ss, event, { settings: data.settings, concepts: data.concepts }, data.note, nowIso);
+              // Event yang sedang live langsung ikut berubah
+              if (event.isActive) applyEventProfile(event, saved.profile);
+              return createJsonResponse({ ok: true, revision: saved.revision, applied: event.isActive });
+          });
+      }
+
+      if (action === 'createEvent') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const ev = data.event || {};
+          if (!ev.name) return createJsonResponse({ ok: false, error: 'Event name is required' });
+          return executeWithLock(() => {
+              const folder = getEventsRootFolder().createFolder(ev.name);
+              folder.setSharing(DriveApp.Access.ANYONE_WITH_LINK, DriveApp.Permission.VIEW);
+              const event = {
+                  id: `evt_${new Date().getTime()}`,
+                  name: ev.name,
+                  description: ev.description || '',
+                  folderId: folder.getId(),
+                  createdAt: nowIso,
+                  isActive: false,
+                  profileRevision: 0,
+                  profileUpdatedAt: '',
+                  startsAt: ev.startsAt || '',
+                  endsAt: ev.endsAt || '',
+                  activatedAt: '',
+                  archivedAt: '',
+                  archivedCount: 0,
+                  retentionDays: clampRetentionDays(ev.retentionDays)
+              };
+              const sheet = ensureEventsSheet(ss);
+              const headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+              sheet.appendRow(headers.map((h) => event[h] !== undefined ? event[h] : ''));
+              return createJsonResponse({ ok: true, event: event, folderUrl: folder.getUrl() });
+          });
+      }
+
+      if (action === 'updateEvent') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          const ev = data.event || {};
+          return executeWithLock(() => {
+              const event = listEvents(ss).find((item) => item.id === String(ev.id));
+              if (!event) return createJsonResponse({ ok: false, error: 'Event not found' });
+              if (event.archivedAt) return createJsonResponse({ ok: false, error: 'Event is archived' });
+              const changes = {};
+              ['name', 'description', 'startsAt', 'endsAt'].forEach((key) => {
+                  if (ev[key] !== undefined) changes[key] = ev[key] || '';
+              });
+              if (ev.retentionDays !== undefined) changes.retentionDays = clampRetentionDays(ev.retentionDays);
+              if (changes.name === '') return createJsonResponse({ ok: false, error: 'Event name is required' });
+              updateEventRow(ss, event.id, changes);
+              Object.assign(event, changes);
+              if (changes.name && event.folderId) {
+                  try { DriveApp.getFolderById(event.folderId).setName(changes.name); } catch (e) {}
+              }
+              // Nama / deskripsi event live langsung ikut berubah di kiosk
+              if (event.isActive) applyEventProfile(event, null);
+              return createJsonResponse({ ok: true, event: event });
+          });
+      }
+
+      if (action === 'archiveEvent') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          return executeWithLock(() => {
+              const event = listEvents(ss).find((item) => item.id === String(data.eventId));
+              if (!event) return createJsonResponse({ ok: false, error: 'Event not found' });
+              if (event.isActive) return createJsonResponse({ ok: false, error: 'Activate another event before archiving the live one' });
+
+              // Baris gallery event dipindah ke sheet GalleryArchive; file di Drive tetap di folder event
+              const gallerySheet = ensureGallerySheet(ss);
+              const archiveSheet = ensureGalleryArchiveSheet(ss);
+              const values = gallerySheet.getDataRange().getValues();
+              const headers = values[0];
+              const eventCol = headers.indexOf('eventId');
+              const archiveHeaders = archiveSheet.getRange(1, 1, 1, archiveSheet.getLastColumn()).getValues()[0];
+              const keep = [];
+              const moved = [];
+              for (let i = 1; i < values.length; i++) {
+                  if (String(values[i][eventCol]).trim() === event.id) {
+                      moved.push(archiveHeaders.map((h) => h === 'archivedAt' ? nowIso : (headers.indexOf(h) !== -1 ? values[i][headers.indexOf(h)] : '')));
+                  } else {
+                      keep.push(values[i]);
+                  }
+              }
+              if (moved.length > 0) {
+                  archiveSheet.getRange(archiveSheet.getLastRow() + 1, 1, moved.length, archiveHeaders.length).setValues(moved);
+                  gallerySheet.getRange(2, 1, values.length - 1, headers.length).clearContent();
+                  if (keep.length > 0) gallerySheet.getRange(2, 1, keep.length, headers.length).setValues(keep);
+              }
+              const archivedCount = (event.archivedCount || 0) + moved.length;
+              updateEventRow(ss, event.id, { archivedAt: nowIso, archivedCount: archivedCount });
+              return createJsonResponse({ ok: true, archived: moved.length, event: Object.assign(event, { archivedAt: nowIso, archivedCount: archivedCount }) });
+          });
+      }
+
+      if (action === 'activateEvent') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          return executeWithLock(() => createJsonResponse(activateEventById(ss, String(data.eventId), nowIso)));
+      }
+
+      if (action === 'restoreEventRevision') {
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
+          return executeWithLock(() => {
+              const event = listEvents(ss).find((ev) => ev.id === String(data.eventId));
+              if (!event) return createJsonResponse({ ok: false, error: 'Event not found' });
+              const source = listProfileRevisions(ss, event.id).find((r) => r.revision === Number(data.revision));
+              const profile = source ? readProfileFile(source.fileId) : null;
+              if (!profile) return createJsonResponse({ ok: false, error: 'Revision not found' });
+              // Rollback = salin revisi lama sebagai revisi terbaru, riwayat tetap utuh
+              const saved = saveProfileRevision(ss, event, profile, `Restored from r${source.revision}`, nowIso);
+              if (event.isActive) applyEventProfile(event, saved.profile);
+              return createJsonResponse({ ok: true, revision: saved.revision, profile: saved.profile, applied: event.isActive });
+          });
+      }
+
       if (action === 'uploadOverlay' || action === 'uploadBackground' || action === 'uploadAudio') {
-          if (String(data.pin) !== String(adminPin)) return createJsonResponse({ ok: false, error: 'INVALID PIN' });
+          if (!isValidAdminToken(data.token)) return createJsonResponse({ ok: false, error: 'AUTH_REQUIRED' });
           try {
               const parentId = SCRIPT_PROP.getProperty('FOLDER_ID');
               let parentFolder;
@@ -533,7 +969,7 @@ function getOrInitSpreadsheet() {
 
 function ensureGallerySheet(ss) {
   let gallerySheet = ss.getSheetByName('Gallery');
-  const headersList = ['id', 'createdAt', 'updatedAt', 'conceptName', 'imageUrl', 'downloadUrl', 'token', 'eventId', 'type', 'originalId', 'providerUrl', 'relatedPhotoId', 'sessionFolderId', 'sessionFolderUrl', 'videoStatus', 'videoTaskId', 'videoPrompt', 'videoFileId', 'videoResolution', 'videoModel'];
+  const headersList = ['id', 'createdAt', 'updatedAt', 'conceptName', 'imageUrl', 'downloadUrl', 'token', 'eventId', 'type', 'originalId', 'providerUrl', 'relatedPhotoId', 'sessionFolderId', 'sessionFolderUrl', 'videoStatus', 'videoTaskId', 'videoPrompt', 'videoFileId', 'videoResolution', 'videoModel', 'aiModel', 'videoAttempts', 'videoStateAt', 'videoTimeline', 'videoError', 'layout', 'frames', 'deletedAt', 'deletedBy', 'guestContact', 'delivery', 'purgedAt', 'prints', 'promptMode', 'fallbackPath', 'stageTimings'];
   
   if (!gallerySheet) {
     gallerySheet = ss.insertSheet('Gallery');
@@ -554,6 +990,1058 @@ function ensureGallerySheet(ss) {
   return gallerySheet;
 }
 
+// --- GALLERY SOFT DELETE ---
+const DELETED_GALLERY_LIMIT = 100;
+
+// Identitas sesi admin untuk kolom deletedBy (prefix hash token, token mentah tidak disimpan)
+function adminActor(token) {
+  return 'admin#' + sha256Hex(String(token)).slice(0, 8);
+}
+
+// Menerapkan perubahan ke baris hasil readSheetObjects lalu menulis ulang sheet sekali jalan
+// (kolom sudah dijamin oleh ensureGallerySheet). Harus dipanggil di dalam executeWithLock.
+function markGalleryRows(sheet, table, rows, changes) {
+  if (rows.length === 0) return;
+  rows.forEach((row) => Object.assign(row, changes));
+  const values = table.rows.map((row) => table.headers.map((h) => row[h] !== undefined ? row[h] : ''));
+  sheet.getRange(2, 1, values.length, table.headers.length).setValues(values);
+}
+
+// File Drive milik baris gallery (hasil, original, video, frame strip), folder sesi lebih dulu
+// supaya restore membuka folder sebelum isinya. Tanpa duplikat.
+function galleryDriveIds(rows) {
+  const seen = {};
+  rows.forEach((row) => {
+    let frames = [];
+    try { frames = row.frames ? JSON.parse(row.frames) : []; } catch (err) {}
+    [row.sessionFolderId, row.id, row.originalId, row.videoFileId]
+      .concat(Array.isArray(frames) ? frames : [])
+      .forEach((id) => {
+        id = String(id || '').trim();
+        if (id) seen[id] = true;
+      });
+  });
+  return Object.keys(seen);
+}
+
+// ID bisa file atau folder sesi; yang sudah hilang dari Drive cukup dicatat
+function setDriveTrashed(ids, trashed) {
+  ids.forEach((id) => {
+    try {
+      DriveApp.getFileById(id).setTrashed(trashed);
+    } catch (fileErr) {
+      try {
+        DriveApp.getFolderById(id).setTrashed(trashed);
+      } catch (folderErr) {
+        console.warn('[SoftDelete] ' + (trashed ? 'trash' : 'restore') + ' failed for ' + id + ': ' + folderErr);
+      }
+    }
+  });
+}
+
+// --- DATA RETENTION ---
+// Salinan dari lib/retention.ts (PURGED_COLUMNS, clampRetentionDays, isRetentionExpired,
+// guestSessionRows, purgeChanges) — ubah bersamaan.
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RETENTION_DAYS = 3650;
+const PURGE_BATCH_SIZE = 50;
+const PURGE_INTERVAL_MS = 15 * 60 * 1000;
+const PURGE_LOG_LIMIT = 200;
+const PURGED_COLUMNS = [
+  'conceptName', 'imageUrl', 'downloadUrl', 'token', 'originalId', 'providerUrl', 'relatedPhotoId',
+  'sessionFolderId', 'sessionFolderUrl', 'videoTaskId', 'videoPrompt', 'videoFileId', 'videoError',
+  'frames', 'guestContact', 'delivery'
+];
+
+function clampRetentionDays(value) {
+  const days = Math.floor(Number(value) || 0);
+  return Math.min(Math.max(days, 0), MAX_RETENTION_DAYS);
+}
+
+function isRetentionExpired(row, event, now) {
+  const days = clampRetentionDays(event ? event.retentionDays : 0);
+  if (!days || row.purgedAt || !String(row.id || '').trim()) return false;
+  const capturedAt = row.createdAt ? new Date(row.createdAt).getTime() || 0 : 0;
+  return capturedAt > 0 && capturedAt + days * DAY_MS <= now;
+}
+
+function sameGalleryId(a, b) {
+  const value = String(a || '').trim();
+  return value !== '' && value === String(b || '').trim();
+}
+
+function guestSessionRows(rows, target) {
+  return rows.filter((row) => !row.purgedAt && (
+    row === target ||
+    sameGalleryId(row.sessionFolderId, target.sessionFolderId) ||
+    sameGalleryId(row.originalId, target.originalId) ||
+    sameGalleryId(row.relatedPhotoId, target.id) ||
+    sameGalleryId(row.id, target.relatedPhotoId)
+  ));
+}
+
+function purgeChanges(actor, nowIso) {
+  const changes = { purgedAt: nowIso, deletedAt: nowIso, deletedBy: actor, updatedAt: nowIso };
+  PURGED_COLUMNS.forEach((column) => { changes[column] = ''; });
+  return changes;
+}
+
+function ensurePurgeLogSheet(ss) {
+  return ensureSheetWithHeaders(ss, 'PurgeLog', ['at', 'reason', 'actor', 'photoId', 'eventId', 'capturedAt', 'files']);
+}
+
+// Baris Gallery + GalleryArchive yang dipilih selectRows jadi tombstone + dicatat di PurgeLog.
+// File yang masih dipakai baris lain (termasuk yang baru di-soft-delete) tidak disentuh.
+// Dipanggil di dalam executeWithLock; file Drive dihapus sesudahnya (deleteDriveItems, di luar lock).
+function purgeGalleryRows(ss, selectRows, reason, actor, nowIso) {
+  const archiveSheet = ss.getSheetByName('GalleryArchive') ? ensureGalleryArchiveSheet(ss) : null;
+  const tables = [ensureGallerySheet(ss), archiveSheet]
+    .filter((sheet) => sheet)
+    .map((sheet) => ({ sheet: sheet, table: readSheetObjects(sheet) }));
+  const all = tables.reduce((acc, t) => acc.concat(t.table.rows), []);
+  const rows = selectRows(all);
+  if (rows.length === 0) return { count: 0, files: [] };
+
+  const inUse = galleryDriveIds(all.filter((r) => rows.indexOf(r) === -1 && !r.purgedAt));
+  const files = [];
+  const logRows = [];
+  rows.forEach((row) => {
+    const ids = galleryDriveIds([row]).filter((id) => inUse.indexOf(id) === -1 && files.indexOf(id) === -1);
+    ids.forEach((id) => files.push(id));
+    logRows.push([nowIso, reason, actor, String(row.id), String(row.eventId || ''), toIsoValue(row.createdAt), ids.length]);
+  });
+
+  const changes = purgeChanges(actor, nowIso);
+  tables.forEach((t) => markGalleryRows(t.sheet, t.table, t.table.rows.filter((r) => rows.indexOf(r) !== -1), changes));
+  const logSheet = ensurePurgeLogSheet(ss);
+  logSheet.getRange(logSheet.getLastRow() + 1, 1, logRows.length, logRows[0].length).setValues(logRows);
+  return { count: rows.length, files: files };
+}
+
+// Permanen kalau Advanced Drive Service aktif; tanpa itu masuk Trash (dikosongkan Drive setelah 30 hari)
+function deleteDriveItems(ids) {
+  const hasDriveApi = typeof Drive !== 'undefined';
+  ids.forEach((id) => {
+    if (hasDriveApi) {
+      try {
+        Drive.Files.remove(id);
+        return;
+      } catch (err) {
+        console.warn('[Retention] Drive.Files.remove failed for ' + id + ': ' + err);
+      }
+    }
+    setDriveTrashed([id], true);
+  });
+}
+
+function purgeExpiredRows(ss, force, actor) {
+  const now = Date.now();
+  if (!force && now - (Number(SCRIPT_PROP.getProperty('LAST_PURGE_AT')) || 0) < PURGE_INTERVAL_MS) {
+    return { ok: true, purged: 0, skipped: true };
+  }
+  const events = listEvents(ss);
+  const result = executeWithLock(() => purgeGalleryRows(ss, (rows) => rows
+    .filter((row) => isRetentionExpired(row, events.find((ev) => ev.id === String(row.eventId || '').trim()), now))
+    .slice(0, PURGE_BATCH_SIZE), 'retention', actor, new Date(now).toISOString()));
+  deleteDriveItems(result.files);
+  // Batch penuh = mungkin masih ada sisa, putaran berikutnya tidak ditahan interval
+  const hasMore = result.count >= PURGE_BATCH_SIZE;
+  if (!hasMore) SCRIPT_PROP.setProperty('LAST_PURGE_AT', String(now));
+  return { ok: true, purged: result.count, hasMore: hasMore };
+}
+
+// Opsional: pasang sebagai time-driven trigger (mis. harian) untuk deployment tanpa /api/video/tick
+function runRetentionPurge() {
+  console.log(JSON.stringify(purgeExpiredRows(getOrInitSpreadsheet(), true, 'system')));
+}
+
+// --- ANALYTICS ---
+// Salinan dari lib/analytics.ts (ANALYTICS_ROW_COLUMNS) — ubah bersamaan. Agregasi dihitung di Admin.
+const ANALYTICS_ROW_COLUMNS = [
+  'id', 'createdAt', 'conceptName', 'eventId', 'type', 'originalId', 'aiModel',
+  'videoStatus', 'videoModel', 'videoTimeline', 'prints', 'deletedAt', 'purgedAt', 'fallbackPath'
+];
+
+// --- COSTS ---
+// Salinan dari lib/costs.ts (COST_ROW_COLUMNS) — ubah bersamaan. Biaya dihitung di server / Admin.
+const COST_ROW_COLUMNS = ['type', 'aiModel', 'fallbackPath', 'videoModel', 'videoTimeline'];
+
+// --- IDEMPOTENT UPLOADS ---
+// Salinan dari lib/idempotency.ts (IDEMPOTENCY_TTL_MS, isIdempotencyKey) — ubah bersamaan.
+// Response sukses pertama per key disimpan di CacheService selama TTL (maksimum CacheService).
+const IDEMPOTENCY_TTL_MS = 6 * 60 * 60 * 1000;
+
+function isIdempotencyKey(value) {
+  return typeof value === 'string' && /^[A-Za-z0-9_.:-]{8,100}$/.test(value);
+}
+
+// Key dicadangkan (marker pending) di bawah script lock sebelum upload, jadi retry yang datang
+// bersamaan tidak membuat file kedua: ia menunggu hasil request pertama, atau ok:false kalau
+// upload itu belum selesai dalam IDEMPOTENCY_WAIT_MS ("Server busy" = retryable, lihat lib/storageErrors.ts).
+const IDEMPOTENCY_PENDING = 'pending';
+const IDEMPOTENCY_PENDING_TTL_SEC = 10 * 60; // > batas eksekusi Apps Script (6 menit)
+const IDEMPOTENCY_WAIT_MS = 60000;
+
+// { reserved: true } = request ini yang meng-upload, { result } = hasil yang sudah ada
+function reserveIdempotentKey(key) {
+  if (!key) return { reserved: true };
+  const cache = CacheService.getScriptCache();
+  const deadline = Date.now() + IDEMPOTENCY_WAIT_MS;
+  while (true) {
+    const state = executeWithLock(() => {
+      const cached = cache.get('idem_' + key);
+      if (!cached) {
+        cache.put('idem_' + key, IDEMPOTENCY_PENDING, IDEMPOTENCY_PENDING_TTL_SEC);
+        return { reserved: true };
+      }
+      return cached === IDEMPOTENCY_PENDING ? { pending: true } : { result: JSON.parse(cached) };
+    });
+    if (!state.pending) return state;
+    if (Date.now() >= deadline) return { result: { ok: false, error: 'Server busy: upload with this idempotency key is still in progress' } };
+    Utilities.sleep(1000);
+  }
+}
+
+// Upload gagal: key dilepas supaya retry berikutnya boleh mencoba lagi
+function releaseIdempotentKey(key) {
+  if (key) CacheService.getScriptCache().remove('idem_' + key);
+}
+
+function rememberIdempotentResult(key, result) {
+  if (key) CacheService.getScriptCache().put('idem_' + key, JSON.stringify(result), IDEMPOTENCY_TTL_MS / 1000);
+}
+
+// --- GALLERY PAGING & FILTER ---
+// Salinan dari lib/galleryQuery.ts (normalizeGalleryQuery, matchesGalleryQuery, clampGalleryLimit,
+// pageGalleryRows) — ubah bersamaan. Cursor "<createdAt ms>:<id>", terbaru dulu.
+const GALLERY_PAGE_SIZE = 50;
+const MAX_GALLERY_PAGE_SIZE = 100;
+const GALLERY_TYPES = ['image', 'video', 'boomerang'];
+
+function galleryText(value, max) {
+  return String(value === null || value === undefined ? '' : value).trim().slice(0, max);
+}
+
+function galleryTime(value) {
+  return (value instanceof Date ? value.getTime() : new Date(String(value || 0)).getTime()) || 0;
+}
+
+function normalizeGalleryQuery(params) {
+  const query = {};
+  const eventId = galleryText(params.eventId, 64);
+  const conceptName = galleryText(params.conceptName, 100);
+  const q = galleryText(params.q, 100).toLowerCase();
+  if (eventId) query.eventId = eventId;
+  if (conceptName) query.conceptName = conceptName;
+  if (GALLERY_TYPES.indexOf(params.type) !== -1) query.type = params.type;
+  if (Object.keys(VIDEO_TRANSITIONS).indexOf(params.videoStatus) !== -1) query.videoStatus = params.videoStatus;
+  if (q) query.q = q;
+  return query;
+}
+
+function matchesGalleryQuery(row, query) {
+  if (query.eventId && String(row.eventId || '').trim() !== query.eventId) return false;
+  if (query.conceptName && String(row.conceptName || '').trim() !== query.conceptName) return false;
+  if (query.type && (row.type || 'image') !== query.type) return false;
+  if (query.videoStatus && (row.videoStatus || 'idle') !== query.videoStatus) return false;
+  if (query.q) {
+    const haystack = [row.conceptName, row.id].map((v) => String(v || '').toLowerCase()).join(' ');
+    if (haystack.indexOf(query.q.toLowerCase()) === -1) return false;
+  }
+  return true;
+}
+
+function clampGalleryLimit(value) {
+  const limit = Math.round(Number(value));
+  return limit > 0 ? Math.min(limit, MAX_GALLERY_PAGE_SIZE) : GALLERY_PAGE_SIZE;
+}
+
+function parseGalleryCursor(cursor) {
+  const value = String(cursor || '');
+  const split = value.indexOf(':');
+  if (split === -1) return null;
+  const ts = Number(value.slice(0, split));
+  return isFinite(ts) ? { ts: ts, id: value.slice(split + 1) } : null;
+}
+
+function pageGalleryRows(rows, query, before, limit) {
+  const cursor = parseGalleryCursor(before);
+  const matching = rows
+    .filter((row) => row.id && !row.deletedAt && matchesGalleryQuery(row, query))
+    .filter((row) => {
+      if (!cursor) return true;
+      const ts = galleryTime(row.createdAt);
+      return ts < cursor.ts || (ts === cursor.ts && String(row.id).trim() < cursor.id);
+    })
+    .sort((a, b) => {
+      const diff = galleryTime(b.createdAt) - galleryTime(a.createdAt);
+      if (diff !== 0) return diff;
+      const aId = String(a.id).trim();
+      const bId = String(b.id).trim();
+      return aId < bId ? 1 : aId > bId ? -1 : 0;
+    });
+  const page = matching.slice(0, limit);
+  const last = page[page.length - 1];
+  return { rows: page, olderCursor: matching.length > limit ? galleryTime(last.createdAt) + ':' + String(last.id).trim() : '' };
+}
+
+// --- KIOSK FLEET ---
+// Salinan dari lib/kiosks.ts (sanitizeHeartbeat, createKioskCommand, queueKioskCommand, applyHeartbeat,
+// toKioskRecord) — ubah bersamaan. Satu baris per kiosk, status & antrian perintah sebagai JSON.
+const KIOSK_HEARTBEAT_MS = 30000;
+const KIOSK_OFFLINE_MS = 3 * KIOSK_HEARTBEAT_MS;
+const MAX_PENDING_COMMANDS = 10;
+const KIOSK_COMMAND_TYPES = ['reload', 'switchEvent', 'lock', 'unlock', 'clearCache'];
+const KIOSK_COLUMNS = ['id', 'name', 'firstSeen', 'lastSeen', 'status', 'commands', 'lastCommand'];
+const CAMERA_STATUSES = ['unknown', 'ready', 'denied', 'missing', 'error'];
+
+function isKioskId(value) {
+  return typeof value === 'string' && /^[A-Za-z0-9_.-]{1,64}$/.test(value);
+}
+
+function parseKioskJson(value, fallback) {
+  if (!value) return fallback;
+  if (typeof value === 'object') return value;
+  try { return JSON.parse(String(value)); } catch (e) { return fallback; }
+}
+
+function kioskText(value, max) {
+  return String(value === null || value === undefined ? '' : value).slice(0, max);
+}
+
+function kioskCount(value) {
+  return Math.max(Math.round(Number(value)) || 0, 0);
+}
+
+function sanitizeHeartbeat(input) {
+  if (!input || !isKioskId(input.id)) return null;
+  const battery = input.battery === null || input.battery === undefined || input.battery === '' ? null : Number(input.battery);
+  return {
+    id: input.id,
+    name: kioskText(input.name, 60).trim() || input.id,
+    appVersion: kioskText(input.appVersion, 40),
+    configVersion: kioskCount(input.configVersion),
+    battery: battery !== null && isFinite(battery) ? Math.min(Math.max(Math.round(battery), 0), 100) : null,
+    charging: typeof input.charging === 'boolean' ? input.charging : null,
+    camera: CAMERA_STATUSES.indexOf(input.camera) !== -1 ? input.camera : 'unknown',
+    cameraError: input.cameraError ? kioskText(input.cameraError, 200) : undefined,
+    queueDepth: kioskCount(input.queueDepth),
+    outboxPending: kioskCount(input.outboxPending),
+    page: kioskText(input.page, 30),
+    eventId: kioskText(input.eventId, 64),
+    pinnedEventId: kioskText(input.pinnedEventId, 64),
+    locked: input.locked === true,
+    backend: kioskText(input.backend, 20),
+    userAgent: kioskText(input.userAgent, 200)
+  };
+}
+
+function createKioskCommand(input, issuedBy, nowIso) {
+  const type = input && input.type;
+  if (KIOSK_COMMAND_TYPES.indexOf(type) === -1) return { error: 'Unknown command' };
+  const command = {
+    id: 'cmd_' + Date.now() + '_' + Math.random().toString(36).slice(2, 8),
+    type: type,
+    issuedAt: nowIso,
+    issuedBy: issuedBy
+  };
+  if (type === 'switchEvent') command.eventId = kioskText(input.eventId, 64);
+  return { command: command };
+}
+
+function queueKioskCommand(row, command) {
+  const pending = parseKioskJson(row.commands, []).filter((c) => c.type !== command.type);
+  if (pending.length >= MAX_PENDING_COMMANDS) return { ok: false, error: 'Too many pending commands' };
+  const opposite = command.type === 'lock' ? 'unlock' : command.type === 'unlock' ? 'lock' : null;
+  row.commands = JSON.stringify(pending.filter((c) => c.type !== opposite).concat([command]));
+  return { ok: true };
+}
+
+function applyHeartbeat(row, heartbeat, nowIso) {
+  const status = Object.assign({}, heartbeat);
+  delete status.id;
+  delete status.name;
+  const commands = parseKioskJson(row.commands, []);
+  row.id = heartbeat.id;
+  row.name = heartbeat.name;
+  if (!row.firstSeen) row.firstSeen = nowIso;
+  row.lastSeen = nowIso;
+  row.status = JSON.stringify(status);
+  row.commands = '';
+  if (commands.length > 0) row.lastCommand = JSON.stringify(Object.assign({}, commands[commands.length - 1], { deliveredAt: nowIso }));
+  return commands;
+}
+
+function toKioskRecord(row, now) {
+  const status = sanitizeHeartbeat(Object.assign({}, parseKioskJson(row.status, {}), { id: String(row.id), name: row.name }));
+  const lastSeen = toIsoValue(row.lastSeen);
+  return Object.assign(status, {
+    firstSeen: toIsoValue(row.firstSeen),
+    lastSeen: lastSeen,
+    online: !!lastSeen && now - new Date(lastSeen).getTime() < KIOSK_OFFLINE_MS,
+    pendingCommands: parseKioskJson(row.commands, []),
+    lastCommand: parseKioskJson(row.lastCommand, null) || undefined
+  });
+}
+
+function ensureKiosksSheet(ss) {
+  return ensureSheetWithHeaders(ss, 'Kiosks', KIOSK_COLUMNS);
+}
+
+// Baris baru (tanpa _row) di-append, selain itu ditimpa di tempat
+function writeKioskRow(sheet, headers, row) {
+  const values = (headers.length ? headers : KIOSK_COLUMNS).map((h) => row[h] !== undefined ? row[h] : '');
+  if (row._row) sheet.getRange(row._row, 1, 1, values.length).setValues([values]);
+  else sheet.appendRow(values);
+}
+
+// --- GENERATION METADATA ---
+// Salinan dari lib/generationMeta.ts (sanitizeFallbackPath, sanitizeStageTimings, generationColumns) — ubah bersamaan.
+const MAX_FALLBACK_ATTEMPTS = 30;
+const MAX_ATTEMPT_ERROR_LENGTH = 300;
+
+function toStageMs(value) {
+  const ms = Math.round(Number(value));
+  return isFinite(ms) && ms >= 0 ? ms : undefined;
+}
+
+function parseJsonValue(value) {
+  if (typeof value !== 'string') return value;
+  try { return JSON.parse(value); } catch (e) { return null; }
+}
+
+function sanitizeFallbackPath(value) {
+  const list = parseJsonValue(value);
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter(a => a && typeof a.model === 'string' && a.model.trim() !== '')
+    .slice(0, MAX_FALLBACK_ATTEMPTS)
+    .map(a => {
+      const attempt = { model: a.model.trim().slice(0, 100), ok: a.ok === true, durationMs: toStageMs(a.durationMs) || 0 };
+      if (a.error) attempt.error = String(a.error).slice(0, MAX_ATTEMPT_ERROR_LENGTH);
+      return attempt;
+    });
+}
+
+function sanitizeStageTimings(value) {
+  const input = parseJsonValue(value);
+  const timings = {};
+  if (!input || typeof input !== 'object') return timings;
+  ['aiMs', 'overlayMs', 'uploadMs'].forEach(stage => {
+    const ms = toStageMs(input[stage]);
+    if (ms !== undefined) timings[stage] = ms;
+  });
+  return timings;
+}
+
+// uploadMs di GAS = request diterima -> baris ditulis (termasuk simpan ke Drive & antri lock)
+function generationColumns(data, startedAt, now) {
+  const path = sanitizeFallbackPath(data.fallbackPath);
+  return {
+    promptMode: data.promptMode === 'raw' || data.promptMode === 'wrapped' ? data.promptMode : '',
+    fallbackPath: path.length ? JSON.stringify(path) : '',
+    stageTimings: JSON.stringify(Object.assign(sanitizeStageTimings(data.stageTimings), { uploadMs: Math.max(now - startedAt, 0) }))
+  };
+}
+
+// --- GUEST SHARE ---
+// Salinan dari lib/share.ts (toSharedPhoto) — ubah keduanya bersamaan.
+function toSharedPhoto(row, branding) {
+  return {
+    token: String(row.token),
+    type: row.type === 'video' || row.type === 'boomerang' ? row.type : 'image',
+    conceptName: String(row.conceptName || ''),
+    createdAt: toIsoValue(row.createdAt),
+    photoId: String(row.id),
+    videoStatus: row.videoStatus || 'idle',
+    videoFileId: row.videoFileId ? String(row.videoFileId) : undefined,
+    providerUrl: row.videoStatus === 'ready_url' && row.providerUrl ? String(row.providerUrl) : undefined,
+    eventName: branding.eventName,
+    eventDescription: branding.eventDescription,
+    backgroundImage: branding.backgroundImage || null
+  };
+}
+
+// Gallery dulu, lalu GalleryArchive: link tamu tetap hidup setelah event diarsipkan
+function findShareRow(ss, token) {
+  const sheets = [ss.getSheetByName('Gallery'), ss.getSheetByName('GalleryArchive')];
+  for (let i = 0; i < sheets.length; i++) {
+    if (!sheets[i]) continue;
+    const row = readSheetObjects(sheets[i]).rows.find((r) => String(r.token).trim() === token);
+    if (row) return row.deletedAt ? null : row;
+  }
+  return null;
+}
+
+// Nama & deskripsi dari event foto itu; background hanya milik event yang sedang live
+function shareBranding(ss, row) {
+  const settings = readSettings(ss);
+  const eventId = String(row.eventId || '').trim();
+  const event = eventId ? listEvents(ss).find((ev) => ev.id === eventId) : null;
+  const isLive = !event || event.isActive;
+  return {
+    eventName: (event && event.name) || settings.eventName,
+    eventDescription: (event && event.description) || settings.eventDescription,
+    backgroundImage: isLive && /^https?:\/\//.test(settings.backgroundImage || '') ? settings.backgroundImage : null
+  };
+}
+
+// --- GUEST DELIVERY ---
+// Salinan dari lib/delivery.ts (normalizeContact, dueDeliveryKinds, applyDeliveryUpdate) — ubah bersamaan.
+// Tidak pernah ikut response publik: kontak tamu, dan token share (kunci halaman /share/:token, hanya
+// untuk kiosk lewat /api/share-link dan link delivery)
+const PRIVATE_GALLERY_COLUMNS = ['guestContact', 'token'];
+const MAX_DELIVERY_ATTEMPTS = 3;
+const DELIVERY_RETRY_MS = 2 * 60 * 1000;
+const DELIVERY_SENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Worker delivery (server) memakai secret yang sama dengan Script Property DELIVERY_SECRET
+function isWorkerRequest(secret) {
+  const expected = SCRIPT_PROP.getProperty('DELIVERY_SECRET');
+  return !!expected && typeof secret === 'string' && sha256Hex(secret) === sha256Hex(expected);
+}
+
+// Kunci "Delete my data": hanya ada di link yang dikirim ke kontak tamu sendiri (pendingDeliveries),
+// tidak di QR. Sama dengan lib/fsStorage.ts, tanpa DELIVERY_SECRET = tamu tidak bisa menghapus sendiri
+function shareDeleteKey(token) {
+  const secret = SCRIPT_PROP.getProperty('DELIVERY_SECRET');
+  return secret && token ? sha256Hex(secret + ':forget:' + token).slice(0, 32) : '';
+}
+
+function isShareDeleteKey(token, key) {
+  const expected = shareDeleteKey(token);
+  return !!expected && typeof key === 'string' && sha256Hex(key) === sha256Hex(expected);
+}
+
+function normalizeContact(input) {
+  const email = String(input.email || '').trim().toLowerCase();
+  const rawPhone = String(input.phone || '').trim();
+  const contact = {};
+  if (email) {
+    if (email.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { error: 'Invalid email address' };
+    contact.email = email;
+  }
+  if (rawPhone) {
+    const digits = rawPhone.replace(/[\s().-]/g, '');
+    if (!/^\+?\d{8,15}$/.test(digits)) return { error: 'Invalid phone number' };
+    contact.phone = digits;
+  }
+  if (!contact.email && !contact.phone) return { error: 'Email or phone required' };
+  return { contact: contact };
+}
+
+function parseJsonCell(value) {
+  if (!value) return null;
+  try { return JSON.parse(String(value)); } catch (err) { return null; }
+}
+
+function parseContact(value) {
+  const contact = parseJsonCell(value);
+  return contact && (contact.email || contact.phone) ? contact : null;
+}
+
+function parseDeliveryLog(value) {
+  return parseJsonCell(value) || {};
+}
+
+function isDeliveryDue(record, now) {
+  if (!record) return true;
+  const at = new Date(record.at).getTime() || 0;
+  if (record.status === 'sending') return now - at >= DELIVERY_SENDING_TIMEOUT_MS;
+  if (record.status === 'failed') return record.attempts < MAX_DELIVERY_ATTEMPTS && now - at >= DELIVERY_RETRY_MS;
+  return false;
+}
+
+function dueDeliveryKinds(row, now) {
+  if (row.deletedAt || !parseContact(row.guestContact)) return [];
+  const log = parseDeliveryLog(row.delivery);
+  const kinds = [];
+  if (isDeliveryDue(log.photo, now)) kinds.push('photo');
+  const isPhotoRow = !row.type || row.type === 'image';
+  if (isPhotoRow && row.videoStatus === 'done' && log.photo && log.photo.status === 'sent' && isDeliveryDue(log.video, now)) kinds.push('video');
+  return kinds;
+}
+
+function applyDeliveryUpdate(row, kind, status, patch, nowIso) {
+  const log = parseDeliveryLog(row.delivery);
+  const current = log[kind];
+  if (status === 'sending') {
+    if (dueDeliveryKinds(row, new Date(nowIso).getTime()).indexOf(kind) === -1) return { ok: false, error: 'NOT_DUE' };
+    log[kind] = { status: status, attempts: ((current && current.attempts) || 0) + 1, at: nowIso };
+  } else {
+    if (!current || current.status !== 'sending') return { ok: false, error: 'NOT_SENDING' };
+    log[kind] = Object.assign({}, current, { status: status, at: nowIso, error: patch.error || undefined, channels: patch.channels });
+  }
+  row.delivery = JSON.stringify(log);
+  return { ok: true };
+}
+
+// --- VIDEO STATE MACHINE ---
+// Salinan dari lib/videoStateMachine.ts (VIDEO_TRANSITIONS) — ubah keduanya bersamaan.
+const VIDEO_TRANSITIONS = {
+  idle: ['queued', 'processing'],
+  queued: ['processing', 'failed'],
+  processing: ['ready_url', 'failed', 'queued'],
+  ready_url: ['uploading', 'failed'],
+  uploading: ['done', 'failed', 'ready_url'],
+  done: [],
+  failed: ['queued', 'processing']
+};
+const VIDEO_WORKING_STATES = ['processing', 'uploading'];
+const VIDEO_ACTIVE_STATES = ['queued', 'processing', 'ready_url', 'uploading'];
+
+/**
+ * Satu-satunya jalan untuk mengubah videoStatus sebuah baris Gallery.
+ * Harus dipanggil di dalam executeWithLock. rowValues = nilai baris saat ini.
+ */
+function applyVideoTransition(sheet, headers, rowValues, rowNumber, to, opts, nowIso) {
+  opts = opts || {};
+  const col = (name) => headers.indexOf(name);
+  const current = rowValues[col('videoStatus')] || 'idle';
+
+  if (opts.from && current !== opts.from) {
+    return { ok: false, error: 'Status mismatch', current: current };
+  }
+  if (!VIDEO_TRANSITIONS[current] || VIDEO_TRANSITIONS[current].indexOf(to) === -1) {
+    return { ok: false, error: 'Illegal transition ' + current + ' -> ' + to, current: current };
+  }
+
+  let attempts = Number(rowValues[col('videoAttempts')]) || 0;
+  if (current === 'failed' && to === 'queued') attempts = 0; // Manual retry starts over
+  if (VIDEO_WORKING_STATES.indexOf(to) !== -1) attempts++;
+
+  let timeline = {};
+  try { timeline = JSON.parse(rowValues[col('videoTimeline')] || '{}'); } catch (e) {}
+  timeline[to] = nowIso;
+
+  const set = (name, value) => {
+    const idx = col(name);
+    if (idx !== -1) sheet.getRange(rowNumber, idx + 1).setValue(value);
+  };
+
+  set('videoStatus', to);
+  set('videoAttempts', attempts);
+  set('videoStateAt', nowIso);
+  set('videoTimeline', JSON.stringify(timeline));
+  set('updatedAt', nowIso);
+  if (opts.taskId) set('videoTaskId', opts.taskId);
+  if (opts.providerUrl) set('providerUrl', opts.providerUrl);
+  if (opts.videoModel) set('videoModel', opts.videoModel);
+  if (opts.videoResolution) set('videoResolution', opts.videoResolution);
+  if (opts.error !== undefined) set('videoError', opts.error || '');
+
+  return { ok: true, status: to, previous: current, attempts: attempts };
+}
+
+function ensureJobsSheet(ss) {
+  let jobsSheet = ss.getSheetByName('Jobs');
+  const headersList = ['id', 'status', 'conceptName', 'eventId', 'attempts', 'lastError', 'resultId', 'aiModel', 'createdAt', 'updatedAt'];
+
+  if (!jobsSheet) {
+    jobsSheet = ss.insertSheet('Jobs');
+    jobsSheet.appendRow(headersList);
+    jobsSheet.getRange(1, 1, 1, headersList.length).setFontWeight("bold").setBackground("#bc13fe").setFontColor("white");
+  } else {
+    const lastCol = jobsSheet.getLastColumn();
+    if (lastCol > 0) {
+      const currentHeaders = jobsSheet.getRange(1, 1, 1, lastCol).getValues()[0];
+      headersList.forEach((h) => {
+        if (!currentHeaders.includes(h)) {
+          const newCol = jobsSheet.getLastColumn() + 1;
+          jobsSheet.getRange(1, newCol).setValue(h).setFontWeight("bold").setBackground("#bc13fe").setFontColor("white");
+        }
+      });
+    }
+  }
+  return jobsSheet;
+}
+
+// --- ADMIN AUTH ---
+// Salinan aturan lib/adminAuth.ts, ubah keduanya bersamaan.
+// PIN disimpan sebagai SHA-256 ber-salt (ADMIN_PIN_HASH / ADMIN_PIN_SALT), token sesi di CacheService
+// (kedaluwarsa otomatis). ADMIN_TOKEN_EPOCH berubah saat PIN diganti -> semua token lama batal.
+const ADMIN_SESSION_TTL_SEC = 4 * 60 * 60;
+const MAX_FAILED_LOGINS = 5;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+const MIN_PIN_LENGTH = 6;
+
+function sha256Hex(value) {
+  const bytes = Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, value, Utilities.Charset.UTF_8);
+  return bytes.map((b) => ('0' + (b & 0xff).toString(16)).slice(-2)).join('');
+}
+
+function validateNewPin(pin) {
+  if (!/^\d+$/.test(pin)) return 'PIN must be digits only';
+  if (pin.length < MIN_PIN_LENGTH) return `PIN must be at least ${MIN_PIN_LENGTH} digits`;
+  return null;
+}
+
+function hasAdminPin() {
+  return !!(SCRIPT_PROP.getProperty('ADMIN_PIN_HASH') || SCRIPT_PROP.getProperty('ADMIN_PIN'));
+}
+
+function storeAdminPin(pin) {
+  const salt = Utilities.getUuid();
+  SCRIPT_PROP.setProperty('ADMIN_PIN_SALT', salt);
+  SCRIPT_PROP.setProperty('ADMIN_PIN_HASH', sha256Hex(salt + ':' + pin));
+  SCRIPT_PROP.setProperty('ADMIN_TOKEN_EPOCH', Utilities.getUuid());
+  SCRIPT_PROP.deleteProperty('ADMIN_PIN');
+}
+
+function verifyAdminPin(pin) {
+  const hash = SCRIPT_PROP.getProperty('ADMIN_PIN_HASH');
+  if (hash) return sha256Hex((SCRIPT_PROP.getProperty('ADMIN_PIN_SALT') || '') + ':' + String(pin)) === hash;
+  // Migrasi: PIN plaintext lama (ADMIN_PIN) di-hash pada login pertama yang berhasil
+  const legacy = SCRIPT_PROP.getProperty('ADMIN_PIN');
+  if (legacy && String(pin) === String(legacy)) {
+    storeAdminPin(String(pin));
+    return true;
+  }
+  return false;
+}
+
+function registerFailedLogin() {
+  const failed = (Number(SCRIPT_PROP.getProperty('ADMIN_FAILED_LOGINS')) || 0) + 1;
+  if (failed >= MAX_FAILED_LOGINS) {
+    const lockedUntil = Date.now() + LOGIN_LOCKOUT_MS;
+    SCRIPT_PROP.setProperty('ADMIN_LOCKED_UNTIL', String(lockedUntil));
+    SCRIPT_PROP.deleteProperty('ADMIN_FAILED_LOGINS');
+    return { ok: false, error: 'LOCKED', lockedUntil: new Date(lockedUntil).toISOString() };
+  }
+  SCRIPT_PROP.setProperty('ADMIN_FAILED_LOGINS', String(failed));
+  return { ok: false, error: 'INVALID PIN', attemptsLeft: MAX_FAILED_LOGINS - failed };
+}
+
+// Cache key = hash token, token mentah tidak pernah disimpan
+function adminTokenKey(token) {
+  return 'admin_session_' + sha256Hex(String(token));
+}
+
+function issueAdminToken() {
+  const token = Utilities.getUuid() + Utilities.getUuid();
+  CacheService.getScriptCache().put(adminTokenKey(token), SCRIPT_PROP.getProperty('ADMIN_TOKEN_EPOCH') || '', ADMIN_SESSION_TTL_SEC);
+  return { token: token, expiresAt: new Date(Date.now() + ADMIN_SESSION_TTL_SEC * 1000).toISOString() };
+}
+
+function isValidAdminToken(token) {
+  if (!token) return false;
+  const epoch = CacheService.getScriptCache().get(adminTokenKey(token));
+  return epoch !== null && epoch === (SCRIPT_PROP.getProperty('ADMIN_TOKEN_EPOCH') || '');
+}
+
+function readSettings(ss) {
+  return {
+    eventName: SCRIPT_PROP.getProperty('EVENT_NAME') || 'COROAI PHOTOBOOTH',
+    eventDescription: SCRIPT_PROP.getProperty('EVENT_DESC') || 'Transform Your Reality',
+    folderId: SCRIPT_PROP.getProperty('FOLDER_ID') || '',
+    originalFolderId: SCRIPT_PROP.getProperty('ORIGINAL_FOLDER_ID') || '',
+    // Return ID spreadsheet yang sedang aktif digunakan untuk verifikasi di frontend
+    spreadsheetId: ss.getId(), 
+    spreadsheetUrl: ss.getUrl(), 
+    overlayImage: SCRIPT_PROP.getProperty('OVERLAY_IMAGE') || null,
+    overlayTemplate: JSON.parse(SCRIPT_PROP.getProperty('OVERLAY_TEMPLATE') || 'null'),
+    backgroundImage: SCRIPT_PROP.getProperty('BACKGROUND_IMAGE') || null,
+    backgroundVideoUrl: SCRIPT_PROP.getProperty('BACKGROUND_VIDEO') || null,
+    backgroundAudio: SCRIPT_PROP.getProperty('BACKGROUND_AUDIO') || null,
+    videoPrompt: SCRIPT_PROP.getProperty('VIDEO_PROMPT') || 'Cinematic slow motion',
+    boothMode: SCRIPT_PROP.getProperty('BOOTH_MODE') || 'video',
+    videoResolution: SCRIPT_PROP.getProperty('VIDEO_RESOLUTION') || '480p', 
+    videoModel: SCRIPT_PROP.getProperty('VIDEO_MODEL') || 'seedance-1-0-pro-fast-251015', 
+    monitorImageSize: SCRIPT_PROP.getProperty('MONITOR_IMG_SIZE') || 'medium',
+    monitorTheme: SCRIPT_PROP.getProperty('MONITOR_THEME') || 'physics',
+    gptModelSize: SCRIPT_PROP.getProperty('GPT_MODEL_SIZE') || '1024',
+    autoResetTime: parseInt(SCRIPT_PROP.getProperty('AUTO_RESET')) || 60,
+    orientation: SCRIPT_PROP.getProperty('ORIENTATION') || 'portrait',
+    outputRatio: SCRIPT_PROP.getProperty('OUTPUT_RATIO') || '9:16',
+    cameraRotation: parseInt(SCRIPT_PROP.getProperty('CAMERA_ROTATION')) || 0,
+    promptMode: SCRIPT_PROP.getProperty('PROMPT_MODE') || 'wrapped',
+    selectedModel: SCRIPT_PROP.getProperty('SELECTED_MODEL') || 'gemini-2.5-flash-image',
+    fallbackChain: JSON.parse(SCRIPT_PROP.getProperty('FALLBACK_CHAIN') || '[]'),
+    captureMode: SCRIPT_PROP.getProperty('CAPTURE_MODE') || 'single',
+    shotCount: parseInt(SCRIPT_PROP.getProperty('SHOT_COUNT')) || 4,
+    stripLayout: SCRIPT_PROP.getProperty('STRIP_LAYOUT') || 'strip',
+    shotConcepts: SCRIPT_PROP.getProperty('SHOT_CONCEPTS') || 'same',
+    boomerangKeyframes: parseInt(SCRIPT_PROP.getProperty('BOOMERANG_KEYFRAMES')) || 4,
+    guestDelivery: SCRIPT_PROP.getProperty('GUEST_DELIVERY') || 'off',
+    requireConsent: SCRIPT_PROP.getProperty('REQUIRE_CONSENT') === 'true',
+    consentText: SCRIPT_PROP.getProperty('CONSENT_TEXT') || '',
+    modelCosts: JSON.parse(SCRIPT_PROP.getProperty('MODEL_COSTS') || '{}'),
+    budgetSoftCap: Number(SCRIPT_PROP.getProperty('BUDGET_SOFT_CAP')) || 0,
+    budgetHardCap: Number(SCRIPT_PROP.getProperty('BUDGET_HARD_CAP')) || 0
+  };
+}
+
+function writeSettings(s) {
+  if (s.eventName) SCRIPT_PROP.setProperty('EVENT_NAME', s.eventName);
+  if (s.eventDescription) SCRIPT_PROP.setProperty('EVENT_DESC', s.eventDescription);
+  if (s.folderId) SCRIPT_PROP.setProperty('FOLDER_ID', s.folderId);
+  if (s.originalFolderId) SCRIPT_PROP.setProperty('ORIGINAL_FOLDER_ID', s.originalFolderId);
+  if (s.boothMode) SCRIPT_PROP.setProperty('BOOTH_MODE', s.boothMode);
+  if (s.overlayImage) SCRIPT_PROP.setProperty('OVERLAY_IMAGE', s.overlayImage);
+  // Template berisi URL asset saja (bukan base64), muat di limit 9KB Script Property
+  if (s.overlayTemplate !== undefined) SCRIPT_PROP.setProperty('OVERLAY_TEMPLATE', JSON.stringify(s.overlayTemplate || null));
+  if (s.backgroundImage) SCRIPT_PROP.setProperty('BACKGROUND_IMAGE', s.backgroundImage);
+  if (s.backgroundVideoUrl !== undefined) SCRIPT_PROP.setProperty('BACKGROUND_VIDEO', s.backgroundVideoUrl || '');
+  if (s.backgroundAudio) SCRIPT_PROP.setProperty('BACKGROUND_AUDIO', s.backgroundAudio);
+  if (s.videoPrompt) SCRIPT_PROP.setProperty('VIDEO_PROMPT', s.videoPrompt);
+  if (s.videoResolution) SCRIPT_PROP.setProperty('VIDEO_RESOLUTION', s.videoResolution);
+  if (s.videoModel) SCRIPT_PROP.setProperty('VIDEO_MODEL', s.videoModel);
+  if (s.monitorImageSize) SCRIPT_PROP.setProperty('MONITOR_IMG_SIZE', s.monitorImageSize);
+  if (s.monitorTheme) SCRIPT_PROP.setProperty('MONITOR_THEME', s.monitorTheme);
+  if (s.gptModelSize) SCRIPT_PROP.setProperty('GPT_MODEL_SIZE', s.gptModelSize);
+  if (s.autoResetTime) SCRIPT_PROP.setProperty('AUTO_RESET', String(s.autoResetTime));
+  if (s.orientation) SCRIPT_PROP.setProperty('ORIENTATION', s.orientation);
+  if (s.outputRatio) SCRIPT_PROP.setProperty('OUTPUT_RATIO', s.outputRatio);
+  if (s.cameraRotation !== undefined) SCRIPT_PROP.setProperty('CAMERA_ROTATION', String(s.cameraRotation));
+  if (s.promptMode) SCRIPT_PROP.setProperty('PROMPT_MODE', s.promptMode);
+  if (s.selectedModel) SCRIPT_PROP.setProperty('SELECTED_MODEL', s.selectedModel);
+  if (s.fallbackChain !== undefined) SCRIPT_PROP.setProperty('FALLBACK_CHAIN', JSON.stringify(s.fallbackChain || []));
+  if (s.captureMode) SCRIPT_PROP.setProperty('CAPTURE_MODE', s.captureMode);
+  if (s.shotCount) SCRIPT_PROP.setProperty('SHOT_COUNT', String(s.shotCount));
+  if (s.stripLayout) SCRIPT_PROP.setProperty('STRIP_LAYOUT', s.stripLayout);
+  if (s.shotConcepts) SCRIPT_PROP.setProperty('SHOT_CONCEPTS', s.shotConcepts);
+  if (s.boomerangKeyframes) SCRIPT_PROP.setProperty('BOOMERANG_KEYFRAMES', String(s.boomerangKeyframes));
+  if (s.guestDelivery) SCRIPT_PROP.setProperty('GUEST_DELIVERY', s.guestDelivery);
+  if (s.requireConsent !== undefined) SCRIPT_PROP.setProperty('REQUIRE_CONSENT', String(!!s.requireConsent));
+  if (s.consentText !== undefined) SCRIPT_PROP.setProperty('CONSENT_TEXT', s.consentText || '');
+  if (s.modelCosts !== undefined) SCRIPT_PROP.setProperty('MODEL_COSTS', JSON.stringify(s.modelCosts || {}));
+  if (s.budgetSoftCap !== undefined) SCRIPT_PROP.setProperty('BUDGET_SOFT_CAP', String(Number(s.budgetSoftCap) || 0));
+  if (s.budgetHardCap !== undefined) SCRIPT_PROP.setProperty('BUDGET_HARD_CAP', String(Number(s.budgetHardCap) || 0));
+  bumpConfigVersion();
+}
+
+// --- EVENT PROFILES ---
+// Snapshot settings + concepts per event, 1 file JSON di Drive per revisi (seperti CONCEPTS_FILE_ID).
+// Salinan dari lib/eventProfiles.ts, ubah keduanya bersamaan.
+const PROFILE_EXCLUDED_SETTINGS = ['adminPin', 'spreadsheetId', 'spreadsheetUrl', 'activeEventId'];
+// Di-reset sebelum profile diterapkan supaya nilai event sebelumnya tidak terbawa
+const PROFILE_PROPERTY_KEYS = [
+  'BOOTH_MODE', 'OVERLAY_IMAGE', 'OVERLAY_TEMPLATE', 'BACKGROUND_IMAGE', 'BACKGROUND_VIDEO', 'BACKGROUND_AUDIO',
+  'VIDEO_PROMPT', 'VIDEO_RESOLUTION', 'VIDEO_MODEL', 'MONITOR_IMG_SIZE', 'MONITOR_THEME', 'GPT_MODEL_SIZE',
+  'AUTO_RESET', 'ORIENTATION', 'OUTPUT_RATIO', 'CAMERA_ROTATION', 'PROMPT_MODE', 'SELECTED_MODEL',
+  'FALLBACK_CHAIN', 'CAPTURE_MODE', 'SHOT_COUNT', 'STRIP_LAYOUT', 'SHOT_CONCEPTS', 'BOOMERANG_KEYFRAMES',
+  'GUEST_DELIVERY', 'REQUIRE_CONSENT', 'CONSENT_TEXT', 'MODEL_COSTS', 'BUDGET_SOFT_CAP', 'BUDGET_HARD_CAP'
+];
+
+function ensureSheetWithHeaders(ss, name, headersList) {
+  let sheet = ss.getSheetByName(name);
+  if (!sheet) {
+    sheet = ss.insertSheet(name);
+    sheet.appendRow(headersList);
+    sheet.getRange(1, 1, 1, headersList.length).setFontWeight("bold").setBackground("#bc13fe").setFontColor("white");
+  } else {
+    const lastCol = sheet.getLastColumn();
+    if (lastCol > 0) {
+      const currentHeaders = sheet.getRange(1, 1, 1, lastCol).getValues()[0];
+      headersList.forEach((h) => {
+        if (!currentHeaders.includes(h)) {
+          const newCol = sheet.getLastColumn() + 1;
+          sheet.getRange(1, newCol).setValue(h).setFontWeight("bold").setBackground("#bc13fe").setFontColor("white");
+        }
+      });
+    }
+  }
+  return sheet;
+}
+
+function ensureEventsSheet(ss) {
+  return ensureSheetWithHeaders(ss, 'Events', ['id', 'name', 'description', 'folderId', 'createdAt', 'isActive', 'profileRevision', 'profileUpdatedAt', 'startsAt', 'endsAt', 'activatedAt', 'archivedAt', 'archivedCount', 'retentionDays']);
+}
+
+function ensureEventProfilesSheet(ss) {
+  return ensureSheetWithHeaders(ss, 'EventProfiles', ['eventId', 'revision', 'savedAt', 'note', 'fileId']);
+}
+
+// Baris sheet -> object per header, plus _row (nomor baris 1-based) untuk update
+function readSheetObjects(sheet) {
+  const values = sheet.getDataRange().getValues();
+  const headers = values[0] || [];
+  const rows = [];
+  for (let i = 1; i < values.length; i++) {
+    const obj = { _row: i + 1 };
+    headers.forEach((h, col) => { obj[h] = values[i][col]; });
+    rows.push(obj);
+  }
+  return { headers: headers, rows: rows };
+}
+
+function toIsoValue(value) {
+  return value instanceof Date ? value.toISOString() : String(value || '');
+}
+
+function listEvents(ss) {
+  return readSheetObjects(ensureEventsSheet(ss)).rows
+    .filter((r) => String(r.id).trim() !== '')
+    .map((r) => ({
+      id: String(r.id).trim(),
+      name: String(r.name || ''),
+      description: String(r.description || ''),
+      folderId: String(r.folderId || ''),
+      createdAt: toIsoValue(r.createdAt),
+      isActive: r.isActive === true || String(r.isActive).toUpperCase() === 'TRUE',
+      profileRevision: Number(r.profileRevision) || 0,
+      profileUpdatedAt: toIsoValue(r.profileUpdatedAt),
+      startsAt: toIsoValue(r.startsAt),
+      endsAt: toIsoValue(r.endsAt),
+      activatedAt: toIsoValue(r.activatedAt),
+      archivedAt: toIsoValue(r.archivedAt),
+      archivedCount: Number(r.archivedCount) || 0,
+      retentionDays: clampRetentionDays(r.retentionDays)
+    }));
+}
+
+function listProfileRevisions(ss, eventId) {
+  return readSheetObjects(ensureEventProfilesSheet(ss)).rows
+    .filter((r) => String(r.eventId).trim() === String(eventId))
+    .map((r) => ({
+      eventId: String(r.eventId).trim(),
+      revision: Number(r.revision) || 0,
+      savedAt: r.savedAt instanceof Date ? r.savedAt.toISOString() : String(r.savedAt || ''),
+      note: String(r.note || ''),
+      fileId: String(r.fileId || '')
+    }))
+    .sort((a, b) => a.revision - b.revision);
+}
+
+function readProfileFile(fileId) {
+  try {
+    return JSON.parse(DriveApp.getFileById(fileId).getBlob().getDataAsString());
+  } catch (e) {
+    return null;
+  }
+}
+
+function updateEventRow(ss, eventId, changes) {
+  const sheet = ensureEventsSheet(ss);
+  const table = readSheetObjects(sheet);
+  table.rows.forEach((r) => {
+    if (eventId !== null && String(r.id).trim() !== String(eventId)) return;
+    Object.keys(changes).forEach((key) => {
+      const col = table.headers.indexOf(key);
+      if (col !== -1) sheet.getRange(r._row, col + 1).setValue(changes[key]);
+    });
+  });
+  bumpConfigVersion(); // Event aktif / nama event ikut di sync kiosk
+}
+
+// Naik tiap settings / konsep / event berubah; kiosk yang terhubung ke /api/config/stream sync ulang
+function bumpConfigVersion() {
+  const version = (Number(SCRIPT_PROP.getProperty('CONFIG_VERSION')) || 0) + 1;
+  SCRIPT_PROP.setProperties({ CONFIG_VERSION: String(version), CONFIG_UPDATED_AT: new Date().toISOString() });
+}
+
+function readConfigVersion() {
+  return {
+    version: Number(SCRIPT_PROP.getProperty('CONFIG_VERSION')) || 0,
+    updatedAt: SCRIPT_PROP.getProperty('CONFIG_UPDATED_AT') || ''
+  };
+}
+
+// Aktifkan satu event (eksklusif) + terapkan profile terbarunya. Dipanggil di dalam lock.
+function activateEventById(ss, eventId, nowIso) {
+  const events = listEvents(ss);
+  const event = events.find((ev) => ev.id === eventId);
+  if (!event) return { ok: false, error: 'Event not found' };
+  if (event.archivedAt) return { ok: false, error: 'Event is archived' };
+
+  // Konfigurasi live event sebelumnya disimpan dulu, perubahan langsung di settings tidak hilang
+  const previous = events.find((ev) => ev.isActive && ev.id !== event.id);
+  if (previous) {
+    saveProfileRevision(ss, previous, { settings: readSettings(ss), concepts: getConceptsData() || [] }, `Auto-saved before switching to ${event.name}`, nowIso);
+  }
+
+  const revisions = listProfileRevisions(ss, event.id);
+  const latest = revisions[revisions.length - 1];
+  const profile = latest ? readProfileFile(latest.fileId) : null;
+  applyEventProfile(event, profile);
+  updateEventRow(ss, null, { isActive: false });
+  updateEventRow(ss, event.id, { isActive: true, activatedAt: nowIso });
+  event.isActive = true;
+  event.activatedAt = nowIso;
+  return { ok: true, event: event, revision: latest ? latest.revision : 0, profile: profile };
+}
+
+// --- EVENT SCHEDULE ---
+// Salinan dueScheduleChange dari lib/eventSchedule.ts, ubah keduanya bersamaan.
+// Dievaluasi saat kiosk sync (getSettings / getEvents), hanya tepi window yang dieksekusi.
+
+function scheduleTime(iso) {
+  return iso ? new Date(iso).getTime() || 0 : 0;
+}
+
+function dueScheduleChange(events, now) {
+  const starting = events
+    .filter((ev) => !ev.archivedAt && !ev.isActive && ev.startsAt && scheduleTime(ev.startsAt) <= now
+      && (!ev.endsAt || now < scheduleTime(ev.endsAt)) && scheduleTime(ev.activatedAt) < scheduleTime(ev.startsAt))
+    .sort((a, b) => scheduleTime(b.startsAt) - scheduleTime(a.startsAt))[0];
+  if (starting) return { activate: starting.id };
+
+  const active = events.find((ev) => ev.isActive);
+  if (active && active.endsAt && scheduleTime(active.endsAt) <= now && scheduleTime(active.activatedAt) < scheduleTime(active.endsAt)) {
+    return { deactivate: active.id };
+  }
+  return null;
+}
+
+function runEventSchedule(ss) {
+  if (!dueScheduleChange(listEvents(ss), Date.now())) return;
+  executeWithLock(() => {
+    // Cek ulang di dalam lock, kiosk lain mungkin sudah menjalankannya
+    const change = dueScheduleChange(listEvents(ss), Date.now());
+    if (!change) return;
+    const nowIso = new Date().toISOString();
+    if (change.activate) activateEventById(ss, change.activate, nowIso);
+    else if (change.deactivate) updateEventRow(ss, change.deactivate, { isActive: false });
+  });
+}
+
+// Folder induk untuk folder per event (FOLDER_ID berganti mengikuti event aktif)
+function getEventsRootFolder() {
+  const rootId = SCRIPT_PROP.getProperty('EVENTS_FOLDER_ID');
+  if (rootId) {
+    try { return DriveApp.getFolderById(rootId); } catch (e) {}
+  }
+  const folder = DriveApp.getRootFolder().createFolder('COROAI PHOTOBOOTH EVENTS');
+  SCRIPT_PROP.setProperty('EVENTS_FOLDER_ID', folder.getId());
+  return folder;
+}
+
+function ensureGalleryArchiveSheet(ss) {
+  const gallerySheet = ensureGallerySheet(ss);
+  const galleryHeaders = gallerySheet.getRange(1, 1, 1, gallerySheet.getLastColumn()).getValues()[0];
+  return ensureSheetWithHeaders(ss, 'GalleryArchive', galleryHeaders.concat(['archivedAt']));
+}
+
+// Simpan snapshot sebagai revisi baru (revisi lama tidak pernah ditimpa, itu yang bisa di-rollback)
+function saveProfileRevision(ss, event, profile, note, nowIso) {
+  const settings = Object.assign({}, profile.settings || {});
+  PROFILE_EXCLUDED_SETTINGS.forEach((key) => { delete settings[key]; });
+  const snapshot = { settings: settings, concepts: profile.concepts || [] };
+
+  const revisions = listProfileRevisions(ss, event.id);
+  const revision = revisions.length > 0 ? revisions[revisions.length - 1].revision + 1 : 1;
+  const file = DriveApp.createFile(`coro_profile_${event.id}_r${revision}.json`, JSON.stringify(snapshot), 'application/json');
+
+  ensureEventProfilesSheet(ss).appendRow([event.id, revision, nowIso, note || '', file.getId()]);
+  updateEventRow(ss, event.id, { profileRevision: revision, profileUpdatedAt: nowIso });
+  return { revision: revision, profile: snapshot };
+}
+
+// Profile -> Script Properties + concepts live. Identitas event selalu dari record event.
+function applyEventProfile(event, profile) {
+  if (profile) {
+    PROFILE_PROPERTY_KEYS.forEach((key) => SCRIPT_PROP.deleteProperty(key));
+    const settings = Object.assign({}, profile.settings || {});
+    PROFILE_EXCLUDED_SETTINGS.forEach((key) => { delete settings[key]; });
+    writeSettings(settings);
+    if (Array.isArray(profile.concepts)) saveConceptsData(profile.concepts);
+  }
+  if (event.name) SCRIPT_PROP.setProperty('EVENT_NAME', event.name);
+  if (event.description) SCRIPT_PROP.setProperty('EVENT_DESC', event.description);
+  if (event.folderId) SCRIPT_PROP.setProperty('FOLDER_ID', event.folderId);
+  bumpConfigVersion();
+}
+
 function getConceptsData() {
   const fileId = SCRIPT_PROP.getProperty('CONCEPTS_FILE_ID');
   if (fileId) {
@@ -583,6 +2071,7 @@ function saveConceptsData(concepts) {
     SCRIPT_PROP.setProperty('CONCEPTS_FILE_ID', file.getId());
   }
   SCRIPT_PROP.deleteProperty('CONCEPTS_JSON');
+  bumpConfigVersion();
 }
 
 function createJsonResponse(obj) {
@@ -5,6 +5,9 @@ import { Concept, PhotoboothSettings } from './types';
 // INI ADALAH KUNCI UTAMA KONEKSI KE DATABASE BARU
 export const DEFAULT_GAS_URL = 'https://script.google.com/macros/s/AKfycbyhmFK_aUuhH_3n9GNhBOYshaAdWiI0xgqosY7xY2WkrNV89sTESKSGXpXLBg3PSsdW/exec';
 
+// Diisi saat build (vite.config.ts): versi package.json + commit, dilaporkan di heartbeat kiosk
+export const APP_VERSION = process.env.APP_VERSION || 'dev';
+
 export const DEFAULT_CONCEPTS: Concept[] = [
   {
     id: 'cyberpunk',
@@ -67,11 +70,30 @@ export const DEFAULT_SETTINGS: PhotoboothSettings = {
   monitorTheme: 'physics', 
   processingMode: 'normal', 
   autoResetTime: 60,
-  adminPin: '1234',
   orientation: 'portrait',
   outputRatio: '9:16',
   cameraRotation: 0,
   promptMode: 'wrapped', 
   enableModelShortcut: false, 
-  enablePrint: false 
+  enablePrint: false,
+  fallbackChain: [],
+  captureMode: 'single',
+  shotCount: 4,
+  stripLayout: 'strip',
+  shotConcepts: 'same',
+  boomerangKeyframes: 4,
+  guestDelivery: 'off',
+  requireConsent: false,
+  consentText: 'Your photo will be processed by AI and stored for this event. You can delete it anytime from your share link.',
+  modelCosts: {},
+  budgetSoftCap: 0,
+  budgetHardCap: 0
 };
+
+// Model yang bisa dipilih di editor fallback chain (Admin)
+export const IMAGE_MODEL_OPTIONS: { id: string; label: string }[] = [
+  { id: 'seedream-4-5-251128', label: 'Seedream 4.5' },
+  { id: 'gpt-image-1.5', label: 'GPT Image (OpenAI)' },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro' },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash' }
+];
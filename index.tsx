@@ -2,15 +2,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharePage from './pages/SharePage';
+import { parseShareDeleteKey, parseShareToken } from './lib/share';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Guest share links (/share/:token) skip the kiosk app entirely (no settings sync, no admin)
+const shareToken = parseShareToken(window.location.pathname);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {shareToken ? <SharePage token={shareToken} deleteKey={parseShareDeleteKey(window.location.search)} /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,24 @@
+/**
+ * ADMIN AUTH (SHARED)
+ * Aturan sesi admin yang dipakai client (lib/adminSession.ts) dan backend lokal (lib/fsStorage.ts).
+ * apps-script.gs memakai salinan nilai yang sama, ubah keduanya bersamaan.
+ *
+ * PIN hanya disimpan sebagai hash ber-salt di backend; client memegang token sesi yang kedaluwarsa.
+ */
+
+export const ADMIN_SESSION_TTL_MS = 4 * 60 * 60 * 1000;
+export const MAX_FAILED_LOGINS = 5;
+export const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+export const MIN_PIN_LENGTH = 6;
+
+// Error codes returned by the backends (response.error)
+export const AUTH_REQUIRED = 'AUTH_REQUIRED'; // Missing / expired / revoked token
+export const AUTH_LOCKED = 'LOCKED'; // Too many failed logins, see lockedUntil
+export const AUTH_SETUP_REQUIRED = 'SETUP_REQUIRED'; // No PIN configured yet
+export const AUTH_INVALID_PIN = 'INVALID PIN';
+
+export const validateNewPin = (pin: string): string | null => {
+  if (!/^\d+$/.test(pin)) return 'PIN must be digits only';
+  if (pin.length < MIN_PIN_LENGTH) return `PIN must be at least ${MIN_PIN_LENGTH} digits`;
+  return null;
+};
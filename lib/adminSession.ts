@@ -0,0 +1,111 @@
+import { getStorageBackend } from './storageBackend';
+
+/**
+ * ADMIN SESSION (CLIENT)
+ * Token dari adminLogin / setupAdminPin disimpan di sessionStorage (hilang saat browser kiosk
+ * ditutup), dikirim otomatis oleh aksi admin di lib/storageClient.ts. Server memvalidasi & menolak
+ * token kedaluwarsa dengan AUTH_REQUIRED -> expire() -> Admin kembali ke layar PIN.
+ */
+
+const SESSION_KEY = 'pb_admin_session';
+
+type SessionListener = (active: boolean) => void;
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+}
+
+export interface LoginResult {
+  ok: boolean;
+  error?: string;
+  attemptsLeft?: number;
+  lockedUntil?: string;
+}
+
+class AdminSessionSystem {
+  private listeners = new Set<SessionListener>();
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  getToken(): string | null {
+    const session = this.read();
+    return session ? session.token : null;
+  }
+
+  isActive(): boolean {
+    return this.read() !== null;
+  }
+
+  async login(pin: string): Promise<LoginResult> {
+    return this.start('adminLogin', { pin });
+  }
+
+  // First run only: backend accepts it while no PIN is configured
+  async setupPin(pin: string): Promise<LoginResult> {
+    return this.start('setupAdminPin', { pin });
+  }
+
+  // Revokes every other session (new token epoch on the backend)
+  async changePin(currentPin: string, newPin: string): Promise<LoginResult> {
+    return this.start('changeAdminPin', { token: this.getToken(), currentPin, newPin });
+  }
+
+  async logout() {
+    const token = this.getToken();
+    this.clear();
+    if (!token) return;
+    try {
+      await getStorageBackend().post('adminLogout', { token });
+    } catch (e) {
+      console.warn("[AdminSession] Logout request failed:", e);
+    }
+  }
+
+  // Server rejected the token (expired / revoked)
+  expire() {
+    if (!this.read()) return;
+    console.warn("[AdminSession] Session expired");
+    this.clear();
+  }
+
+  private async start(action: string, payload: Record<string, any>): Promise<LoginResult> {
+    try {
+      const res = await getStorageBackend().post(action, payload);
+      if (!res.ok || !res.token) return { ok: false, error: res.error || 'Login failed', attemptsLeft: res.attemptsLeft, lockedUntil: res.lockedUntil };
+      sessionStorage.setItem(SESSION_KEY, JSON.stringify({ token: res.token, expiresAt: res.expiresAt }));
+      this.notify(true);
+      return { ok: true };
+    } catch (e: any) {
+      return { ok: false, error: e.message || 'FETCH_FAILED' };
+    }
+  }
+
+  private read(): StoredSession | null {
+    try {
+      const session: StoredSession | null = JSON.parse(sessionStorage.getItem(SESSION_KEY) || 'null');
+      if (!session || !session.token) return null;
+      if (new Date(session.expiresAt).getTime() <= Date.now()) {
+        sessionStorage.removeItem(SESSION_KEY);
+        return null;
+      }
+      return session;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private clear() {
+    sessionStorage.removeItem(SESSION_KEY);
+    this.notify(false);
+  }
+
+  private notify(active: boolean) {
+    this.listeners.forEach(listener => listener(active));
+  }
+}
+
+export const AdminSession = new AdminSessionSystem();
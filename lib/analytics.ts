@@ -0,0 +1,222 @@
+import type { AnalyticsJob, AnalyticsRow, VideoStatus } from '../types.js';
+import { parseTimeline } from './videoStateMachine.js';
+
+/**
+ * EVENT ANALYTICS
+ * Dihitung di Admin dari data yang sudah ada: baris Gallery (+ arsip) dan sheet Jobs (fast mode).
+ * Backend hanya mengirim kolom ANALYTICS_ROW_COLUMNS (action analyticsData), agregasi di sini,
+ * jadi apps-script.gs cukup menyalin daftar kolom itu.
+ *
+ * Catatan sumber angka:
+ * - Waktu generate foto hanya tercatat untuk job fast mode (Jobs: createdAt -> updatedAt saat done,
+ *   termasuk antri & upload). Mode normal tidak menulis durasi.
+ * - Waktu video dari videoTimeline (waktu terakhir masuk tiap status), retry bisa menggeser angka.
+ */
+
+export const ANALYTICS_ROW_COLUMNS = [
+  'id', 'createdAt', 'conceptName', 'eventId', 'type', 'originalId', 'aiModel',
+  'videoStatus', 'videoModel', 'videoTimeline', 'prints', 'deletedAt', 'purgedAt', 'fallbackPath'
+];
+
+// Rentang lebih panjang dari ini tidak diisi jam kosong (grafik per jam jadi tidak terbaca)
+const MAX_FILLED_HOURS = 7 * 24;
+const HOUR_MS = 60 * 60 * 1000;
+const UNKNOWN = '(unknown)';
+
+export interface HourBucket {
+  hour: number; // Epoch ms awal jam (waktu lokal)
+  captures: number;
+}
+
+export interface ConceptStat {
+  name: string;
+  results: number;
+  prints: number;
+}
+
+export interface ImageProviderStat {
+  model: string;
+  results: number; // Baris gallery dengan aiModel ini
+  jobsDone: number;
+  jobsDead: number;
+  failureRate: number | null; // dead / (done + dead), null tanpa job
+  avgJobMs: number | null;
+}
+
+export interface VideoProviderStat {
+  model: string;
+  requested: number;
+  done: number;
+  failed: number;
+  inProgress: number;
+  failureRate: number | null; // failed / (done + failed)
+  avgQueueMs: number | null; // queued -> processing
+  avgRenderMs: number | null; // processing -> ready_url
+  avgTotalMs: number | null; // queued (atau processing) -> done
+}
+
+export interface EventAnalytics {
+  captures: number; // Foto unik (originalId), regenerate tidak dihitung ulang
+  results: number; // Semua hasil termasuk regenerate
+  deleted: number;
+  purged: number;
+  prints: number;
+  videosRequested: number;
+  capturesPerHour: HourBucket[];
+  concepts: ConceptStat[];
+  imageProviders: ImageProviderStat[];
+  videoProviders: VideoProviderStat[];
+}
+
+const time = (value: unknown) => (value ? new Date(value as string).getTime() || 0 : 0);
+
+const average = (values: number[]) => (values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null);
+
+const rate = (bad: number, good: number) => (bad + good > 0 ? bad / (bad + good) : null);
+
+const span = (timeline: Partial<Record<VideoStatus, string>>, from: VideoStatus | undefined, to: VideoStatus) => {
+  const start = from ? time(timeline[from]) : 0;
+  const end = time(timeline[to]);
+  return start && end && end >= start ? end - start : null;
+};
+
+const startOfHour = (ms: number) => {
+  const date = new Date(ms);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+};
+
+const group = <T>(items: T[], key: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const k = key(item);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  });
+  return groups;
+};
+
+const capturesPerHour = (captureTimes: number[]): HourBucket[] => {
+  const counts = new Map<number, number>();
+  captureTimes.forEach(ms => {
+    const hour = startOfHour(ms);
+    counts.set(hour, (counts.get(hour) || 0) + 1);
+  });
+  const hours = [...counts.keys()].sort((a, b) => a - b);
+  if (hours.length === 0) return [];
+  const first = hours[0];
+  const last = hours[hours.length - 1];
+  if ((last - first) / HOUR_MS <= MAX_FILLED_HOURS) {
+    // Jam tanpa foto tetap tampil; startOfHour lagi supaya aman saat pergantian DST
+    for (let hour = first; hour <= last; hour = startOfHour(hour + HOUR_MS + 1)) {
+      if (!counts.has(hour)) counts.set(hour, 0);
+    }
+  }
+  return [...counts.entries()].sort((a, b) => a[0] - b[0]).map(([hour, captures]) => ({ hour, captures }));
+};
+
+export const computeAnalytics = (rows: AnalyticsRow[], jobs: AnalyticsJob[]): EventAnalytics => {
+  // Baris 'video' adalah file video terpisah dari hasil foto yang sudah terhitung
+  const results = rows.filter(r => r.type !== 'video' && String(r.id || '').trim());
+
+  const firstCapture = new Map<string, number>();
+  results.forEach(r => {
+    const key = String(r.originalId || r.id);
+    const ms = time(r.createdAt);
+    if (ms && (!firstCapture.has(key) || ms < firstCapture.get(key)!)) firstCapture.set(key, ms);
+  });
+
+  const concepts = [...group(results, r => r.conceptName || (r.purgedAt ? '(purged)' : UNKNOWN)).entries()]
+    .map(([name, items]) => ({ name, results: items.length, prints: items.reduce((sum, r) => sum + (Number(r.prints) || 0), 0) }))
+    .sort((a, b) => b.results - a.results);
+
+  const jobsByModel = group(jobs, j => j.aiModel || UNKNOWN);
+  const resultsByModel = group(results, r => r.aiModel || UNKNOWN);
+  const imageProviders = [...new Set([...resultsByModel.keys(), ...jobsByModel.keys()])]
+    .map(model => {
+      const modelJobs = jobsByModel.get(model) || [];
+      const done = modelJobs.filter(j => j.status === 'done');
+      const dead = modelJobs.filter(j => j.status === 'dead');
+      return {
+        model,
+        results: (resultsByModel.get(model) || []).length,
+        jobsDone: done.length,
+        jobsDead: dead.length,
+        failureRate: rate(dead.length, done.length),
+        avgJobMs: average(done.map(j => Number(j.updatedAt) - Number(j.createdAt)).filter(ms => ms > 0))
+      };
+    })
+    .sort((a, b) => b.results - a.results);
+
+  const videoRows = rows.filter(r => r.videoStatus && r.videoStatus !== 'idle');
+  const videoProviders = [...group(videoRows, r => r.videoModel || UNKNOWN).entries()]
+    .map(([model, items]) => {
+      const timelines = items.map(r => parseTimeline(r.videoTimeline));
+      const done = items.filter(r => r.videoStatus === 'done').length;
+      const failed = items.filter(r => r.videoStatus === 'failed').length;
+      const collect = (fn: (t: Partial<Record<VideoStatus, string>>) => number | null) =>
+        average(timelines.map(fn).filter((ms): ms is number => ms !== null));
+      return {
+        model,
+        requested: items.length,
+        done,
+        failed,
+        inProgress: items.length - done - failed,
+        failureRate: rate(failed, done),
+        avgQueueMs: collect(t => span(t, 'queued', 'processing')),
+        avgRenderMs: collect(t => span(t, 'processing', 'ready_url')),
+        avgTotalMs: collect(t => span(t, t.queued ? 'queued' : 'processing', 'done'))
+      };
+    })
+    .sort((a, b) => b.requested - a.requested);
+
+  return {
+    captures: firstCapture.size,
+    results: results.length,
+    deleted: results.filter(r => r.deletedAt && !r.purgedAt).length,
+    purged: results.filter(r => r.purgedAt).length,
+    prints: concepts.reduce((sum, c) => sum + c.prints, 0),
+    videosRequested: videoRows.length,
+    capturesPerHour: capturesPerHour([...firstCapture.values()]),
+    concepts,
+    imageProviders,
+    videoProviders
+  };
+};
+
+// --- CSV EXPORT ---
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const seconds = (ms: number | null) => (ms === null ? '' : (ms / 1000).toFixed(1));
+const percent = (value: number | null) => (value === null ? '' : (value * 100).toFixed(1));
+
+// Satu file, satu tabel per bagian dipisah baris kosong (dibuka rapi oleh Sheets / Excel)
+export const analyticsToCsv = (analytics: EventAnalytics, label: string): string => {
+  const sections: unknown[][][] = [
+    [
+      ['Event', 'Captures', 'Results', 'Deleted', 'Purged', 'Prints', 'Videos requested'],
+      [label, analytics.captures, analytics.results, analytics.deleted, analytics.purged, analytics.prints, analytics.videosRequested]
+    ],
+    [
+      ['Hour', 'Captures'],
+      ...analytics.capturesPerHour.map(b => [new Date(b.hour).toLocaleString(), b.captures])
+    ],
+    [
+      ['Concept', 'Results', 'Prints'],
+      ...analytics.concepts.map(c => [c.name, c.results, c.prints])
+    ],
+    [
+      ['Image model', 'Results', 'Fast jobs done', 'Fast jobs dead', 'Failure %', 'Avg fast job (s)'],
+      ...analytics.imageProviders.map(p => [p.model, p.results, p.jobsDone, p.jobsDead, percent(p.failureRate), seconds(p.avgJobMs)])
+    ],
+    [
+      ['Video model', 'Requested', 'Done', 'Failed', 'In progress', 'Failure %', 'Avg queue (s)', 'Avg render (s)', 'Avg total (s)'],
+      ...analytics.videoProviders.map(p => [p.model, p.requested, p.done, p.failed, p.inProgress, percent(p.failureRate), seconds(p.avgQueueMs), seconds(p.avgRenderMs), seconds(p.avgTotalMs)])
+    ]
+  ];
+  return sections.map(rows => rows.map(row => row.map(csvCell).join(',')).join('\n')).join('\n\n') + '\n';
+};
@@ -0,0 +1,36 @@
+/**
+ * KIOSK API CLIENT
+ * Kredensial kiosk (Admin > Kiosk Access) disimpan di localStorage per perangkat dan dikirim
+ * sebagai header X-Kiosk-Id / X-Kiosk-Key ke route /api yang memakai kredit provider
+ * (lib/apiMiddleware.ts). Halaman tamu (/share) tidak memakainya.
+ */
+
+const KIOSK_ID_KEY = 'KIOSK_ID';
+const KIOSK_KEY_KEY = 'KIOSK_API_KEY';
+
+export interface KioskCredentials {
+  id: string;
+  key: string;
+}
+
+export const getKioskCredentials = (): KioskCredentials => ({
+  id: localStorage.getItem(KIOSK_ID_KEY) || '',
+  key: localStorage.getItem(KIOSK_KEY_KEY) || ''
+});
+
+export const setKioskCredentials = ({ id, key }: KioskCredentials) => {
+  if (id.trim()) localStorage.setItem(KIOSK_ID_KEY, id.trim());
+  else localStorage.removeItem(KIOSK_ID_KEY);
+  if (key.trim()) localStorage.setItem(KIOSK_KEY_KEY, key.trim());
+  else localStorage.removeItem(KIOSK_KEY_KEY);
+};
+
+export const apiFetch = (url: string, init: RequestInit = {}) => {
+  const { id, key } = getKioskCredentials();
+  const headers = new Headers(init.headers);
+  if (id && key) {
+    headers.set('X-Kiosk-Id', id);
+    headers.set('X-Kiosk-Key', key);
+  }
+  return fetch(url, { ...init, headers });
+};
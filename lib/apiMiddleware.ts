@@ -0,0 +1,132 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { consumeRateLimit, RateLimitRule } from './rateLimit.js';
+
+/**
+ * API MIDDLEWARE (SERVER)
+ * Pembungkus route /api: CORS, OPTIONS, method, kunci kiosk dan rate limit, supaya route
+ * yang memakai kredit provider (ARK, OpenAI, SMS) tidak bisa dipanggil siapa saja.
+ *
+ * - Kunci kiosk: env KIOSK_API_KEYS="kiosk-1:rahasia1,kiosk-2:rahasia2". Kiosk mengirim header
+ *   X-Kiosk-Id + X-Kiosk-Key (Admin > Kiosk Access, lihat lib/apiClient.ts). Env kosong = route
+ *   kiosk ditolak (401, fail closed); hanya KIOSK_AUTH=off (dev lokal) yang membukanya, dengan
+ *   peringatan di log sekali per instance.
+ * - Rate limit: token bucket per kiosk (atau per IP tanpa kunci / route publik) per route.
+ * - CORS: env API_ALLOWED_ORIGINS (dipisah koma) membatasi origin, kosong = '*'.
+ *
+ * Error selalu { ok: false, error, code } supaya client lama yang membaca data.error tetap jalan.
+ */
+
+export const KIOSK_AUTH_REQUIRED = 'KIOSK_AUTH_REQUIRED';
+export const RATE_LIMITED = 'RATE_LIMITED';
+export const KIOSK_AUTH_NOT_CONFIGURED = 'KIOSK_AUTH_NOT_CONFIGURED';
+
+export interface ApiRouteOptions {
+  name: string; // Bucket prefix, unique per route
+  methods: string[];
+  auth: 'kiosk' | 'public';
+  rateLimit?: RateLimitRule;
+}
+
+export interface ApiContext {
+  kioskId: string | null; // null = public route or KIOSK_AUTH=off
+  clientIp: string;
+}
+
+export type ApiHandler = (req: any, res: any, ctx: ApiContext) => Promise<any> | any;
+
+const hash = (value: string) => createHash('sha256').update(value).digest();
+
+let warnedOpen = false;
+
+const configuredKeys = (): Map<string, string> => {
+  const keys = new Map<string, string>();
+  String(process.env.KIOSK_API_KEYS || '').split(',').forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    const id = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (id && key) keys.set(id, key);
+  });
+  return keys;
+};
+
+const header = (req: any, name: string) => {
+  const value = req.headers?.[name];
+  return String(Array.isArray(value) ? value[0] : value || '').trim();
+};
+
+export const clientIp = (req: any) =>
+  header(req, 'x-forwarded-for').split(',')[0].trim() || String(req.socket?.remoteAddress || 'unknown');
+
+// Opt-out eksplisit untuk dev lokal tanpa KIOSK_API_KEYS
+const isKioskAuthDisabled = () => String(process.env.KIOSK_AUTH || '').trim().toLowerCase() === 'off';
+
+// undefined = kunci tidak dikonfigurasi, null = ditolak
+export const authenticateKiosk = (req: any): string | null | undefined => {
+  const keys = configuredKeys();
+  if (keys.size === 0) return undefined;
+  const id = header(req, 'x-kiosk-id');
+  const expected = keys.get(id);
+  if (!expected) return null;
+  return timingSafeEqual(hash(header(req, 'x-kiosk-key')), hash(expected)) ? id : null;
+};
+
+const applyCors = (req: any, res: any, methods: string[]) => {
+  const allowed = String(process.env.API_ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+  const origin = header(req, 'origin');
+  if (allowed.length === 0) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (origin && allowed.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(','));
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Kiosk-Id, X-Kiosk-Key');
+};
+
+export const withApi = (options: ApiRouteOptions, handler: ApiHandler) => async (req: any, res: any) => {
+  applyCors(req, res, options.methods);
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (!options.methods.includes(req.method)) return res.status(405).json({ ok: false, error: 'Method not allowed' });
+
+  const ip = clientIp(req);
+  let kioskId: string | null = null;
+  if (options.auth === 'kiosk') {
+    const auth = authenticateKiosk(req);
+    if (auth === null) {
+      console.warn(`[API] ${options.name}: rejected kiosk "${header(req, 'x-kiosk-id')}" from ${ip}`);
+      return res.status(401).json({ ok: false, error: 'Kiosk key missing or invalid', code: KIOSK_AUTH_REQUIRED });
+    }
+    if (auth === undefined) {
+      if (!isKioskAuthDisabled()) {
+        console.error(`[API] ${options.name}: KIOSK_API_KEYS not set, rejecting (set KIOSK_AUTH=off for local dev)`);
+        return res.status(401).json({ ok: false, error: 'Kiosk keys not configured on the server', code: KIOSK_AUTH_NOT_CONFIGURED });
+      }
+      if (!warnedOpen) {
+        warnedOpen = true;
+        console.warn('[API] KIOSK_AUTH=off: provider routes are open to any caller');
+      }
+    }
+    kioskId = auth || null;
+  }
+
+  if (options.rateLimit) {
+    const rule = options.rateLimit;
+    const result = await consumeRateLimit(`${options.name}:${kioskId ? `kiosk:${kioskId}` : `ip:${ip}`}`, rule);
+    res.setHeader('X-RateLimit-Limit', String(rule.capacity));
+    res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      return res.status(429).json({
+        ok: false,
+        error: `Too many requests, retry in ${retryAfterSeconds}s`,
+        code: RATE_LIMITED,
+        retryAfterSeconds,
+        limit: { capacity: rule.capacity, refillPerMinute: rule.refillPerMinute }
+      });
+    }
+  }
+
+  return handler(req, res, { kioskId, clientIp: ip });
+};
@@ -1,186 +1,250 @@
-
-import { GalleryItem, PhotoboothSettings, Concept, EventRecord } from '../types';
-import { DEFAULT_GAS_URL } from '../constants';
-
-const getGasUrl = () => {
-  const url = localStorage.getItem('APPS_SCRIPT_BASE_URL') || DEFAULT_GAS_URL;
-  return url.trim();
-};
-
-const robustFetch = async (url: string, options: RequestInit = {}) => {
-    try {
-        if (options.method === 'POST') {
-             if (!options.headers) options.headers = {};
-             (options.headers as any)['Content-Type'] = 'text/plain;charset=utf-8';
-        }
-        const res = await fetch(url, options);
-        if (!res.ok) throw new Error(`Server Error: ${res.status}`);
-        const contentType = res.headers.get("content-type");
-        if (contentType && contentType.indexOf("application/json") !== -1) return await res.json();
-        const text = await res.text();
-        try { return JSON.parse(text); } catch (e) { throw new Error("Invalid response from server (Not JSON)"); }
-    } catch (e: any) {
-        console.error("FETCH FAILED:", e.message);
-        throw e;
-    }
-}
+import { GalleryPage, GalleryQuery, PhotoboothSettings, Concept, EventRecord, EventProfile, ImageJob, GuestContact, KioskCommandType, KioskHeartbeat } from '../types';
+import { callStorage } from './storageClient';
+import { StorageError, toStorageError } from './storageErrors';
+import { EventInput, StorageAction, StorageRequest, StorageResponse, UploadRequest } from './storageSchema';
+
+export type { EventInput, UploadRequest } from './storageSchema';
+
+/**
+ * PERSISTENCE API
+ * Nama fungsi historis (…Gas, …Drive) dipertahankan; eksekusi lewat lib/storageClient.ts
+ * (request / response bertipe, retry, idempotency) ke storage backend aktif, lihat
+ * lib/storageBackend.ts.
+ *
+ * Kebanyakan fungsi mengembalikan bentuk lama { ok, ...response, error } untuk halaman; `failure`
+ * membawa StorageError aslinya (auth / notFound / quota / network / ...). Kode baru yang perlu
+ * membedakan kegagalan bisa memanggil callStorage langsung.
+ */
+
+export type StorageResult<T> =
+  | (Omit<T, 'ok'> & { ok: true; error?: undefined; failure?: undefined })
+  | ({ [K in keyof Omit<T, 'ok'>]?: undefined } & { ok: false; error: string; failure: StorageError });
+
+const settle = async <A extends StorageAction>(
+  action: A,
+  request: StorageRequest<A> | Promise<StorageRequest<A>>
+): Promise<StorageResult<StorageResponse<A>>> => {
+  try {
+    return { ...(await callStorage(action, await request)), ok: true } as StorageResult<StorageResponse<A>>;
+  } catch (err) {
+    const failure = toStorageError(action, err);
+    return { ok: false, error: failure.message, failure } as StorageResult<StorageResponse<A>>;
+  }
+};
 
 export const fetchSettings = async () => {
-  const url = getGasUrl();
-  return await robustFetch(`${url}?action=getSettings&t=${Date.now()}`);
+  return await settle('getSettings', {});
 };
 
 export const fetchEvents = async (): Promise<EventRecord[]> => {
-  const url = getGasUrl();
   try {
-    const data = await robustFetch(`${url}?action=getEvents&t=${Date.now()}`);
-    return data.events || [];
+    return (await callStorage('getEvents', {})).events;
   } catch (error) { return []; }
 };
 
+// Event baru + folder Drive sendiri (di bawah folder EVENTS_FOLDER_ID)
+export const createEvent = async (event: EventInput) => {
+  return await settle('createEvent', { event });
+};
+
+export const updateEvent = async (event: Partial<EventInput> & { id: string }) => {
+  return await settle('updateEvent', { event });
+};
+
+// Baris gallery event dipindah ke arsip; event tidak bisa diaktifkan lagi
+export const archiveEvent = async (eventId: string) => {
+  return await settle('archiveEvent', { eventId });
+};
+
+export const fetchEventProfile = async (eventId: string, revision?: number) => {
+  return await settle('getEventProfile', { id: eventId, revision });
+};
+
+// Snapshot baru (revisi) untuk event; kalau event sedang aktif, langsung diterapkan ke settings live
+export const saveEventProfile = async (eventId: string, profile: EventProfile, note?: string) => {
+  return await settle('saveEventProfile', { eventId, settings: profile.settings, concepts: profile.concepts, note });
+};
+
+export const activateEvent = async (eventId: string) => {
+  return await settle('activateEvent', { eventId });
+};
+
+export const restoreEventRevision = async (eventId: string, revision: number) => {
+  return await settle('restoreEventRevision', { eventId, revision });
+};
+
 export const fetchImageBase64 = async (fileId: string): Promise<string | null> => {
-  const url = getGasUrl();
   try {
-    const data = await robustFetch(`${url}?action=getBase64&id=${fileId}`);
-    return data.ok ? data.base64 : null;
+    return (await callStorage('getBase64', { id: fileId })).base64;
   } catch (error) { return null; }
 };
 
-export const createSessionFolder = async (): Promise<{ok: boolean, folderId?: string, folderUrl?: string}> => {
-  const url = getGasUrl();
-  try {
-    return await robustFetch(url, {
-      method: 'POST',
-      body: JSON.stringify({ action: 'createSession' })
-    });
-  } catch (e) { return { ok: false }; }
+export const createSessionFolder = async () => {
+  return await settle('createSession', {});
 };
 
-export const queueVideoTask = async (photoId: string, options?: { prompt?: string, resolution?: string, model?: string }): Promise<{ok: boolean}> => {
-  const url = getGasUrl();
-  try {
-    // Priority: Arguments -> LocalStorage -> Default
-    let prompt = options?.prompt;
-    let resolution = options?.resolution;
-    let model = options?.model;
-
-    if (!prompt || !resolution || !model) {
-        const stored = localStorage.getItem('pb_settings');
-        const settings = stored ? JSON.parse(stored) : {};
-        if (!prompt) prompt = settings.videoPrompt;
-        if (!resolution) resolution = settings.videoResolution || '480p';
-        if (!model) model = settings.videoModel || 'seedance-1-0-pro-fast-251015';
-    }
+export const queueVideoTask = async (photoId: string, options?: { prompt?: string, resolution?: string, model?: string }) => {
+  // Priority: Arguments -> LocalStorage -> Default
+  let prompt = options?.prompt;
+  let resolution = options?.resolution;
+  let model = options?.model;
 
-    return await robustFetch(url, {
-      method: 'POST',
-      body: JSON.stringify({ 
-        action: 'queueVideo', 
-        photoId,
-        prompt,
-        resolution,
-        model
-      })
-    });
-  } catch (e) { 
-      console.error("Queue Video Failed:", e);
-      return { ok: false }; 
+  if (!prompt || !resolution || !model) {
+      const stored = localStorage.getItem('pb_settings');
+      const settings = stored ? JSON.parse(stored) : {};
+      if (!prompt) prompt = settings.videoPrompt;
+      if (!resolution) resolution = settings.videoResolution || '480p';
+      if (!model) model = settings.videoModel || 'seedance-1-0-pro-fast-251015';
   }
+
+  const res = await settle('queueVideo', { photoId, prompt, resolution, model });
+  if (!res.ok) console.error("Queue Video Failed:", res.failure);
+  return res;
 };
 
-export const updateVideoStatusInGas = async (photoId: string, status: string, taskId?: string, providerUrl?: string): Promise<{ok: boolean}> => {
-  const url = getGasUrl();
-  try {
-    return await robustFetch(url, {
-      method: 'POST',
-      body: JSON.stringify({ action: 'updateVideoStatus', photoId, status, taskId, providerUrl })
-    });
-  } catch (e) { return { ok: false }; }
+export const updateVideoStatusInGas = async (photoId: string, status: string, taskId?: string, providerUrl?: string) => {
+  return await settle('updateVideoStatus', { photoId, status, taskId, providerUrl });
 };
 
-export const uploadToDrive = async (base64Image: string, metadata: any) => {
-  const url = getGasUrl();
-  try {
-    return await robustFetch(url, {
-      method: 'POST',
-      body: JSON.stringify({ action: 'uploadGenerated', image: base64Image, ...metadata })
-    });
-  } catch (error: any) { return { ok: false, error: error.message || "FETCH_FAILED" }; }
+// idempotencyKey stabil (mis. per entry outbox) membuat upload ulang aman lintas percobaan
+export const uploadToDrive = async (base64Image: string, metadata: Omit<UploadRequest, 'image'>) => {
+  return await settle('uploadGenerated', { ...metadata, image: base64Image });
 };
 
-export const uploadVideoToDrive = async (videoBlob: Blob, metadata: any) => {
-  const url = getGasUrl();
+export const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
   const reader = new FileReader();
-  return new Promise<any>((resolve) => {
-    reader.onloadend = async () => {
-      const base64Video = reader.result as string;
-      try {
-        const res = await robustFetch(url, {
-          method: 'POST',
-          body: JSON.stringify({ action: 'uploadGeneratedVideo', image: base64Video, mimeType: 'video/mp4', ...metadata })
-        });
-        resolve(res);
-      } catch (e) { resolve({ ok: false, error: "Video Upload Failed" }); }
-    };
-    reader.readAsDataURL(videoBlob);
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const uploadVideoToDrive = async (videoBlob: Blob, metadata: Omit<UploadRequest, 'image' | 'mimeType'>) => {
+  return await settle('uploadGeneratedVideo', readAsDataUrl(videoBlob).then(image => ({ ...metadata, image, mimeType: videoBlob.type || 'video/mp4' })));
+};
+
+// Video / GIF already held as a data URI (outbox entries), MIME type taken from the URI
+export const uploadVideoDataToDrive = async (dataUri: string, metadata: Omit<UploadRequest, 'image' | 'mimeType'>) => {
+  const mimeType = dataUri.slice(5, dataUri.indexOf(';')) || 'video/mp4';
+  return await settle('uploadGeneratedVideo', { ...metadata, image: dataUri, mimeType });
+};
+
+// Mirror of a fast mode job in the 'Jobs' sheet (no image data, metadata only)
+export const recordJob = async (job: ImageJob) => {
+  return await settle('recordJob', {
+    job: {
+      id: job.id,
+      status: job.status,
+      conceptName: job.concept.name,
+      eventId: job.eventId || '',
+      attempts: job.attempts,
+      lastError: job.lastError || '',
+      resultId: job.resultId || '',
+      aiModel: job.aiModel || '',
+      createdAt: new Date(job.createdAt).toISOString(),
+      updatedAt: new Date(job.updatedAt).toISOString()
+    }
   });
 };
 
-export const fetchGallery = async (eventId?: string, since?: number): Promise<{ items: GalleryItem[], nextCursor: number, isDelta?: boolean }> => {
-  const url = getGasUrl();
-  let query = `?action=gallery&t=${Date.now()}`;
-  if (eventId) query += `&eventId=${eventId}`;
-  if (since && since > 0) query += `&since=${since}`;
-  const data = await robustFetch(`${url}${query}`);
-  if (Array.isArray(data.items)) {
-      return { items: data.items, nextCursor: data.nextCursor || 0, isDelta: data.isDelta };
-  }
-  return { items: [], nextCursor: 0 };
+const toGalleryPage = (data: StorageResponse<'gallery'>): GalleryPage => ({
+  items: data.items,
+  nextCursor: data.nextCursor || 0,
+  olderCursor: data.olderCursor || '',
+  isDelta: data.isDelta
+});
+
+// Newest page for eventId, or (since > 0) every row changed after `since`, unfiltered. Throws StorageError
+export const fetchGallery = async (eventId?: string, since?: number): Promise<GalleryPage> => {
+  return toGalleryPage(await callStorage('gallery', {
+    eventId,
+    since: since && since > 0 ? since : undefined
+  }));
+};
+
+// Filtered page, newest first; `before` = olderCursor of the previous page (see lib/galleryQuery.ts)
+export const fetchGalleryPage = async (query: GalleryQuery, before?: string, limit?: number): Promise<GalleryPage> => {
+  return toGalleryPage(await callStorage('gallery', { ...query, before, limit }));
+};
+
+// Guest "send it to me" contact, stored on the gallery row (never returned by public reads)
+export const saveGuestContact = async (photoId: string, contact: GuestContact) => {
+  return await settle('setGuestContact', { photoId, contact });
+};
+
+export const deletePhotoFromGas = async (id: string) => {
+  return await settle('deletePhoto', { id });
+};
+
+export const deleteAllPhotosFromGas = async () => {
+  return await settle('deleteAllPhotos', {});
+};
+
+// Soft-deleted items (newest deletion first), admin only
+export const fetchDeletedPhotos = async () => {
+  return await settle('listDeletedPhotos', {});
+};
+
+// Clears deletedAt and takes the Drive files out of the trash; the next delta sync brings it back
+export const restorePhotoFromGas = async (id: string) => {
+  return await settle('restorePhoto', { id });
+};
+
+// Audit log of permanently purged rows (retention policy + guest requests), newest first
+export const fetchPurgeLog = async () => {
+  return await settle('listPurgeLog', {});
+};
+
+// Runs the retention policy now instead of waiting for the tick worker (one batch per call)
+export const runRetentionPurge = async () => {
+  return await settle('purgeExpired', { force: true });
+};
+
+// Raw rows for the Admin analytics view (aggregated client-side by lib/analytics.ts); no eventId = all events
+export const fetchAnalyticsData = async (eventId?: string) => {
+  return await settle('analyticsData', { eventId: eventId || '' });
+};
+
+// Best-effort print counter; printing itself never waits for it
+export const recordPrint = async (photoId: string) => {
+  const res = await settle('recordPrint', { photoId });
+  if (!res.ok) console.warn("[Analytics] recordPrint failed:", res.failure);
+  return res;
+};
+
+// Kiosk -> backend every KIOSK_HEARTBEAT_MS; the response carries the commands queued for this kiosk
+export const sendKioskHeartbeat = async (kiosk: KioskHeartbeat) => {
+  return await settle('kioskHeartbeat', { kiosk });
+};
+
+export const fetchKiosks = async () => {
+  return await settle('listKiosks', {});
 };
 
-export const deletePhotoFromGas = async (id: string, pin: string) => {
-    const url = getGasUrl();
-    return await robustFetch(url, { method: 'POST', body: JSON.stringify({ action: 'deletePhoto', pin, id }) });
+// kioskId '*' = every registered kiosk. Delivered with that kiosk's next heartbeat
+export const sendKioskCommand = async (kioskId: string, command: { type: KioskCommandType, eventId?: string }) => {
+  return await settle('sendKioskCommand', { kioskId, command });
 };
 
-export const deleteAllPhotosFromGas = async (pin: string) => {
-    const url = getGasUrl();
-    return await robustFetch(url, { method: 'POST', body: JSON.stringify({ action: 'deleteAllPhotos', pin }) });
+export const removeKiosk = async (kioskId: string) => {
+  return await settle('removeKiosk', { kioskId });
 };
 
-export const saveSettingsToGas = async (settings: PhotoboothSettings, pin: string) => {
-    const url = getGasUrl();
-    try {
-        const data = await robustFetch(url, { method: 'POST', body: JSON.stringify({ action: 'updateSettings', pin, settings }) });
-        return data.ok;
-    } catch (e) { return false; }
+export const saveSettingsToGas = async (settings: PhotoboothSettings) => {
+    return (await settle('updateSettings', { settings })).ok;
 };
 
-export const saveConceptsToGas = async (concepts: Concept[], pin: string) => {
-    const url = getGasUrl();
-    try {
-        const data = await robustFetch(url, { method: 'POST', body: JSON.stringify({ action: 'updateConcepts', pin, concepts }) });
-        return data.ok;
-    } catch (e) { return false; }
+export const saveConceptsToGas = async (concepts: Concept[]) => {
+    return (await settle('updateConcepts', { concepts })).ok;
 };
 
-export const uploadOverlayToGas = async (base64Image: string, pin: string) => {
-    const url = getGasUrl();
-    try {
-        return await robustFetch(url, { method: 'POST', body: JSON.stringify({ action: 'uploadOverlay', pin, image: base64Image }) });
-    } catch (e) { return { ok: false }; }
+export const uploadOverlayToGas = async (base64Image: string) => {
+    return await settle('uploadOverlay', { image: base64Image });
 };
 
-export const uploadBackgroundToGas = async (base64Image: string, pin: string) => {
-    const url = getGasUrl();
-    try {
-        return await robustFetch(url, { method: 'POST', body: JSON.stringify({ action: 'uploadBackground', pin, image: base64Image }) });
-    } catch (e) { return { ok: false }; }
+export const uploadBackgroundToGas = async (base64Image: string) => {
+    return await settle('uploadBackground', { image: base64Image });
 };
 
-export const uploadAudioToGas = async (base64Audio: string, pin: string) => {
-    const url = getGasUrl();
-    try {
-        return await robustFetch(url, { method: 'POST', body: JSON.stringify({ action: 'uploadAudio', pin, image: base64Audio }) });
-    } catch (e) { return { ok: false }; }
+export const uploadAudioToGas = async (base64Audio: string) => {
+    return await settle('uploadAudio', { image: base64Audio });
 };
@@ -55,6 +55,7 @@ export async function generateArkImage(payload: {
   model: string;
   prompt: string;
   image_urls?: string[]; 
+  signal?: AbortSignal;
 }) {
   const endpoint = `${ARK_BASE_URL}/images/generations`;
   
@@ -83,7 +84,8 @@ export async function generateArkImage(payload: {
     const res = await fetch(endpoint, {
       method: 'POST',
       headers: COMMON_HEADERS,
-      body: JSON.stringify(body)
+      body: JSON.stringify(body),
+      signal: payload.signal
     });
 
     if (!res.ok) {
@@ -0,0 +1,108 @@
+import { encodeGif, GifFrame } from './gifEncoder';
+
+/**
+ * BOOMERANG PIPELINE
+ * Burst pendek dari kamera -> pilih keyframe -> AI transform per keyframe (di ResultPage)
+ * -> diputar maju-mundur, di-encode jadi GIF (gifEncoder) + video (MediaRecorder) di browser.
+ */
+
+export const BURST_FRAME_COUNT = 12;
+export const BURST_INTERVAL_MS = 120;
+export const BOOMERANG_FRAME_MS = 160;
+export const MIN_KEYFRAMES = 3;
+export const MAX_KEYFRAMES = 8;
+
+const GIF_MAX_DIMENSION = 480;
+const VIDEO_LOOPS = 3; // Video file repeats the ping-pong so it plays longer than a blink
+
+export const clampKeyframes = (count: number | undefined) =>
+  Math.min(MAX_KEYFRAMES, Math.max(MIN_KEYFRAMES, Math.round(count || 4)));
+
+// Evenly spaced frames from the burst, always including the first and last
+export const pickKeyframes = <T>(frames: T[], count: number): T[] => {
+  if (frames.length <= count) return [...frames];
+  return Array.from({ length: count }, (_, i) => frames[Math.round((i * (frames.length - 1)) / (count - 1))]);
+};
+
+// A B C D -> A B C D C B (loops seamlessly back to A)
+export const pingPong = <T>(frames: T[]): T[] => [...frames, ...frames.slice(1, -1).reverse()];
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Boomerang frame load error"));
+    img.src = src;
+  });
+};
+
+const fitSize = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+export const encodeBoomerangGif = async (frames: string[], frameDelayMs: number = BOOMERANG_FRAME_MS): Promise<Blob> => {
+  const images = await Promise.all(frames.map(loadImage));
+  const { width, height } = fitSize(images[0].width, images[0].height, GIF_MAX_DIMENSION);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas context unavailable");
+
+  const gifFrames: GifFrame[] = images.map(img => {
+    ctx.drawImage(img, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    return { width, height, data };
+  });
+
+  return encodeGif(pingPong(gifFrames), { delayMs: frameDelayMs, loop: 0 });
+};
+
+// MP4 where the browser can record it (Chrome 126+, Safari), WebM otherwise
+export const pickVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const candidates = ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+/**
+ * Render frame ke canvas lalu rekam canvas.captureStream() dengan MediaRecorder.
+ * Return null jika browser tidak mendukung perekaman (GIF tetap jalan).
+ */
+export const recordBoomerangVideo = async (frames: string[], frameDelayMs: number = BOOMERANG_FRAME_MS): Promise<Blob | null> => {
+  const mimeType = pickVideoMimeType();
+  if (!mimeType) return null;
+
+  const images = await Promise.all(frames.map(loadImage));
+  const canvas = document.createElement('canvas');
+  // Even dimensions, required by most H.264 encoders
+  canvas.width = images[0].width - (images[0].width % 2);
+  canvas.height = images[0].height - (images[0].height % 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(images[0], 0, 0, canvas.width, canvas.height);
+
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+  recorder.start();
+
+  const sequence = pingPong(images);
+  for (let loop = 0; loop < VIDEO_LOOPS; loop++) {
+    for (const img of sequence) {
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      await new Promise(r => setTimeout(r, frameDelayMs));
+    }
+  }
+
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
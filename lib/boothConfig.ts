@@ -0,0 +1,86 @@
+import type { Concept, EventProfile, EventRecord, PhotoboothSettings } from '../types.js';
+import { DEFAULT_CONCEPTS } from '../constants.js';
+import { serverStorageGet } from './serverStorage.js';
+import { applyEventProfile } from './eventProfiles.js';
+
+/**
+ * BOOTH CONFIG (SERVER)
+ * Settings + concepts dibaca dari storage backend untuk route server, sehingga client cukup
+ * mengirim conceptId (+ eventId). Tanpa eventId / eventId event aktif = config live
+ * (action=getSettings); event lain (job lama, kiosk yang di-pin lewat switchEvent) = snapshot
+ * profile terbaru event itu (action=getEventProfile). Di-cache per instance serverless.
+ */
+
+const CACHE_TTL_MS = 60000;
+
+export interface BoothConfig {
+  eventId: string; // Event the settings / concepts belong to ('' = no event registered)
+  settings: Partial<PhotoboothSettings>;
+  concepts: Concept[];
+}
+
+const LIVE_KEY = '';
+
+const cache = new Map<string, { at: number; config: BoothConfig }>();
+
+// Same rule as the kiosk: empty cloud concepts means defaults
+const conceptsOrDefault = (concepts: unknown): Concept[] =>
+  Array.isArray(concepts) && concepts.length > 0 ? concepts : DEFAULT_CONCEPTS;
+
+const fetchLiveConfig = async (): Promise<BoothConfig> => {
+  const [data, events] = await Promise.all([
+    serverStorageGet('getSettings'),
+    serverStorageGet('getEvents').catch(() => ({ events: [] })) // Without events: settings only, eventId ''
+  ]);
+  const active = (Array.isArray(events.events) ? events.events as EventRecord[] : []).find(e => e.isActive);
+  const settings: Partial<PhotoboothSettings> = data.settings || {};
+
+  return {
+    eventId: active?.id || '',
+    settings: active ? { ...settings, activeEventId: active.id } : settings,
+    concepts: conceptsOrDefault(data.concepts)
+  };
+};
+
+const fetchEventConfig = async (eventId: string): Promise<BoothConfig> => {
+  const live = await loadBoothConfig();
+  if (eventId === live.eventId) return live;
+
+  const data = await serverStorageGet('getEventProfile', { id: eventId });
+  if (!data.ok || !data.event) throw new Error(data.error || `Event ${eventId} not found`);
+  const profile: EventProfile | null = data.profile || null;
+  if (!profile) console.warn(`[BoothConfig] Event ${eventId} has no profile, using live settings`);
+
+  return {
+    eventId,
+    settings: applyEventProfile(live.settings, data.event, profile),
+    concepts: profile ? conceptsOrDefault(profile.concepts) : live.concepts
+  };
+};
+
+export const loadBoothConfig = async (eventId = '', forceRefresh = false): Promise<BoothConfig> => {
+  const key = eventId || LIVE_KEY;
+  const hit = cache.get(key);
+  if (!forceRefresh && hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.config;
+  try {
+    const config = key === LIVE_KEY ? await fetchLiveConfig() : await fetchEventConfig(key);
+    cache.set(key, { at: Date.now(), config });
+    return config;
+  } catch (e: any) {
+    console.warn(`[BoothConfig] Fetch failed${key ? ` for event ${key}` : ''}:`, e.message);
+    if (hit) return hit.config; // Stale is better than nothing
+    if (key !== LIVE_KEY) throw e; // Unknown event: never generate with another event's concepts
+    return { eventId: '', settings: {}, concepts: DEFAULT_CONCEPTS };
+  }
+};
+
+export const findConcept = async (conceptId: string, eventId = ''): Promise<{ concept: Concept | undefined } & BoothConfig> => {
+  let config = await loadBoothConfig(eventId);
+  let concept = config.concepts.find(c => c.id === conceptId);
+  if (!concept) {
+    // Concept may have been synced after the cache was filled
+    config = await loadBoothConfig(eventId, true);
+    concept = config.concepts.find(c => c.id === conceptId);
+  }
+  return { concept, ...config };
+};
@@ -0,0 +1,44 @@
+import type { PhotoboothSettings } from '../types.js';
+import { budgetStatus, computeEventCost, BudgetStatus } from './costs.js';
+import { serverStorageGet } from './serverStorage.js';
+import { loadBoothConfig } from './boothConfig.js';
+
+/**
+ * EVENT BUDGET (SERVER)
+ * Status budget event untuk route server (generate foto, tick video). Biaya dihitung dari
+ * action=costRows dan di-cache per instance serverless, jadi overshoot paling banyak sebesar
+ * pemakaian selama CACHE_TTL_MS. Storage gagal = budget dianggap 'ok' (kiosk tetap jalan).
+ */
+
+const CACHE_TTL_MS = 60000;
+
+const cache = new Map<string, { at: number; total: number }>();
+
+const fetchEventTotal = async (eventId: string, settings: Partial<PhotoboothSettings>): Promise<number> => {
+  const hit = cache.get(eventId);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.total;
+  try {
+    const data = await serverStorageGet('costRows', { eventId });
+    if (!data.ok) throw new Error(data.error || 'costRows failed');
+    const total = computeEventCost(data.rows || [], settings).total;
+    cache.set(eventId, { at: Date.now(), total });
+    return total;
+  } catch (e: any) {
+    console.warn("[Budget] Cost lookup failed:", e.message);
+    return hit ? hit.total : 0; // Stale is better than nothing
+  }
+};
+
+// settings = config event itu (cap per event). Tanpa cap sama sekali storage tidak dibaca (total 0)
+export const loadBudgetStatus = async (settings: Partial<PhotoboothSettings>, eventId: string): Promise<BudgetStatus> => {
+  if (!(Number(settings.budgetSoftCap) > 0) && !(Number(settings.budgetHardCap) > 0)) return budgetStatus(0, settings);
+  if (!eventId) console.warn("[Budget] No event to tally, caps checked against rows without an event");
+  return budgetStatus(await fetchEventTotal(eventId, settings), settings);
+};
+
+// Budget sebuah foto / video: eventId dari request / baris, kosong = event aktif (getEvents di server).
+// Config event gagal dibaca = config live, sama seperti storage gagal (kiosk tetap jalan)
+export const loadEventBudget = async (eventId = ''): Promise<BudgetStatus> => {
+  const config = await loadBoothConfig(eventId).catch(() => loadBoothConfig());
+  return loadBudgetStatus(config.settings, eventId || config.eventId);
+};
@@ -0,0 +1,33 @@
+import type { ConfigVersion } from '../types.js';
+import { serverStorageGet } from './serverStorage.js';
+
+/**
+ * LIVE CONFIG FEED (SERVER)
+ * Versi konfigurasi dari backend (action configVersion, naik tiap settings / konsep / event
+ * berubah) untuk /api/config/stream. Satu pembacaan dipakai bersama semua kiosk yang terhubung
+ * ke instance yang sama, paling sering sekali per CONFIG_POLL_MS (kuota eksekusi Apps Script).
+ * Kiosk sendiri yang mengambil settings baru (getSettings) begitu versinya berubah.
+ */
+
+export const CONFIG_POLL_MS = 10000;
+
+let cached: { at: number; value: Promise<ConfigVersion | null> } | null = null;
+
+const fetchConfigVersion = async (): Promise<ConfigVersion | null> => {
+  try {
+    const data = await serverStorageGet('configVersion');
+    if (!data.ok) throw new Error(data.error || 'configVersion failed');
+    return { version: Number(data.version) || 0, updatedAt: String(data.updatedAt || '') };
+  } catch (e: any) {
+    console.warn("[ConfigFeed] Version lookup failed:", e.message);
+    return null;
+  }
+};
+
+// null = backend tidak terjangkau (stream tetap terbuka, dicoba lagi di poll berikutnya)
+export const loadConfigVersion = (): Promise<ConfigVersion | null> => {
+  if (!cached || Date.now() - cached.at >= CONFIG_POLL_MS) {
+    cached = { at: Date.now(), value: fetchConfigVersion() };
+  }
+  return cached.value;
+};
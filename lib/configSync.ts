@@ -0,0 +1,106 @@
+import { ConfigVersion } from '../types';
+import { apiFetch } from './apiClient';
+import { callStorage } from './storageClient';
+
+/**
+ * LIVE CONFIG (CLIENT)
+ * Mendengarkan /api/config/stream (SSE, lihat lib/configFeed.ts) dan melaporkan tiap versi
+ * konfigurasi baru. Memakai fetch + stream reader, bukan EventSource, supaya header kunci
+ * kiosk (lib/apiClient.ts) ikut terkirim.
+ *
+ * Stream tidak tersedia (vite dev tanpa /api, proxy yang mem-buffer, 401/429) → satu kali
+ * poll action configVersion langsung ke storage backend, lalu stream dicoba lagi setelah
+ * FALLBACK_POLL_MS. Kapan settings baru diterapkan diputuskan App (hanya di landing).
+ */
+
+const RECONNECT_MS = 1000;
+const FALLBACK_POLL_MS = 60000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Satu blok SSE ("event: ...\ndata: ...") -> versi, blok lain (retry, keepalive) diabaikan
+const parseEvent = (block: string): ConfigVersion | null => {
+  let event = 'message';
+  let data = '';
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data += line.slice(5).trim();
+  });
+  if (event !== 'config' || !data) return null;
+  try {
+    const parsed = JSON.parse(data);
+    return { version: Number(parsed.version) || 0, updatedAt: String(parsed.updatedAt || '') };
+  } catch (e) {
+    return null;
+  }
+};
+
+// true = stream selesai normal (server menutup setelah STREAM_MS), false = tidak bisa dipakai
+const readStream = async (since: number, signal: AbortSignal, onVersion: (v: ConfigVersion) => void): Promise<boolean> => {
+  const res = await apiFetch(`/api/config/stream?since=${since}`, { signal, cache: 'no-store' });
+  if (!res.ok || !res.body || !(res.headers.get('content-type') || '').includes('text/event-stream')) return false;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return true;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const version = parseEvent(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      if (version) onVersion(version);
+    }
+  }
+};
+
+export const fetchConfigVersion = async (): Promise<ConfigVersion | null> => {
+  try {
+    const data = await callStorage('configVersion', {});
+    return { version: data.version, updatedAt: data.updatedAt || '' };
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Memanggil onVersion tiap versi yang berbeda dari `since()` (versi yang sudah diterapkan kiosk).
+ * Mengembalikan fungsi stop.
+ */
+export const watchConfigVersion = (since: () => number, onVersion: (version: ConfigVersion) => void) => {
+  const controller = new AbortController();
+  let isRunning = true;
+
+  const report = (version: ConfigVersion) => {
+    if (isRunning && version.version !== since()) onVersion(version);
+  };
+
+  const loop = async () => {
+    while (isRunning) {
+      let streamed = false;
+      try {
+        streamed = await readStream(since(), controller.signal, report);
+      } catch (err: any) {
+        if (!isRunning) return;
+        console.warn("[ConfigSync] Stream error:", err.message);
+      }
+      if (!isRunning) return;
+      if (streamed) {
+        await sleep(RECONNECT_MS);
+        continue;
+      }
+      const version = await fetchConfigVersion();
+      if (version) report(version);
+      await sleep(FALLBACK_POLL_MS);
+    }
+  };
+
+  loop();
+
+  return () => {
+    isRunning = false;
+    controller.abort();
+  };
+};
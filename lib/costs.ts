@@ -0,0 +1,133 @@
+import type { BudgetLevel, CostRow, FallbackStep, PhotoboothSettings } from '../types.js';
+import { FLASH_MODEL, PRO_MODEL } from './fallbackChain.js';
+import { parseFallbackPath } from './generationMeta.js';
+import { parseTimeline } from './videoStateMachine.js';
+
+/**
+ * COSTS & BUDGET
+ * Biaya event dihitung ulang dari baris gallery (bukan counter terpisah), jadi selalu cocok
+ * dengan data yang ada: tiap percobaan model yang berhasil di fallbackPath = satu panggilan
+ * berbayar, tiap video yang sempat masuk 'processing' = satu render.
+ *
+ * Perkiraan, bukan tagihan:
+ * - Percobaan yang gagal / timeout tidak dihitung (tergantung provider, bisa saja tetap ditagih).
+ * - Baris sebelum fallbackPath ada hanya punya aiModel: dihitung satu panggilan per model.
+ * - Render video yang diulang reaper tetap dihitung sekali.
+ *
+ * Dua batas di settings (per profil event):
+ * - soft: Ultra dimatikan (regenerate Ultra & quick toggle jalan dengan chain biasa)
+ * - hard: video tidak dimulai lagi, foto dikunci ke Gemini Flash (model termurah)
+ *
+ * Isomorphic & pure. apps-script.gs hanya menyalin COST_ROW_COLUMNS (action costRows).
+ */
+
+// USD per panggilan yang berhasil, harga list publik saat ditulis. Timpa lewat settings.modelCosts
+export const DEFAULT_MODEL_COSTS: Record<string, number> = {
+  [FLASH_MODEL]: 0.039,
+  [PRO_MODEL]: 0.134,
+  'seedream-4-5-251128': 0.04,
+  'gpt-image-1.5': 0.05,
+  'seedance-1-0-pro-fast-251015': 0.25,
+  'seedance-1-5-pro-251215': 0.6
+};
+
+export const COST_ROW_COLUMNS = ['type', 'aiModel', 'fallbackPath', 'videoModel', 'videoTimeline'];
+
+export const BUDGET_VIDEO_ERROR = 'Event budget cap reached, video is disabled';
+
+export interface ModelSpend {
+  model: string;
+  kind: 'image' | 'video';
+  calls: number;
+  unitCost: number | null; // null = tidak ada di tabel biaya (dihitung 0)
+  cost: number;
+}
+
+export interface EventCost {
+  total: number;
+  image: number;
+  video: number;
+  models: ModelSpend[];
+  unpriced: string[];
+}
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  total: number;
+  softCap: number;
+  hardCap: number;
+}
+
+const toCap = (value: unknown) => Math.max(Number(value) || 0, 0);
+
+export const costTable = (settings: Partial<Pick<PhotoboothSettings, 'modelCosts'>> | null | undefined): Record<string, number> => {
+  const table = { ...DEFAULT_MODEL_COSTS };
+  Object.entries(settings?.modelCosts || {}).forEach(([model, cost]) => {
+    const value = Number(cost);
+    if (model.trim() && Number.isFinite(value) && value >= 0) table[model.trim()] = value;
+  });
+  return table;
+};
+
+const imageCalls = (row: CostRow): string[] => {
+  const attempts = parseFallbackPath(row);
+  if (attempts.length > 0) return attempts.filter(a => a.ok).map(a => a.model);
+  return String(row.aiModel || '').split(',').map(model => model.trim()).filter(Boolean);
+};
+
+export const computeEventCost = (rows: CostRow[], settings: Partial<PhotoboothSettings> | null | undefined): EventCost => {
+  const table = costTable(settings);
+  const calls = new Map<string, ModelSpend>();
+  const add = (model: string, kind: ModelSpend['kind']) => {
+    const key = `${kind}:${model}`;
+    if (!calls.has(key)) {
+      const unitCost = Object.prototype.hasOwnProperty.call(table, model) ? table[model] : null;
+      calls.set(key, { model, kind, calls: 0, unitCost, cost: 0 });
+    }
+    const spend = calls.get(key)!;
+    spend.calls++;
+    spend.cost += spend.unitCost || 0;
+  };
+
+  rows.forEach(row => {
+    // Baris 'video' = file hasil render, biayanya sudah dihitung di baris fotonya
+    if (row.type === 'video') return;
+    imageCalls(row).forEach(model => add(model, 'image'));
+    if (row.videoModel && parseTimeline(row.videoTimeline).processing) add(String(row.videoModel), 'video');
+  });
+
+  const models = [...calls.values()].sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+  const sum = (kind?: ModelSpend['kind']) => models.filter(m => !kind || m.kind === kind).reduce((total, m) => total + m.cost, 0);
+  return {
+    total: sum(),
+    image: sum('image'),
+    video: sum('video'),
+    models,
+    unpriced: models.filter(m => m.unitCost === null).map(m => m.model)
+  };
+};
+
+export const budgetLevel = (total: number, settings: Partial<PhotoboothSettings> | null | undefined): BudgetLevel => {
+  const hardCap = toCap(settings?.budgetHardCap);
+  const softCap = toCap(settings?.budgetSoftCap);
+  if (hardCap > 0 && total >= hardCap) return 'hard';
+  if (softCap > 0 && total >= softCap) return 'soft';
+  return 'ok';
+};
+
+export const budgetStatus = (total: number, settings: Partial<PhotoboothSettings> | null | undefined): BudgetStatus => ({
+  level: budgetLevel(total, settings),
+  total,
+  softCap: toCap(settings?.budgetSoftCap),
+  hardCap: toCap(settings?.budgetHardCap)
+});
+
+export const allowsUltra = (level: BudgetLevel) => level === 'ok';
+
+export const allowsVideo = (level: BudgetLevel) => level !== 'hard';
+
+// Hard cap: satu langkah Flash, timeout langkah Flash dari chain asli tetap dipakai
+export const budgetChain = (chain: FallbackStep[], level: BudgetLevel): FallbackStep[] => {
+  if (level !== 'hard') return chain;
+  return [chain.find(step => step.model === FLASH_MODEL) || { model: FLASH_MODEL }];
+};
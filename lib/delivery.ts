@@ -0,0 +1,113 @@
+import type { DeliveryChannel, DeliveryKind, DeliveryLog, DeliveryRecord, DeliveryStatus, GuestContact, GuestDeliveryMode } from '../types.js';
+
+/**
+ * GUEST DELIVERY
+ * Tamu bisa meninggalkan email / nomor HP di halaman Result. Link /share/:token dikirim begitu
+ * foto tersimpan, lalu sekali lagi saat video selesai (videoStatus done). Kontak & log kirim
+ * disimpan di baris Gallery (kolom guestContact / delivery, JSON); kontak tidak pernah ikut
+ * response publik. Pengiriman oleh lib/deliveryJobs.ts (server), transport di lib/deliveryTransports.ts.
+ *
+ * Isomorphic & pure. apps-script.gs memakai salinan normalizeContact, dueDeliveryKinds dan
+ * applyDeliveryUpdate, ubah bersamaan.
+ */
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+export const DELIVERY_RETRY_MS = 2 * 60 * 1000;
+// Claim 'sending' dari worker yang mati di tengah jalan boleh diambil ulang setelah ini
+export const DELIVERY_SENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const deliveryChannels = (mode?: GuestDeliveryMode): DeliveryChannel[] => {
+  if (mode === 'email') return ['email'];
+  if (mode === 'sms') return ['sms'];
+  if (mode === 'both') return ['email', 'sms'];
+  return [];
+};
+
+/**
+ * Validasi input tamu. Nomor HP disimpan sebagai digit (+ di depan kalau diketik);
+ * awalan 0 lokal diubah oleh transport SMS (SMS_DEFAULT_COUNTRY_CODE).
+ */
+export const normalizeContact = (input: { email?: unknown; phone?: unknown }): { contact?: GuestContact; error?: string } => {
+  const email = String(input.email || '').trim().toLowerCase();
+  const rawPhone = String(input.phone || '').trim();
+  const contact: GuestContact = {};
+
+  if (email) {
+    if (email.length > 254 || !EMAIL_PATTERN.test(email)) return { error: 'Invalid email address' };
+    contact.email = email;
+  }
+  if (rawPhone) {
+    const digits = rawPhone.replace(/[\s().-]/g, '');
+    if (!/^\+?\d{8,15}$/.test(digits)) return { error: 'Invalid phone number' };
+    contact.phone = digits;
+  }
+  if (!contact.email && !contact.phone) return { error: 'Email or phone required' };
+  return { contact };
+};
+
+const parseJson = <T>(value: unknown): T | null => {
+  if (!value) return null;
+  if (typeof value === 'object') return value as T;
+  try {
+    return JSON.parse(String(value)) as T;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const parseContact = (value: unknown): GuestContact | null => {
+  const contact = parseJson<GuestContact>(value);
+  return contact && (contact.email || contact.phone) ? contact : null;
+};
+
+export const parseDeliveryLog = (value: unknown): DeliveryLog => parseJson<DeliveryLog>(value) || {};
+
+const time = (iso?: string) => (iso ? new Date(iso).getTime() || 0 : 0);
+
+const isDue = (record: DeliveryRecord | undefined, now: number) => {
+  if (!record) return true;
+  if (record.status === 'sending') return now - time(record.at) >= DELIVERY_SENDING_TIMEOUT_MS;
+  if (record.status === 'failed') return record.attempts < MAX_DELIVERY_ATTEMPTS && now - time(record.at) >= DELIVERY_RETRY_MS;
+  return false;
+};
+
+/**
+ * Kiriman yang jatuh tempo untuk satu baris Gallery. Video hanya untuk foto biasa (boomerang /
+ * video sudah ada di link pertama) dan baru setelah link foto terkirim, supaya urutannya benar.
+ */
+export const dueDeliveryKinds = (row: Record<string, any>, now: number = Date.now()): DeliveryKind[] => {
+  if (row.deletedAt || !parseContact(row.guestContact)) return [];
+  const log = parseDeliveryLog(row.delivery);
+  const kinds: DeliveryKind[] = [];
+  if (isDue(log.photo, now)) kinds.push('photo');
+  const isPhotoRow = !row.type || row.type === 'image';
+  if (isPhotoRow && row.videoStatus === 'done' && log.photo?.status === 'sent' && isDue(log.video, now)) kinds.push('video');
+  return kinds;
+};
+
+/**
+ * Compare-and-set status kiriman pada baris (mutasi row.delivery).
+ * 'sending' = claim (hanya kalau jatuh tempo), 'sent' / 'failed' hanya dari 'sending'.
+ */
+export const applyDeliveryUpdate = (
+  row: Record<string, any>,
+  kind: DeliveryKind,
+  status: DeliveryStatus,
+  patch: { error?: string; channels?: DeliveryChannel[] },
+  nowIso: string
+): { ok: boolean; error?: string } => {
+  const log = parseDeliveryLog(row.delivery);
+  const current = log[kind];
+
+  if (status === 'sending') {
+    if (!dueDeliveryKinds(row, time(nowIso)).includes(kind)) return { ok: false, error: 'NOT_DUE' };
+    log[kind] = { status, attempts: (current?.attempts || 0) + 1, at: nowIso };
+  } else {
+    if (!current || current.status !== 'sending') return { ok: false, error: 'NOT_SENDING' };
+    log[kind] = { ...current, status, at: nowIso, error: patch.error || undefined, channels: patch.channels };
+  }
+  row.delivery = JSON.stringify(log);
+  return { ok: true };
+};
@@ -0,0 +1,90 @@
+import type { DeliveryChannel, DeliveryKind, DeliveryStatus, PendingDelivery } from '../types.js';
+import { serverStoragePost } from './serverStorage.js';
+import { SHARE_DELETE_PARAM, SHARE_PATH_PREFIX } from './share.js';
+import { DeliveryMessage, getDeliveryTransport } from './deliveryTransports.js';
+
+/**
+ * DELIVERY WORKER (SERVER)
+ * Satu putaran: ambil baris yang jatuh tempo (pendingDeliveries), claim per kiriman lewat
+ * updateDelivery 'sending' (compare-and-set, jadi worker paralel tidak mengirim dobel),
+ * kirim ke semua kontak tamu, lalu catat sent / failed. Dipanggil oleh /api/delivery
+ * (langsung setelah tamu mengisi kontak) dan /api/video/tick (video selesai, retry).
+ */
+
+export interface DeliveryReport {
+  sent: number;
+  failed: number;
+  skipped: number;
+  errors: string[];
+}
+
+// Also authorizes the other worker-only storage actions (shareTokens, see /api/share-link)
+export const workerSecret = () => process.env.DELIVERY_SECRET || '';
+
+export const isDeliveryConfigured = () => !!process.env.DELIVERY_SECRET;
+
+const updateDelivery = (photoId: string, kind: DeliveryKind, status: DeliveryStatus, patch: { error?: string; channels?: DeliveryChannel[] } = {}) =>
+  serverStoragePost({ action: 'updateDelivery', workerSecret: workerSecret(), photoId, kind, status, ...patch });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const composeMessages = (item: PendingDelivery, kind: DeliveryKind, shareUrl: string): DeliveryMessage[] => {
+  const what = kind === 'video' ? 'video' : item.type === 'boomerang' ? 'boomerang' : item.type === 'video' ? 'video' : 'photo';
+  const subject = `Your ${what} from ${item.eventName}`;
+  const text = `Your ${what} from ${item.eventName} is ready: ${shareUrl}`;
+  const messages: DeliveryMessage[] = [];
+  if (item.contact.email) {
+    messages.push({
+      channel: 'email', to: item.contact.email, kind, photoId: item.photoId, subject, shareUrl,
+      text: `${text}\n\n${item.conceptName ? `Concept: ${item.conceptName}\n` : ''}`,
+      html: `<p>Your ${what} from <b>${escapeHtml(item.eventName)}</b> is ready.</p><p><a href="${escapeHtml(shareUrl)}">View &amp; download</a></p>`
+    });
+  }
+  if (item.contact.phone) {
+    messages.push({ channel: 'sms', to: item.contact.phone, kind, photoId: item.photoId, subject, text, shareUrl });
+  }
+  return messages;
+};
+
+export const runDeliveries = async (publicBaseUrl: string): Promise<DeliveryReport> => {
+  const report: DeliveryReport = { sent: 0, failed: 0, skipped: 0, errors: [] };
+  const data = await serverStoragePost({ action: 'pendingDeliveries', workerSecret: workerSecret() });
+  if (!data.ok) throw new Error(data.error || 'pendingDeliveries failed');
+
+  for (const item of (data.items || []) as PendingDelivery[]) {
+    for (const kind of item.kinds) {
+      const claim = await updateDelivery(item.photoId, kind, 'sending');
+      if (!claim.ok) {
+        report.skipped++; // Diambil worker lain / sudah tidak jatuh tempo
+        continue;
+      }
+
+      // The guest's own link also unlocks "Delete my data" (the kiosk QR does not)
+      const deleteParam = item.deleteKey ? `?${SHARE_DELETE_PARAM}=${encodeURIComponent(item.deleteKey)}` : '';
+      const shareUrl = `${publicBaseUrl}${SHARE_PATH_PREFIX}${encodeURIComponent(item.token)}${deleteParam}`;
+      const sentChannels: DeliveryChannel[] = [];
+      const errors: string[] = [];
+      for (const message of composeMessages(item, kind, shareUrl)) {
+        const transport = getDeliveryTransport(message.channel);
+        try {
+          if (!transport) throw new Error(`No ${message.channel} transport configured`);
+          await transport.send(message);
+          sentChannels.push(message.channel);
+        } catch (e: any) {
+          errors.push(`${message.channel}: ${e.message}`);
+        }
+      }
+
+      // Sebagian channel terkirim = sent (jangan kirim ulang ke channel yang sudah sampai)
+      const status: DeliveryStatus = sentChannels.length > 0 ? 'sent' : 'failed';
+      await updateDelivery(item.photoId, kind, status, { channels: sentChannels, error: errors.join('; ') || undefined })
+        .catch(e => report.errors.push(`record ${item.photoId}/${kind}: ${e.message}`));
+      if (status === 'sent') report.sent++;
+      else report.failed++;
+      errors.forEach(err => report.errors.push(`${item.photoId}/${kind} ${err}`));
+      console.log(`[Delivery] ${item.photoId} ${kind}: ${status}${errors.length ? ` (${errors.join('; ')})` : ''}`);
+    }
+  }
+  return report;
+};
@@ -0,0 +1,118 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { DeliveryChannel, DeliveryKind } from '../types.js';
+
+/**
+ * DELIVERY TRANSPORTS (SERVER)
+ * Pengirim email / SMS untuk lib/deliveryJobs.ts. Transport dipilih per channel lewat env
+ * DELIVERY_EMAIL_TRANSPORT / DELIVERY_SMS_TRANSPORT; tanpa env, vendor dipakai kalau API key-nya
+ * ada, selain itu 'local' (tidak ada yang benar-benar terkirim).
+ *
+ * Menambah vendor baru: registerDeliveryTransport({ id, channels, send }).
+ */
+
+export interface DeliveryMessage {
+  channel: DeliveryChannel;
+  to: string;
+  kind: DeliveryKind;
+  photoId: string;
+  subject: string;
+  text: string;
+  html?: string;
+  shareUrl: string;
+}
+
+export interface DeliveryTransport {
+  id: string;
+  channels: DeliveryChannel[];
+  send: (message: DeliveryMessage) => Promise<void>; // Throw = gagal, worker yang mencatat & retry
+}
+
+const registry = new Map<string, DeliveryTransport>();
+
+export function registerDeliveryTransport(transport: DeliveryTransport) {
+  registry.set(transport.id, transport);
+}
+
+export function getDeliveryTransport(channel: DeliveryChannel): DeliveryTransport | undefined {
+  const configured = channel === 'email' ? process.env.DELIVERY_EMAIL_TRANSPORT : process.env.DELIVERY_SMS_TRANSPORT;
+  const fallback = channel === 'email'
+    ? (process.env.RESEND_API_KEY ? 'resend' : 'local')
+    : (process.env.TWILIO_ACCOUNT_SID ? 'twilio' : 'local');
+  const transport = registry.get(configured || fallback);
+  return transport && transport.channels.includes(channel) ? transport : undefined;
+}
+
+// --- LOCAL STAND-IN ---
+// Untuk testing & event offline: pesan ditulis ke <LOCAL_STORAGE_DIR>/outbox-mail.jsonl dan
+// disimpan di memori (getLocalMailbox), tidak ada yang keluar dari server.
+
+const localMailbox: DeliveryMessage[] = [];
+
+export const getLocalMailbox = (): readonly DeliveryMessage[] => localMailbox;
+
+export const clearLocalMailbox = () => { localMailbox.length = 0; };
+
+export const LOCAL_TRANSPORT: DeliveryTransport = {
+  id: 'local',
+  channels: ['email', 'sms'],
+  send: async (message) => {
+    localMailbox.push(message);
+    const dir = path.resolve(process.env.LOCAL_STORAGE_DIR || '.storage');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.appendFile(path.join(dir, 'outbox-mail.jsonl'), JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n');
+    console.log(`[Delivery] (local) ${message.channel} -> ${message.to}: ${message.shareUrl}`);
+  }
+};
+
+// --- RESEND (EMAIL) ---
+
+export const RESEND_TRANSPORT: DeliveryTransport = {
+  id: 'resend',
+  channels: ['email'],
+  send: async (message) => {
+    const apiKey = process.env.RESEND_API_KEY;
+    const from = process.env.DELIVERY_EMAIL_FROM;
+    if (!apiKey || !from) throw new Error("RESEND_API_KEY / DELIVERY_EMAIL_FROM missing");
+    const res = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+      body: JSON.stringify({ from, to: [message.to], subject: message.subject, text: message.text, html: message.html })
+    });
+    if (!res.ok) throw new Error(`Resend HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+  }
+};
+
+// --- TWILIO (SMS) ---
+
+// Nomor lokal (awalan 0) diubah ke format internasional dengan SMS_DEFAULT_COUNTRY_CODE (mis. 62)
+const toE164 = (phone: string) => {
+  if (phone.startsWith('+')) return phone;
+  const country = (process.env.SMS_DEFAULT_COUNTRY_CODE || '').replace(/\D/g, '');
+  if (phone.startsWith('0') && country) return `+${country}${phone.slice(1)}`;
+  return `+${phone}`;
+};
+
+export const TWILIO_TRANSPORT: DeliveryTransport = {
+  id: 'twilio',
+  channels: ['sms'],
+  send: async (message) => {
+    const sid = process.env.TWILIO_ACCOUNT_SID;
+    const token = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM;
+    if (!sid || !token || !from) throw new Error("TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_FROM missing");
+    const res = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${sid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${Buffer.from(`${sid}:${token}`).toString('base64')}`
+      },
+      body: new URLSearchParams({ From: from, To: toE164(message.to), Body: message.text }).toString()
+    });
+    if (!res.ok) throw new Error(`Twilio HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+  }
+};
+
+registerDeliveryTransport(LOCAL_TRANSPORT);
+registerDeliveryTransport(RESEND_TRANSPORT);
+registerDeliveryTransport(TWILIO_TRANSPORT);
@@ -0,0 +1,36 @@
+import type { EventProfile, EventRecord, PhotoboothSettings } from '../types.js';
+import { DEFAULT_SETTINGS } from '../constants.js';
+
+/**
+ * EVENT PROFILES
+ * Setiap event menyimpan snapshot settings + concepts sendiri (per revisi), sehingga event
+ * berikutnya bisa disiapkan saat event lain sedang live, lalu diaktifkan / di-rollback.
+ * Isomorphic. apps-script.gs memakai salinan daftar key yang sama (PROFILE_EXCLUDED_SETTINGS).
+ */
+
+// Global per deployment, tidak pernah ikut snapshot maupun ditimpa saat profile diterapkan
+export const PROFILE_EXCLUDED_SETTINGS = ['adminPin', 'spreadsheetId', 'spreadsheetUrl', 'activeEventId'] as const;
+
+export const toProfileSettings = (settings: Partial<PhotoboothSettings>): Partial<PhotoboothSettings> => {
+  const copy: Record<string, unknown> = { ...settings };
+  PROFILE_EXCLUDED_SETTINGS.forEach(key => delete copy[key]);
+  return copy as Partial<PhotoboothSettings>;
+};
+
+/**
+ * Settings live setelah event diaktifkan: snapshot menggantikan semua key profile (di atas
+ * default, supaya overlay/background event lama tidak terbawa), identitas (nama, deskripsi,
+ * folder) selalu diambil dari record event. Tanpa snapshot hanya identitas yang berubah.
+ */
+export const applyEventProfile = <T extends Partial<PhotoboothSettings>>(current: T, event: EventRecord, profile: EventProfile | null): T => {
+  const source: Record<string, unknown> = current;
+  const kept: Record<string, unknown> = {};
+  PROFILE_EXCLUDED_SETTINGS.forEach(key => { if (source[key] !== undefined) kept[key] = source[key]; });
+  return {
+    ...(profile ? { ...DEFAULT_SETTINGS, ...toProfileSettings(profile.settings), ...kept } as T : current),
+    eventName: event.name || current.eventName,
+    eventDescription: event.description || current.eventDescription,
+    folderId: event.folderId || current.folderId,
+    activeEventId: event.id
+  };
+};
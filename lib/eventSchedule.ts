@@ -0,0 +1,43 @@
+import type { EventRecord } from '../types.js';
+
+/**
+ * EVENT SCHEDULE
+ * Window aktivasi event (startsAt / endsAt). Dievaluasi malas oleh backend saat kiosk sync
+ * (getSettings / getEvents), jadi tidak perlu trigger. Hanya tepi window yang dieksekusi:
+ * aktivasi manual di tengah window orang lain tetap dihormati.
+ * Isomorphic & pure. apps-script.gs memakai salinan logika yang sama (dueScheduleChange).
+ */
+
+export type EventScheduleState = 'archived' | 'live' | 'scheduled' | 'ended' | 'idle';
+
+export interface ScheduleChange {
+  activate?: string; // Event id yang window-nya baru mulai
+  deactivate?: string; // Event aktif yang window-nya sudah lewat
+}
+
+const time = (iso?: string) => (iso ? new Date(iso).getTime() || 0 : 0);
+
+export const isWithinWindow = (event: EventRecord, now: number) =>
+  !!event.startsAt && time(event.startsAt) <= now && (!event.endsAt || now < time(event.endsAt));
+
+export const scheduleState = (event: EventRecord, now: number = Date.now()): EventScheduleState => {
+  if (event.archivedAt) return 'archived';
+  if (event.isActive) return 'live';
+  if (event.startsAt && now < time(event.startsAt)) return 'scheduled';
+  if (event.endsAt && now >= time(event.endsAt)) return 'ended';
+  return 'idle';
+};
+
+export const dueScheduleChange = (events: EventRecord[], now: number = Date.now()): ScheduleChange | null => {
+  // Window yang mulai paling akhir menang; belum pernah diaktifkan sejak window itu mulai
+  const starting = events
+    .filter(ev => !ev.archivedAt && !ev.isActive && isWithinWindow(ev, now) && time(ev.activatedAt) < time(ev.startsAt))
+    .sort((a, b) => time(b.startsAt) - time(a.startsAt))[0];
+  if (starting) return { activate: starting.id };
+
+  const active = events.find(ev => ev.isActive);
+  if (active && active.endsAt && time(active.endsAt) <= now && time(active.activatedAt) < time(active.endsAt)) {
+    return { deactivate: active.id };
+  }
+  return null;
+};
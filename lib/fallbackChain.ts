@@ -0,0 +1,119 @@
+import type { Concept, FallbackStep, PhotoboothSettings } from '../types.js';
+
+/**
+ * FALLBACK CHAIN
+ * Urutan model yang dicoba untuk satu generate: Concept.fallbackChain -> settings.fallbackChain
+ * -> aturan lama (provider apapun -> Gemini 2.5 Flash, Pro -> Flash).
+ * Pure & isomorphic: tidak menyentuh localStorage / fetch.
+ */
+
+export const FLASH_MODEL = 'gemini-2.5-flash-image';
+export const PRO_MODEL = 'gemini-3-pro-image-preview';
+
+export const DEFAULT_STEP_TIMEOUT_MS = 60000;
+export const ULTRA_STEP_TIMEOUT_MS = 90000;
+
+export interface FallbackAttempt {
+  model: string;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface FallbackResult<T> {
+  value: T;
+  model: string;
+  attempts: FallbackAttempt[];
+}
+
+export class FallbackChainError extends Error {
+  attempts: FallbackAttempt[];
+
+  constructor(attempts: FallbackAttempt[]) {
+    const last = attempts[attempts.length - 1];
+    super(last?.error || 'No model in fallback chain');
+    this.name = 'FallbackChainError';
+    this.attempts = attempts;
+  }
+}
+
+// Chain used when neither the concept nor the settings define one (pre-chain behaviour)
+export const legacyFallbackChain = (selectedModel: string | undefined, forceUltraQuality = false): FallbackStep[] => {
+  if (forceUltraQuality) {
+    return [{ model: PRO_MODEL, timeoutMs: ULTRA_STEP_TIMEOUT_MS }, { model: FLASH_MODEL }];
+  }
+  const model = !selectedModel || selectedModel === 'auto' ? FLASH_MODEL : selectedModel;
+  if (model === FLASH_MODEL) return [{ model: FLASH_MODEL }];
+  if (model.includes('pro') && model.startsWith('gemini-')) {
+    return [{ model: PRO_MODEL }, { model: FLASH_MODEL }];
+  }
+  return [{ model }, { model: FLASH_MODEL }];
+};
+
+const normalizeChain = (chain?: FallbackStep[]): FallbackStep[] => {
+  if (!Array.isArray(chain)) return [];
+  const seen = new Set<string>();
+  return chain
+    .filter(step => step && typeof step.model === 'string' && step.model.trim() !== '')
+    .map(step => ({ ...step, model: step.model === 'auto' ? FLASH_MODEL : step.model.trim() }))
+    .filter(step => {
+      if (seen.has(step.model)) return false;
+      seen.add(step.model);
+      return true;
+    });
+};
+
+export const resolveFallbackChain = (
+  concept: Pick<Concept, 'fallbackChain'> | null | undefined,
+  settings: Partial<Pick<PhotoboothSettings, 'selectedModel' | 'fallbackChain'>> | null | undefined,
+  forceUltraQuality = false
+): FallbackStep[] => {
+  // Ultra regeneration is an explicit request for the Pro model
+  if (forceUltraQuality) return legacyFallbackChain(settings?.selectedModel, true);
+
+  const conceptChain = normalizeChain(concept?.fallbackChain);
+  if (conceptChain.length > 0) return conceptChain;
+
+  const globalChain = normalizeChain(settings?.fallbackChain);
+  if (globalChain.length > 0) return globalChain;
+
+  return legacyFallbackChain(settings?.selectedModel);
+};
+
+// On timeout the controller is aborted too, so the vendor request is cancelled instead of running (and billing) on
+export const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, label: string, controller?: AbortController): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const handle = setTimeout(() => {
+      const error = new Error(`Request timeout (${timeoutMs}ms). Model ${label} took too long.`);
+      controller?.abort(error);
+      reject(error);
+    }, timeoutMs);
+    promise.then(
+      value => { clearTimeout(handle); resolve(value); },
+      err => { clearTimeout(handle); reject(err); }
+    );
+  });
+};
+
+export const runFallbackChain = async <T>(
+  steps: FallbackStep[],
+  runStep: (step: FallbackStep, signal: AbortSignal) => Promise<T>
+): Promise<FallbackResult<T>> => {
+  const attempts: FallbackAttempt[] = [];
+
+  for (const step of steps) {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    try {
+      const value = await withTimeout(runStep(step, controller.signal), step.timeoutMs || DEFAULT_STEP_TIMEOUT_MS, step.model, controller);
+      attempts.push({ model: step.model, ok: true, durationMs: Date.now() - startedAt });
+      return { value, model: step.model, attempts };
+    } catch (err: any) {
+      const message = err?.message || String(err);
+      console.warn(`[Fallback] ${step.model} failed after ${Date.now() - startedAt}ms:`, message);
+      attempts.push({ model: step.model, ok: false, durationMs: Date.now() - startedAt, error: message });
+    }
+  }
+
+  throw new FallbackChainError(attempts);
+};
@@ -0,0 +1,1012 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Concept, ConfigVersion, DeliveryKind, DeliveryStatus, EventProfile, EventRecord, PendingDelivery, PurgeLogEntry, PurgeReason, VideoStatus } from '../types.js';
+import { DEFAULT_SETTINGS } from '../constants.js';
+import { applyTransitionToRow, VIDEO_ACTIVE_STATES } from './videoStateMachine.js';
+import { applyEventProfile, toProfileSettings } from './eventProfiles.js';
+import { dueScheduleChange } from './eventSchedule.js';
+import { isShareToken, ShareBranding, toSharedPhoto } from './share.js';
+import { applyDeliveryUpdate, dueDeliveryKinds, normalizeContact, parseContact, parseDeliveryLog } from './delivery.js';
+import { ANALYTICS_ROW_COLUMNS } from './analytics.js';
+import { clampRetentionDays, expiredRows, guestSessionRows, purgeChanges, toPurgeLogEntry, PURGE_BATCH_SIZE, PURGE_INTERVAL_MS, PURGE_LOG_LIMIT } from './retention.js';
+import { generationColumns } from './generationMeta.js';
+import { COST_ROW_COLUMNS } from './costs.js';
+import { IdempotentResult, isIdempotencyKey, pruneIdempotentResults } from './idempotency.js';
+import { clampGalleryLimit, normalizeGalleryQuery, pageGalleryRows } from './galleryQuery.js';
+import { applyHeartbeat, createKioskCommand, isKioskId, queueKioskCommand, sanitizeHeartbeat, toKioskRecord } from './kiosks.js';
+import { ADMIN_SESSION_TTL_MS, AUTH_INVALID_PIN, AUTH_LOCKED, AUTH_REQUIRED, AUTH_SETUP_REQUIRED, LOGIN_LOCKOUT_MS, MAX_FAILED_LOGINS, validateNewPin } from './adminAuth.js';
+
+/**
+ * LOCAL FILESYSTEM STORAGE (SERVER)
+ * Implementasi protokol action apps-script.gs di atas folder lokal, untuk event offline
+ * di LAN venue dan testing tanpa Google. Dipakai oleh /api/storage (kiosk) dan
+ * lib/serverStorage.ts (route server) saat STORAGE_BACKEND=local.
+ *
+ * Layout di LOCAL_STORAGE_DIR (default ./.storage):
+ *   db.json   settings, concepts, baris gallery (+ arsip), jobs, events, kiosk, auth admin, purge log, hasil upload idempoten, index file
+ *   files/    media (foto, video, overlay, audio) dan snapshot profile event (JSON)
+ */
+
+export interface LocalStorageContext {
+  publicBaseUrl: string; // Origin yang bisa diakses kiosk, mis. http://192.168.1.10:3000
+}
+
+interface StoredFile {
+  name: string;
+  mimeType: string;
+  folderId?: string;
+  createdAt: string;
+  trashedAt?: string; // Setara Trash Drive: tidak bisa diunduh sampai di-restore
+}
+
+// PIN hanya sebagai hash ber-salt; sesi disimpan per hash token (setara CacheService di GAS)
+interface AdminAuthState {
+  pinHash?: string;
+  pinSalt?: string;
+  tokenEpoch?: string;
+  failedLogins?: number;
+  lockedUntil?: number;
+  sessions: Record<string, { expiresAt: number; epoch: string }>;
+}
+
+interface LocalDb {
+  settings: Record<string, any>;
+  concepts: Concept[] | null;
+  gallery: Record<string, any>[]; // Urutan sheet: baris terbaru di akhir
+  galleryArchive: Record<string, any>[]; // Setara sheet GalleryArchive (archiveEvent)
+  jobs: Record<string, any>[];
+  kiosks: Record<string, any>[]; // Setara sheet Kiosks (kolom KIOSK_COLUMNS)
+  events: EventRecord[];
+  eventProfiles: { eventId: string; revision: number; savedAt: string; note: string; fileId: string }[];
+  files: Record<string, StoredFile>;
+  trashedFolders: Record<string, string>; // Folder sesi di Trash (folderId -> waktu)
+  auth: AdminAuthState;
+  purgeLog: PurgeLogEntry[]; // Setara sheet PurgeLog
+  idempotency: Record<string, IdempotentResult>; // Setara CacheService idem_<key> (lib/idempotency.ts)
+  lastPurgeAt?: number; // Setara Script Property LAST_PURGE_AT
+  configVersion?: number; // Setara Script Property CONFIG_VERSION
+  configUpdatedAt?: string;
+}
+
+const DELETED_GALLERY_LIMIT = 100;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'application/json': 'json'
+};
+
+const rootDir = () => path.resolve(process.env.LOCAL_STORAGE_DIR || '.storage');
+const dbPath = () => path.join(rootDir(), 'db.json');
+const filesDir = () => path.join(rootDir(), 'files');
+
+const emptyDb = (): LocalDb => ({ settings: {}, concepts: null, gallery: [], galleryArchive: [], jobs: [], kiosks: [], events: [], eventProfiles: [], files: {}, trashedFolders: {}, auth: { sessions: {} }, purgeLog: [], idempotency: {} });
+
+// --- DB ACCESS ---
+
+const readDb = async (): Promise<LocalDb> => {
+  try {
+    return { ...emptyDb(), ...JSON.parse(await fs.readFile(dbPath(), 'utf8')) };
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return emptyDb();
+    throw e;
+  }
+};
+
+const writeDb = async (db: LocalDb) => {
+  await fs.mkdir(rootDir(), { recursive: true });
+  const tmp = `${dbPath()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(db));
+  await fs.rename(tmp, dbPath()); // Atomic replace, never a half-written db
+};
+
+// Setara executeWithLock di GAS: semua mutasi dijalankan berurutan
+let lockChain: Promise<unknown> = Promise.resolve();
+const mutate = <T>(fn: (db: LocalDb) => T | Promise<T>): Promise<T> => {
+  const run = lockChain.then(async () => {
+    const db = await readDb();
+    const result = await fn(db);
+    await writeDb(db);
+    return result;
+  });
+  lockChain = run.catch(() => undefined);
+  return run;
+};
+
+// --- FILES ---
+
+const decodeDataUri = (data: string) => Buffer.from(data.includes(',') ? data.split(',')[1] : data, 'base64');
+
+const saveFile = async (db: LocalDb, data: Buffer, mimeType: string, prefix: string, folderId?: string): Promise<string> => {
+  const id = `${prefix}_${Date.now()}_${randomUUID().slice(0, 8)}`;
+  const name = `${id}.${MIME_EXTENSIONS[mimeType] || 'bin'}`;
+  await fs.mkdir(filesDir(), { recursive: true });
+  await fs.writeFile(path.join(filesDir(), name), data);
+  db.files[id] = { name, mimeType, folderId: folderId || undefined, createdAt: new Date().toISOString() };
+  return id;
+};
+
+const isTrashed = (db: LocalDb, meta: StoredFile) => !!meta.trashedAt || !!(meta.folderId && db.trashedFolders[meta.folderId]);
+
+export const readStoredFile = async (fileId: string): Promise<{ data: Buffer; mimeType: string } | null> => {
+  const db = await readDb();
+  const meta = db.files[fileId];
+  if (!meta || isTrashed(db, meta)) return null;
+  try {
+    return { data: await fs.readFile(path.join(filesDir(), meta.name)), mimeType: meta.mimeType };
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- EVENT PROFILES ---
+
+const listRevisions = (db: LocalDb, eventId: string) =>
+  db.eventProfiles.filter(r => r.eventId === eventId).sort((a, b) => a.revision - b.revision);
+
+const readProfile = async (db: LocalDb, fileId: string): Promise<EventProfile | null> => {
+  const meta = db.files[fileId];
+  if (!meta) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(filesDir(), meta.name), 'utf8'));
+  } catch (e) {
+    return null;
+  }
+};
+
+// Revisi baru, revisi lama tidak pernah ditimpa (sama dengan saveProfileRevision di GAS)
+const saveProfileRevision = async (db: LocalDb, event: EventRecord, profile: EventProfile, note: string, nowIso: string) => {
+  const snapshot: EventProfile = { settings: toProfileSettings(profile.settings || {}), concepts: profile.concepts || [] };
+  const revisions = listRevisions(db, event.id);
+  const revision = revisions.length > 0 ? revisions[revisions.length - 1].revision + 1 : 1;
+  const fileId = await saveFile(db, Buffer.from(JSON.stringify(snapshot)), 'application/json', `PROFILE_${event.id}_r${revision}`);
+  db.eventProfiles.push({ eventId: event.id, revision, savedAt: nowIso, note: note || '', fileId });
+  event.profileRevision = revision;
+  event.profileUpdatedAt = nowIso;
+  return { revision, profile: snapshot };
+};
+
+// Kiosk yang terhubung (/api/config/stream) sync ulang saat versi berubah
+const bumpConfigVersion = (db: LocalDb) => {
+  db.configVersion = (db.configVersion || 0) + 1;
+  db.configUpdatedAt = new Date().toISOString();
+};
+
+const applyProfileToDb = (db: LocalDb, event: EventRecord, profile: EventProfile | null) => {
+  db.settings = applyEventProfile(db.settings, event, profile);
+  delete db.settings.activeEventId; // Berasal dari record event, bukan setting
+  if (profile && Array.isArray(profile.concepts)) db.concepts = profile.concepts;
+  bumpConfigVersion(db);
+};
+
+const findEvent = (db: LocalDb, id: any) => db.events.find(ev => ev.id === String(id));
+
+const configVersionOf = (db: LocalDb): ConfigVersion => ({ version: db.configVersion || 0, updatedAt: db.configUpdatedAt || '' });
+
+const activateEventById = async (db: LocalDb, eventId: string, nowIso: string) => {
+  const event = findEvent(db, eventId);
+  if (!event) return { ok: false, error: 'Event not found' };
+  if (event.archivedAt) return { ok: false, error: 'Event is archived' };
+
+  const previous = db.events.find(ev => ev.isActive && ev.id !== event.id);
+  if (previous) {
+    await saveProfileRevision(db, previous, { settings: db.settings, concepts: db.concepts || [] }, `Auto-saved before switching to ${event.name}`, nowIso);
+  }
+
+  const revisions = listRevisions(db, event.id);
+  const latest = revisions[revisions.length - 1];
+  const profile = latest ? await readProfile(db, latest.fileId) : null;
+  applyProfileToDb(db, event, profile);
+  db.events.forEach(ev => { ev.isActive = ev.id === event.id; });
+  event.activatedAt = nowIso;
+  return { ok: true, event, revision: latest ? latest.revision : 0, profile };
+};
+
+// Setara runEventSchedule di GAS: dijalankan saat kiosk sync
+const runEventSchedule = async () => {
+  if (!dueScheduleChange((await readDb()).events)) return;
+  await mutate(async db => {
+    const change = dueScheduleChange(db.events);
+    if (change?.activate) await activateEventById(db, change.activate, new Date().toISOString());
+    else if (change?.deactivate) {
+      const active = findEvent(db, change.deactivate);
+      if (active) active.isActive = false;
+      bumpConfigVersion(db);
+    }
+  });
+};
+
+// --- ADMIN AUTH ---
+
+const sha256Hex = (value: string) => createHash('sha256').update(value, 'utf8').digest('hex');
+
+const hasAdminPin = (db: LocalDb) => !!(db.auth.pinHash || db.settings.adminPin);
+
+const storeAdminPin = (db: LocalDb, pin: string) => {
+  db.auth.pinSalt = randomUUID();
+  db.auth.pinHash = sha256Hex(`${db.auth.pinSalt}:${pin}`);
+  db.auth.tokenEpoch = randomUUID(); // Semua sesi lama batal
+  db.auth.sessions = {};
+  delete db.settings.adminPin;
+};
+
+const verifyAdminPin = (db: LocalDb, pin: unknown) => {
+  if (db.auth.pinHash) {
+    const expected = Buffer.from(db.auth.pinHash, 'hex');
+    const actual = Buffer.from(sha256Hex(`${db.auth.pinSalt || ''}:${String(pin)}`), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+  // Migrasi: PIN plaintext lama di settings di-hash pada login pertama yang berhasil
+  if (db.settings.adminPin && String(pin) === String(db.settings.adminPin)) {
+    storeAdminPin(db, String(pin));
+    return true;
+  }
+  return false;
+};
+
+const lockedResponse = (db: LocalDb) =>
+  db.auth.lockedUntil && db.auth.lockedUntil > Date.now()
+    ? { ok: false, error: AUTH_LOCKED, lockedUntil: new Date(db.auth.lockedUntil).toISOString() }
+    : null;
+
+const registerFailedLogin = (db: LocalDb) => {
+  const failed = (db.auth.failedLogins || 0) + 1;
+  if (failed >= MAX_FAILED_LOGINS) {
+    db.auth.lockedUntil = Date.now() + LOGIN_LOCKOUT_MS;
+    db.auth.failedLogins = 0;
+    return lockedResponse(db)!;
+  }
+  db.auth.failedLogins = failed;
+  return { ok: false, error: AUTH_INVALID_PIN, attemptsLeft: MAX_FAILED_LOGINS - failed };
+};
+
+const issueAdminToken = (db: LocalDb) => {
+  const now = Date.now();
+  Object.entries(db.auth.sessions).forEach(([key, session]) => {
+    if (session.expiresAt <= now) delete db.auth.sessions[key];
+  });
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = now + ADMIN_SESSION_TTL_MS;
+  db.auth.sessions[sha256Hex(token)] = { expiresAt, epoch: db.auth.tokenEpoch || '' };
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+};
+
+const isValidAdminToken = (db: LocalDb, token: unknown) => {
+  if (!token) return false;
+  const session = db.auth.sessions[sha256Hex(String(token))];
+  return !!session && session.expiresAt > Date.now() && session.epoch === (db.auth.tokenEpoch || '');
+};
+
+export const listSessionFiles = async (sessionId: string): Promise<{ id: string; mimeType: string }[]> => {
+  const db = await readDb();
+  return Object.entries(db.files)
+    .filter(([, meta]) => meta.folderId === sessionId && !isTrashed(db, meta))
+    .map(([id, meta]) => ({ id, mimeType: meta.mimeType }));
+};
+
+const fileUrl = (ctx: LocalStorageContext, fileId: string) =>
+  `${ctx.publicBaseUrl}/api/storage?action=file&id=${encodeURIComponent(fileId)}`;
+
+const rowTimestamp = (row: Record<string, any>) => new Date(row.updatedAt || row.createdAt || 0).getTime() || 0;
+
+const findRow = (db: LocalDb, id: any) => db.gallery.find(r => String(r.id).trim() === String(id).trim());
+
+// Kontak tamu (worker delivery) dan token share (kunci /share/:token, lewat /api/share-link) tidak pernah ikut response publik
+const publicRow = ({ guestContact, token, ...row }: Record<string, any>) => row;
+
+// Nama & deskripsi dari event foto itu; background hanya milik event yang sedang live
+const shareBranding = (db: LocalDb, row: Record<string, any>): ShareBranding => {
+  const settings = { ...DEFAULT_SETTINGS, ...db.settings };
+  const event = row.eventId ? findEvent(db, row.eventId) : undefined;
+  const isLive = !event || event.isActive;
+  return {
+    eventName: event?.name || settings.eventName,
+    eventDescription: event?.description || settings.eventDescription,
+    backgroundImage: isLive && /^https?:\/\//.test(settings.backgroundImage || '') ? settings.backgroundImage : null
+  };
+};
+
+// Aksi worker delivery (kontak tamu) hanya dengan DELIVERY_SECRET yang sama dengan server
+const isWorkerRequest = (secret: unknown) => {
+  const expected = process.env.DELIVERY_SECRET;
+  if (!expected || typeof secret !== 'string') return false;
+  const a = Buffer.from(sha256Hex(expected), 'hex');
+  const b = Buffer.from(sha256Hex(secret), 'hex');
+  return timingSafeEqual(a, b);
+};
+
+// Kunci "Delete my data": hanya ada di link yang dikirim ke kontak tamu sendiri (pendingDeliveries),
+// tidak di QR. Diturunkan dari DELIVERY_SECRET + token, tanpa secret = tamu tidak bisa menghapus sendiri
+const shareDeleteKey = (token: string) => {
+  const secret = process.env.DELIVERY_SECRET;
+  return secret && token ? sha256Hex(`${secret}:forget:${token}`).slice(0, 32) : '';
+};
+
+const isShareDeleteKey = (token: string, key: unknown) => {
+  const expected = shareDeleteKey(token);
+  if (!expected || typeof key !== 'string') return false;
+  return timingSafeEqual(Buffer.from(sha256Hex(expected), 'hex'), Buffer.from(sha256Hex(key), 'hex'));
+};
+
+// --- GALLERY SOFT DELETE ---
+
+// Identitas sesi admin untuk kolom deletedBy (prefix hash token, token mentah tidak disimpan)
+const adminActor = (token: unknown) => `admin#${sha256Hex(String(token)).slice(0, 8)}`;
+
+// File milik baris gallery (hasil, original, video, frame strip) + folder sesi, tanpa duplikat
+const galleryDriveIds = (rows: Record<string, any>[]) => {
+  const ids = new Set<string>();
+  rows.forEach(row => {
+    let frames: unknown = [];
+    try { frames = row.frames ? JSON.parse(row.frames) : []; } catch (e) { /* kolom rusak, abaikan */ }
+    [row.sessionFolderId, row.id, row.originalId, row.videoFileId, ...(Array.isArray(frames) ? frames : [])]
+      .map(id => String(id || '').trim())
+      .forEach(id => { if (id) ids.add(id); });
+  });
+  return [...ids];
+};
+
+const setTrashed = (db: LocalDb, ids: string[], trashedAt: string | null) => {
+  ids.forEach(id => {
+    const meta = db.files[id];
+    if (meta) {
+      if (trashedAt) meta.trashedAt = trashedAt;
+      else delete meta.trashedAt;
+    } else if (trashedAt) {
+      db.trashedFolders[id] = trashedAt;
+    } else {
+      delete db.trashedFolders[id];
+    }
+  });
+};
+
+// --- DATA RETENTION ---
+
+// Hapus permanen dari disk (bukan trash). ID folder sesi = semua file di dalamnya
+const removeFiles = async (db: LocalDb, ids: string[]) => {
+  for (const id of ids) {
+    const fileIds = db.files[id] ? [id] : Object.keys(db.files).filter(fileId => db.files[fileId].folderId === id);
+    for (const fileId of fileIds) {
+      await fs.rm(path.join(filesDir(), db.files[fileId].name), { force: true });
+      delete db.files[fileId];
+    }
+    delete db.trashedFolders[id];
+  }
+};
+
+// Baris jadi tombstone + dicatat di purgeLog. File yang masih dipakai baris lain (termasuk yang
+// baru di-soft-delete, masih bisa di-restore) tidak disentuh. Dipanggil di dalam mutate.
+const purgeRows = async (db: LocalDb, rows: Record<string, any>[], reason: PurgeReason, actor: string, nowIso: string) => {
+  const purging = new Set(rows);
+  const inUse = new Set(galleryDriveIds([...db.gallery, ...db.galleryArchive].filter(r => !purging.has(r) && !r.purgedAt)));
+  for (const row of rows) {
+    const ids = galleryDriveIds([row]).filter(id => !inUse.has(id));
+    await removeFiles(db, ids);
+    ids.forEach(id => inUse.add(id)); // Sudah dihapus, tidak dihitung lagi untuk baris berikutnya
+    db.purgeLog.push(toPurgeLogEntry(row, reason, actor, ids.length, nowIso));
+    Object.assign(row, purgeChanges(actor, nowIso));
+  }
+  return rows.length;
+};
+
+// --- GET ---
+
+export const handleLocalGet = async (action: string, params: Record<string, any>, ctx: LocalStorageContext): Promise<any> => {
+  // configVersion juga: kiosk yang hanya menunggu versi baru tetap memicu jadwal event
+  if (action === 'getSettings' || action === 'getEvents' || action === 'configVersion') await runEventSchedule();
+  const db = await readDb();
+
+  if (action === 'getSettings') {
+    const { adminPin, ...publicSettings } = db.settings; // PIN lama (belum dimigrasi) tidak pernah dikirim
+    return {
+      ok: true,
+      settings: { ...DEFAULT_SETTINGS, folderId: '', spreadsheetId: '', ...publicSettings },
+      concepts: db.concepts,
+      configVersion: configVersionOf(db)
+    };
+  }
+
+  if (action === 'configVersion') {
+    return { ok: true, ...configVersionOf(db) };
+  }
+
+  if (action === 'getEvents') {
+    return { ok: true, events: db.events };
+  }
+
+  if (action === 'getEventProfile') {
+    const event = findEvent(db, params.id);
+    if (!event) return { ok: false, error: 'Event not found' };
+    const revisions = listRevisions(db, event.id);
+    const target = params.revision
+      ? revisions.find(r => r.revision === Number(params.revision))
+      : revisions[revisions.length - 1];
+    if (params.revision && !target) return { ok: false, error: 'Revision not found' };
+    return {
+      ok: true,
+      event,
+      revision: target ? target.revision : 0,
+      profile: target ? await readProfile(db, target.fileId) : null,
+      revisions: revisions.map(({ fileId, ...r }) => r)
+    };
+  }
+
+  // Halaman (filter + before) atau delta (since), lihat lib/galleryQuery.ts
+  if (action === 'gallery') {
+    const since = params.since ? Number(params.since) : 0;
+    const isDelta = since > 0;
+    const maxTimestamp = db.gallery.reduce((max, row) => Math.max(max, rowTimestamp(row)), since);
+
+    if (isDelta) {
+      // Baris terhapus ikut delta supaya client membuangnya
+      const items = db.gallery.filter(row => rowTimestamp(row) > since).reverse().map(publicRow);
+      return { items, nextCursor: maxTimestamp, isDelta };
+    }
+    const page = pageGalleryRows(db.gallery, normalizeGalleryQuery(params), params.before, clampGalleryLimit(params.limit));
+    return { items: page.rows.map(publicRow), nextCursor: maxTimestamp, olderCursor: page.olderCursor, isDelta };
+  }
+
+  // Halaman tamu /share/:token; arsip ikut dicari supaya link tetap hidup setelah archiveEvent
+  if (action === 'share') {
+    const token = String(params.token || '').trim();
+    const row = token ? [...db.gallery, ...db.galleryArchive].find(r => String(r.token).trim() === token) : undefined;
+    if (!row || row.deletedAt) return { ok: false, error: 'Not found' };
+    return { ok: true, share: toSharedPhoto(row, shareBranding(db, row)) };
+  }
+
+  if (action === 'videoJobs') {
+    return { items: db.gallery.filter(r => VIDEO_ACTIVE_STATES.includes(r.videoStatus) && !r.deletedAt).map(publicRow) };
+  }
+
+  // Biaya event (lib/costs.ts): baris terhapus / purged tetap dihitung, uangnya sudah keluar.
+  // eventId kosong = baris tanpa event
+  if (action === 'costRows') {
+    const eventId = String(params.eventId || '').trim();
+    const rows = [...db.gallery, ...db.galleryArchive]
+      .filter(r => String(r.eventId || '').trim() === eventId)
+      .map(r => {
+        const item: Record<string, any> = {};
+        COST_ROW_COLUMNS.forEach(column => { if (r[column] !== undefined) item[column] = r[column]; });
+        return item;
+      });
+    return { ok: true, rows };
+  }
+
+  if (action === 'getBase64') {
+    const file = await readStoredFile(String(params.id));
+    if (!file) return { ok: false, error: 'File not found' };
+    return { ok: true, base64: `data:${file.mimeType};base64,${file.data.toString('base64')}` };
+  }
+
+  return { ok: true, message: `Local storage active (${ctx.publicBaseUrl})` };
+};
+
+// --- POST ---
+
+export const handleLocalPost = async (data: any, ctx: LocalStorageContext): Promise<any> => {
+  const action = data.action;
+  const nowIso = new Date().toISOString();
+  const checkToken = async () => isValidAdminToken(await readDb(), data.token);
+
+  if (action === 'adminLogin') {
+    return mutate(db => {
+      if (!hasAdminPin(db)) return { ok: false, error: AUTH_SETUP_REQUIRED };
+      const locked = lockedResponse(db);
+      if (locked) return locked;
+      if (!verifyAdminPin(db, data.pin)) return registerFailedLogin(db);
+      db.auth.failedLogins = 0;
+      return { ok: true, ...issueAdminToken(db) };
+    });
+  }
+
+  if (action === 'setupAdminPin') {
+    return mutate(db => {
+      if (hasAdminPin(db)) return { ok: false, error: 'PIN already configured' };
+      const pinError = validateNewPin(String(data.pin || ''));
+      if (pinError) return { ok: false, error: pinError };
+      storeAdminPin(db, String(data.pin));
+      return { ok: true, ...issueAdminToken(db) };
+    });
+  }
+
+  if (action === 'changeAdminPin') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => {
+      const locked = lockedResponse(db);
+      if (locked) return locked;
+      if (!verifyAdminPin(db, data.currentPin)) return registerFailedLogin(db);
+      const pinError = validateNewPin(String(data.newPin || ''));
+      if (pinError) return { ok: false, error: pinError };
+      storeAdminPin(db, String(data.newPin));
+      return { ok: true, ...issueAdminToken(db) };
+    });
+  }
+
+  if (action === 'adminLogout') {
+    if (!data.token) return { ok: true };
+    return mutate(db => {
+      delete db.auth.sessions[sha256Hex(String(data.token))];
+      return { ok: true };
+    });
+  }
+
+  if (action === 'updateConcepts') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    if (!data.concepts) return { ok: false, error: 'No concepts data provided' };
+    return mutate(db => {
+      db.concepts = data.concepts;
+      bumpConfigVersion(db);
+      return { ok: true, message: 'Concepts updated successfully' };
+    });
+  }
+
+  if (action === 'createSession') {
+    const folderId = `Session_${Date.now()}_${randomUUID().slice(0, 8)}`;
+    return { ok: true, folderId, folderUrl: `${ctx.publicBaseUrl}/api/storage?action=session&id=${folderId}` };
+  }
+
+  if (action === 'finalizeVideoUpload') {
+    const { photoId, videoUrl } = data;
+    if (!photoId || !videoUrl) return { ok: false, error: 'Missing photoId or videoUrl' };
+
+    const db = await readDb();
+    const row = findRow(db, photoId);
+    if (!row) return { ok: true, message: 'Photo ID not found' };
+    if (row.videoStatus === 'done' || row.videoFileId) return { ok: true, message: 'Already uploaded' };
+    if (row.videoStatus !== 'uploading') return { ok: true, message: `Not in uploading state (${row.videoStatus})` };
+
+    // Download di luar lock, seperti UrlFetchApp di GAS
+    let video: Buffer;
+    try {
+      const res = await fetch(videoUrl);
+      if (!res.ok) return { ok: false, error: `Fetch Failed HTTP ${res.status}` };
+      video = Buffer.from(await res.arrayBuffer());
+    } catch (e: any) {
+      return { ok: false, error: `Fetch Error: ${e.message}` };
+    }
+
+    const folderId = data.sessionFolderId && data.sessionFolderId !== 'undefined' && data.sessionFolderId !== 'null'
+      ? data.sessionFolderId
+      : undefined;
+
+    try {
+      return await mutate(async db => {
+        const target = findRow(db, photoId);
+        if (!target) return { ok: false, error: 'Photo ID not found' };
+        const result = applyTransitionToRow(target, 'done', { from: 'uploading' }, nowIso);
+        if (!result.ok) return result;
+        const fileId = await saveFile(db, video, 'video/mp4', 'VIDEO', folderId);
+        target.videoFileId = fileId;
+        return { ok: true, fileId, folderId: folderId || '' };
+      });
+    } catch (e: any) {
+      await mutate(db => {
+        const target = findRow(db, photoId);
+        if (target) applyTransitionToRow(target, 'failed', { from: 'uploading', error: e.message }, nowIso);
+      });
+      return { ok: false, error: `Save Error: ${e.message}` };
+    }
+  }
+
+  if (action === 'uploadGenerated' || action === 'uploadGeneratedVideo') {
+    const isVideo = action === 'uploadGeneratedVideo';
+    if (!data.image) return { ok: false, error: 'No image data' };
+    const startedAt = Date.now();
+    const idempotencyKey = isIdempotencyKey(data.idempotencyKey) ? data.idempotencyKey : '';
+    return mutate(async db => {
+      // Request ulang (response pertama hilang): hasil yang sama, tanpa file / baris baru
+      if (idempotencyKey && db.idempotency[idempotencyKey]) return db.idempotency[idempotencyKey].result;
+      const mimeType = isVideo ? (data.mimeType || 'video/mp4') : 'image/jpeg';
+      const prefix = data.mediaType === 'boomerang' ? 'BOOMERANG' : isVideo ? 'VIDEO' : 'PHOTO';
+      const fileId = await saveFile(db, decodeDataUri(data.image), mimeType, prefix, data.folderId);
+      if (data.skipGallery !== true) {
+        db.gallery.push({
+          id: fileId,
+          createdAt: nowIso,
+          updatedAt: nowIso,
+          conceptName: data.conceptName,
+          imageUrl: fileUrl(ctx, fileId),
+          downloadUrl: fileUrl(ctx, fileId),
+          token: randomUUID(),
+          eventId: data.eventId || '',
+          type: data.mediaType === 'boomerang' ? 'boomerang' : (isVideo ? 'video' : 'image'),
+          originalId: data.originalId || '',
+          relatedPhotoId: data.relatedPhotoId || '',
+          sessionFolderId: data.sessionFolderId || '',
+          sessionFolderUrl: data.sessionFolderUrl || '',
+          videoStatus: isVideo ? 'done' : 'idle',
+          videoFileId: data.videoFileId || (isVideo ? fileId : ''),
+          aiModel: data.aiModel || '',
+          layout: data.layout || '',
+          frames: data.frames || '',
+          ...generationColumns(data, startedAt, Date.now())
+        });
+      }
+      const result = { ok: true, id: fileId };
+      if (idempotencyKey) {
+        pruneIdempotentResults(db.idempotency, Date.now());
+        db.idempotency[idempotencyKey] = { at: Date.now(), result };
+      }
+      return result;
+    });
+  }
+
+  if (action === 'queueVideo') {
+    return mutate(db => {
+      const row = findRow(db, data.photoId);
+      if (!row) return { ok: false, error: 'Photo ID not found' };
+      const result = applyTransitionToRow(row, 'queued', { videoModel: data.model, videoResolution: data.resolution }, nowIso);
+      if (result.ok && data.prompt) row.videoPrompt = data.prompt;
+      return result;
+    });
+  }
+
+  if (action === 'updateVideoStatus') {
+    return mutate(db => {
+      const row = findRow(db, data.photoId);
+      if (!row) return { ok: false, error: 'Photo ID not found' };
+      // requireStatus = compare-and-set (optimistic lock)
+      return applyTransitionToRow(row, data.status as VideoStatus, {
+        from: data.requireStatus,
+        taskId: data.taskId,
+        providerUrl: data.providerUrl,
+        videoModel: data.videoModel,
+        videoResolution: data.videoResolution,
+        error: data.error
+      }, nowIso);
+    });
+  }
+
+  // Soft delete: baris ditandai (deletedAt/deletedBy), file & folder sesi masuk trash
+  if (action === 'deletePhoto') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => {
+      const row = db.gallery.find(r => String(r.id).trim() === String(data.id).trim() && !r.deletedAt);
+      if (!row) return { ok: false, error: `ID ${data.id} not found` };
+      Object.assign(row, { deletedAt: nowIso, deletedBy: adminActor(data.token), updatedAt: nowIso });
+      // Original / folder sesi bisa dipakai bersama hasil regenerate yang masih tampil
+      const inUse = new Set(galleryDriveIds(db.gallery.filter(r => !r.deletedAt)));
+      setTrashed(db, galleryDriveIds([row]).filter(id => !inUse.has(id)), nowIso);
+      return { ok: true, deletedAt: nowIso };
+    });
+  }
+
+  if (action === 'deleteAllPhotos') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => {
+      const live = db.gallery.filter(r => !r.deletedAt);
+      live.forEach(row => Object.assign(row, { deletedAt: nowIso, deletedBy: adminActor(data.token), updatedAt: nowIso }));
+      setTrashed(db, galleryDriveIds(live), nowIso);
+      return { ok: true, deleted: live.length };
+    });
+  }
+
+  if (action === 'listDeletedPhotos') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const db = await readDb();
+    const items = db.gallery
+      .filter(r => r.deletedAt && !r.purgedAt)
+      .sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime())
+      .slice(0, DELETED_GALLERY_LIMIT)
+      .map(publicRow);
+    return { ok: true, items };
+  }
+
+  if (action === 'restorePhoto') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => {
+      const row = db.gallery.find(r => String(r.id).trim() === String(data.id).trim() && r.deletedAt && !r.purgedAt);
+      if (!row) return { ok: false, error: `Deleted photo ${data.id} not found` };
+      Object.assign(row, { deletedAt: '', deletedBy: '', updatedAt: nowIso });
+      setTrashed(db, galleryDriveIds([row]), null);
+      return { ok: true, restoredAt: nowIso };
+    });
+  }
+
+  // --- GUEST DELIVERY ---
+
+  // Dari kiosk (tanpa sesi admin). Kontak bisa diganti selama belum ada kiriman yang terkirim
+  if (action === 'setGuestContact') {
+    const { contact, error } = normalizeContact(data.contact || {});
+    if (!contact) return { ok: false, error };
+    return mutate(db => {
+      const row = findRow(db, data.photoId);
+      if (!row || row.deletedAt) return { ok: false, error: 'Photo ID not found' };
+      const log = parseDeliveryLog(row.delivery);
+      if (Object.values(log).some(r => r?.status === 'sent')) return { ok: false, error: 'ALREADY_SENT' };
+      row.guestContact = JSON.stringify(contact);
+      row.delivery = '';
+      return { ok: true };
+    });
+  }
+
+  if (action === 'pendingDeliveries') {
+    if (!isWorkerRequest(data.workerSecret)) return { ok: false, error: AUTH_REQUIRED };
+    const db = await readDb();
+    const now = Date.now();
+    const items: PendingDelivery[] = [];
+    db.gallery.forEach(row => {
+      const kinds = dueDeliveryKinds(row, now);
+      const contact = parseContact(row.guestContact);
+      if (kinds.length === 0 || !contact) return;
+      items.push({
+        photoId: String(row.id),
+        token: String(row.token),
+        deleteKey: shareDeleteKey(String(row.token)),
+        type: row.type === 'video' || row.type === 'boomerang' ? row.type : 'image',
+        conceptName: String(row.conceptName || ''),
+        eventName: shareBranding(db, row).eventName,
+        contact,
+        kinds
+      });
+    });
+    return { ok: true, items };
+  }
+
+  // Token share untuk QR Gallery / Monitor kiosk (/api/share-link); tidak pernah lewat read publik
+  if (action === 'shareTokens') {
+    if (!isWorkerRequest(data.workerSecret)) return { ok: false, error: AUTH_REQUIRED };
+    const ids = new Set((Array.isArray(data.photoIds) ? data.photoIds : []).map((id: unknown) => String(id).trim()));
+    const db = await readDb();
+    const tokens: Record<string, string> = {};
+    db.gallery.forEach(row => {
+      if (ids.has(String(row.id).trim()) && row.token && !row.deletedAt) tokens[String(row.id)] = String(row.token);
+    });
+    return { ok: true, tokens };
+  }
+
+  if (action === 'updateDelivery') {
+    if (!isWorkerRequest(data.workerSecret)) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => {
+      const row = findRow(db, data.photoId);
+      if (!row) return { ok: false, error: 'Photo ID not found' };
+      return applyDeliveryUpdate(row, data.kind as DeliveryKind, data.status as DeliveryStatus, { error: data.error, channels: data.channels }, nowIso);
+    });
+  }
+
+  // --- DATA RETENTION ---
+
+  // Dari /api/video/tick (dibatasi PURGE_INTERVAL_MS) atau Admin "Run Purge Now" (force, perlu sesi admin).
+  // Tanpa auth untuk tick: hanya menjalankan retentionDays yang sudah diatur admin.
+  if (action === 'purgeExpired') {
+    if (data.force && !(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const isDue = (db: LocalDb) => data.force || Date.now() - (db.lastPurgeAt || 0) >= PURGE_INTERVAL_MS;
+    if (!isDue(await readDb())) return { ok: true, purged: 0, skipped: true };
+    return mutate(async db => {
+      if (!isDue(db)) return { ok: true, purged: 0, skipped: true };
+      const rows = expiredRows([...db.gallery, ...db.galleryArchive], db.events, Date.now());
+      const purged = await purgeRows(db, rows, 'retention', data.force ? adminActor(data.token) : 'system', nowIso);
+      // Batch penuh = mungkin masih ada sisa, putaran berikutnya tidak ditahan interval
+      const hasMore = rows.length >= PURGE_BATCH_SIZE;
+      if (!hasMore) db.lastPurgeAt = Date.now();
+      return { ok: true, purged, hasMore };
+    });
+  }
+
+  // "Delete my data" dari /share/:token. Butuh token share + deleteKey dari link delivery tamu (bukan QR)
+  if (action === 'forgetShare') {
+    const shareToken = String(data.shareToken || '').trim();
+    if (!isShareToken(shareToken)) return { ok: false, error: 'Not found' };
+    if (!isShareDeleteKey(shareToken, data.deleteKey)) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(async db => {
+      const rows = [...db.gallery, ...db.galleryArchive];
+      const target = rows.find(r => String(r.token).trim() === shareToken && !r.purgedAt);
+      if (!target) return { ok: false, error: 'Not found' };
+      const purged = await purgeRows(db, guestSessionRows(rows, target), 'guest_request', 'guest', nowIso);
+      return { ok: true, purged };
+    });
+  }
+
+  if (action === 'listPurgeLog') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const db = await readDb();
+    return { ok: true, entries: db.purgeLog.slice(-PURGE_LOG_LIMIT).reverse() };
+  }
+
+  // --- ANALYTICS ---
+
+  // Dari kiosk (tanpa sesi admin), best-effort. updatedAt tidak diubah: cetak tidak perlu ikut delta gallery
+  if (action === 'recordPrint') {
+    return mutate(db => {
+      const row = findRow(db, data.photoId);
+      if (!row) return { ok: false, error: 'Photo ID not found' };
+      row.prints = (Number(row.prints) || 0) + 1;
+      return { ok: true, prints: row.prints };
+    });
+  }
+
+  // Data mentah (kolom seperlunya) untuk lib/analytics.ts; eventId kosong = semua event
+  if (action === 'analyticsData') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const db = await readDb();
+    const eventId = String(data.eventId || '').trim();
+    const inEvent = (r: Record<string, any>) => !eventId || String(r.eventId || '').trim() === eventId;
+    const rows = [...db.gallery, ...db.galleryArchive].filter(inEvent).map(r => {
+      const item: Record<string, any> = {};
+      ANALYTICS_ROW_COLUMNS.forEach(column => { if (r[column] !== undefined) item[column] = r[column]; });
+      return item;
+    });
+    const jobs = db.jobs.filter(inEvent).map(j => ({
+      status: j.status,
+      conceptName: j.conceptName || '',
+      eventId: j.eventId || '',
+      aiModel: j.aiModel || '',
+      createdAt: Number(j.createdAt) || 0,
+      updatedAt: Number(j.updatedAt) || 0
+    }));
+    return { ok: true, rows, jobs };
+  }
+
+  if (action === 'recordJob') {
+    const job = data.job || {};
+    if (!job.id) return { ok: false, error: 'Missing job id' };
+    return mutate(db => {
+      const index = db.jobs.findIndex(j => String(j.id) === String(job.id));
+      if (index === -1) db.jobs.push(job);
+      else db.jobs[index] = job;
+      return { ok: true };
+    });
+  }
+
+  // --- KIOSK FLEET ---
+
+  // Dari kiosk (tanpa sesi admin): status masuk, perintah yang menunggu keluar
+  if (action === 'kioskHeartbeat') {
+    const heartbeat = sanitizeHeartbeat(data.kiosk);
+    if (!heartbeat) return { ok: false, error: 'Invalid kiosk id' };
+    return mutate(db => {
+      let row = db.kiosks.find(k => String(k.id) === heartbeat.id);
+      if (!row) db.kiosks.push(row = {});
+      return { ok: true, commands: applyHeartbeat(row, heartbeat, nowIso) };
+    });
+  }
+
+  if (action === 'listKiosks') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const db = await readDb();
+    const now = Date.now();
+    return { ok: true, kiosks: db.kiosks.map(row => toKioskRecord(row, now)) };
+  }
+
+  // kioskId '*' = semua kiosk yang pernah terdaftar
+  if (action === 'sendKioskCommand') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const { command, error } = createKioskCommand(data.command, adminActor(data.token), nowIso);
+    if (!command) return { ok: false, error };
+    return mutate(db => {
+      const targets = data.kioskId === '*' ? db.kiosks : db.kiosks.filter(k => String(k.id) === String(data.kioskId));
+      if (targets.length === 0) return { ok: false, error: 'Kiosk not found' };
+      // Antrian penuh = kiosk itu dilewati (biasanya sudah lama offline)
+      const skipped = targets.filter(row => !queueKioskCommand(row, command).ok).map(row => String(row.id));
+      if (skipped.length === targets.length) return { ok: false, error: 'Too many pending commands' };
+      return { ok: true, command, queued: targets.length - skipped.length, skipped };
+    });
+  }
+
+  // Tablet yang sudah tidak dipakai; kalau masih hidup ia muncul lagi di heartbeat berikutnya
+  if (action === 'removeKiosk') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    if (!isKioskId(data.kioskId)) return { ok: false, error: 'Kiosk not found' };
+    return mutate(db => {
+      const before = db.kiosks.length;
+      db.kiosks = db.kiosks.filter(k => String(k.id) !== data.kioskId);
+      return before === db.kiosks.length ? { ok: false, error: 'Kiosk not found' } : { ok: true };
+    });
+  }
+
+  if (action === 'updateSettings') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => {
+      Object.entries(data.settings || {}).forEach(([key, value]) => {
+        if (value !== undefined && key !== 'adminPin') db.settings[key] = value; // PIN lewat changeAdminPin
+      });
+      bumpConfigVersion(db);
+      return { ok: true };
+    });
+  }
+
+  if (action === 'saveEventProfile') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    if (!data.eventId || !data.settings) return { ok: false, error: 'Missing eventId or settings' };
+    return mutate(async db => {
+      const event = findEvent(db, data.eventId);
+      if (!event) return { ok: false, error: 'Event not found' };
+      const saved = await saveProfileRevision(db, event, { settings: data.settings, concepts: data.concepts }, data.note, nowIso);
+      if (event.isActive) applyProfileToDb(db, event, saved.profile);
+      return { ok: true, revision: saved.revision, applied: event.isActive };
+    });
+  }
+
+  if (action === 'createEvent') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const input = data.event || {};
+    if (!input.name) return { ok: false, error: 'Event name is required' };
+    return mutate(db => {
+      const event: EventRecord = {
+        id: `evt_${Date.now()}`,
+        name: input.name,
+        description: input.description || '',
+        folderId: `Event_${Date.now()}_${randomUUID().slice(0, 8)}`, // Virtual folder, seperti createSession
+        createdAt: nowIso,
+        isActive: false,
+        profileRevision: 0,
+        startsAt: input.startsAt || '',
+        endsAt: input.endsAt || '',
+        retentionDays: clampRetentionDays(input.retentionDays)
+      };
+      db.events.push(event);
+      return { ok: true, event };
+    });
+  }
+
+  if (action === 'updateEvent') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const input = data.event || {};
+    return mutate(db => {
+      const event = findEvent(db, input.id);
+      if (!event) return { ok: false, error: 'Event not found' };
+      if (event.archivedAt) return { ok: false, error: 'Event is archived' };
+      if (input.name !== undefined && !input.name) return { ok: false, error: 'Event name is required' };
+      (['name', 'description', 'startsAt', 'endsAt'] as const).forEach(key => {
+        if (input[key] !== undefined) event[key] = input[key] || '';
+      });
+      if (input.retentionDays !== undefined) event.retentionDays = clampRetentionDays(input.retentionDays);
+      // Event aktif: lewat applyProfileToDb. Event lain tetap dibump, kiosk bisa di-pin ke event itu
+      if (event.isActive) applyProfileToDb(db, event, null);
+      else bumpConfigVersion(db);
+      return { ok: true, event };
+    });
+  }
+
+  if (action === 'archiveEvent') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => {
+      const event = findEvent(db, data.eventId);
+      if (!event) return { ok: false, error: 'Event not found' };
+      if (event.isActive) return { ok: false, error: 'Activate another event before archiving the live one' };
+      const moved = db.gallery.filter(r => String(r.eventId).trim() === event.id);
+      db.gallery = db.gallery.filter(r => String(r.eventId).trim() !== event.id);
+      db.galleryArchive.push(...moved.map(r => ({ ...r, archivedAt: nowIso })));
+      event.archivedAt = nowIso;
+      event.archivedCount = (event.archivedCount || 0) + moved.length;
+      bumpConfigVersion(db);
+      return { ok: true, archived: moved.length, event };
+    });
+  }
+
+  if (action === 'activateEvent') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(db => activateEventById(db, String(data.eventId), nowIso));
+  }
+
+  if (action === 'restoreEventRevision') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    return mutate(async db => {
+      const event = findEvent(db, data.eventId);
+      if (!event) return { ok: false, error: 'Event not found' };
+      const source = listRevisions(db, event.id).find(r => r.revision === Number(data.revision));
+      const profile = source ? await readProfile(db, source.fileId) : null;
+      if (!source || !profile) return { ok: false, error: 'Revision not found' };
+      const saved = await saveProfileRevision(db, event, profile, `Restored from r${source.revision}`, nowIso);
+      if (event.isActive) applyProfileToDb(db, event, saved.profile);
+      return { ok: true, revision: saved.revision, profile: saved.profile, applied: event.isActive };
+    });
+  }
+
+  if (action === 'uploadOverlay' || action === 'uploadBackground' || action === 'uploadAudio') {
+    if (!(await checkToken())) return { ok: false, error: AUTH_REQUIRED };
+    const mimeType = action === 'uploadAudio' ? 'audio/mpeg' : 'image/png';
+    const suffix = action === 'uploadAudio' ? 'AUDIO' : (action === 'uploadOverlay' ? 'OVERLAY' : 'BG');
+    return mutate(async db => {
+      const fileId = await saveFile(db, decodeDataUri(data.image), mimeType, `ASSET_${suffix}`);
+      return { ok: true, url: fileUrl(ctx, fileId) };
+    });
+  }
+
+  return { ok: false, error: 'Unknown Action' };
+};
@@ -0,0 +1,104 @@
+import type { GalleryQuery, VideoStatus } from '../types.js';
+import { VIDEO_TRANSITIONS } from './videoStateMachine.js';
+
+/**
+ * GALLERY PAGING & FILTER
+ * Action gallery punya dua mode:
+ *  - halaman: baris belum terhapus yang cocok dengan filter, terbaru dulu (createdAt, lalu id),
+ *    maksimal `limit`. `before` = olderCursor dari halaman sebelumnya → halaman yang lebih lama.
+ *  - delta (`since` > 0): semua baris yang berubah setelah `since`, termasuk yang terhapus, TANPA
+ *    filter. Baris yang keluar dari filter (mis. videoStatus berubah) tetap harus sampai ke client
+ *    supaya dibuang; client menyaring ulang dengan matchesGalleryQuery.
+ *
+ * Cursor = "<createdAt ms>:<id>" dari baris terakhir halaman, tetap valid walau baris baru
+ * masuk atau event diarsipkan di antara dua request.
+ *
+ * Isomorphic & pure. apps-script.gs memakai salinan normalizeGalleryQuery, matchesGalleryQuery,
+ * clampGalleryLimit dan pageGalleryRows, ubah bersamaan.
+ */
+
+export const GALLERY_PAGE_SIZE = 50;
+export const MAX_GALLERY_PAGE_SIZE = 100;
+
+export const GALLERY_TYPES: NonNullable<GalleryQuery['type']>[] = ['image', 'video', 'boomerang'];
+
+const text = (value: unknown, max: number) => String(value ?? '').trim().slice(0, max);
+
+const timeOf = (value: unknown) => (value instanceof Date ? value.getTime() : new Date(String(value || 0)).getTime()) || 0;
+
+// Parameter query string → filter yang dipercaya; nilai tidak dikenal = tanpa filter
+export const normalizeGalleryQuery = (params: Record<string, any>): GalleryQuery => {
+  const query: GalleryQuery = {};
+  const eventId = text(params.eventId, 64);
+  const conceptName = text(params.conceptName, 100);
+  const q = text(params.q, 100).toLowerCase();
+  if (eventId) query.eventId = eventId;
+  if (conceptName) query.conceptName = conceptName;
+  if (GALLERY_TYPES.includes(params.type)) query.type = params.type;
+  if (Object.keys(VIDEO_TRANSITIONS).includes(params.videoStatus)) query.videoStatus = params.videoStatus as VideoStatus;
+  if (q) query.q = q;
+  return query;
+};
+
+export const isGalleryQueryEmpty = (query: GalleryQuery) =>
+  !query.eventId && !query.conceptName && !query.type && !query.videoStatus && !query.q;
+
+// Baris lama tanpa type = foto, tanpa videoStatus = idle. q mencari di nama konsep dan id
+export const matchesGalleryQuery = (row: Record<string, any>, query: GalleryQuery): boolean => {
+  if (query.eventId && String(row.eventId || '').trim() !== query.eventId) return false;
+  if (query.conceptName && String(row.conceptName || '').trim() !== query.conceptName) return false;
+  if (query.type && (row.type || 'image') !== query.type) return false;
+  if (query.videoStatus && (row.videoStatus || 'idle') !== query.videoStatus) return false;
+  if (query.q) {
+    const haystack = [row.conceptName, row.id].map(v => String(v || '').toLowerCase()).join(' ');
+    if (haystack.indexOf(query.q.toLowerCase()) === -1) return false;
+  }
+  return true;
+};
+
+export const clampGalleryLimit = (value: unknown) => {
+  const limit = Math.round(Number(value));
+  return limit > 0 ? Math.min(limit, MAX_GALLERY_PAGE_SIZE) : GALLERY_PAGE_SIZE;
+};
+
+const cursorOf = (row: Record<string, any>) => `${timeOf(row.createdAt)}:${String(row.id).trim()}`;
+
+const parseCursor = (cursor: unknown): { ts: number; id: string } | null => {
+  const value = String(cursor || '');
+  const split = value.indexOf(':');
+  if (split === -1) return null;
+  const ts = Number(value.slice(0, split));
+  return isFinite(ts) ? { ts, id: value.slice(split + 1) } : null;
+};
+
+// Terbaru dulu; createdAt kembar diurutkan dengan id supaya batas halaman selalu sama
+const compareNewestFirst = (a: Record<string, any>, b: Record<string, any>) => {
+  const diff = timeOf(b.createdAt) - timeOf(a.createdAt);
+  if (diff !== 0) return diff;
+  const aId = String(a.id).trim();
+  const bId = String(b.id).trim();
+  return aId < bId ? 1 : aId > bId ? -1 : 0;
+};
+
+/**
+ * Satu halaman baris (objek mentah, kolom privat belum dibuang). olderCursor kosong = tidak ada
+ * halaman yang lebih lama.
+ */
+export const pageGalleryRows = <T extends Record<string, any>>(
+  rows: T[],
+  query: GalleryQuery,
+  before: unknown,
+  limit: number
+): { rows: T[]; olderCursor: string } => {
+  const cursor = parseCursor(before);
+  const matching = rows
+    .filter(row => row.id && !row.deletedAt && matchesGalleryQuery(row, query))
+    .filter(row => {
+      if (!cursor) return true;
+      const ts = timeOf(row.createdAt);
+      return ts < cursor.ts || (ts === cursor.ts && String(row.id).trim() < cursor.id);
+    })
+    .sort(compareNewestFirst);
+  const page = matching.slice(0, limit);
+  return { rows: page, olderCursor: matching.length > limit ? cursorOf(page[page.length - 1]) : '' };
+};
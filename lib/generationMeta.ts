@@ -0,0 +1,71 @@
+import type { GalleryItem, StageTimings } from '../types.js';
+import type { FallbackAttempt } from './fallbackChain.js';
+
+/**
+ * GENERATION METADATA
+ * Tiap hasil membawa promptMode, fallbackPath (semua model yang dicoba + alasan gagal) dan
+ * stageTimings ke baris gallery. Kiosk mengukur AI & overlay, backend menambah uploadMs saat
+ * baris ditulis (jadi tidak perlu request kedua setelah upload).
+ *
+ * Isomorphic & pure. apps-script.gs memakai salinan sanitizeFallbackPath, sanitizeStageTimings
+ * dan generationColumns, ubah bersamaan.
+ */
+
+export const MAX_FALLBACK_ATTEMPTS = 30; // Strip 4 frame x chain 3 model + retry masih muat
+export const MAX_ATTEMPT_ERROR_LENGTH = 300;
+
+const PROMPT_MODES = ['raw', 'wrapped'];
+const STAGES: (keyof StageTimings)[] = ['aiMs', 'overlayMs', 'uploadMs'];
+
+const toMs = (value: unknown) => {
+  const ms = Math.round(Number(value));
+  return Number.isFinite(ms) && ms >= 0 ? ms : undefined;
+};
+
+const parseJson = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  try { return JSON.parse(value); } catch (e) { return null; }
+};
+
+// Payload kiosk tidak dipercaya: dipotong & dibersihkan sebelum masuk sheet
+export const sanitizeFallbackPath = (value: unknown): FallbackAttempt[] => {
+  const list = parseJson(value);
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter(a => a && typeof a.model === 'string' && a.model.trim() !== '')
+    .slice(0, MAX_FALLBACK_ATTEMPTS)
+    .map(a => {
+      const attempt: FallbackAttempt = { model: a.model.trim().slice(0, 100), ok: a.ok === true, durationMs: toMs(a.durationMs) || 0 };
+      if (a.error) attempt.error = String(a.error).slice(0, MAX_ATTEMPT_ERROR_LENGTH);
+      return attempt;
+    });
+};
+
+export const sanitizeStageTimings = (value: unknown): StageTimings => {
+  const input = parseJson(value);
+  const timings: StageTimings = {};
+  if (!input || typeof input !== 'object') return timings;
+  STAGES.forEach(stage => {
+    const ms = toMs((input as Record<string, unknown>)[stage]);
+    if (ms !== undefined) timings[stage] = ms;
+  });
+  return timings;
+};
+
+// Server: kolom gallery dari payload uploadGenerated. startedAt = saat request diterima backend
+export const generationColumns = (data: Record<string, any>, startedAt: number, now: number) => {
+  const path = sanitizeFallbackPath(data.fallbackPath);
+  return {
+    promptMode: PROMPT_MODES.includes(data.promptMode) ? data.promptMode : '',
+    fallbackPath: path.length ? JSON.stringify(path) : '',
+    stageTimings: JSON.stringify({ ...sanitizeStageTimings(data.stageTimings), uploadMs: Math.max(now - startedAt, 0) })
+  };
+};
+
+// Client: strip / boomerang = beberapa generate untuk satu baris, percobaannya digabung berurutan
+export const serializeFallbackPath = (results: { attempts: FallbackAttempt[] }[]) =>
+  JSON.stringify(sanitizeFallbackPath(results.flatMap(r => r.attempts)));
+
+export const parseFallbackPath = (item: Pick<GalleryItem, 'fallbackPath'>) => sanitizeFallbackPath(item.fallbackPath);
+
+export const parseStageTimings = (item: Pick<GalleryItem, 'stageTimings'>) => sanitizeStageTimings(item.stageTimings);
@@ -0,0 +1,226 @@
+/**
+ * GIF89a ENCODER (MINIMAL)
+ * Encoder animated GIF tanpa dependency, cukup untuk boomerang pendek di kiosk.
+ * Palet per frame (popularity 12-bit, maks 256 warna), LZW standar, loop NETSCAPE2.0.
+ */
+
+export interface GifFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, sama seperti ImageData.data
+}
+
+export interface GifOptions {
+  delayMs: number; // Per frame
+  loop?: number; // 0 = infinite
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(64 * 1024);
+  private pos = 0;
+
+  byte(value: number) {
+    if (this.pos >= this.buffer.length) this.flushBuffer();
+    this.buffer[this.pos++] = value & 0xff;
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toBlob(): Blob {
+    this.flushBuffer();
+    return new Blob(this.chunks as BlobPart[], { type: 'image/gif' });
+  }
+
+  private flushBuffer() {
+    if (this.pos === 0) return;
+    this.chunks.push(this.buffer.slice(0, this.pos));
+    this.pos = 0;
+  }
+}
+
+// --- QUANTIZATION ---
+
+const binOf = (r: number, g: number, b: number) => ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+
+/**
+ * Popularity quantizer: hitung histogram 4-4-4 bit, ambil 256 bin terbanyak,
+ * warna palet = rata-rata piksel di bin tsb. Bin lain dipetakan ke warna terdekat.
+ */
+const quantize = (frame: GifFrame): { palette: Uint8Array; indices: Uint8Array } => {
+  const { data } = frame;
+  const pixelCount = frame.width * frame.height;
+  const counts = new Uint32Array(4096);
+  const sums = new Float64Array(4096 * 3);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    const bin = binOf(r, g, b);
+    counts[bin]++;
+    sums[bin * 3] += r;
+    sums[bin * 3 + 1] += g;
+    sums[bin * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  for (let bin = 0; bin < 4096; bin++) if (counts[bin] > 0) used.push(bin);
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, 256);
+
+  const palette = new Uint8Array(256 * 3);
+  chosen.forEach((bin, i) => {
+    palette[i * 3] = Math.round(sums[bin * 3] / counts[bin]);
+    palette[i * 3 + 1] = Math.round(sums[bin * 3 + 1] / counts[bin]);
+    palette[i * 3 + 2] = Math.round(sums[bin * 3 + 2] / counts[bin]);
+  });
+
+  // Nearest palette entry per bin (only bins that appear in the frame)
+  const lookup = new Int16Array(4096).fill(-1);
+  chosen.forEach((bin, i) => { lookup[bin] = i; });
+  for (const bin of used) {
+    if (lookup[bin] !== -1) continue;
+    const r = sums[bin * 3] / counts[bin], g = sums[bin * 3 + 1] / counts[bin], b = sums[bin * 3 + 2] / counts[bin];
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < chosen.length; i++) {
+      const dr = palette[i * 3] - r, dg = palette[i * 3 + 1] - g, db = palette[i * 3 + 2] - b;
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < bestDist) { bestDist = dist; best = i; }
+    }
+    lookup[bin] = best;
+  }
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    indices[i] = lookup[binOf(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])];
+  }
+  return { palette, indices };
+};
+
+// --- LZW ---
+
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  out.byte(minCodeSize);
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      bits >>>= 8;
+      bitCount -= 8;
+      if (blockLength === 255) flushBlock();
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      // Table full: reset
+      emit(clearCode);
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+      table = new Map();
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bits & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0); // Block terminator
+};
+
+/**
+ * Encode frames (semua ukuran sama) menjadi animated GIF.
+ */
+export const encodeGif = (frames: GifFrame[], options: GifOptions): Blob => {
+  if (frames.length === 0) throw new Error("No frames to encode");
+  const { width, height } = frames[0];
+  const delay = Math.max(2, Math.round(options.delayMs / 10)); // 1/100 s, browsers clamp < 2
+
+  const out = new ByteWriter();
+  out.string('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0x00); // No global color table
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+
+  // NETSCAPE2.0 loop extension
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.string('NETSCAPE2.0');
+  out.bytes([0x03, 0x01]);
+  out.word(options.loop ?? 0);
+  out.byte(0);
+
+  for (const frame of frames) {
+    if (frame.width !== width || frame.height !== height) throw new Error("GIF frames must share the same size");
+    const { palette, indices } = quantize(frame);
+
+    // Graphic Control Extension (no transparency, disposal: none)
+    out.bytes([0x21, 0xf9, 0x04, 0x00]);
+    out.word(delay);
+    out.bytes([0x00, 0x00]);
+
+    // Image Descriptor + local color table (256 entries)
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0x87);
+    out.bytes(palette);
+
+    writeLzw(out, indices, 8);
+  }
+
+  out.byte(0x3b); // Trailer
+  return out.toBlob();
+};
@@ -1,15 +1,26 @@
+import { listImageProviders, resolveImageProvider } from './imageProviders.js';
 
 /**
  * Model Route Guards
  * Memastikan pemisahan ketat antara model Image dan Video.
+ * Prefix image diambil dari registry provider (lib/imageProviders.ts).
  */
 
 export const IMAGE_PREFIX = 'seedream-';
 export const VIDEO_PREFIX = 'seedance-';
 export const OPENAI_PREFIX = 'gpt-';
+export const GEMINI_PREFIX = 'gemini-';
+
+// Prefixes of providers that /api/image/generate can execute
+export function serverImagePrefixes(): string[] {
+  return listImageProviders()
+    .filter(p => p.runtime === 'server')
+    .reduce<string[]>((acc, p) => acc.concat(p.prefixes), []);
+}
 
 export function isValidImageModel(model: string): boolean {
-  return model.startsWith(IMAGE_PREFIX) || model.startsWith(OPENAI_PREFIX);
+  const provider = resolveImageProvider(model);
+  return !!provider && provider.runtime === 'server';
 }
 
 export function isValidVideoModel(model: string): boolean {
@@ -18,7 +29,8 @@ export function isValidVideoModel(model: string): boolean {
 
 export function assertImageModel(model: string) {
   if (!isValidImageModel(model)) {
-    throw new Error(`Invalid Image Model: ${model}. Must start with '${IMAGE_PREFIX}' or '${OPENAI_PREFIX}'.`);
+    const allowed = serverImagePrefixes().map(p => `'${p}'`).join(' or ');
+    throw new Error(`Invalid Image Model: ${model}. Must start with ${allowed}.`);
   }
 }
 
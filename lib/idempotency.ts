@@ -0,0 +1,30 @@
+/**
+ * IDEMPOTENT UPLOADS
+ * uploadGenerated / uploadGeneratedVideo membawa idempotencyKey (lib/storageClient.ts, atau stabil
+ * per bagian entry outbox). Backend menyimpan response sukses pertama per key selama
+ * IDEMPOTENCY_TTL_MS dan mengembalikannya lagi untuk request ulang, jadi upload yang response-nya
+ * hilang di jaringan bisa diulang tanpa file Drive / baris gallery ganda.
+ *
+ * Isomorphic. apps-script.gs (CacheService) memakai salinan IDEMPOTENCY_TTL_MS dan
+ * isIdempotencyKey, ubah bersamaan.
+ */
+
+// Batas maksimum CacheService Apps Script (21600 detik)
+export const IDEMPOTENCY_TTL_MS = 6 * 60 * 60 * 1000;
+
+export const isIdempotencyKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9_.:-]{8,100}$/.test(value);
+
+export const createIdempotencyKey = () => `idem_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+export interface IdempotentResult {
+  at: number;
+  result: Record<string, any>;
+}
+
+// Entry kedaluwarsa dibuang saat entry baru disimpan (lib/fsStorage.ts)
+export const pruneIdempotentResults = (entries: Record<string, IdempotentResult>, now: number) => {
+  Object.keys(entries).forEach(key => {
+    if (now - entries[key].at >= IDEMPOTENCY_TTL_MS) delete entries[key];
+  });
+};
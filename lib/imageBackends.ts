@@ -0,0 +1,130 @@
+import { Buffer } from 'node:buffer';
+import OpenAI, { toFile } from 'openai';
+import { GoogleGenAI, type ImageConfig, type Part } from '@google/genai';
+import { generateArkImage } from './ark.js';
+import { ImageExecutor, GEMINI_PROVIDER, OPENAI_PROVIDER } from './imageProviders.js';
+
+/**
+ * SERVER IMAGE BACKENDS
+ * Executor per provider (lihat lib/imageProviders.ts) yang dipanggil oleh /api/image/generate.
+ * Hanya untuk server: memakai API key dari environment.
+ */
+
+const backends = new Map<string, ImageExecutor>();
+
+export function registerImageBackend(providerId: string, executor: ImageExecutor) {
+  backends.set(providerId, executor);
+}
+
+export function getImageBackend(providerId: string): ImageExecutor | undefined {
+  return backends.get(providerId);
+}
+
+const toBuffer = (b64: string) => Buffer.from(b64.includes(',') ? b64.split(',')[1] : b64, 'base64');
+
+// A. SEEDREAM (BYTEPLUS)
+registerImageBackend('seedream', {
+  invoke: async (req) => {
+    const imageUrls: string[] = [];
+    if (req.imageBase64) imageUrls.push(req.imageBase64);
+    if (req.refImageBase64) imageUrls.push(req.refImageBase64);
+
+    return generateArkImage({
+      model: req.model,
+      prompt: req.prompt,
+      image_urls: imageUrls,
+      signal: req.signal
+    });
+  },
+  // Upstream returns a URL: download & convert to Base64 for client consistency
+  parseResponse: async (resultUrl: string, signal) => {
+    const imgRes = await fetch(resultUrl, { signal });
+    if (!imgRes.ok) throw new Error(`Upstream Error (${imgRes.status}): result download failed`);
+    const imgBuffer = await imgRes.arrayBuffer();
+    return `data:image/png;base64,${Buffer.from(imgBuffer).toString('base64')}`;
+  }
+});
+
+// B. OPENAI (GPT-IMAGE)
+registerImageBackend('openai', {
+  invoke: async (req) => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) throw new Error("OPENAI_API_KEY missing");
+
+    const openai = new OpenAI({ apiKey });
+    const maskBase64 = req.params?.maskBase64;
+
+    return openai.images.edit({
+      model: req.model,
+      image: await toFile(toBuffer(req.imageBase64), 'image.png', { type: 'image/png' }),
+      mask: maskBase64 ? await toFile(toBuffer(maskBase64), 'mask.png', { type: 'image/png' }) : undefined,
+      prompt: req.prompt,
+      n: 1,
+      size: OPENAI_PROVIDER.mapAspectRatio!(req.outputRatio) as '1536x1024' | '1024x1536'
+    }, { signal: req.signal });
+  },
+  parseResponse: (response: any) => {
+    if (!response.data || !response.data[0]) {
+      throw new Error("OpenAI No Data Returned");
+    }
+    const outputBase64 = response.data[0].b64_json;
+    if (!outputBase64) throw new Error("OpenAI No Data (Base64 empty)");
+    return `data:image/png;base64,${outputBase64}`;
+  }
+});
+
+// C. GOOGLE GEMINI
+registerImageBackend('gemini', {
+  invoke: async (req) => {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+    if (!apiKey) throw new Error("GEMINI_API_KEY missing");
+
+    const ai = new GoogleGenAI({ apiKey });
+    const mimeType = req.imageBase64.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
+    const cleanBase64 = req.imageBase64.includes(',') ? req.imageBase64.split(',')[1] : req.imageBase64;
+
+    const imageConfig: ImageConfig = { aspectRatio: GEMINI_PROVIDER.mapAspectRatio!(req.outputRatio) };
+    if (req.model.includes('pro')) imageConfig.imageSize = '1K';
+
+    const parts: Part[] = [
+       { inlineData: { data: cleanBase64, mimeType: mimeType } }
+    ];
+
+    if (req.refImageBase64) {
+       const refClean = req.refImageBase64.includes(',') ? req.refImageBase64.split(',')[1] : req.refImageBase64;
+       parts.push({ inlineData: { data: refClean, mimeType: 'image/png' } });
+    }
+
+    parts.push({ text: req.prompt });
+
+    return await ai.models.generateContent({
+      model: req.model,
+      contents: { parts: parts },
+      config: { imageConfig: imageConfig, abortSignal: req.signal }
+    });
+  },
+  parseResponse: (response: any) => {
+    const candidates = response.candidates;
+    if (candidates && candidates.length > 0) {
+      const candidate = candidates[0];
+      if (candidate.content && candidate.content.parts) {
+          for (const part of candidate.content.parts) {
+            if (part.inlineData) {
+              const mt = part.inlineData.mimeType || 'image/png';
+              return `data:${mt};base64,${part.inlineData.data}`;
+            }
+          }
+          for (const part of candidate.content.parts) {
+             if (part.text) {
+                 console.warn("[API Image] Gemini returned text only:", part.text);
+                 throw new Error(`AI Generation Refused: ${part.text}`);
+             }
+          }
+      }
+      if (candidate.finishReason && candidate.finishReason !== 'STOP') {
+          throw new Error(`Generation blocked. Reason: ${candidate.finishReason}`);
+      }
+    }
+    throw new Error("No image data returned from Gemini (Empty Response)");
+  }
+});
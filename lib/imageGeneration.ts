@@ -0,0 +1,80 @@
+import { Buffer } from 'node:buffer';
+import sharp from 'sharp';
+import type { AspectRatio, BudgetLevel, Concept, PhotoboothSettings } from '../types.js';
+import { assertImageModel } from './guards.js';
+import { resolveImageProvider, resolveProviderRatio } from './imageProviders.js';
+import { getImageBackend } from './imageBackends.js';
+import { resolveFallbackChain, runFallbackChain, FallbackResult } from './fallbackChain.js';
+import { allowsUltra, budgetChain } from './costs.js';
+
+/**
+ * IMAGE GENERATION (SERVER)
+ * Menjalankan fallback chain sebuah concept melalui backend provider di lib/imageBackends.ts.
+ */
+
+export interface GenerateForConceptInput {
+  imageBase64: string;
+  concept: Concept;
+  settings: Partial<PhotoboothSettings>;
+  outputRatio: AspectRatio;
+  ultra?: boolean;
+  budgetLevel?: BudgetLevel; // lib/budget.ts: soft = no Ultra, hard = Gemini Flash only
+}
+
+export interface GenerateForConceptResult extends FallbackResult<string> {
+  promptMode: 'raw' | 'wrapped';
+}
+
+// Downscales a data URI so its longest side fits the provider's maxInputSize (original returned when it already fits)
+export const fitToInputSize = async (dataUri: string, maxInputSize: number): Promise<string> => {
+  const match = /^data:(image\/[a-z+.-]+);base64,(.*)$/is.exec(dataUri.trim());
+  if (!match) return dataUri; // URLs / bare base64 are passed through as before
+  const input = Buffer.from(match[2], 'base64');
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+  if (Math.max(width, height) <= maxInputSize) return dataUri;
+
+  const isPng = match[1] === 'image/png';
+  const resized = sharp(input).rotate().resize(maxInputSize, maxInputSize, { fit: 'inside', withoutEnlargement: true });
+  const output = await (isPng ? resized.png() : resized.jpeg({ quality: 92 })).toBuffer();
+  console.log(`[API Image] Input ${width}x${height} downscaled to fit ${maxInputSize}px`);
+  return `data:${isPng ? 'image/png' : 'image/jpeg'};base64,${output.toString('base64')}`;
+};
+
+export const generateForConcept = async (input: GenerateForConceptInput): Promise<GenerateForConceptResult> => {
+  const { imageBase64, concept, settings, outputRatio, budgetLevel = 'ok' } = input;
+  const promptMode = settings.promptMode || 'wrapped';
+  const ultra = !!input.ultra && allowsUltra(budgetLevel);
+  if (input.ultra && !ultra) console.warn(`[API Image] Ultra skipped, budget ${budgetLevel}`);
+  const chain = budgetChain(resolveFallbackChain(concept, settings, ultra), budgetLevel);
+
+  console.log(`[API Image] Concept: ${concept.id} | Chain: ${chain.map(step => step.model).join(' -> ')}`);
+
+  // Resized once per size, shared by the steps of the chain
+  const resizedInputs = new Map<string, Promise<string>>();
+  const inputFor = (kind: 'photo' | 'ref', dataUri: string, maxInputSize: number) => {
+    const key = `${kind}:${maxInputSize}`;
+    if (!resizedInputs.has(key)) resizedInputs.set(key, fitToInputSize(dataUri, maxInputSize));
+    return resizedInputs.get(key)!;
+  };
+
+  const result = await runFallbackChain(chain, async (step, signal) => {
+    assertImageModel(step.model);
+    const provider = resolveImageProvider(step.model);
+    const backend = provider ? getImageBackend(provider.id) : undefined;
+    if (!provider || !backend) throw new Error(`Unsupported image model: ${step.model}`);
+
+    const hasRef = !!concept.refImage && concept.refImage.trim() !== '' && provider.capabilities.referenceImage;
+    console.log(`[API Image] Processing with ${provider.id} | model: ${step.model} | Mode: ${promptMode.toUpperCase()} | RefImage: ${hasRef}`);
+
+    const raw = await backend.invoke({
+      model: step.model,
+      prompt: provider.wrapPrompt(concept.prompt, promptMode, hasRef),
+      imageBase64: await inputFor('photo', imageBase64, provider.maxInputSize),
+      refImageBase64: hasRef ? await inputFor('ref', concept.refImage!, provider.maxInputSize) : null,
+      outputRatio: resolveProviderRatio(provider, outputRatio),
+      signal
+    });
+    return backend.parseResponse(raw, signal);
+  });
+  return { ...result, promptMode };
+};
@@ -0,0 +1,156 @@
+import type { AspectRatio } from '../types.js';
+
+/**
+ * IMAGE PROVIDER REGISTRY
+ * Deskripsi setiap vendor image-to-image (Seedream, OpenAI, Gemini) di satu tempat.
+ *
+ * File ini isomorphic: dipakai oleh server (lib/guards.ts, /api/image/generate) dan Admin UI.
+ * JANGAN import SDK vendor di sini — eksekusi ada di lib/imageBackends.ts (server only,
+ * API key tidak pernah dikirim ke browser kiosk).
+ *
+ * Menambah vendor baru: daftarkan spec di sini + executor di lib/imageBackends.ts.
+ */
+
+export type PromptMode = 'raw' | 'wrapped';
+
+export interface ImageProviderCapabilities {
+  referenceImage: boolean;    // Accepts a second image as style/clothing reference
+  mask: boolean;              // Accepts an edit mask
+  nativeAspectRatio: boolean; // Renders the requested ratio directly (otherwise cover-cropped by applyOverlay)
+}
+
+export interface ImageProviderRequest {
+  model: string;
+  prompt: string;
+  imageBase64: string;
+  refImageBase64?: string | null;
+  outputRatio: AspectRatio;
+  params?: Record<string, any>; // Provider specific extras (size, mask, ...)
+  signal?: AbortSignal; // Aborted when the fallback step times out
+}
+
+/**
+ * Executes a request against one vendor. `invoke` talks to the upstream,
+ * `parseResponse` turns the raw upstream payload into a data URI.
+ */
+export interface ImageExecutor<Raw = any> {
+  invoke: (req: ImageProviderRequest) => Promise<Raw>;
+  parseResponse: (raw: Raw, signal?: AbortSignal) => Promise<string> | string;
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  prefixes: string[];
+  defaultModel: string;
+  runtime: 'server' | 'browser';
+  capabilities: ImageProviderCapabilities;
+  supportedRatios: AspectRatio[];
+  maxInputSize: number; // Longest side in px sent to the vendor
+  wrapPrompt: (prompt: string, mode: PromptMode, hasRefImage: boolean) => string;
+  mapAspectRatio?: (ratio: AspectRatio) => string;
+}
+
+const ALL_RATIOS: AspectRatio[] = ['16:9', '9:16', '3:2', '2:3'];
+
+const registry = new Map<string, ImageProvider>();
+
+export function registerImageProvider(provider: ImageProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function getImageProvider(id: string): ImageProvider | undefined {
+  return registry.get(id);
+}
+
+export function listImageProviders(): ImageProvider[] {
+  return Array.from(registry.values());
+}
+
+export function resolveImageProvider(model: string): ImageProvider | undefined {
+  if (!model) return undefined;
+  return listImageProviders().find(p => p.prefixes.some(prefix => model.startsWith(prefix)));
+}
+
+const ratioValue = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+// Ratio requested from the vendor: the output ratio itself, or the closest one it supports
+// (the final frame is cover-cropped by applyOverlay either way)
+export function resolveProviderRatio(provider: ImageProvider, ratio: AspectRatio): AspectRatio {
+  if (provider.supportedRatios.includes(ratio) || provider.supportedRatios.length === 0) return ratio;
+  const target = ratioValue(ratio);
+  return provider.supportedRatios.reduce((best, candidate) =>
+    Math.abs(ratioValue(candidate) - target) < Math.abs(ratioValue(best) - target) ? candidate : best
+  );
+}
+
+// --- BUILT-IN PROVIDERS ---
+
+export const SEEDREAM_PROVIDER: ImageProvider = {
+  id: 'seedream',
+  label: 'Seedream (BytePlus)',
+  prefixes: ['seedream-'],
+  defaultModel: 'seedream-4-5-251128',
+  runtime: 'server',
+  capabilities: { referenceImage: true, mask: false, nativeAspectRatio: false },
+  supportedRatios: ALL_RATIOS,
+  maxInputSize: 2048,
+  wrapPrompt: (prompt, mode) => mode === 'wrapped'
+    ? `Consistent character, high quality, photorealistic. ${prompt}`
+    : prompt
+};
+
+export const OPENAI_PROVIDER: ImageProvider = {
+  id: 'openai',
+  label: 'OpenAI (GPT Image)',
+  prefixes: ['gpt-'],
+  defaultModel: 'gpt-image-1.5',
+  runtime: 'server',
+  capabilities: { referenceImage: false, mask: true, nativeAspectRatio: false },
+  supportedRatios: ALL_RATIOS, // Closest landscape/portrait size, cover-cropped by applyOverlay
+  maxInputSize: 1536,
+  wrapPrompt: (prompt, mode) => mode === 'wrapped'
+    ? `Strictly preserve the exact pose, facial structure, and composition. ${prompt} . Photorealistic, high fidelity, do not crop, do not zoom.`
+    : prompt,
+  // gpt-image only renders 1:1, 3:2 and 2:3 sizes
+  mapAspectRatio: (ratio) => (ratio === '16:9' || ratio === '3:2') ? '1536x1024' : '1024x1536'
+};
+
+export const GEMINI_PROVIDER: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  prefixes: ['gemini-'],
+  defaultModel: 'gemini-2.5-flash-image',
+  runtime: 'server',
+  capabilities: { referenceImage: true, mask: false, nativeAspectRatio: true },
+  supportedRatios: ALL_RATIOS,
+  maxInputSize: 1536,
+  wrapPrompt: (prompt, mode, hasRefImage) => {
+    let finalPrompt = prompt;
+    if (mode === 'wrapped') {
+      finalPrompt = `Edit the provided photo.
+Rules:
+- Detect ALL people in the photo and keep the SAME number of people.
+- Preserve each person’s identity (face, skin tone, age, gender, expression).
+- Do not remove, merge, replace, or add any person.
+Instruction: ${prompt}`;
+    }
+    if (hasRefImage) {
+      finalPrompt += `\n\n[IMPORTANT]: The SECOND image provided is a VISUAL REFERENCE for the style, background, or clothing. Combine the person from the FIRST image with the style/aesthetics of the SECOND image.`;
+    }
+    return finalPrompt;
+  },
+  // Gemini has no 3:2 / 2:3, closest supported is 4:3 / 3:4
+  mapAspectRatio: (ratio) => {
+    if (ratio === '3:2') return '4:3';
+    if (ratio === '2:3') return '3:4';
+    return ratio;
+  }
+};
+
+registerImageProvider(SEEDREAM_PROVIDER);
+registerImageProvider(OPENAI_PROVIDER);
+registerImageProvider(GEMINI_PROVIDER);
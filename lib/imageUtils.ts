@@ -1,5 +1,5 @@
 
-import { OverlayCache } from './overlayCache';
+import { renderOverlay, OverlaySource, OverlayContext } from './overlayCompositor';
 
 /**
  * Mengubah URL Google Drive biasa menjadi Direct Link yang ramah CDN (lh3).
@@ -22,9 +22,10 @@ export const getGoogleDriveDirectLink = (url: string | null): string => {
 
 export const applyOverlay = async (
     base64AI: string, 
-    overlayUrl: string | null, 
+    overlay: OverlaySource, // Legacy PNG URL or layered template
     targetWidth: number, 
-    targetHeight: number
+    targetHeight: number,
+    context: OverlayContext = {}
   ): Promise<string> => {
     const canvas = document.createElement('canvas');
     canvas.width = targetWidth;
@@ -54,20 +55,8 @@ export const applyOverlay = async (
       // Draw Base
       ctx.drawImage(baseImg, x, y, baseImg.width * scale, baseImg.height * scale);
   
-      // 2. Draw Overlay from Cache (Optimized)
-      if (overlayUrl && overlayUrl.trim() !== '') {
-          try {
-             // Panggil cache. Jika sudah ada di memori, ini instant (sync-like speed).
-             // Jika belum, akan fetch sekali lalu simpan.
-             const cachedOverlay = await OverlayCache.preloadOverlay(overlayUrl);
-             
-             if (cachedOverlay) {
-                 ctx.drawImage(cachedOverlay, 0, 0, targetWidth, targetHeight);
-             }
-          } catch (e) {
-             console.warn("Failed to apply overlay from cache:", e);
-          }
-      }
+      // 2. Draw Overlay Layers (frame PNG via OverlayCache, instant jika sudah di-preload)
+      await renderOverlay(ctx, overlay, targetWidth, targetHeight, context);
 
       // Return high quality JPEG
       return canvas.toDataURL('image/jpeg', 0.95);
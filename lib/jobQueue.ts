@@ -0,0 +1,227 @@
+import { Concept, ImageJob, PhotoboothSettings } from '../types';
+import { aiQueue } from './aiQueue';
+import { generateAIImage } from './gemini';
+import { applyOverlay } from './imageUtils';
+import { preloadTemplateAssets, toTemplate } from './overlayCompositor';
+import { uploadToDrive, recordJob } from './appsScript';
+import { Outbox } from './outbox';
+import { serializeFallbackPath } from './generationMeta';
+import { JOBS_STORE, createRecordStore } from './storage';
+
+/**
+ * DURABLE JOB QUEUE (FAST MODE)
+ * Job disimpan di IndexedDB sebelum diproses, sehingga reload/tutup tab tidak menghilangkan antrian.
+ * Eksekusi tetap lewat aiQueue (concurrency & rate limit). Gagal -> retry dengan backoff,
+ * setelah MAX_ATTEMPTS -> status 'dead' (dead-letter, terlihat di Admin).
+ */
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60000;
+
+type JobListener = (job: ImageJob) => void;
+
+const jobs = createRecordStore<ImageJob>(JOBS_STORE);
+
+const backoffFor = (attempts: number) => Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+
+const outputSize = (ratio: ImageJob['outputRatio']) => {
+    if (ratio === '16:9') return { width: 1920, height: 1080 };
+    if (ratio === '3:2') return { width: 1800, height: 1200 };
+    if (ratio === '2:3') return { width: 1200, height: 1800 };
+    return { width: 1080, height: 1920 };
+};
+
+class JobQueueSystem {
+    private listeners = new Set<JobListener>();
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private active = new Set<string>();
+
+    subscribe(listener: JobListener): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Membuat job baru dari hasil capture + snapshot settings, lalu menjadwalkannya.
+     */
+    async enqueue(image: string, concept: Concept, settings: PhotoboothSettings): Promise<ImageJob> {
+        const now = Date.now();
+        const job: ImageJob = {
+            id: `job_${now}_${Math.random().toString(36).slice(2, 8)}`,
+            status: 'pending',
+            image,
+            concept,
+            eventName: settings.eventName,
+            eventId: settings.activeEventId,
+            folderId: settings.folderId,
+            originalFolderId: settings.originalFolderId,
+            overlayImage: settings.overlayImage,
+            overlayTemplate: settings.overlayTemplate || null,
+            outputRatio: settings.outputRatio,
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now
+        };
+        await this.save(job);
+        this.schedule(job);
+        return job;
+    }
+
+    /**
+     * Dipanggil saat app load: jadwalkan ulang job yang belum selesai.
+     * Job 'running' berarti tab tertutup di tengah proses, jadi diulang.
+     */
+    async resume(): Promise<number> {
+        const unfinished = (await jobs.all()).filter(j => j.status === 'pending' || j.status === 'running' || j.status === 'retrying');
+        for (const job of unfinished) {
+            if (job.status === 'running') {
+                job.status = 'retrying';
+                await this.save(job);
+            } else {
+                this.notify(job);
+            }
+            this.schedule(job);
+        }
+        if (unfinished.length > 0) console.log(`[JobQueue] Resumed ${unfinished.length} job(s)`);
+        return unfinished.length;
+    }
+
+    async listDeadLetters(): Promise<ImageJob[]> {
+        return (await jobs.all()).filter(j => j.status === 'dead').sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    async retryDead(id: string) {
+        const job = await jobs.get(id);
+        if (!job || job.status !== 'dead') return;
+        job.status = 'pending';
+        job.attempts = 0;
+        job.nextAttemptAt = Date.now();
+        await this.save(job);
+        this.schedule(job);
+    }
+
+    async discard(id: string) {
+        const timer = this.timers.get(id);
+        if (timer) clearTimeout(timer);
+        this.timers.delete(id);
+        await jobs.remove(id);
+    }
+
+    private schedule(job: ImageJob) {
+        if (this.timers.has(job.id) || this.active.has(job.id)) return;
+        const delay = Math.max(0, job.nextAttemptAt - Date.now());
+        const timer = setTimeout(() => {
+            this.timers.delete(job.id);
+            this.active.add(job.id);
+            aiQueue.add(() => this.run(job.id))
+                .catch(err => console.error("[JobQueue] Queue Addition Error:", err))
+                .finally(() => this.active.delete(job.id));
+        }, delay);
+        this.timers.set(job.id, timer);
+    }
+
+    private async run(id: string) {
+        const job = await jobs.get(id);
+        if (!job || job.status === 'done' || job.status === 'dead') return;
+
+        job.status = 'running';
+        job.attempts += 1;
+        await this.save(job);
+        console.log(`[JobQueue] Starting ${job.id} (attempt ${job.attempts}/${MAX_ATTEMPTS}) | Concept: ${job.concept.name}`);
+
+        try {
+            await this.process(job);
+            job.status = 'done';
+            job.lastError = undefined;
+            await this.save(job);
+            // Photo is safely in Drive: drop the heavy local copy
+            await jobs.remove(job.id);
+            console.log(`[JobQueue] ${job.id} Completed`);
+        } catch (e: any) {
+            job.lastError = e?.message || String(e);
+            if (job.attempts >= MAX_ATTEMPTS) {
+                job.status = 'dead';
+                console.error(`[JobQueue] ${job.id} moved to dead-letter:`, job.lastError);
+                await this.save(job);
+            } else {
+                job.status = 'retrying';
+                job.nextAttemptAt = Date.now() + backoffFor(job.attempts);
+                console.warn(`[JobQueue] ${job.id} failed, retry in ${backoffFor(job.attempts)}ms:`, job.lastError);
+                await this.save(job);
+                this.active.delete(job.id);
+                this.schedule(job);
+            }
+        }
+    }
+
+    private async process(job: ImageJob) {
+        if (job.originalFolderId && job.originalFolderId.trim() !== "" && !job.originalId) {
+            try {
+                const origRes = await uploadToDrive(job.image, {
+                    conceptName: "ORIGINAL_CAPTURE",
+                    eventName: job.eventName,
+                    eventId: job.eventId,
+                    folderId: job.originalFolderId,
+                    skipGallery: true,
+                    idempotencyKey: `${job.id}:original`
+                });
+                if (origRes.ok) {
+                    job.originalId = origRes.id;
+                    await this.save(job);
+                }
+            } catch (e) { console.warn("[JobQueue] Original upload failed"); }
+        }
+
+        const aiStartedAt = Date.now();
+        const generated = await generateAIImage(job.image, job.concept, job.outputRatio, false, job.eventId);
+        const aiModel = generated.model;
+        job.aiModel = aiModel;
+        const overlayStartedAt = Date.now();
+
+        // No session folder in fast mode, so QR layers pointing at {sessionUrl} are skipped
+        const overlay = toTemplate(job.overlayTemplate) || toTemplate(job.overlayImage);
+        await preloadTemplateAssets(overlay);
+
+        const { width, height } = outputSize(job.outputRatio);
+        const finalImage = await applyOverlay(generated.image, overlay, width, height, {
+            eventName: job.eventName,
+            conceptName: job.concept.name,
+            date: new Date(job.createdAt)
+        });
+
+        // Upload gagal -> outbox (hasil AI tidak di-generate ulang)
+        const delivery = await Outbox.deliver({
+            image: finalImage,
+            original: job.originalFolderId && !job.originalId ? job.image : undefined,
+            conceptName: job.concept.name,
+            eventName: job.eventName,
+            eventId: job.eventId,
+            folderId: job.folderId,
+            originalFolderId: job.originalFolderId,
+            originalId: job.originalId,
+            aiModel,
+            promptMode: generated.promptMode,
+            fallbackPath: serializeFallbackPath([generated]),
+            stageTimings: { aiMs: overlayStartedAt - aiStartedAt, overlayMs: Date.now() - overlayStartedAt }
+        });
+        if (delivery.ok) job.resultId = delivery.id;
+        else console.warn(`[JobQueue] ${job.id} upload failed, handed to outbox`);
+    }
+
+    private async save(job: ImageJob) {
+        job.updatedAt = Date.now();
+        await jobs.put(job);
+        recordJob(job); // Server record is best-effort (offline kiosk keeps working)
+        this.notify(job);
+    }
+
+    private notify(job: ImageJob) {
+        this.listeners.forEach(listener => {
+            try { listener(job); } catch (e) { console.error("[JobQueue] Listener error:", e); }
+        });
+    }
+}
+
+export const JobQueue = new JobQueueSystem();
@@ -0,0 +1,154 @@
+import { CameraStatus, KioskCommand, KioskHeartbeat } from '../types';
+import { APP_VERSION } from '../constants';
+import { sendKioskHeartbeat } from './appsScript';
+import { getKioskCredentials } from './apiClient';
+import { getStorageBackendId } from './storageBackend';
+import { aiQueue } from './aiQueue';
+import { OverlayCache } from './overlayCache';
+import { removeLargeData } from './storage';
+import { KIOSK_HEARTBEAT_MS } from './kiosks';
+
+/**
+ * KIOSK AGENT (CLIENT)
+ * Mendaftarkan tablet ini ke registry kiosk (lib/kiosks.ts) lewat heartbeat dan menjalankan
+ * perintah remote dari Admin > Fleet. State per perangkat (bukan settings cloud) di localStorage:
+ *  - KIOSK_DEVICE_ID : id acak kalau Kiosk ID di Admin > Kiosk Access kosong
+ *  - KIOSK_NAME      : label di Fleet
+ *  - KIOSK_LOCKED    : 'lock' = booth tertahan di landing sampai 'unlock'
+ *  - KIOSK_EVENT_ID  : 'switchEvent' = kiosk memotret untuk event ini, bukan event aktif global
+ */
+
+const DEVICE_ID_KEY = 'KIOSK_DEVICE_ID';
+const KIOSK_NAME_KEY = 'KIOSK_NAME';
+const LOCKED_KEY = 'KIOSK_LOCKED';
+const PINNED_EVENT_KEY = 'KIOSK_EVENT_ID';
+
+export const getKioskId = (): string => {
+  const { id } = getKioskCredentials();
+  if (id) return id;
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `kiosk-${Math.random().toString(36).slice(2, 8)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const getKioskName = () => localStorage.getItem(KIOSK_NAME_KEY) || '';
+
+export const setKioskName = (name: string) => {
+  if (name.trim()) localStorage.setItem(KIOSK_NAME_KEY, name.trim());
+  else localStorage.removeItem(KIOSK_NAME_KEY);
+};
+
+export const isKioskLocked = () => localStorage.getItem(LOCKED_KEY) === 'true';
+
+export const setKioskLocked = (locked: boolean) => {
+  if (locked) localStorage.setItem(LOCKED_KEY, 'true');
+  else localStorage.removeItem(LOCKED_KEY);
+};
+
+export const getPinnedEventId = () => localStorage.getItem(PINNED_EVENT_KEY) || '';
+
+export const setPinnedEventId = (eventId: string) => {
+  if (eventId) localStorage.setItem(PINNED_EVENT_KEY, eventId);
+  else localStorage.removeItem(PINNED_EVENT_KEY);
+};
+
+// Kamera hanya dibuka di CameraPage; status terakhirnya yang dilaporkan
+let camera: { status: CameraStatus; error?: string } = { status: 'unknown' };
+
+export const reportCameraStatus = (status: CameraStatus, error?: string) => {
+  camera = { status, error };
+};
+
+// Cache lokal yang aman dibuang: konsep & settings diambil ulang dari cloud saat reload.
+// Antrian fast mode & outbox (foto tamu yang belum ter-upload) sengaja tidak disentuh
+export const clearKioskCache = async () => {
+  OverlayCache.clearCache();
+  localStorage.removeItem('pb_settings');
+  await removeLargeData('pb_concepts').catch(err => console.warn("[Kiosk] Concept cache clear failed:", err));
+  if ('caches' in window) {
+    const keys = await caches.keys();
+    await Promise.all(keys.map(key => caches.delete(key)));
+  }
+};
+
+// Battery Status API (Chromium only), not in the TS DOM lib
+interface BatteryManager {
+  level: number; // 0..1
+  charging: boolean;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery: () => Promise<BatteryManager> };
+
+const hasBatteryApi = (nav: Navigator): nav is NavigatorWithBattery =>
+  typeof (nav as Partial<NavigatorWithBattery>).getBattery === 'function';
+
+const readBattery = async (): Promise<Pick<KioskHeartbeat, 'battery' | 'charging'>> => {
+  try {
+    const battery = hasBatteryApi(navigator) ? await navigator.getBattery() : null;
+    if (battery) return { battery: Math.round(battery.level * 100), charging: !!battery.charging };
+  } catch (e) { /* Not supported (Safari / Firefox) */ }
+  return { battery: null, charging: null };
+};
+
+export interface KioskSnapshot {
+  page: string;
+  configVersion: number;
+  eventId: string;
+  outboxPending: number;
+}
+
+const collectHeartbeat = async (snapshot: KioskSnapshot): Promise<KioskHeartbeat> => ({
+  id: getKioskId(),
+  name: getKioskName(),
+  appVersion: APP_VERSION,
+  configVersion: snapshot.configVersion,
+  ...(await readBattery()),
+  camera: camera.status,
+  cameraError: camera.error,
+  queueDepth: aiQueue.size + aiQueue.pending,
+  outboxPending: snapshot.outboxPending,
+  page: snapshot.page,
+  eventId: snapshot.eventId,
+  pinnedEventId: getPinnedEventId(),
+  locked: isKioskLocked(),
+  backend: getStorageBackendId(),
+  userAgent: navigator.userAgent
+});
+
+/**
+ * Heartbeat pertama langsung, lalu tiap KIOSK_HEARTBEAT_MS (tab tersembunyi tetap dikirim:
+ * tablet yang layarnya mati justru perlu terlihat di Fleet). Perintah dijalankan berurutan.
+ */
+export const startKioskAgent = (options: {
+  snapshot: () => KioskSnapshot;
+  onCommand: (command: KioskCommand) => void | Promise<void>;
+}) => {
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  let isRunning = true;
+
+  const beat = async () => {
+    if (!isRunning) return;
+    const res = await sendKioskHeartbeat(await collectHeartbeat(options.snapshot()));
+    if (!res.ok) console.warn("[Kiosk] Heartbeat failed:", res.error);
+    for (const command of res.commands || []) {
+      if (!isRunning) break;
+      console.log(`[Kiosk] Command ${command.type} from ${command.issuedBy}`);
+      try {
+        await options.onCommand(command);
+      } catch (err) {
+        console.error(`[Kiosk] Command ${command.type} failed:`, err);
+      }
+    }
+    if (isRunning) timerId = setTimeout(beat, KIOSK_HEARTBEAT_MS);
+  };
+
+  beat();
+
+  return () => {
+    isRunning = false;
+    if (timerId) clearTimeout(timerId);
+  };
+};
@@ -0,0 +1,118 @@
+import type { CameraStatus, KioskCommand, KioskCommandType, KioskHeartbeat, KioskRecord } from '../types.js';
+
+/**
+ * KIOSK FLEET
+ * Tiap tablet mengirim heartbeat (action kioskHeartbeat) tiap KIOSK_HEARTBEAT_MS, lihat
+ * lib/kioskAgent.ts. Satu baris per kiosk di sheet 'Kiosks' / db.kiosks dengan kolom
+ * KIOSK_COLUMNS; status & antrian perintah disimpan sebagai JSON.
+ *
+ * Perintah dari Admin (action sendKioskCommand) diantrikan di baris kiosk dan ikut response
+ * heartbeat berikutnya, lalu dihapus dari antrian (at-most-once: kiosk yang mati di tengah
+ * eksekusi tidak menerimanya lagi).
+ *
+ * Isomorphic & pure. apps-script.gs memakai salinan sanitizeHeartbeat, createKioskCommand,
+ * queueKioskCommand, applyHeartbeat dan toKioskRecord, ubah bersamaan.
+ */
+
+export const KIOSK_HEARTBEAT_MS = 30000;
+// 3 heartbeat terlewat = offline (tablet tidur, jaringan putus, tab tertutup)
+export const KIOSK_OFFLINE_MS = 3 * KIOSK_HEARTBEAT_MS;
+export const MAX_PENDING_COMMANDS = 10;
+
+export const KIOSK_COMMAND_TYPES: KioskCommandType[] = ['reload', 'switchEvent', 'lock', 'unlock', 'clearCache'];
+export const KIOSK_COLUMNS = ['id', 'name', 'firstSeen', 'lastSeen', 'status', 'commands', 'lastCommand'];
+
+const CAMERA_STATUSES: CameraStatus[] = ['unknown', 'ready', 'denied', 'missing', 'error'];
+
+export const isKioskId = (value: unknown): value is string => typeof value === 'string' && /^[A-Za-z0-9_.-]{1,64}$/.test(value);
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (!value) return fallback;
+  if (typeof value === 'object') return value as T;
+  try {
+    return JSON.parse(String(value)) as T;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const text = (value: unknown, max: number) => String(value ?? '').slice(0, max);
+const count = (value: unknown) => Math.max(Math.round(Number(value)) || 0, 0);
+
+// Input dari kiosk tidak dipercaya: dipotong & dinormalisasi sebelum disimpan
+export const sanitizeHeartbeat = (input: any): KioskHeartbeat | null => {
+  if (!input || !isKioskId(input.id)) return null;
+  const battery = input.battery === null || input.battery === undefined || input.battery === '' ? null : Number(input.battery);
+  return {
+    id: input.id,
+    name: text(input.name, 60).trim() || input.id,
+    appVersion: text(input.appVersion, 40),
+    configVersion: count(input.configVersion),
+    battery: battery !== null && isFinite(battery) ? Math.min(Math.max(Math.round(battery), 0), 100) : null,
+    charging: typeof input.charging === 'boolean' ? input.charging : null,
+    camera: CAMERA_STATUSES.includes(input.camera) ? input.camera : 'unknown',
+    cameraError: input.cameraError ? text(input.cameraError, 200) : undefined,
+    queueDepth: count(input.queueDepth),
+    outboxPending: count(input.outboxPending),
+    page: text(input.page, 30),
+    eventId: text(input.eventId, 64),
+    pinnedEventId: text(input.pinnedEventId, 64),
+    locked: input.locked === true,
+    backend: text(input.backend, 20),
+    userAgent: text(input.userAgent, 200)
+  };
+};
+
+export const createKioskCommand = (input: any, issuedBy: string, nowIso: string): { command?: KioskCommand; error?: string } => {
+  const type = input?.type;
+  if (!KIOSK_COMMAND_TYPES.includes(type)) return { error: 'Unknown command' };
+  const command: KioskCommand = {
+    id: `cmd_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    issuedAt: nowIso,
+    issuedBy
+  };
+  if (type === 'switchEvent') command.eventId = text(input.eventId, 64); // '' = ikuti event aktif lagi
+  return { command };
+};
+
+// Perintah dengan tipe sama menggantikan yang lama (dua switchEvent berturut-turut = yang terakhir)
+export const queueKioskCommand = (row: Record<string, any>, command: KioskCommand): { ok: boolean; error?: string } => {
+  const pending = parseJson<KioskCommand[]>(row.commands, []).filter(c => c.type !== command.type);
+  if (pending.length >= MAX_PENDING_COMMANDS) return { ok: false, error: 'Too many pending commands' };
+  // lock & unlock saling membatalkan
+  const opposite = command.type === 'lock' ? 'unlock' : command.type === 'unlock' ? 'lock' : null;
+  row.commands = JSON.stringify([...pending.filter(c => c.type !== opposite), command]);
+  return { ok: true };
+};
+
+// Mengubah baris (status + lastSeen) dan mengosongkan antrian; hasilnya dikirim ke kiosk
+export const applyHeartbeat = (row: Record<string, any>, heartbeat: KioskHeartbeat, nowIso: string): KioskCommand[] => {
+  const { id, name, ...status } = heartbeat;
+  const commands = parseJson<KioskCommand[]>(row.commands, []);
+  row.id = id;
+  row.name = name;
+  if (!row.firstSeen) row.firstSeen = nowIso;
+  row.lastSeen = nowIso;
+  row.status = JSON.stringify(status);
+  row.commands = '';
+  if (commands.length > 0) row.lastCommand = JSON.stringify({ ...commands[commands.length - 1], deliveredAt: nowIso });
+  return commands;
+};
+
+const toIso = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value || ''));
+
+export const toKioskRecord = (row: Record<string, any>, now: number): KioskRecord => {
+  // Baris hanya dibuat oleh heartbeat, jadi id selalu valid
+  const status = sanitizeHeartbeat({ ...parseJson<Record<string, any>>(row.status, {}), id: String(row.id), name: row.name })!;
+  const lastSeen = toIso(row.lastSeen);
+  const lastCommand = parseJson<KioskRecord['lastCommand'] | null>(row.lastCommand, null);
+  return {
+    ...status,
+    firstSeen: toIso(row.firstSeen),
+    lastSeen,
+    online: !!lastSeen && now - new Date(lastSeen).getTime() < KIOSK_OFFLINE_MS,
+    pendingCommands: parseJson<KioskCommand[]>(row.commands, []),
+    lastCommand: lastCommand || undefined
+  };
+};
@@ -0,0 +1,160 @@
+import { StripLayout } from '../types';
+import { renderOverlay, OverlaySource, OverlayContext } from './overlayCompositor';
+
+/**
+ * PHOTO STRIP LAYOUT ENGINE
+ * Menyusun beberapa frame (hasil multi-shot) menjadi satu gambar: strip klasik, grid 2x2, polaroid.
+ * planLayout murni (hanya geometri), composeLayout yang menggambar ke canvas.
+ */
+
+export const MIN_SHOTS = 2;
+export const MAX_SHOTS = 6;
+
+export const STRIP_LAYOUT_OPTIONS: { id: StripLayout; label: string }[] = [
+  { id: 'strip', label: 'Classic Strip' },
+  { id: 'grid', label: '2x2 Grid' },
+  { id: 'polaroid', label: 'Polaroid' }
+];
+
+export interface LayoutCell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees, around the cell center
+  border: number; // White card border (polaroid)
+  borderBottom: number;
+}
+
+export interface LayoutPlan {
+  width: number;
+  height: number;
+  cells: LayoutCell[];
+  caption: { x: number; y: number; size: number };
+}
+
+const CANVAS_WIDTH = 1200;
+const PADDING = 40;
+const GAP = 24;
+const FOOTER = 140;
+const MAX_DIMENSION = 3600; // Canvas safety limit on low-memory kiosks
+
+export const clampShotCount = (count: number | undefined) =>
+  Math.min(MAX_SHOTS, Math.max(MIN_SHOTS, Math.round(count || 4)));
+
+/**
+ * Hitung ukuran canvas dan posisi tiap frame.
+ * @param frameAspect width / height dari tiap frame (mengikuti outputRatio)
+ */
+export const planLayout = (layout: StripLayout, count: number, frameAspect: number): LayoutPlan => {
+  const columns = layout === 'strip' ? 1 : (count <= 2 ? 1 : 2);
+  const rows = Math.ceil(count / columns);
+  const isPolaroid = layout === 'polaroid';
+
+  const cardWidth = (CANVAS_WIDTH - PADDING * 2 - GAP * (columns - 1)) / columns;
+  const border = isPolaroid ? Math.round(cardWidth * 0.05) : 0;
+  const borderBottom = isPolaroid ? border * 4 : 0;
+  const photoWidth = cardWidth - border * 2;
+  const photoHeight = photoWidth / frameAspect;
+  const cardHeight = photoHeight + border + borderBottom;
+
+  let height = PADDING * 2 + rows * cardHeight + (rows - 1) * GAP + FOOTER;
+  let scale = 1;
+  if (height > MAX_DIMENSION) scale = MAX_DIMENSION / height;
+  height = Math.round(height * scale);
+
+  const cells: LayoutCell[] = [];
+  for (let i = 0; i < count; i++) {
+    const row = Math.floor(i / columns);
+    const col = i % columns;
+    // Last row with a single frame in a 2-column grid: center it
+    const isLonely = columns === 2 && col === 0 && i === count - 1;
+    const offsetX = isLonely ? (cardWidth + GAP) / 2 : 0;
+    cells.push({
+      x: Math.round((PADDING + col * (cardWidth + GAP) + offsetX) * scale),
+      y: Math.round((PADDING + row * (cardHeight + GAP)) * scale),
+      width: Math.round(cardWidth * scale),
+      height: Math.round(cardHeight * scale),
+      rotation: isPolaroid ? (i % 2 === 0 ? -2 : 2) : 0,
+      border: Math.round(border * scale),
+      borderBottom: Math.round(borderBottom * scale)
+    });
+  }
+
+  return {
+    width: Math.round(CANVAS_WIDTH * scale),
+    height,
+    cells,
+    caption: { x: Math.round((CANVAS_WIDTH / 2) * scale), y: height - Math.round((FOOTER / 2) * scale), size: Math.round(44 * scale) }
+  };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Frame image load error"));
+    img.src = src;
+  });
+};
+
+// Object-cover: crop frame ke area target tanpa distorsi
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / img.width, h / img.height);
+  const sW = w / scale;
+  const sH = h / scale;
+  ctx.drawImage(img, (img.width - sW) / 2, (img.height - sH) / 2, sW, sH, x, y, w, h);
+};
+
+export interface ComposeOptions {
+  layout: StripLayout;
+  frameAspect: number;
+  overlay?: OverlaySource;
+  overlayContext?: OverlayContext;
+  caption?: string;
+  background?: string;
+}
+
+export const composeLayout = async (frames: string[], options: ComposeOptions): Promise<string> => {
+  const plan = planLayout(options.layout, frames.length, options.frameAspect);
+  const canvas = document.createElement('canvas');
+  canvas.width = plan.width;
+  canvas.height = plan.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context unavailable");
+
+  ctx.fillStyle = options.background || (options.layout === 'polaroid' ? '#1a1a1a' : '#ffffff');
+  ctx.fillRect(0, 0, plan.width, plan.height);
+
+  const images = await Promise.all(frames.map(loadImage));
+
+  images.forEach((img, i) => {
+    const cell = plan.cells[i];
+    ctx.save();
+    ctx.translate(cell.x + cell.width / 2, cell.y + cell.height / 2);
+    ctx.rotate((cell.rotation * Math.PI) / 180);
+    ctx.translate(-cell.width / 2, -cell.height / 2);
+
+    if (cell.border > 0) {
+      ctx.shadowColor = 'rgba(0,0,0,0.5)';
+      ctx.shadowBlur = 20;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, cell.width, cell.height);
+      ctx.shadowBlur = 0;
+    }
+    drawCover(ctx, img, cell.border, cell.border, cell.width - cell.border * 2, cell.height - cell.border - cell.borderBottom);
+    ctx.restore();
+  });
+
+  if (options.caption) {
+    ctx.fillStyle = options.layout === 'polaroid' ? '#ffffff' : '#111111';
+    ctx.font = `bold ${plan.caption.size}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(options.caption.toUpperCase(), plan.caption.x, plan.caption.y, plan.width - PADDING * 2);
+  }
+
+  await renderOverlay(ctx, options.overlay, plan.width, plan.height, options.overlayContext);
+
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
@@ -0,0 +1,254 @@
+import { Concept, EventRecord, GalleryItem, PhotoboothSettings } from '../types';
+import { StorageBackend } from './storageBackend';
+import { StorageNetworkError } from './storageErrors';
+import { clampGalleryLimit, normalizeGalleryQuery, pageGalleryRows } from './galleryQuery';
+import { isIdempotencyKey } from './idempotency';
+
+/**
+ * MEMORY STORAGE BACKEND (TESTS)
+ * Backend palsu dengan protokol action yang sama seperti apps-script.gs / lib/fsStorage.ts,
+ * seluruhnya di memori. Dipasang dengan setStorageBackendOverride (lib/storageBackend.ts) atau
+ * dioper langsung ke callStorage({ backend }).
+ *
+ * Action inti (settings, event, gallery, upload idempoten, video status, hapus / restore) sudah
+ * ada; action lain diisi test lewat handle(). failNext() menyuntikkan kegagalan (response
+ * { ok: false } atau exception network) untuk menguji retry & error class. Tiap request dicatat
+ * di calls. Payload & response disalin lewat JSON seperti lewat jaringan.
+ */
+
+export interface MemoryDb {
+  settings: Partial<PhotoboothSettings>;
+  concepts: Concept[] | null;
+  events: EventRecord[];
+  gallery: GalleryItem[]; // Urutan sheet: baris terbaru di akhir
+  jobs: Record<string, any>[];
+  files: Record<string, string>; // fileId -> data URI
+  idempotency: Record<string, Record<string, any>>;
+  configVersion: number;
+}
+
+export interface MemoryCall {
+  method: 'GET' | 'POST';
+  action: string;
+  payload: Record<string, any>;
+}
+
+// { error } = response { ok: false, error } dari backend, 'network' = fetch gagal (tidak sampai)
+export type MemoryFailure = { error: string } | 'network';
+
+export type MemoryHandler = (payload: Record<string, any>, db: MemoryDb) => Record<string, any> | Promise<Record<string, any>>;
+
+export type MemoryBackend = StorageBackend & {
+  db: MemoryDb;
+  calls: MemoryCall[];
+  handle: (action: string, handler: MemoryHandler) => void;
+  failNext: (action: string, failure: MemoryFailure, times?: number) => void;
+};
+
+export interface MemoryBackendOptions {
+  adminToken?: string; // Set = action admin menolak token lain dengan AUTH_REQUIRED
+}
+
+const ADMIN_ACTIONS = ['createEvent', 'updateEvent', 'activateEvent', 'deletePhoto', 'deleteAllPhotos', 'listDeletedPhotos', 'restorePhoto', 'updateSettings', 'updateConcepts'];
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const emptyDb = (): MemoryDb => ({ settings: {}, concepts: null, events: [], gallery: [], jobs: [], files: {}, idempotency: {}, configVersion: 0 });
+
+const rowTimestamp = (row: GalleryItem) => new Date(row.updatedAt || row.createdAt || 0).getTime() || 0;
+
+// Jam monoton: dua perubahan dalam milidetik yang sama tetap terlihat berbeda oleh delta gallery
+let lastNow = 0;
+const nowIso = () => {
+  lastNow = Math.max(Date.now(), lastNow + 1);
+  return new Date(lastNow).toISOString();
+};
+
+let nextFileId = 1;
+const newFileId = () => `mem_${Date.now().toString(36)}_${nextFileId++}`;
+
+const findRow = (db: MemoryDb, id: unknown) => db.gallery.find(r => r.id === String(id));
+
+// Same as the real backends: the share token never leaves through a public gallery read
+const publicRow = ({ token, ...row }: GalleryItem): GalleryItem => row;
+
+const BUILTIN_HANDLERS: Record<string, MemoryHandler> = {
+  getSettings: (_, db) => ({ ok: true, settings: db.settings, concepts: db.concepts, configVersion: { version: db.configVersion, updatedAt: '' } }),
+  configVersion: (_, db) => ({ ok: true, version: db.configVersion, updatedAt: '' }),
+  getEvents: (_, db) => ({ ok: true, events: db.events }),
+
+  getBase64: (payload, db) => db.files[payload.id]
+    ? { ok: true, base64: db.files[payload.id] }
+    : { ok: false, error: 'File not found' },
+
+  gallery: (payload, db) => {
+    const since = Number(payload.since) || 0;
+    const nextCursor = db.gallery.reduce((max, row) => Math.max(max, rowTimestamp(row)), since);
+    if (since > 0) return { items: db.gallery.filter(row => rowTimestamp(row) > since).reverse().map(publicRow), nextCursor, isDelta: true };
+    const page = pageGalleryRows(db.gallery, normalizeGalleryQuery(payload), payload.before, clampGalleryLimit(payload.limit));
+    return { items: page.rows.map(publicRow), nextCursor, olderCursor: page.olderCursor, isDelta: false };
+  },
+
+  createSession: () => {
+    const folderId = `Session_${newFileId()}`;
+    return { ok: true, folderId, folderUrl: `memory://${folderId}` };
+  },
+
+  uploadGenerated: (payload, db) => upload(payload, db, false),
+  uploadGeneratedVideo: (payload, db) => upload(payload, db, true),
+
+  queueVideo: (payload, db) => setVideoStatus(db, payload.photoId, 'queued'),
+  updateVideoStatus: (payload, db) => setVideoStatus(db, payload.photoId, payload.status),
+
+  recordJob: (payload, db) => {
+    db.jobs = [...db.jobs.filter(j => j.id !== payload.job?.id), payload.job];
+    return { ok: true };
+  },
+
+  setGuestContact: (payload, db) => findRow(db, payload.photoId) ? { ok: true } : { ok: false, error: 'Photo ID not found' },
+
+  recordPrint: (payload, db) => {
+    const row = findRow(db, payload.photoId);
+    if (!row) return { ok: false, error: 'Photo ID not found' };
+    row.prints = (row.prints || 0) + 1;
+    return { ok: true, prints: row.prints };
+  },
+
+  kioskHeartbeat: () => ({ ok: true, commands: [] }),
+
+  createEvent: (payload, db) => {
+    if (!payload.event?.name) return { ok: false, error: 'Event name is required' };
+    const event: EventRecord = { id: `evt_${newFileId()}`, folderId: newFileId(), createdAt: nowIso(), isActive: false, description: '', ...payload.event };
+    db.events.push(event);
+    return { ok: true, event };
+  },
+
+  updateEvent: (payload, db) => {
+    const event = db.events.find(e => e.id === payload.event?.id);
+    if (!event) return { ok: false, error: 'Event not found' };
+    Object.assign(event, payload.event);
+    db.configVersion++;
+    return { ok: true, event };
+  },
+
+  activateEvent: (payload, db) => {
+    const event = db.events.find(e => e.id === payload.eventId);
+    if (!event) return { ok: false, error: 'Event not found' };
+    db.events.forEach(e => { e.isActive = e === event; });
+    db.configVersion++;
+    return { ok: true, event, revision: 0, profile: null };
+  },
+
+  deletePhoto: (payload, db) => {
+    const row = findRow(db, payload.id);
+    if (!row || row.deletedAt) return { ok: false, error: 'Photo ID not found' };
+    row.deletedAt = row.updatedAt = nowIso();
+    return { ok: true };
+  },
+
+  deleteAllPhotos: (_, db) => {
+    const at = nowIso();
+    db.gallery.forEach(row => { if (!row.deletedAt) row.deletedAt = row.updatedAt = at; });
+    return { ok: true };
+  },
+
+  listDeletedPhotos: (_, db) => ({ ok: true, items: db.gallery.filter(r => r.deletedAt && !r.purgedAt) }),
+
+  restorePhoto: (payload, db) => {
+    const row = findRow(db, payload.id);
+    if (!row || !row.deletedAt) return { ok: false, error: 'Photo ID not found' };
+    delete row.deletedAt;
+    row.updatedAt = nowIso();
+    return { ok: true };
+  },
+
+  updateSettings: (payload, db) => {
+    db.settings = { ...db.settings, ...payload.settings };
+    db.configVersion++;
+    return { ok: true };
+  },
+
+  updateConcepts: (payload, db) => {
+    db.concepts = payload.concepts;
+    db.configVersion++;
+    return { ok: true };
+  }
+};
+
+function upload(payload: Record<string, any>, db: MemoryDb, isVideo: boolean) {
+  const key = isIdempotencyKey(payload.idempotencyKey) ? payload.idempotencyKey : '';
+  if (key && db.idempotency[key]) return db.idempotency[key];
+  if (!payload.image) return { ok: false, error: 'No image data' };
+  const id = newFileId();
+  db.files[id] = payload.image;
+  if (payload.skipGallery !== true) {
+    const at = nowIso();
+    db.gallery.push({
+      id,
+      createdAt: at,
+      updatedAt: at,
+      conceptName: payload.conceptName || '',
+      imageUrl: `memory://${id}`,
+      downloadUrl: `memory://${id}`,
+      token: `tok_${id}`,
+      eventId: payload.eventId || '',
+      type: payload.mediaType === 'boomerang' ? 'boomerang' : (isVideo ? 'video' : 'image'),
+      originalId: payload.originalId || '',
+      videoStatus: isVideo ? 'done' : 'idle',
+      videoFileId: payload.videoFileId || (isVideo ? id : ''),
+      aiModel: payload.aiModel || ''
+    });
+  }
+  const result = { ok: true, id };
+  if (key) db.idempotency[key] = result;
+  return result;
+}
+
+// Tanpa state machine (lib/videoStateMachine.ts): test video yang butuh transisi pakai handle()
+function setVideoStatus(db: MemoryDb, photoId: unknown, status: GalleryItem['videoStatus']) {
+  const row = findRow(db, photoId);
+  if (!row) return { ok: false, error: 'Photo ID not found' };
+  row.videoStatus = status;
+  row.updatedAt = nowIso();
+  return { ok: true };
+}
+
+export const createMemoryBackend = (seed: Partial<MemoryDb> = {}, options: MemoryBackendOptions = {}): MemoryBackend => {
+  const handlers: Record<string, MemoryHandler> = { ...BUILTIN_HANDLERS };
+  const failures: Record<string, MemoryFailure[]> = {};
+
+  const backend: MemoryBackend = {
+    id: 'memory',
+    db: { ...emptyDb(), ...clone(seed) },
+    calls: [],
+
+    handle: (action, handler) => { handlers[action] = handler; },
+
+    failNext: (action, failure, times = 1) => {
+      failures[action] = [...(failures[action] || []), ...Array(times).fill(failure)];
+    },
+
+    get: (action, params = {}) => dispatch('GET', action, params),
+    post: (action, payload = {}) => dispatch('POST', action, payload),
+    fileUrl: (fileId) => backend.db.files[fileId] || `memory://${fileId}`,
+    downloadUrl: (fileId) => backend.db.files[fileId] || `memory://${fileId}`
+  };
+
+  const dispatch = async (method: MemoryCall['method'], action: string, input: Record<string, any>) => {
+    const payload = clone(input);
+    backend.calls.push({ method, action, payload });
+
+    const failure = failures[action]?.shift();
+    if (failure === 'network') throw new StorageNetworkError('Memory backend: simulated network failure');
+    if (failure) return { ok: false, error: failure.error };
+
+    if (options.adminToken && ADMIN_ACTIONS.includes(action) && payload.token !== options.adminToken) {
+      return { ok: false, error: 'AUTH_REQUIRED' };
+    }
+    const handler = handlers[action];
+    if (!handler) return { ok: false, error: 'Unknown Action' };
+    return clone(await handler(payload, backend.db));
+  };
+
+  return backend;
+};
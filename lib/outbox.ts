@@ -0,0 +1,267 @@
+import { OutboxEntry } from '../types';
+import { uploadToDrive, uploadVideoDataToDrive, createSessionFolder } from './appsScript';
+import { OUTBOX_STORE, createRecordStore } from './storage';
+
+/**
+ * UPLOAD OUTBOX (OFFLINE-FIRST)
+ * Foto final / boomerang yang gagal di-upload (Wi-Fi venue putus) disimpan di IndexedDB lalu dikirim ulang
+ * dengan backoff. Tidak ada dead-letter: foto tamu tidak boleh hilang, retry terus sampai berhasil.
+ * Event 'online' dari browser langsung memicu flush.
+ */
+
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60000;
+
+type PendingListener = (pending: number) => void;
+
+export type OutboxInput = Omit<OutboxEntry, 'id' | 'attempts' | 'nextAttemptAt' | 'createdAt' | 'updatedAt'>;
+
+export type DeliveryResult =
+    | { ok: true; id: string; sessionFolderId?: string; sessionFolderUrl?: string }
+    | { ok: false; queued: true };
+
+const entries = createRecordStore<OutboxEntry>(OUTBOX_STORE);
+
+const backoffFor = (attempts: number) => Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+
+class OutboxSystem {
+    private listeners = new Set<PendingListener>();
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private active = new Set<string>();
+    private pending = 0;
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => {
+                console.log("[Outbox] Connection restored, flushing");
+                this.flush().catch(err => console.warn("[Outbox] Flush failed:", err));
+            });
+        }
+    }
+
+    subscribe(listener: PendingListener): () => void {
+        this.listeners.add(listener);
+        listener(this.pending);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Simpan hasil akhir ke outbox lalu jadwalkan upload.
+     */
+    async add(input: OutboxInput): Promise<OutboxEntry> {
+        const entry = this.createEntry(input);
+        await this.enqueue(entry);
+        return entry;
+    }
+
+    /**
+     * Upload langsung. Jika gagal, hasil disimpan ke outbox dan dicoba ulang di background.
+     */
+    async deliver(input: OutboxInput): Promise<DeliveryResult> {
+        const entry = this.createEntry(input);
+        entry.attempts = 1;
+        // upload() checkpoints the entry (session / original / frames): a flush() in the meantime must not
+        // start a second upload of the same entry
+        this.active.add(entry.id);
+        try {
+            const id = await this.upload(entry);
+            await entries.remove(entry.id);
+            return { ok: true, id, sessionFolderId: entry.sessionFolderId, sessionFolderUrl: entry.sessionFolderUrl };
+        } catch (e: any) {
+            entry.lastError = e?.message || String(e);
+            entry.nextAttemptAt = Date.now() + backoffFor(entry.attempts);
+        } finally {
+            this.active.delete(entry.id);
+        }
+        await this.enqueue(entry);
+        return { ok: false, queued: true };
+    }
+
+    /**
+     * Dipanggil saat app load: jadwalkan ulang semua entry yang tersisa.
+     */
+    async resume(): Promise<number> {
+        const pending = await entries.all();
+        pending.forEach(entry => this.schedule(entry));
+        await this.refreshCount();
+        if (pending.length > 0) console.log(`[Outbox] Resumed ${pending.length} pending upload(s)`);
+        return pending.length;
+    }
+
+    /**
+     * Coba semua entry sekarang (abaikan sisa backoff).
+     */
+    async flush() {
+        for (const entry of await entries.all()) {
+            const timer = this.timers.get(entry.id);
+            if (timer) clearTimeout(timer);
+            this.timers.delete(entry.id);
+            entry.nextAttemptAt = Date.now();
+            this.schedule(entry);
+        }
+    }
+
+    private createEntry(input: OutboxInput): OutboxEntry {
+        const now = Date.now();
+        return {
+            ...input,
+            id: `outbox_${now}_${Math.random().toString(36).slice(2, 8)}`,
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now
+        };
+    }
+
+    private async enqueue(entry: OutboxEntry) {
+        await entries.put(entry);
+        console.warn(`[Outbox] Stored ${entry.id} for deferred upload | Concept: ${entry.conceptName}`);
+        await this.refreshCount();
+        this.schedule(entry);
+    }
+
+    private schedule(entry: OutboxEntry) {
+        if (this.timers.has(entry.id) || this.active.has(entry.id)) return;
+        const delay = Math.max(0, entry.nextAttemptAt - Date.now());
+        const timer = setTimeout(() => {
+            this.timers.delete(entry.id);
+            this.active.add(entry.id);
+            this.run(entry.id)
+                .catch(err => console.error("[Outbox] Run Error:", err))
+                .finally(() => this.active.delete(entry.id));
+        }, delay);
+        this.timers.set(entry.id, timer);
+    }
+
+    private async run(id: string) {
+        const entry = await entries.get(id);
+        if (!entry) return;
+
+        entry.attempts += 1;
+        try {
+            await this.upload(entry);
+            await entries.remove(entry.id);
+            console.log(`[Outbox] ${entry.id} synced after ${entry.attempts} attempt(s)`);
+            await this.refreshCount();
+        } catch (e: any) {
+            entry.lastError = e?.message || String(e);
+            entry.nextAttemptAt = Date.now() + backoffFor(entry.attempts);
+            entry.updatedAt = Date.now();
+            console.warn(`[Outbox] ${entry.id} failed, retry in ${backoffFor(entry.attempts)}ms:`, entry.lastError);
+            await entries.put(entry);
+            this.active.delete(entry.id);
+            this.schedule(entry);
+        }
+    }
+
+    private async upload(entry: OutboxEntry): Promise<string> {
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            throw new Error("Offline");
+        }
+
+        if (entry.needsSession && !entry.sessionFolderId) {
+            const session = await createSessionFolder();
+            if (!session.ok || !session.folderId) throw new Error("Session folder unavailable");
+            entry.sessionFolderId = session.folderId;
+            entry.sessionFolderUrl = session.folderUrl;
+            entry.folderId = session.folderId;
+            await entries.put(entry);
+        }
+
+        if (entry.original && entry.originalFolderId && !entry.originalId) {
+            const origRes = await uploadToDrive(entry.original, {
+                conceptName: "ORIGINAL_CAPTURE",
+                eventName: entry.eventName,
+                eventId: entry.eventId,
+                folderId: entry.originalFolderId,
+                skipGallery: true,
+                idempotencyKey: `${entry.id}:original`
+            });
+            if (!origRes.ok) throw new Error(origRes.error || "Original Upload Failed");
+            entry.originalId = origRes.id;
+            await entries.put(entry);
+        }
+
+        if (entry.kind === 'boomerang') return await this.uploadBoomerang(entry);
+
+        // Multi-shot: individual frames first, attached to the composite row by ID
+        if (entry.frames && entry.frames.length > 0) {
+            const frameIds = entry.frameIds || [];
+            for (let i = frameIds.length; i < entry.frames.length; i++) {
+                const frameRes = await uploadToDrive(entry.frames[i], {
+                    conceptName: `${entry.conceptName} #${i + 1}`,
+                    eventName: entry.eventName,
+                    eventId: entry.eventId,
+                    folderId: entry.folderId,
+                    skipGallery: true,
+                    idempotencyKey: `${entry.id}:frame${i}`
+                });
+                if (!frameRes.ok) throw new Error(frameRes.error || "Frame Upload Failed");
+                frameIds.push(frameRes.id);
+                entry.frameIds = frameIds;
+                await entries.put(entry);
+            }
+        }
+
+        const res = await uploadToDrive(entry.image, {
+            conceptName: entry.conceptName,
+            eventName: entry.eventName,
+            eventId: entry.eventId,
+            folderId: entry.folderId,
+            originalId: entry.originalId || undefined,
+            sessionFolderId: entry.sessionFolderId,
+            sessionFolderUrl: entry.sessionFolderUrl,
+            aiModel: entry.aiModel,
+            promptMode: entry.promptMode,
+            fallbackPath: entry.fallbackPath,
+            stageTimings: entry.stageTimings,
+            layout: entry.layout,
+            frames: entry.frameIds ? JSON.stringify(entry.frameIds) : undefined,
+            idempotencyKey: `${entry.id}:result` // Same row even if an earlier attempt's response was lost
+        });
+        if (!res.ok) throw new Error(res.error || "Upload Failed");
+        return res.id;
+    }
+
+    // Loop video first (file only), then the GIF row pointing to it via videoFileId
+    private async uploadBoomerang(entry: OutboxEntry): Promise<string> {
+        const common = {
+            conceptName: entry.conceptName,
+            eventName: entry.eventName,
+            eventId: entry.eventId,
+            folderId: entry.folderId,
+            mediaType: 'boomerang' as const
+        };
+
+        if (entry.video && !entry.videoId) {
+            const videoRes = await uploadVideoDataToDrive(entry.video, { ...common, skipGallery: true, idempotencyKey: `${entry.id}:video` });
+            if (!videoRes.ok) throw new Error(videoRes.error || "Boomerang Video Upload Failed");
+            entry.videoId = videoRes.id;
+            await entries.put(entry);
+        }
+
+        const res = await uploadVideoDataToDrive(entry.image, {
+            ...common,
+            originalId: entry.originalId || undefined,
+            sessionFolderId: entry.sessionFolderId,
+            sessionFolderUrl: entry.sessionFolderUrl,
+            videoFileId: entry.videoId,
+            aiModel: entry.aiModel,
+            promptMode: entry.promptMode,
+            fallbackPath: entry.fallbackPath,
+            stageTimings: entry.stageTimings,
+            idempotencyKey: `${entry.id}:gif`
+        });
+        if (!res.ok) throw new Error(res.error || "Boomerang Upload Failed");
+        return res.id;
+    }
+
+    private async refreshCount() {
+        this.pending = (await entries.all()).length;
+        this.listeners.forEach(listener => {
+            try { listener(this.pending); } catch (e) { console.error("[Outbox] Listener error:", e); }
+        });
+    }
+}
+
+export const Outbox = new OutboxSystem();
@@ -6,7 +6,7 @@
  */
 
 // Helper lokal untuk URL (Duplikasi dari imageUtils untuk menghindari Circular Dependency)
-const resolveOverlayUrl = (url: string): string => {
+export const resolveOverlayUrl = (url: string): string => {
     if (!url) return '';
     if (url.startsWith('data:')) return url;
     const match = url.match(/id=([a-zA-Z0-9_-]+)/) || url.match(/\/d\/([a-zA-Z0-9_-]+)/);
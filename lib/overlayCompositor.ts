@@ -0,0 +1,235 @@
+import { AspectRatio, LayerPlacement, OverlayLayer, OverlayTemplate, PhotoboothSettings } from '../types';
+import { OverlayCache, resolveOverlayUrl } from './overlayCache';
+
+/**
+ * LAYERED OVERLAY COMPOSITOR
+ * Template = beberapa layer (frame PNG, logo, teks dinamis, QR) dengan posisi per AspectRatio.
+ * Dipakai oleh applyOverlay (foto tunggal, fast mode, boomerang) dan composeLayout (photo strip).
+ * Overlay PNG lama (overlayImage) otomatis menjadi template 1 layer full-canvas.
+ */
+
+export const ASPECT_RATIOS: AspectRatio[] = ['9:16', '16:9', '2:3', '3:2'];
+
+export const FULL_CANVAS: LayerPlacement = { x: 0, y: 0, width: 1, height: 1 };
+
+export const TEXT_TOKENS = ['{eventName}', '{date}', '{time}', '{guestName}', '{conceptName}'];
+
+// Runtime values for dynamic layers (text tokens, QR target)
+export interface OverlayContext {
+  eventName?: string;
+  conceptName?: string;
+  guestName?: string;
+  sessionUrl?: string;
+  downloadUrl?: string;
+  date?: Date;
+}
+
+// What callers pass around: legacy overlay URL, a template, or nothing
+export type OverlaySource = string | OverlayTemplate | null | undefined;
+
+type Drawable = ImageBitmap | HTMLImageElement;
+
+export const createLayerId = () => `layer_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const legacyTemplate = (overlayUrl: string): OverlayTemplate => ({
+  id: 'legacy',
+  name: 'Overlay PNG',
+  updatedAt: 0,
+  layers: [{
+    id: 'legacy_frame',
+    type: 'image',
+    name: 'Frame',
+    visible: true,
+    src: overlayUrl,
+    placements: { '9:16': FULL_CANVAS, '16:9': FULL_CANVAS, '2:3': FULL_CANVAS, '3:2': FULL_CANVAS }
+  }]
+});
+
+export const toTemplate = (source: OverlaySource): OverlayTemplate | null => {
+  if (!source) return null;
+  if (typeof source === 'string') return source.trim() !== '' ? legacyTemplate(source) : null;
+  return source.layers.length > 0 ? source : null;
+};
+
+export const resolveOverlayTemplate = (settings: Pick<PhotoboothSettings, 'overlayImage' | 'overlayTemplate'>): OverlayTemplate | null => {
+  return toTemplate(settings.overlayTemplate) || toTemplate(settings.overlayImage);
+};
+
+// Nearest configured ratio for an arbitrary canvas (photo strips are not one of the 4 ratios)
+export const ratioForSize = (width: number, height: number): AspectRatio => {
+  const target = Math.log(width / height);
+  return ASPECT_RATIOS.reduce((best, ratio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    const [bw, bh] = best.split(':').map(Number);
+    return Math.abs(Math.log(w / h) - target) < Math.abs(Math.log(bw / bh) - target) ? ratio : best;
+  });
+};
+
+/**
+ * Placement untuk ratio tertentu. Fallback: ratio dengan orientasi sama, lalu ratio apa saja,
+ * terakhir full-canvas (layer yang belum pernah diposisikan).
+ */
+export const resolvePlacement = (layer: OverlayLayer, ratio: AspectRatio): LayerPlacement => {
+  const exact = layer.placements[ratio];
+  if (exact) return exact;
+  const isTall = (r: AspectRatio) => { const [w, h] = r.split(':').map(Number); return w < h; };
+  const sameOrientation = ASPECT_RATIOS.find(r => r !== ratio && isTall(r) === isTall(ratio) && layer.placements[r]);
+  if (sameOrientation) return layer.placements[sameOrientation]!;
+  const any = ASPECT_RATIOS.find(r => layer.placements[r]);
+  return any ? layer.placements[any]! : FULL_CANVAS;
+};
+
+export const fillTokens = (text: string, context: OverlayContext): string => {
+  const date = context.date || new Date();
+  const values: Record<string, string> = {
+    eventName: context.eventName || '',
+    conceptName: context.conceptName || '',
+    guestName: context.guestName || '',
+    sessionUrl: context.sessionUrl || '',
+    downloadUrl: context.downloadUrl || '',
+    date: date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' }),
+    time: date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+  };
+  return text.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+};
+
+export const qrImageUrl = (value: string, size: number) =>
+  `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&margin=0&data=${encodeURIComponent(value)}`;
+
+// --- ASSET LOADING ---
+// Frame PNG utama tetap lewat OverlayCache (sudah di-preload App), layer lain di-cache per URL
+
+const assetCache = new Map<string, Promise<Drawable>>();
+
+const loadAsset = (rawUrl: string): Promise<Drawable> => {
+  const url = resolveOverlayUrl(rawUrl);
+  const cached = assetCache.get(url);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    // fetch + blob keeps the canvas untainted (toDataURL keeps working)
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch layer asset: ${response.statusText}`);
+    const blob = await response.blob();
+    if ('createImageBitmap' in window) return createImageBitmap(blob);
+    return new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      const objectUrl = URL.createObjectURL(blob);
+      img.onload = () => { URL.revokeObjectURL(objectUrl); resolve(img); };
+      img.onerror = () => { URL.revokeObjectURL(objectUrl); reject(new Error("Layer asset decode failed")); };
+      img.src = objectUrl;
+    });
+  })();
+
+  assetCache.set(url, pending);
+  pending.catch(() => assetCache.delete(url)); // Retry on next render
+  return pending;
+};
+
+const loadLayerImage = (layer: OverlayLayer, isFirstImage: boolean): Promise<Drawable | null> => {
+  if (!layer.src) return Promise.resolve(null);
+  return isFirstImage ? OverlayCache.preloadOverlay(layer.src) : loadAsset(layer.src);
+};
+
+/**
+ * Warm up semua asset template (dipanggil saat settings berubah / sebelum compose).
+ */
+export const preloadTemplateAssets = async (template: OverlayTemplate | null) => {
+  if (!template) return;
+  const images = template.layers.filter(l => l.visible && l.type === 'image' && l.src);
+  await Promise.all(images.map((layer, i) => loadLayerImage(layer, i === 0).catch(err => {
+    console.warn(`[Overlay] Asset preload failed (${layer.name}):`, err);
+  })));
+};
+
+// --- RENDERING ---
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: OverlayLayer, text: string, w: number, h: number) => {
+  const lines = text.split('\n');
+  // Font size derived from the box height so a placement scales with the output resolution
+  const fontSize = Math.max(8, (h / lines.length) * 0.8);
+  ctx.font = `${layer.fontWeight === 'normal' ? 'normal' : 'bold'} ${fontSize}px ${layer.fontFamily || 'sans-serif'}`;
+  ctx.fillStyle = layer.color || '#ffffff';
+  ctx.textBaseline = 'middle';
+  const align = layer.align || 'center';
+  ctx.textAlign = align;
+  const x = align === 'left' ? 0 : align === 'right' ? w : w / 2;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, x, (h / lines.length) * (i + 0.5), w);
+  });
+};
+
+const renderLayer = async (
+  ctx: CanvasRenderingContext2D,
+  layer: OverlayLayer,
+  placement: LayerPlacement,
+  canvasWidth: number,
+  canvasHeight: number,
+  context: OverlayContext,
+  isFirstImage: boolean
+) => {
+  const x = placement.x * canvasWidth;
+  const y = placement.y * canvasHeight;
+  const w = placement.width * canvasWidth;
+  const h = placement.height * canvasHeight;
+
+  let drawable: Drawable | null = null;
+  let text = '';
+  if (layer.type === 'image') {
+    drawable = await loadLayerImage(layer, isFirstImage);
+    if (!drawable) return;
+  } else if (layer.type === 'qr') {
+    const value = fillTokens(layer.qrValue || '{sessionUrl}', context).trim();
+    if (!value) return; // No session yet (e.g. offline) -> skip rather than a broken code
+    drawable = await loadAsset(qrImageUrl(value, Math.min(1000, Math.round(Math.max(w, h)))));
+  } else {
+    text = fillTokens(layer.text || '', context).trim();
+    if (!text) return;
+  }
+
+  ctx.save();
+  ctx.translate(x + w / 2, y + h / 2);
+  if (placement.rotation) ctx.rotate((placement.rotation * Math.PI) / 180);
+  ctx.translate(-w / 2, -h / 2);
+  if (drawable) {
+    if (layer.type === 'qr') {
+      // Square, centered in its box, with a white quiet zone
+      const size = Math.min(w, h);
+      const pad = size * 0.06;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect((w - size) / 2, (h - size) / 2, size, size);
+      ctx.drawImage(drawable, (w - size) / 2 + pad, (h - size) / 2 + pad, size - pad * 2, size - pad * 2);
+    } else {
+      ctx.drawImage(drawable, 0, 0, w, h);
+    }
+  } else {
+    drawText(ctx, layer, text, w, h);
+  }
+  ctx.restore();
+};
+
+/**
+ * Gambar semua layer template di atas canvas yang sudah berisi foto.
+ * Layer yang gagal (asset 404, QR offline) dilewati, tidak menggagalkan output.
+ */
+export const renderOverlay = async (
+  ctx: CanvasRenderingContext2D,
+  source: OverlaySource,
+  canvasWidth: number,
+  canvasHeight: number,
+  context: OverlayContext = {}
+) => {
+  const template = toTemplate(source);
+  if (!template) return;
+  const ratio = ratioForSize(canvasWidth, canvasHeight);
+  const firstImageId = template.layers.find(l => l.visible && l.type === 'image' && l.src)?.id;
+
+  for (const layer of template.layers) {
+    if (!layer.visible) continue;
+    try {
+      await renderLayer(ctx, layer, resolvePlacement(layer, ratio), canvasWidth, canvasHeight, context, layer.id === firstImageId);
+    } catch (e) {
+      console.warn(`[Overlay] Layer "${layer.name}" skipped:`, e);
+    }
+  }
+};
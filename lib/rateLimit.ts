@@ -0,0 +1,78 @@
+/**
+ * RATE LIMIT (TOKEN BUCKET)
+ * Satu bucket per key (kiosk / IP + nama route): isi penuh = capacity, bertambah
+ * refillPerMinute token per menit, tiap request mengambil `cost` token.
+ *
+ * Store bisa diganti (setRateLimitStore): default MemoryRateLimitStore per proses. Di Vercel
+ * tiap instance serverless punya bucket sendiri, jadi batas efektif = batas x jumlah instance
+ * yang hangat. Untuk batas global pasang store bersama (mis. Redis) dengan interface yang sama.
+ */
+
+export interface RateLimitRule {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  take: (key: string, rule: RateLimitRule, cost: number, now: number) => Promise<RateLimitResult>;
+}
+
+// Pure: state bucket baru + hasil. Dipakai store lain supaya perhitungannya sama persis
+export const takeFromBucket = (bucket: RateLimitBucket | undefined, rule: RateLimitRule, cost: number, now: number): { bucket: RateLimitBucket; result: RateLimitResult } => {
+  const perMs = rule.refillPerMinute / 60000;
+  const elapsed = bucket ? Math.max(now - bucket.updatedAt, 0) : 0;
+  const tokens = bucket ? Math.min(rule.capacity, bucket.tokens + elapsed * perMs) : rule.capacity;
+
+  if (tokens >= cost) {
+    return {
+      bucket: { tokens: tokens - cost, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 }
+    };
+  }
+  const retryAfterMs = perMs > 0 ? Math.ceil((cost - tokens) / perMs) : Infinity;
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: { allowed: false, remaining: Math.floor(tokens), retryAfterMs }
+  };
+};
+
+const MAX_MEMORY_KEYS = 10000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitBucket>();
+
+  async take(key: string, rule: RateLimitRule, cost: number, now: number): Promise<RateLimitResult> {
+    const { bucket, result } = takeFromBucket(this.buckets.get(key), rule, cost, now);
+    // Re-insert so the Map stays ordered by last use; the oldest key goes first when full
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > MAX_MEMORY_KEYS) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest !== undefined) this.buckets.delete(oldest);
+    }
+    return result;
+  }
+
+  clear() {
+    this.buckets.clear();
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
+
+export const consumeRateLimit = (key: string, rule: RateLimitRule, cost = 1, now = Date.now()) => store.take(key, rule, cost, now);
@@ -0,0 +1,81 @@
+import type { EventRecord, PurgeLogEntry, PurgeReason } from '../types.js';
+
+/**
+ * DATA RETENTION
+ * Purge permanen (bukan soft delete): file hasil, original, video, frame strip & folder sesi
+ * dihapus dari storage, baris gallery tinggal tombstone (purgedAt + deletedAt) supaya delta
+ * gallery kiosk ikut membuangnya. Setiap baris yang di-purge dicatat di PurgeLog.
+ *
+ * Dua pemicu:
+ * - retention: EventRecord.retentionDays setelah foto diambil (purgeExpired, dari /api/video/tick)
+ * - guest_request: tamu menekan "Delete my data" di /share/:token (forgetShare)
+ *
+ * Isomorphic & pure. apps-script.gs memakai salinan PURGED_COLUMNS, clampRetentionDays,
+ * isRetentionExpired, guestSessionRows dan purgeChanges, ubah bersamaan.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_RETENTION_DAYS = 3650;
+export const PURGE_BATCH_SIZE = 50; // Baris per putaran (Drive lambat, GAS dibatasi 6 menit)
+export const PURGE_INTERVAL_MS = 15 * 60 * 1000; // purgeExpired dari tick paling sering segini
+export const PURGE_LOG_LIMIT = 200;
+
+// Dikosongkan saat purge. Yang tersisa (id, createdAt, eventId, type, status) tidak bisa dipakai membuka apa pun
+export const PURGED_COLUMNS = [
+  'conceptName', 'imageUrl', 'downloadUrl', 'token', 'originalId', 'providerUrl', 'relatedPhotoId',
+  'sessionFolderId', 'sessionFolderUrl', 'videoTaskId', 'videoPrompt', 'videoFileId', 'videoError',
+  'frames', 'guestContact', 'delivery'
+];
+
+type Row = Record<string, any>;
+
+const time = (value: unknown) => (value ? new Date(value as string).getTime() || 0 : 0);
+const sameId = (a: unknown, b: unknown) => {
+  const value = String(a || '').trim();
+  return value !== '' && value === String(b || '').trim();
+};
+
+export const clampRetentionDays = (value: unknown) => {
+  const days = Math.floor(Number(value) || 0);
+  return Math.min(Math.max(days, 0), MAX_RETENTION_DAYS);
+};
+
+// Baris tanpa event (atau event tanpa retentionDays) disimpan selamanya
+export const isRetentionExpired = (row: Row, event: Pick<EventRecord, 'retentionDays'> | undefined, now: number) => {
+  const days = clampRetentionDays(event?.retentionDays);
+  if (!days || row.purgedAt || !String(row.id || '').trim()) return false;
+  const capturedAt = time(row.createdAt);
+  return capturedAt > 0 && capturedAt + days * DAY_MS <= now;
+};
+
+export const expiredRows = <T extends Row>(rows: T[], events: EventRecord[], now: number, limit: number = PURGE_BATCH_SIZE): T[] => {
+  const byId = new Map(events.map(ev => [ev.id, ev]));
+  return rows.filter(row => isRetentionExpired(row, byId.get(String(row.eventId || '').trim()), now)).slice(0, limit);
+};
+
+// Satu tamu = satu sesi: hasil regenerate (original / folder sesi yang sama) dan video turunannya ikut
+export const guestSessionRows = <T extends Row>(rows: T[], target: T): T[] =>
+  rows.filter(row => !row.purgedAt && (
+    row === target ||
+    sameId(row.sessionFolderId, target.sessionFolderId) ||
+    sameId(row.originalId, target.originalId) ||
+    sameId(row.relatedPhotoId, target.id) ||
+    sameId(row.id, target.relatedPhotoId)
+  ));
+
+export const purgeChanges = (actor: string, nowIso: string): Row => {
+  const changes: Row = { purgedAt: nowIso, deletedAt: nowIso, deletedBy: actor, updatedAt: nowIso };
+  PURGED_COLUMNS.forEach(column => { changes[column] = ''; });
+  return changes;
+};
+
+// Panggil sebelum purgeChanges diterapkan ke baris
+export const toPurgeLogEntry = (row: Row, reason: PurgeReason, actor: string, files: number, nowIso: string): PurgeLogEntry => ({
+  at: nowIso,
+  reason,
+  actor,
+  photoId: String(row.id || ''),
+  eventId: String(row.eventId || ''),
+  capturedAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : String(row.createdAt || ''),
+  files
+});
@@ -0,0 +1,95 @@
+/**
+ * RESPONSE SCHEMA
+ * Validator kecil untuk response storage backend (lib/storageSchema.ts). Yang dicek hanya bentuk
+ * yang dipakai UI (tipe field, array, id baris), bukan tiap kolom sheet; field lain dibiarkan
+ * lewat apa adanya. parse mengembalikan nilai asli (tidak disalin), jadi murah untuk gallery besar;
+ * hanya validItemsOf yang membuang baris rusak (dan objek di atasnya disalin).
+ */
+
+export class SchemaMismatch extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    super(`${path}: expected ${expected}, got ${actual}`);
+    this.name = 'SchemaMismatch';
+    this.path = path;
+  }
+}
+
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const primitive = <T>(expected: string, check: (value: unknown) => boolean): Schema<T> => ({
+  parse: (value, path = '$') => {
+    if (!check(value)) throw new SchemaMismatch(path, expected, value);
+    return value as T;
+  }
+});
+
+export const string = primitive<string>('string', v => typeof v === 'string');
+export const number = primitive<number>('number', v => typeof v === 'number' && isFinite(v));
+export const boolean = primitive<boolean>('boolean', v => typeof v === 'boolean');
+export const unknown: Schema<unknown> = { parse: value => value };
+
+// Sheet kosong / kolom baru terbaca sebagai '' atau null, bukan undefined
+export const optional = <T>(inner: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path) => (value === undefined || value === null ? undefined : inner.parse(value, path))
+});
+
+export const arrayOf = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = '$') => {
+    if (!Array.isArray(value)) throw new SchemaMismatch(path, 'array', value);
+    value.forEach((v, i) => item.parse(v, `${path}[${i}]`));
+    return value as T[];
+  }
+});
+
+// Daftar baris (gallery): satu baris rusak di sheet tidak boleh menggagalkan seluruh read, jadi
+// baris yang tidak lolos dibuang (array baru, dengan peringatan); array aslinya kalau semua lolos
+export const validItemsOf = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = '$') => {
+    if (!Array.isArray(value)) throw new SchemaMismatch(path, 'array', value);
+    const rejected: string[] = [];
+    const valid = value.filter((v, i) => {
+      try {
+        item.parse(v, `${path}[${i}]`);
+        return true;
+      } catch (e) {
+        if (!(e instanceof SchemaMismatch)) throw e;
+        rejected.push(e.message);
+        return false;
+      }
+    });
+    if (rejected.length === 0) return value as T[];
+    console.warn(`[Schema] Skipped ${rejected.length} invalid row(s):`, rejected.slice(0, 3).join('; '));
+    return valid as T[];
+  }
+});
+
+export const object = <S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => ({
+  parse: (value, path = '$') => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new SchemaMismatch(path, 'object', value);
+    let result = value as Record<string, unknown>;
+    Object.keys(shape).forEach(key => {
+      const field = (value as Record<string, unknown>)[key];
+      const parsed = shape[key].parse(field, `${path}.${key}`);
+      // Field yang dibersihkan validItemsOf: salin objeknya, response asli tidak diubah
+      if (parsed !== field && parsed !== undefined) {
+        if (result === value) result = { ...result };
+        result[key] = parsed;
+      }
+    });
+    return result as { [K in keyof S]: Infer<S[K]> };
+  }
+});
+
+// Baris / entitas (GalleryItem, EventRecord, ...): hanya kolom kunci yang dicek, sisanya dipercaya
+export const entity = <T>(...keys: (keyof T & string)[]): Schema<T> => {
+  const shape: Record<string, Schema<string>> = {};
+  keys.forEach(key => { shape[key] = string; });
+  return object(shape) as unknown as Schema<T>;
+};
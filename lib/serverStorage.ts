@@ -0,0 +1,79 @@
+import { handleLocalGet, handleLocalPost, readStoredFile, LocalStorageContext } from './fsStorage.js';
+
+/**
+ * SERVER STORAGE
+ * Akses persistence dari route server (tick, generate, boothConfig).
+ * STORAGE_BACKEND=local → lib/fsStorage.ts langsung (in-process),
+ * selain itu → Apps Script di APPS_SCRIPT_BASE_URL.
+ */
+
+export const isLocalStorageBackend = () => process.env.STORAGE_BACKEND === 'local';
+
+export const isStorageConfigured = () => isLocalStorageBackend() || !!process.env.APPS_SCRIPT_BASE_URL;
+
+const localContext = (): LocalStorageContext => ({
+  publicBaseUrl: (process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/$/, '')
+});
+
+// Origin publik untuk link yang keluar dari server (file lokal, link share di email / SMS)
+export const requestBaseUrl = (req: any) => {
+  if (process.env.PUBLIC_BASE_URL) return process.env.PUBLIC_BASE_URL.replace(/\/$/, '');
+  const proto = req.headers['x-forwarded-proto'] || 'http';
+  return `${proto}://${req.headers.host}`;
+};
+
+const requireGasUrl = () => {
+  const gasUrl = process.env.APPS_SCRIPT_BASE_URL;
+  if (!gasUrl) throw new Error("APPS_SCRIPT_BASE_URL missing");
+  return gasUrl;
+};
+
+// Robust POST to GAS with retry (text/plain to avoid preflight)
+const fetchGasWithRetry = async (url: string, payload: any, retries = 3) => {
+    for (let i = 0; i < retries; i++) {
+        try {
+            const controller = new AbortController();
+            const timeout = setTimeout(() => controller.abort(), 10000);
+
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'text/plain' },
+                body: JSON.stringify(payload),
+                signal: controller.signal
+            });
+
+            clearTimeout(timeout);
+            if (res.ok) return await res.json();
+            throw new Error(`GAS Status: ${res.status}`);
+        } catch (e: any) {
+            console.warn(`[Storage] GAS attempt ${i + 1} failed:`, e.message);
+            if (i === retries - 1) throw e;
+            await new Promise(r => setTimeout(r, 1000));
+        }
+    }
+};
+
+export const serverStorageGet = async (action: string, params: Record<string, string> = {}): Promise<any> => {
+  if (isLocalStorageBackend()) return handleLocalGet(action, params, localContext());
+
+  const query = new URLSearchParams({ ...params, action, t: String(Date.now()) });
+  const res = await fetch(`${requireGasUrl()}?${query.toString()}`);
+  if (!res.ok) throw new Error(`Storage GET ${action} failed: ${res.status}`);
+  return res.json();
+};
+
+export const serverStoragePost = async (payload: { action: string } & Record<string, any>): Promise<any> => {
+  if (isLocalStorageBackend()) return handleLocalPost(payload, localContext());
+  return fetchGasWithRetry(requireGasUrl(), payload);
+};
+
+/**
+ * URL foto input untuk provider video.
+ * Drive: thumbnail publik (ukuran kecil = bitrate output lebih kecil).
+ * Lokal: data URI, karena provider tidak bisa menjangkau server LAN.
+ */
+export const photoInputUrl = async (photoId: string, sizeParam: string): Promise<string | null> => {
+  if (!isLocalStorageBackend()) return `https://drive.google.com/thumbnail?id=${photoId}&sz=${sizeParam}`;
+  const file = await readStoredFile(photoId);
+  return file ? `data:${file.mimeType};base64,${file.data.toString('base64')}` : null;
+};
@@ -0,0 +1,57 @@
+import type { SharedPhoto } from '../types.js';
+
+/**
+ * GUEST SHARE PAGE
+ * QR di Gallery / Monitor mengarah ke /share/:token milik aplikasi (bukan folder Drive mentah).
+ * GalleryItem.token adalah satu-satunya kunci akses; ID file tidak bisa dipakai untuk lookup. Token
+ * tidak pernah ikut read gallery publik: kiosk memintanya lewat /api/share-link (lib/shareLinks.ts).
+ * Isomorphic. apps-script.gs memakai salinan toSharedPhoto, ubah keduanya bersamaan.
+ */
+
+export const SHARE_PATH_PREFIX = '/share/';
+
+export interface ShareBranding {
+  eventName: string;
+  eventDescription: string;
+  backgroundImage?: string | null;
+}
+
+// Token = UUID dari backend; batas panjang hanya untuk menolak input sampah lebih awal
+export const isShareToken = (token: unknown): token is string =>
+  typeof token === 'string' && /^[A-Za-z0-9-]{8,64}$/.test(token);
+
+// ?k= on the share link sent to the guest's own contact (delivery); QR links never carry it
+export const SHARE_DELETE_PARAM = 'k';
+
+export const isShareDeleteKey = (key: unknown): key is string =>
+  typeof key === 'string' && /^[a-f0-9]{32}$/.test(key);
+
+export const parseShareDeleteKey = (search: string): string | null => {
+  const key = new URLSearchParams(search).get(SHARE_DELETE_PARAM);
+  return isShareDeleteKey(key) ? key : null;
+};
+
+export const parseShareToken = (pathname: string): string | null => {
+  if (!pathname.startsWith(SHARE_PATH_PREFIX)) return null;
+  const token = decodeURIComponent(pathname.slice(SHARE_PATH_PREFIX.length).replace(/\/+$/, ''));
+  return isShareToken(token) ? token : null;
+};
+
+// Baris lama tanpa token tetap memakai link lama (fallback)
+export const getShareUrl = (item: { token?: string }, fallback: string) =>
+  isShareToken(item.token) ? `${window.location.origin}${SHARE_PATH_PREFIX}${encodeURIComponent(item.token)}` : fallback;
+
+// Hanya field yang aman untuk tamu; tidak ada original, frame, session folder atau status internal
+export const toSharedPhoto = (row: Record<string, any>, branding: ShareBranding): SharedPhoto => ({
+  token: String(row.token),
+  type: row.type === 'video' || row.type === 'boomerang' ? row.type : 'image',
+  conceptName: String(row.conceptName || ''),
+  createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : String(row.createdAt || ''),
+  photoId: String(row.id),
+  videoStatus: row.videoStatus || 'idle',
+  videoFileId: row.videoFileId ? String(row.videoFileId) : undefined,
+  providerUrl: row.videoStatus === 'ready_url' && row.providerUrl ? String(row.providerUrl) : undefined,
+  eventName: branding.eventName,
+  eventDescription: branding.eventDescription,
+  backgroundImage: branding.backgroundImage || null
+});
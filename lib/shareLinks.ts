@@ -0,0 +1,37 @@
+import { apiFetch } from './apiClient';
+
+/**
+ * SHARE LINKS (KIOSK)
+ * Token share (kunci halaman /share/:token) tidak ikut read gallery publik. QR di Gallery /
+ * Monitor memintanya lewat /api/share-link dengan kunci kiosk, di-cache selama halaman hidup.
+ * Tanpa token (route belum dikonfigurasi, baris lama) QR tetap memakai link lama (getShareUrl).
+ */
+
+const MAX_IDS_PER_REQUEST = 50;
+const UNAVAILABLE_RETRY_MS = 5 * 60000;
+
+const tokens = new Map<string, string>();
+const withoutToken = new Set<string>(); // Backend answered, row has no token
+let unavailableUntil = 0;
+
+export const fetchShareTokens = async (photoIds: string[]): Promise<Record<string, string>> => {
+  const wanted = Array.from(new Set(photoIds.filter(Boolean)))
+    .filter(id => !tokens.has(id) && !withoutToken.has(id))
+    .slice(0, MAX_IDS_PER_REQUEST);
+
+  if (wanted.length > 0 && Date.now() >= unavailableUntil) {
+    try {
+      const res = await apiFetch(`/api/share-link?ids=${encodeURIComponent(wanted.join(','))}`, { cache: 'no-store' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      wanted.forEach(id => data.tokens?.[id] ? tokens.set(id, data.tokens[id]) : withoutToken.add(id));
+    } catch (e: any) {
+      unavailableUntil = Date.now() + UNAVAILABLE_RETRY_MS;
+      console.warn("[Share] Share links unavailable, QR uses the fallback link:", e.message);
+    }
+  }
+
+  const result: Record<string, string> = {};
+  photoIds.forEach(id => { const token = tokens.get(id); if (token) result[id] = token; });
+  return result;
+};
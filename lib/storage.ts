@@ -7,7 +7,12 @@
 
 const DB_NAME = 'CoroAI_Photobooth_DB';
 const STORE_NAME = 'app_data';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
+
+// Record stores (keyPath 'id'), dibuat saat upgrade versi DB
+export const JOBS_STORE = 'jobs';
+export const OUTBOX_STORE = 'outbox';
+const RECORD_STORES = [JOBS_STORE, OUTBOX_STORE];
 
 // Helper: Open Database Connection
 const openDB = (): Promise<IDBDatabase> => {
@@ -24,6 +29,11 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      RECORD_STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -96,3 +106,105 @@ export const removeLargeData = async (key: string) => {
         console.error(`[IndexedDB] Delete Failed for ${key}:`, error);
     }
 }
+
+// --- RECORD STORES (keyPath 'id') ---
+
+/**
+ * Menyimpan satu record (harus punya field 'id') ke store tertentu.
+ * false = tidak tersimpan (IndexedDB tidak bisa dibuka / ditulis), pemanggil yang memutuskan.
+ */
+export const putRecord = async <T extends { id: string }>(storeName: string, record: T): Promise<boolean> => {
+    try {
+        const db = await openDB();
+        return await new Promise<boolean>((resolve, reject) => {
+            const tx = db.transaction(storeName, 'readwrite');
+            const req = tx.objectStore(storeName).put(record);
+            req.onsuccess = () => resolve(true);
+            req.onerror = () => reject(req.error);
+            tx.oncomplete = () => db.close();
+        });
+    } catch (error) {
+        console.error(`[IndexedDB] Put Failed for ${storeName}:`, error);
+        return false;
+    }
+};
+
+/**
+ * Mengambil semua record dari store tertentu
+ */
+export const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+    try {
+        const db = await openDB();
+        return new Promise<T[]>((resolve, reject) => {
+            const tx = db.transaction(storeName, 'readonly');
+            const req = tx.objectStore(storeName).getAll();
+            req.onsuccess = () => resolve(req.result as T[]);
+            req.onerror = () => reject(req.error);
+            tx.oncomplete = () => db.close();
+        });
+    } catch (error) {
+        console.error(`[IndexedDB] Load All Failed for ${storeName}:`, error);
+        return [];
+    }
+};
+
+export const getRecord = async <T>(storeName: string, id: string): Promise<T | null> => {
+    try {
+        const db = await openDB();
+        return new Promise<T | null>((resolve, reject) => {
+            const tx = db.transaction(storeName, 'readonly');
+            const req = tx.objectStore(storeName).get(id);
+            req.onsuccess = () => resolve((req.result as T) ?? null);
+            req.onerror = () => reject(req.error);
+            tx.oncomplete = () => db.close();
+        });
+    } catch (error) {
+        console.error(`[IndexedDB] Load Failed for ${storeName}/${id}:`, error);
+        return null;
+    }
+};
+
+export const deleteRecord = async (storeName: string, id: string) => {
+    try {
+        const db = await openDB();
+        return new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(storeName, 'readwrite');
+            const req = tx.objectStore(storeName).delete(id);
+            req.onsuccess = () => resolve();
+            req.onerror = () => reject(req.error);
+            tx.oncomplete = () => db.close();
+        });
+    } catch (error) {
+        console.error(`[IndexedDB] Delete Failed for ${storeName}/${id}:`, error);
+    }
+};
+
+/**
+ * Record store dengan cadangan memori (job queue, outbox): record yang gagal ditulis ke IndexedDB
+ * (mode privat, kuota penuh) tetap dipegang di memori selama tab hidup, jadi tidak hilang diam-diam.
+ * put mengembalikan false kalau record hanya ada di memori.
+ */
+export const createRecordStore = <T extends { id: string }>(storeName: string) => {
+    const memory = new Map<string, T>();
+    return {
+        put: async (record: T) => {
+            const stored = await putRecord(storeName, record);
+            if (stored) {
+                memory.delete(record.id);
+            } else {
+                if (!memory.has(record.id)) console.warn(`[IndexedDB] ${storeName}/${record.id} kept in memory only (lost on reload)`);
+                memory.set(record.id, record);
+            }
+            return stored;
+        },
+        get: async (id: string): Promise<T | null> => memory.get(id) ?? await getRecord<T>(storeName, id),
+        all: async (): Promise<T[]> => {
+            const stored = await getAllRecords<T>(storeName);
+            return [...stored.filter(r => !memory.has(r.id)), ...memory.values()];
+        },
+        remove: async (id: string) => {
+            memory.delete(id);
+            await deleteRecord(storeName, id);
+        }
+    };
+};
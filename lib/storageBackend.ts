@@ -0,0 +1,113 @@
+import { DEFAULT_GAS_URL } from '../constants';
+import { errorFromHttp, StorageNetworkError, toStorageError } from './storageErrors';
+
+/**
+ * STORAGE BACKEND
+ * Semua persistence (gallery, settings, upload, video status) lewat protokol action yang sama
+ * dengan apps-script.gs: GET ?action=... dan POST { action, ... }.
+ *
+ * Adapter:
+ *  - 'apps-script': Google Apps Script Web App (Sheet + Drive) — default.
+ *  - 'local'      : /api/storage di server LAN (lib/fsStorage.ts, file JSON + folder media).
+ *                   Untuk event offline / testing tanpa Google.
+ *
+ * Pilihan disimpan di localStorage 'STORAGE_BACKEND' (Admin > Storage Backend).
+ * Test memasang backend palsu di memori (lib/memoryBackend.ts) lewat setStorageBackendOverride.
+ */
+
+export type StorageBackendId = 'apps-script' | 'local';
+
+export interface StorageBackend {
+  id: StorageBackendId | 'memory';
+  get: (action: string, params?: Record<string, string | number | undefined>) => Promise<any>;
+  post: (action: string, payload?: Record<string, any>) => Promise<any>;
+  fileUrl: (fileId: string, width?: number) => string;   // Displayable image (thumbnail)
+  downloadUrl: (fileId: string) => string;               // Raw file (video / download)
+}
+
+const STORAGE_BACKEND_KEY = 'STORAGE_BACKEND';
+const LOCAL_STORAGE_ENDPOINT = '/api/storage';
+
+export const robustFetch = async (url: string, options: RequestInit = {}) => {
+    try {
+        if (options.method === 'POST') {
+             if (!options.headers) options.headers = {};
+             (options.headers as any)['Content-Type'] = 'text/plain;charset=utf-8';
+        }
+        const res = await fetch(url, options);
+        const text = await res.text();
+        let body: any = null;
+        try { body = JSON.parse(text); } catch (e) { /* Apps Script error page / proxy HTML */ }
+        if (!res.ok) throw errorFromHttp(res.status, body, res.headers.get('retry-after'));
+        if (body === null) throw new StorageNetworkError("Invalid response from server (Not JSON)", { status: res.status });
+        return body;
+    } catch (e: any) {
+        if (e?.name === 'AbortError') throw e;
+        console.error("FETCH FAILED:", e.message);
+        throw toStorageError('', e);
+    }
+}
+
+const buildQuery = (action: string, params: Record<string, string | number | undefined> = {}) => {
+  const query = new URLSearchParams({ action, t: String(Date.now()) });
+  Object.entries(params).forEach(([k, v]) => {
+    if (v !== undefined && v !== null && v !== '') query.set(k, String(v));
+  });
+  return `?${query.toString()}`;
+};
+
+export const getGasUrl = () => {
+  const url = localStorage.getItem('APPS_SCRIPT_BASE_URL') || DEFAULT_GAS_URL;
+  return url.trim();
+};
+
+// --- ADAPTERS ---
+
+export const AppsScriptBackend: StorageBackend = {
+  id: 'apps-script',
+  get: (action, params) => robustFetch(`${getGasUrl()}${buildQuery(action, params)}`),
+  post: (action, payload = {}) => robustFetch(getGasUrl(), {
+    method: 'POST',
+    body: JSON.stringify({ ...payload, action })
+  }),
+  fileUrl: (fileId, width = 600) => `https://drive.google.com/thumbnail?id=${fileId}&sz=w${width}`,
+  downloadUrl: (fileId) => `https://drive.google.com/uc?export=download&id=${fileId}`
+};
+
+export const LocalBackend: StorageBackend = {
+  id: 'local',
+  get: (action, params) => robustFetch(`${LOCAL_STORAGE_ENDPOINT}${buildQuery(action, params)}`),
+  post: (action, payload = {}) => robustFetch(LOCAL_STORAGE_ENDPOINT, {
+    method: 'POST',
+    body: JSON.stringify({ ...payload, action })
+  }),
+  // Local files are served as-is, width is ignored
+  fileUrl: (fileId) => `${window.location.origin}${LOCAL_STORAGE_ENDPOINT}?action=file&id=${encodeURIComponent(fileId)}`,
+  downloadUrl: (fileId) => `${window.location.origin}${LOCAL_STORAGE_ENDPOINT}?action=file&id=${encodeURIComponent(fileId)}`
+};
+
+const BACKENDS: Record<StorageBackendId, StorageBackend> = {
+  'apps-script': AppsScriptBackend,
+  'local': LocalBackend
+};
+
+export const getStorageBackendId = (): StorageBackendId => {
+  const stored = localStorage.getItem(STORAGE_BACKEND_KEY);
+  return stored === 'local' ? 'local' : 'apps-script';
+};
+
+export const setStorageBackendId = (id: StorageBackendId) => {
+  localStorage.setItem(STORAGE_BACKEND_KEY, id);
+};
+
+let backendOverride: StorageBackend | null = null;
+
+// Tests only: every persistence call goes to this backend until reset with null. Never persisted
+export const setStorageBackendOverride = (backend: StorageBackend | null) => {
+  backendOverride = backend;
+};
+
+export const getStorageBackend = (): StorageBackend => backendOverride || BACKENDS[getStorageBackendId()];
+
+// Share page: backend is reported by the server (/api/share), not the guest's localStorage
+export const getStorageBackendById = (id: StorageBackendId): StorageBackend => BACKENDS[id] || AppsScriptBackend;
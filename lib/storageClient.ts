@@ -0,0 +1,74 @@
+import { getStorageBackend, StorageBackend } from './storageBackend';
+import { AdminSession } from './adminSession';
+import { AUTH_REQUIRED } from './adminAuth';
+import { SchemaMismatch } from './schema';
+import { createIdempotencyKey } from './idempotency';
+import { STORAGE_ACTIONS, StorageAction, StorageRequest, StorageResponse } from './storageSchema';
+import { errorFromResponse, StorageError, StorageQuotaError, StorageSchemaError, toStorageError } from './storageErrors';
+
+/**
+ * STORAGE CLIENT
+ * Satu pintu untuk semua action storage backend (Apps Script / server lokal / memori di test):
+ *  - request & response bertipe per action (lib/storageSchema.ts), response divalidasi
+ *  - { ok: false } dan kegagalan fetch dilempar sebagai StorageError (lib/storageErrors.ts)
+ *  - action admin membawa token sesi; token ditolak → sesi berakhir
+ *  - kegagalan network / kuota diulang dengan backoff sesuai RetryPolicy action; upload memakai
+ *    idempotencyKey yang sama di tiap percobaan supaya tidak ada file / baris ganda
+ *
+ * lib/appsScript.ts membungkus fungsi ini dalam bentuk lama { ok, error } untuk halaman.
+ */
+
+const MAX_RETRIES = 2;
+const RETRY_BASE_MS = 1000;
+const MAX_RETRY_DELAY_MS = 15000;
+
+export interface StorageCallOptions {
+  retries?: number; // Default MAX_RETRIES; action dengan retry 'never' tidak pernah diulang
+  backend?: StorageBackend; // Default backend aktif (getStorageBackend)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Backoff eksponensial + jitter; Retry-After dari rate limiter dihormati
+const retryDelay = (attempt: number, error: StorageError) => {
+  if (error instanceof StorageQuotaError && error.retryAfterMs) return Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS);
+  return Math.min(RETRY_BASE_MS * 2 ** attempt, MAX_RETRY_DELAY_MS) + Math.round(Math.random() * 250);
+};
+
+const parseResponse = <A extends StorageAction>(action: A, data: unknown): StorageResponse<A> => {
+  if (!data || typeof data !== 'object') throw new StorageSchemaError(`${action}: empty response`, { action, path: '$' });
+  if ((data as Record<string, any>).ok === false) throw errorFromResponse(action, data as Record<string, any>);
+  try {
+    return STORAGE_ACTIONS[action].response.parse(data) as StorageResponse<A>;
+  } catch (e: any) {
+    if (e instanceof SchemaMismatch) throw new StorageSchemaError(`${action}: ${e.message}`, { action, path: e.path });
+    throw e;
+  }
+};
+
+export const callStorage = async <A extends StorageAction>(
+  action: A,
+  request: StorageRequest<A>,
+  options: StorageCallOptions = {}
+): Promise<StorageResponse<A>> => {
+  const spec = STORAGE_ACTIONS[action];
+  const backend = options.backend || getStorageBackend();
+  const payload: Record<string, any> = { ...request };
+  if (spec.retry === 'idempotency' && !payload.idempotencyKey) payload.idempotencyKey = createIdempotencyKey();
+  if (spec.admin) payload.token = AdminSession.getToken();
+  const retries = spec.retry === 'never' ? 0 : options.retries ?? MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = spec.method === 'GET' ? await backend.get(action, payload) : await backend.post(action, payload);
+      return parseResponse(action, data);
+    } catch (err) {
+      const error = toStorageError(action, err);
+      if (spec.admin && error.code === AUTH_REQUIRED) AdminSession.expire();
+      if (!error.retryable || attempt >= retries) throw error;
+      const delay = retryDelay(attempt, error);
+      console.warn(`[Storage] ${action} failed (${error.kind}), retry ${attempt + 1}/${retries} in ${delay}ms:`, error.message);
+      await sleep(delay);
+    }
+  }
+};
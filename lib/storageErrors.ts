@@ -0,0 +1,138 @@
+import { AUTH_INVALID_PIN, AUTH_LOCKED, AUTH_REQUIRED, AUTH_SETUP_REQUIRED } from './adminAuth';
+
+/**
+ * STORAGE ERRORS
+ * Kegagalan action storage backend (lib/storageClient.ts) sebagai class, bukan { ok: false }:
+ *  - StorageAuthError     : token admin ditolak / PIN salah / terkunci
+ *  - StorageNotFoundError : baris, file, event atau revisi tidak ada
+ *  - StorageQuotaError    : kuota Apps Script / rate limit; boleh diulang setelah retryAfterMs
+ *  - StorageNetworkError  : fetch gagal, HTTP 5xx, response bukan JSON (halaman error Apps Script)
+ *  - StorageSchemaError   : response sukses tapi bentuknya tidak sesuai lib/storageSchema.ts
+ * Selain itu StorageError biasa dengan pesan dari backend (validasi, transisi video ditolak, dst).
+ */
+
+export type StorageErrorKind = 'auth' | 'notFound' | 'quota' | 'network' | 'schema' | 'server';
+
+export class StorageError extends Error {
+  kind: StorageErrorKind = 'server';
+  action: string;
+  code?: string; // response.error apa adanya, untuk dibandingkan dengan konstanta (AUTH_REQUIRED, ...)
+  status?: number; // HTTP status kalau kegagalan terjadi di level HTTP
+
+  constructor(message: string, options: { action?: string; code?: string; status?: number } = {}) {
+    super(message);
+    this.name = 'StorageError';
+    this.action = options.action || '';
+    this.code = options.code;
+    this.status = options.status;
+  }
+
+  // Aman diulang dengan request yang sama (lihat retry di lib/storageClient.ts)
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class StorageAuthError extends StorageError {
+  kind: StorageErrorKind = 'auth';
+  lockedUntil?: string;
+  attemptsLeft?: number;
+
+  constructor(message: string, options: { action?: string; code?: string; status?: number; lockedUntil?: string; attemptsLeft?: number } = {}) {
+    super(message, options);
+    this.name = 'StorageAuthError';
+    this.lockedUntil = options.lockedUntil;
+    this.attemptsLeft = options.attemptsLeft;
+  }
+}
+
+export class StorageNotFoundError extends StorageError {
+  kind: StorageErrorKind = 'notFound';
+
+  constructor(message: string, options: { action?: string; code?: string; status?: number } = {}) {
+    super(message, options);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+export class StorageQuotaError extends StorageError {
+  kind: StorageErrorKind = 'quota';
+  retryAfterMs?: number;
+
+  constructor(message: string, options: { action?: string; code?: string; status?: number; retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.name = 'StorageQuotaError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+export class StorageNetworkError extends StorageError {
+  kind: StorageErrorKind = 'network';
+
+  constructor(message: string, options: { action?: string; code?: string; status?: number } = {}) {
+    super(message, options);
+    this.name = 'StorageNetworkError';
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+export class StorageSchemaError extends StorageError {
+  kind: StorageErrorKind = 'schema';
+  path: string;
+
+  constructor(message: string, options: { action?: string; path: string }) {
+    super(message, options);
+    this.name = 'StorageSchemaError';
+    this.path = options.path;
+  }
+}
+
+export const isStorageError = (error: unknown): error is StorageError => error instanceof StorageError;
+
+const AUTH_CODES = [AUTH_REQUIRED, AUTH_LOCKED, AUTH_SETUP_REQUIRED, AUTH_INVALID_PIN];
+
+// Pesan kuota / beban dari Apps Script ("Service invoked too many times", "Server busy (Lock timeout).")
+// dan rate limit lib/apiMiddleware.ts
+const QUOTA_PATTERN = /too many times|quota|rate.?limit|lock timeout|server busy/i;
+
+// { ok: false, error } dari backend → class yang sesuai
+export const errorFromResponse = (action: string, response: Record<string, any>): StorageError => {
+  const code = String(response.error || 'Unknown error');
+  if (AUTH_CODES.includes(code)) {
+    return new StorageAuthError(code, { action, code, lockedUntil: response.lockedUntil, attemptsLeft: response.attemptsLeft });
+  }
+  if (/not found/i.test(code)) return new StorageNotFoundError(code, { action, code });
+  if (QUOTA_PATTERN.test(code)) return new StorageQuotaError(code, { action, code });
+  return new StorageError(code, { action, code });
+};
+
+// HTTP bukan 2xx dari robustFetch (lib/storageBackend.ts); body JSON { error } dipakai kalau ada
+export const errorFromHttp = (status: number, body: Record<string, any> | null, retryAfter?: string | null): StorageError => {
+  const message = String(body?.error || `Server Error: ${status}`);
+  const code = body?.error ? String(body.error) : undefined;
+  if (status === 401 || status === 403) return new StorageAuthError(message, { code, status });
+  if (status === 404) return new StorageNotFoundError(message, { code, status });
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    return new StorageQuotaError(message, { code, status, retryAfterMs: seconds > 0 ? seconds * 1000 : undefined });
+  }
+  if (status >= 500) return new StorageNetworkError(message, { code, status });
+  return new StorageError(message, { code, status });
+};
+
+// Exception apa pun dari fetch / backend → StorageError (yang sudah StorageError hanya dilengkapi action)
+export const toStorageError = (action: string, error: unknown): StorageError => {
+  if (error instanceof StorageError) {
+    if (!error.action) error.action = action;
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new StorageNetworkError(message || 'FETCH_FAILED', { action });
+};
@@ -0,0 +1,191 @@
+import {
+  AnalyticsJob, AnalyticsRow, Concept, EventProfile, EventProfileRevision, EventRecord, GalleryItem, GalleryQuery,
+  GuestContact, KioskCommand, KioskCommandType, KioskHeartbeat, KioskRecord, PhotoboothSettings, PurgeLogEntry, StageTimings, StripLayout
+} from '../types';
+import { arrayOf, boolean, entity, Infer, number, object, optional, Schema, string, unknown, validItemsOf } from './schema';
+
+/**
+ * STORAGE ACTIONS
+ * Satu entri per action apps-script.gs / lib/fsStorage.ts yang dipanggil client: method, apakah
+ * butuh sesi admin, kapan boleh diulang, schema response sukses, dan (StorageRequests) bentuk
+ * request. Action baru di backend = entri baru di sini dan di StorageRequests.
+ *
+ * retry:
+ *  - 'safe'        : membaca / menimpa nilai yang sama (GET, upsert) → diulang saat network / kuota
+ *  - 'idempotency' : upload; client menambah idempotencyKey dan backend mengembalikan hasil pertama
+ *                    untuk key yang sama (lib/idempotency.ts), jadi tidak ada file / baris ganda
+ *  - 'never'       : efek samping tidak bisa diulang (counter, antrian perintah, hapus)
+ */
+
+export type RetryPolicy = 'safe' | 'idempotency' | 'never';
+
+export interface ActionSpec<T> {
+  method: 'GET' | 'POST';
+  admin?: boolean;
+  retry: RetryPolicy;
+  response: Schema<T>;
+}
+
+const spec = <T>(method: ActionSpec<T>['method'], retry: RetryPolicy, response: Schema<T>, admin = false): ActionSpec<T> =>
+  ({ method, retry, response, admin });
+
+const ack = object({ ok: boolean });
+
+const configVersion = object({ version: number, updatedAt: optional(string) });
+const concepts = arrayOf(entity<Concept>('id'));
+const eventRecord = entity<EventRecord>('id');
+const galleryItems = validItemsOf(entity<GalleryItem>('id')); // Bad sheet rows are skipped, not fatal
+const profile = optional(object({ settings: optional(unknown), concepts: optional(concepts) }) as Schema<EventProfile>);
+const revisions = arrayOf(entity<EventProfileRevision>('eventId'));
+const kioskCommand = entity<KioskCommand>('id', 'type');
+const uploaded = object({ ok: boolean, id: string });
+const assetUrl = object({ ok: boolean, url: string });
+
+export const STORAGE_ACTIONS = {
+  // --- Public reads ---
+  getSettings: spec('GET', 'safe', object({
+    ok: boolean,
+    settings: optional(unknown as Schema<Partial<PhotoboothSettings>>),
+    concepts: optional(concepts),
+    configVersion: optional(configVersion)
+  })),
+  configVersion: spec('GET', 'safe', configVersion),
+  getEvents: spec('GET', 'safe', object({ events: arrayOf(eventRecord) })),
+  getEventProfile: spec('GET', 'safe', object({ ok: boolean, revision: optional(number), profile, revisions: optional(revisions) })),
+  getBase64: spec('GET', 'safe', object({ ok: boolean, base64: string })),
+  gallery: spec('GET', 'safe', object({
+    items: galleryItems,
+    nextCursor: optional(number),
+    olderCursor: optional(string),
+    isDelta: optional(boolean)
+  })),
+
+  // --- Kiosk writes ---
+  createSession: spec('POST', 'safe', object({ ok: boolean, folderId: string, folderUrl: optional(string) })), // Extra folder only
+  uploadGenerated: spec('POST', 'idempotency', uploaded),
+  uploadGeneratedVideo: spec('POST', 'idempotency', uploaded),
+  queueVideo: spec('POST', 'never', ack),
+  updateVideoStatus: spec('POST', 'never', ack),
+  recordJob: spec('POST', 'safe', ack), // Upsert by job id
+  setGuestContact: spec('POST', 'safe', ack),
+  recordPrint: spec('POST', 'never', ack),
+  kioskHeartbeat: spec('POST', 'never', object({ ok: boolean, commands: optional(arrayOf(kioskCommand)) })),
+
+  // --- Admin ---
+  createEvent: spec('POST', 'never', object({ ok: boolean, event: eventRecord }), true),
+  updateEvent: spec('POST', 'safe', object({ ok: boolean, event: eventRecord }), true),
+  archiveEvent: spec('POST', 'never', object({ ok: boolean, archived: optional(number) }), true),
+  saveEventProfile: spec('POST', 'never', object({ ok: boolean, revision: number, applied: optional(boolean) }), true),
+  activateEvent: spec('POST', 'safe', object({ ok: boolean, event: optional(eventRecord), revision: optional(number), profile }), true),
+  restoreEventRevision: spec('POST', 'never', object({ ok: boolean, revision: optional(number), profile, applied: optional(boolean) }), true),
+  deletePhoto: spec('POST', 'never', ack, true),
+  deleteAllPhotos: spec('POST', 'never', ack, true),
+  listDeletedPhotos: spec('POST', 'safe', object({ ok: boolean, items: galleryItems }), true),
+  restorePhoto: spec('POST', 'never', ack, true),
+  listPurgeLog: spec('POST', 'safe', object({ ok: boolean, entries: arrayOf(entity<PurgeLogEntry>('reason')) }), true),
+  purgeExpired: spec('POST', 'never', object({ ok: boolean, purged: optional(number), hasMore: optional(boolean) }), true),
+  analyticsData: spec('POST', 'safe', object({
+    ok: boolean,
+    rows: arrayOf(entity<AnalyticsRow>('id')),
+    jobs: optional(arrayOf(entity<AnalyticsJob>('status')))
+  }), true),
+  listKiosks: spec('POST', 'safe', object({ ok: boolean, kiosks: arrayOf(entity<KioskRecord>('id')) }), true),
+  sendKioskCommand: spec('POST', 'never', object({
+    ok: boolean,
+    command: kioskCommand,
+    queued: optional(number),
+    skipped: optional(arrayOf(string))
+  }), true),
+  removeKiosk: spec('POST', 'never', ack, true),
+  updateSettings: spec('POST', 'safe', ack, true),
+  updateConcepts: spec('POST', 'safe', ack, true),
+  uploadOverlay: spec('POST', 'never', assetUrl, true),
+  uploadBackground: spec('POST', 'never', assetUrl, true),
+  uploadAudio: spec('POST', 'never', assetUrl, true)
+};
+
+export type StorageAction = keyof typeof STORAGE_ACTIONS;
+
+export type StorageResponse<A extends StorageAction> = Infer<(typeof STORAGE_ACTIONS)[A]['response']>;
+
+// Metadata upload hasil (uploadGenerated / uploadGeneratedVideo); image = data URI base64
+export interface UploadRequest {
+  image: string;
+  mimeType?: string; // Video only (GIF / WebM / MP4)
+  mediaType?: 'boomerang';
+  conceptName?: string;
+  eventName?: string;
+  eventId?: string;
+  folderId?: string;
+  skipGallery?: boolean; // File only (original capture, frames, boomerang video)
+  originalId?: string;
+  relatedPhotoId?: string;
+  sessionFolderId?: string;
+  sessionFolderUrl?: string;
+  videoFileId?: string;
+  aiModel?: string;
+  promptMode?: 'raw' | 'wrapped';
+  fallbackPath?: string;
+  stageTimings?: StageTimings; // Kiosk side; the backend adds uploadMs
+  layout?: StripLayout;
+  frames?: string; // JSON file IDs
+  idempotencyKey?: string; // Stable per logical upload (outbox entry + part); generated when absent
+}
+
+export interface RecordedJob {
+  id: string;
+  status: string;
+  conceptName: string;
+  eventId: string;
+  attempts: number;
+  lastError: string;
+  resultId: string;
+  aiModel: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EventInput = Pick<EventRecord, 'name' | 'description'> & Partial<Pick<EventRecord, 'startsAt' | 'endsAt' | 'retentionDays'>>;
+
+type NoParams = Record<string, never>;
+
+export interface StorageRequests {
+  getSettings: NoParams;
+  configVersion: NoParams;
+  getEvents: NoParams;
+  getEventProfile: { id: string; revision?: number };
+  getBase64: { id: string };
+  gallery: GalleryQuery & { since?: number; before?: string; limit?: number };
+  createSession: NoParams;
+  uploadGenerated: UploadRequest;
+  uploadGeneratedVideo: UploadRequest;
+  queueVideo: { photoId: string; prompt?: string; resolution?: string; model?: string };
+  updateVideoStatus: { photoId: string; status: string; taskId?: string; providerUrl?: string };
+  recordJob: { job: RecordedJob };
+  setGuestContact: { photoId: string; contact: GuestContact };
+  recordPrint: { photoId: string };
+  kioskHeartbeat: { kiosk: KioskHeartbeat };
+  createEvent: { event: EventInput };
+  updateEvent: { event: Partial<EventInput> & { id: string } };
+  archiveEvent: { eventId: string };
+  saveEventProfile: { eventId: string; settings: Partial<PhotoboothSettings>; concepts: Concept[]; note?: string };
+  activateEvent: { eventId: string };
+  restoreEventRevision: { eventId: string; revision: number };
+  deletePhoto: { id: string };
+  deleteAllPhotos: NoParams;
+  listDeletedPhotos: NoParams;
+  restorePhoto: { id: string };
+  listPurgeLog: NoParams;
+  purgeExpired: { force?: boolean };
+  analyticsData: { eventId: string };
+  listKiosks: NoParams;
+  sendKioskCommand: { kioskId: string; command: { type: KioskCommandType; eventId?: string } };
+  removeKiosk: { kioskId: string };
+  updateSettings: { settings: PhotoboothSettings };
+  updateConcepts: { concepts: Concept[] };
+  uploadOverlay: { image: string };
+  uploadBackground: { image: string };
+  uploadAudio: { image: string };
+}
+
+export type StorageRequest<A extends StorageAction> = StorageRequests[A];
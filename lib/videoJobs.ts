@@ -0,0 +1,44 @@
+import type { VideoStatus } from '../types.js';
+import { assertTransition, videoJobFromRow, VideoJob } from './videoStateMachine.js';
+import { serverStorageGet, serverStoragePost } from './serverStorage.js';
+
+/**
+ * VIDEO JOB STORE (SERVER)
+ * Akses ke state video di Gallery (Apps Script atau storage lokal, lihat lib/serverStorage.ts).
+ * Setiap perubahan status lewat transitionVideo (compare-and-set di GAS).
+ */
+
+// Rows that still need work (queued / processing / ready_url / uploading), across the whole sheet
+export const fetchVideoJobs = async (): Promise<VideoJob[]> => {
+    const data = await serverStorageGet('videoJobs');
+    return (data.items || []).map(videoJobFromRow);
+};
+
+export interface TransitionPatch {
+    taskId?: string;
+    providerUrl?: string;
+    videoModel?: string;
+    videoResolution?: string;
+    error?: string;
+}
+
+/**
+ * Pindahkan job dari `from` ke `to`. Gagal (ok:false) jika status di sheet sudah berubah
+ * (job diambil worker lain) atau transisi tidak legal.
+ * `from` null = terima status apapun yang legal (dipakai direct start).
+ */
+export const transitionVideo = async (
+    photoId: string,
+    from: VideoStatus | null,
+    to: VideoStatus,
+    patch: TransitionPatch = {}
+): Promise<{ ok: boolean; error?: string; current?: VideoStatus }> => {
+    if (from) assertTransition(from, to);
+    return serverStoragePost({
+        action: 'updateVideoStatus',
+        photoId,
+        status: to,
+        requireStatus: from || undefined,
+        ...patch
+    });
+};
@@ -0,0 +1,20 @@
+import { apiFetch } from './apiClient';
+
+/**
+ * VIDEO PLAYBACK (KIOSK)
+ * /api/video/proxy butuh kunci kiosk (lib/apiMiddleware.ts), jadi <video src> tidak bisa
+ * langsung menunjuk ke proxy: video diambil lewat apiFetch lalu diputar dari object URL.
+ * Halaman tamu (/share) tidak punya kunci kiosk dan memutar URL provider / Drive langsung.
+ */
+
+export const proxiedVideoPath = (url: string) => `/api/video/proxy?url=${encodeURIComponent(url)}`;
+
+// Object URL milik pemanggil: revokeObjectURL saat video ditutup
+export const loadProxiedVideo = async (url: string, signal?: AbortSignal): Promise<string> => {
+  const res = await apiFetch(proxiedVideoPath(url), { signal });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `HTTP ${res.status}`);
+  }
+  return URL.createObjectURL(await res.blob());
+};
@@ -0,0 +1,159 @@
+import type { VideoStatus } from '../types.js';
+
+/**
+ * VIDEO JOB STATE MACHINE
+ * Satu-satunya definisi transisi status video yang legal:
+ *
+ *   idle -> queued -> processing -> ready_url -> uploading -> done
+ *                         \____________\____________\______-> failed
+ *
+ * Isomorphic & pure. apps-script.gs memakai salinan tabel yang sama (VIDEO_TRANSITIONS)
+ * untuk compare-and-set di sheet — ubah keduanya bersamaan.
+ */
+
+export const VIDEO_TRANSITIONS: Record<VideoStatus, VideoStatus[]> = {
+  idle: ['queued', 'processing'],          // 'processing' = direct start via /api/video/start
+  queued: ['processing', 'failed'],
+  processing: ['ready_url', 'failed', 'queued'], // 'queued' = reaper restarts a stuck render
+  ready_url: ['uploading', 'failed'],
+  uploading: ['done', 'failed', 'ready_url'],    // 'ready_url' = reaper retries a stuck upload
+  done: [],
+  failed: ['queued', 'processing']         // Manual retry from the gallery
+};
+
+// States in which a worker holds the job; entering one counts as an attempt
+export const VIDEO_WORKING_STATES: VideoStatus[] = ['processing', 'uploading'];
+
+// States the tick worker still has to drive forward
+export const VIDEO_ACTIVE_STATES: VideoStatus[] = ['queued', 'processing', 'ready_url', 'uploading'];
+
+export const MAX_VIDEO_ATTEMPTS = 4;
+
+// How long a job may sit in a working state before the reaper rescues it
+export const VIDEO_STUCK_TIMEOUT_MS: Partial<Record<VideoStatus, number>> = {
+  processing: 15 * 60000,
+  uploading: 5 * 60000
+};
+
+export interface VideoJob {
+  photoId: string;
+  status: VideoStatus;
+  attempts: number;
+  stateChangedAt: number; // Epoch ms of the last transition
+  timeline: Partial<Record<VideoStatus, string>>; // ISO timestamp per state entered
+  taskId?: string;
+  providerUrl?: string;
+  sessionFolderId?: string;
+  videoPrompt?: string;
+  videoResolution?: string;
+  videoModel?: string;
+  eventId?: string;
+}
+
+export const normalizeVideoStatus = (status: any): VideoStatus => {
+  return status && (status in VIDEO_TRANSITIONS) ? status as VideoStatus : 'idle';
+};
+
+export const canTransition = (from: VideoStatus, to: VideoStatus): boolean => {
+  return VIDEO_TRANSITIONS[from].includes(to);
+};
+
+export const assertTransition = (from: VideoStatus, to: VideoStatus) => {
+  if (!canTransition(from, to)) {
+    throw new Error(`Illegal video transition: ${from} -> ${to}`);
+  }
+};
+
+export const parseTimeline = (raw: any): Partial<Record<VideoStatus, string>> => {
+  if (!raw) return {};
+  if (typeof raw === 'object') return raw;
+  try { return JSON.parse(raw); } catch (e) { return {}; }
+};
+
+// Builds a VideoJob from a Gallery sheet row (as returned by action=videoJobs / gallery)
+export const videoJobFromRow = (row: any): VideoJob => {
+  const timeline = parseTimeline(row.videoTimeline);
+  const status = normalizeVideoStatus(row.videoStatus);
+  const changedAt = row.videoStateAt || timeline[status] || row.updatedAt || row.createdAt;
+  return {
+    photoId: String(row.id),
+    status,
+    attempts: Number(row.videoAttempts) || 0,
+    stateChangedAt: changedAt ? new Date(changedAt).getTime() : 0,
+    timeline,
+    taskId: row.videoTaskId || undefined,
+    providerUrl: row.providerUrl || undefined,
+    sessionFolderId: row.sessionFolderId || undefined,
+    videoPrompt: row.videoPrompt || undefined,
+    videoResolution: row.videoResolution || undefined,
+    videoModel: row.videoModel || undefined,
+    eventId: row.eventId ? String(row.eventId) : undefined
+  };
+};
+
+/**
+ * Reaper: tentukan transisi penyelamatan untuk job yang macet di state kerja.
+ * Return null jika job sehat.
+ */
+export const findStuckTransition = (job: VideoJob, now: number = Date.now()): { to: VideoStatus; reason: string } | null => {
+  const timeout = VIDEO_STUCK_TIMEOUT_MS[job.status];
+  if (!timeout || !job.stateChangedAt || now - job.stateChangedAt < timeout) return null;
+
+  const stuckFor = Math.round((now - job.stateChangedAt) / 1000);
+  if (job.attempts >= MAX_VIDEO_ATTEMPTS) {
+    return { to: 'failed', reason: `Stuck in ${job.status} for ${stuckFor}s after ${job.attempts} attempts` };
+  }
+  if (job.status === 'uploading') {
+    return job.providerUrl
+      ? { to: 'ready_url', reason: `Upload stuck for ${stuckFor}s, retrying` }
+      : { to: 'failed', reason: `Upload stuck for ${stuckFor}s without provider URL` };
+  }
+  return { to: 'queued', reason: `Render stuck for ${stuckFor}s, re-queueing` };
+};
+
+export interface TransitionOptions {
+  from?: VideoStatus;      // Compare-and-set: only transition if the row is still in this state
+  taskId?: string;
+  providerUrl?: string;
+  videoModel?: string;
+  videoResolution?: string;
+  error?: string;
+}
+
+export type TransitionResult =
+  | { ok: true; status: VideoStatus; previous: VideoStatus; attempts: number }
+  | { ok: false; error: string; current: VideoStatus };
+
+/**
+ * Terapkan transisi ke object baris Gallery (mutasi in-place).
+ * Logika yang sama dengan applyVideoTransition di apps-script.gs; dipakai storage lokal.
+ */
+export const applyTransitionToRow = (row: Record<string, any>, to: VideoStatus, opts: TransitionOptions = {}, nowIso: string = new Date().toISOString()): TransitionResult => {
+  const current = normalizeVideoStatus(row.videoStatus);
+
+  if (opts.from && current !== opts.from) {
+    return { ok: false, error: 'Status mismatch', current };
+  }
+  if (!canTransition(current, to)) {
+    return { ok: false, error: `Illegal transition ${current} -> ${to}`, current };
+  }
+
+  let attempts = Number(row.videoAttempts) || 0;
+  if (current === 'failed' && to === 'queued') attempts = 0; // Manual retry starts over
+  if (VIDEO_WORKING_STATES.includes(to)) attempts++;
+
+  const timeline = { ...parseTimeline(row.videoTimeline), [to]: nowIso };
+
+  row.videoStatus = to;
+  row.videoAttempts = attempts;
+  row.videoStateAt = nowIso;
+  row.videoTimeline = JSON.stringify(timeline);
+  row.updatedAt = nowIso;
+  if (opts.taskId) row.videoTaskId = opts.taskId;
+  if (opts.providerUrl) row.providerUrl = opts.providerUrl;
+  if (opts.videoModel) row.videoModel = opts.videoModel;
+  if (opts.videoResolution) row.videoResolution = opts.videoResolution;
+  if (opts.error !== undefined) row.videoError = opts.error || '';
+
+  return { ok: true, status: to, previous: current, attempts };
+};
@@ -1,15 +1,45 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Concept, PhotoboothSettings, AspectRatio, MonitorTheme } from '../types';
+import { Concept, PhotoboothSettings, AspectRatio, MonitorTheme, FallbackStep, ImageJob, StripLayout, OverlayTemplate, OverlayLayer, OverlayLayerType, LayerPlacement, EventRecord, EventProfileRevision, PurgeLogEntry, BudgetLevel, KioskCommandType, KioskRecord } from '../types';
 import { 
   uploadOverlayToGas, 
   uploadBackgroundToGas,
   uploadAudioToGas,
   saveSettingsToGas, 
-  saveConceptsToGas
+  saveConceptsToGas,
+  fetchEvents,
+  fetchEventProfile,
+  saveEventProfile,
+  activateEvent,
+  restoreEventRevision,
+  createEvent,
+  updateEvent,
+  archiveEvent,
+  fetchPurgeLog,
+  runRetentionPurge,
+  fetchAnalyticsData,
+  fetchKiosks,
+  sendKioskCommand,
+  removeKiosk,
+  EventInput
 } from '../lib/appsScript';
 import { getGoogleDriveDirectLink } from '../lib/imageUtils'; // Import Helper
-import { DEFAULT_GAS_URL } from '../constants';
+import { DEFAULT_GAS_URL, DEFAULT_SETTINGS, IMAGE_MODEL_OPTIONS } from '../constants';
+import { DEFAULT_STEP_TIMEOUT_MS } from '../lib/fallbackChain';
+import { STRIP_LAYOUT_OPTIONS, MIN_SHOTS, MAX_SHOTS } from '../lib/layoutEngine';
+import { MIN_KEYFRAMES, MAX_KEYFRAMES, clampKeyframes } from '../lib/boomerang';
+import { JobQueue } from '../lib/jobQueue';
+import { ASPECT_RATIOS, FULL_CANVAS, TEXT_TOKENS, OverlayContext, createLayerId, legacyTemplate, renderOverlay, resolvePlacement, toTemplate } from '../lib/overlayCompositor';
+import { getStorageBackendId, setStorageBackendId, StorageBackendId } from '../lib/storageBackend';
+import { getKioskCredentials, setKioskCredentials } from '../lib/apiClient';
+import { getKioskId, getKioskName, setKioskName } from '../lib/kioskAgent';
+import { applyEventProfile, toProfileSettings } from '../lib/eventProfiles';
+import { scheduleState } from '../lib/eventSchedule';
+import { clampRetentionDays, MAX_RETENTION_DAYS } from '../lib/retention';
+import { analyticsToCsv, computeAnalytics, EventAnalytics } from '../lib/analytics';
+import { budgetStatus, computeEventCost, costTable, DEFAULT_MODEL_COSTS, EventCost } from '../lib/costs';
+import { AdminSession, LoginResult } from '../lib/adminSession';
+import { AUTH_LOCKED, AUTH_SETUP_REQUIRED, MIN_PIN_LENGTH, validateNewPin } from '../lib/adminAuth';
 
 interface AdminPageProps {
   settings: PhotoboothSettings;
@@ -18,30 +48,915 @@ interface AdminPageProps {
   onSaveConcepts: (concepts: Concept[]) => void;
   onBack: () => void;
   onLaunchMonitor?: () => void;
+  configVersion?: { applied: number; latest: number }; // Live config (lib/configSync.ts)
 }
 
-const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSettings, onSaveConcepts, onBack, onLaunchMonitor }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+// Ordered model list editor, shared by global settings and per-concept override
+const FallbackChainEditor: React.FC<{
+  chain: FallbackStep[] | undefined;
+  onChange: (chain: FallbackStep[]) => void;
+  emptyLabel: string;
+}> = ({ chain, onChange, emptyLabel }) => {
+  const steps = chain || [];
+
+  const updateStep = (index: number, patch: Partial<FallbackStep>) => {
+    onChange(steps.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  const moveStep = (index: number, dir: -1 | 1) => {
+    const target = index + dir;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addStep = () => {
+    const unused = IMAGE_MODEL_OPTIONS.find(o => !steps.some(s => s.model === o.id)) || IMAGE_MODEL_OPTIONS[0];
+    onChange([...steps, { model: unused.id }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {steps.length === 0 && (
+        <p className="text-[9px] text-gray-500 italic">{emptyLabel}</p>
+      )}
+      {steps.map((step, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="text-[10px] font-mono text-gray-500 w-4">{index + 1}.</span>
+          <select
+            value={step.model}
+            onChange={e => updateStep(index, { model: e.target.value })}
+            className="flex-1 bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+          >
+            {IMAGE_MODEL_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+          <input
+            type="number"
+            min={5}
+            value={Math.round((step.timeoutMs || DEFAULT_STEP_TIMEOUT_MS) / 1000)}
+            onChange={e => updateStep(index, { timeoutMs: Math.max(5, parseInt(e.target.value) || 0) * 1000 })}
+            className="w-16 bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+            title="Timeout (seconds)"
+          />
+          <span className="text-[9px] text-gray-500">s</span>
+          <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-20">▲</button>
+          <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-20">▼</button>
+          <button onClick={() => onChange(steps.filter((_, i) => i !== index))} className="px-2 py-1 text-xs text-red-500/60 hover:text-red-500">✕</button>
+        </div>
+      ))}
+      <button onClick={addStep} className="self-start px-3 py-1 border border-dashed border-white/20 rounded font-mono text-[10px] text-gray-400 hover:bg-white/5 uppercase">
+        + Add Step
+      </button>
+    </div>
+  );
+};
+
+const LAYER_FONTS = ['Orbitron', 'Rajdhani', 'sans-serif', 'serif', 'monospace'];
+
+// Sample values so dynamic layers are visible in the preview
+const SAMPLE_CONTEXT: OverlayContext = {
+  conceptName: 'Sample Concept',
+  guestName: 'Guest Name',
+  sessionUrl: 'https://example.com/session'
+};
+
+// Stand-in for the AI photo behind the layers
+const drawPreviewBackdrop = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+  const gradient = ctx.createLinearGradient(0, 0, w, h);
+  gradient.addColorStop(0, '#3b0764');
+  gradient.addColorStop(1, '#1e3a8a');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, w, h);
+  ctx.fillStyle = 'rgba(255,255,255,0.08)';
+  ctx.beginPath();
+  ctx.arc(w / 2, h * 0.42, Math.min(w, h) * 0.18, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillRect(w * 0.25, h * 0.62, w * 0.5, h * 0.38);
+};
+
+// Layered overlay editor with live preview (drag a layer on the canvas to move it)
+const OverlayDesigner: React.FC<{
+  template: OverlayTemplate | null | undefined;
+  legacyOverlay: string | null;
+  defaultRatio: AspectRatio;
+  eventName: string;
+  onChange: (template: OverlayTemplate | null) => void;
+}> = ({ template, legacyOverlay, defaultRatio, eventName, onChange }) => {
+  const [ratio, setRatio] = useState<AspectRatio>(defaultRatio);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaceTargetRef = useRef<string | null>(null); // Layer whose image is being replaced (null = new layer)
+  const dragRef = useRef<{ id: string; dx: number; dy: number } | null>(null);
+
+  const layers = template?.layers || [];
+  const selected = layers.find(l => l.id === selectedId) || null;
+  const [rw, rh] = ratio.split(':').map(Number);
+  const previewWidth = rw < rh ? 270 : 480;
+  const previewHeight = Math.round((previewWidth * rh) / rw);
+
+  const commit = (nextLayers: OverlayLayer[]) => {
+    onChange({
+      id: template?.id || `tpl_${Date.now()}`,
+      name: template?.name || 'Custom Overlay',
+      layers: nextLayers,
+      updatedAt: Date.now()
+    });
+  };
+
+  const updateLayer = (id: string, patch: Partial<OverlayLayer>) => {
+    commit(layers.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
+
+  const updatePlacement = (id: string, patch: Partial<LayerPlacement>, allRatios: boolean = false) => {
+    commit(layers.map(l => {
+      if (l.id !== id) return l;
+      const next = { ...resolvePlacement(l, ratio), ...patch };
+      const placements = allRatios
+        ? ASPECT_RATIOS.reduce((acc, r) => ({ ...acc, [r]: next }), {} as OverlayLayer['placements'])
+        : { ...l.placements, [ratio]: next };
+      return { ...l, placements };
+    }));
+  };
+
+  const moveLayer = (index: number, dir: -1 | 1) => {
+    const target = index + dir;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    commit(next);
+  };
+
+  const addLayer = (type: OverlayLayerType, src?: string) => {
+    const squareHeight = (width: number) => (width * rw) / rh;
+    let placement: LayerPlacement;
+    let patch: Partial<OverlayLayer> = {};
+    if (type === 'image') {
+      // First image is usually the frame PNG, later ones logos
+      placement = layers.some(l => l.type === 'image') ? { x: 0.35, y: 0.04, width: 0.3, height: squareHeight(0.3) } : FULL_CANVAS;
+      patch = { src };
+    } else if (type === 'text') {
+      placement = { x: 0.1, y: 0.88, width: 0.8, height: 0.05 };
+      patch = { text: '{eventName}', fontFamily: 'Orbitron', fontWeight: 'bold', color: '#ffffff', align: 'center' };
+    } else {
+      placement = { x: 0.76, y: 0.96 - squareHeight(0.2), width: 0.2, height: squareHeight(0.2) };
+      patch = { qrValue: '{sessionUrl}' };
+    }
+    const layer: OverlayLayer = {
+      id: createLayerId(),
+      type,
+      name: type === 'image' ? (layers.some(l => l.type === 'image') ? 'Logo' : 'Frame') : type === 'text' ? 'Text' : 'QR Code',
+      visible: true,
+      placements: { [ratio]: placement },
+      ...patch
+    };
+    commit([...layers, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsUploading(true);
+    const reader = new FileReader();
+    reader.onload = async () => {
+      const res = await uploadOverlayToGas(reader.result as string);
+      if (res.ok && res.url) {
+        if (replaceTargetRef.current) updateLayer(replaceTargetRef.current, { src: res.url });
+        else addLayer('image', res.url);
+      } else {
+        alert('Layer image upload failed');
+      }
+      setIsUploading(false);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const pickImage = (replaceId: string | null) => {
+    replaceTargetRef.current = replaceId;
+    fileInputRef.current?.click();
+  };
+
+  const importLegacy = () => {
+    if (!legacyOverlay) return;
+    commit(legacyTemplate(legacyOverlay).layers.map(l => ({ ...l, id: createLayerId() })));
+  };
+
+  // --- LIVE PREVIEW ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    let cancelled = false;
+
+    const render = async () => {
+      // Offscreen first so slow asset loads never show a half-drawn frame
+      const buffer = document.createElement('canvas');
+      buffer.width = canvas.width;
+      buffer.height = canvas.height;
+      const bctx = buffer.getContext('2d');
+      if (!bctx) return;
+      drawPreviewBackdrop(bctx, buffer.width, buffer.height);
+      await renderOverlay(bctx, toTemplate(template) || toTemplate(legacyOverlay), buffer.width, buffer.height, { ...SAMPLE_CONTEXT, eventName });
+      if (cancelled) return;
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(buffer, 0, 0);
+      if (selected) {
+        const p = resolvePlacement(selected, ratio);
+        ctx.save();
+        ctx.strokeStyle = '#a855f7';
+        ctx.lineWidth = 3;
+        ctx.setLineDash([10, 6]);
+        ctx.strokeRect(p.x * canvas.width, p.y * canvas.height, p.width * canvas.width, p.height * canvas.height);
+        ctx.restore();
+      }
+    };
+    render();
+    return () => { cancelled = true; };
+  }, [template, legacyOverlay, ratio, selected, eventName, previewWidth, previewHeight]);
+
+  const pointerToFraction = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { fx: (e.clientX - rect.left) / rect.width, fy: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { fx, fy } = pointerToFraction(e);
+    // Topmost visible layer under the pointer
+    const hit = [...layers].reverse().find(l => {
+      if (!l.visible) return false;
+      const p = resolvePlacement(l, ratio);
+      return fx >= p.x && fx <= p.x + p.width && fy >= p.y && fy <= p.y + p.height;
+    });
+    if (!hit) { setSelectedId(null); return; }
+    setSelectedId(hit.id);
+    const p = resolvePlacement(hit, ratio);
+    dragRef.current = { id: hit.id, dx: fx - p.x, dy: fy - p.y };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { fx, fy } = pointerToFraction(e);
+    updatePlacement(drag.id, {
+      x: Math.round((fx - drag.dx) * 1000) / 1000,
+      y: Math.round((fy - drag.dy) * 1000) / 1000
+    });
+  };
+
+  const percentInput = (label: string, key: keyof LayerPlacement, placement: LayerPlacement, isDegrees: boolean = false) => (
+    <div className="flex flex-col gap-1">
+      <span className="text-[9px] text-gray-500 uppercase">{label}</span>
+      <input
+        type="number"
+        step={isDegrees ? 1 : 0.5}
+        className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+        value={isDegrees ? (placement[key] || 0) : Math.round((placement[key] || 0) * 1000) / 10}
+        onChange={e => {
+          const value = parseFloat(e.target.value) || 0;
+          updatePlacement(selected!.id, { [key]: isDegrees ? value : value / 100 });
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Preview */}
+      <div className="glass-card p-6 flex flex-col items-center gap-4 backdrop-blur-md bg-black/60 rounded-xl border border-white/10">
+        <div className="flex gap-2">
+          {ASPECT_RATIOS.map(r => (
+            <button key={r} onClick={() => setRatio(r)} className={`px-3 py-2 border border-white/10 rounded font-mono text-[10px] ${ratio === r ? 'bg-purple-600 text-white' : 'bg-black/50 text-gray-400 hover:bg-white/5'}`}>{r}</button>
+          ))}
+        </div>
+        <canvas
+          ref={canvasRef}
+          width={previewWidth * 2}
+          height={previewHeight * 2}
+          style={{ width: previewWidth, height: previewHeight, touchAction: 'none' }}
+          className="rounded-lg border border-white/10 shadow-2xl cursor-move"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          onPointerCancel={() => { dragRef.current = null; }}
+        />
+        <p className="text-[9px] text-gray-500">* Positions are stored per aspect ratio. Ratios without their own position reuse the closest one.</p>
+      </div>
+
+      {/* Layers + Properties */}
+      <div className="glass-card p-6 flex flex-col gap-6 backdrop-blur-md bg-black/60 rounded-xl border border-white/10">
+        <div className="flex justify-between items-center border-b border-white/5 pb-4">
+          <h3 className="font-heading text-xl text-purple-400 uppercase italic">Layers</h3>
+          <div className="flex gap-2">
+            <button onClick={() => pickImage(null)} disabled={isUploading} className="px-3 py-2 border border-dashed border-white/20 rounded font-mono text-[10px] text-gray-300 hover:bg-white/5 uppercase">{isUploading ? 'Uploading...' : '+ Image'}</button>
+            <button onClick={() => addLayer('text')} className="px-3 py-2 border border-dashed border-white/20 rounded font-mono text-[10px] text-gray-300 hover:bg-white/5 uppercase">+ Text</button>
+            <button onClick={() => addLayer('qr')} className="px-3 py-2 border border-dashed border-white/20 rounded font-mono text-[10px] text-gray-300 hover:bg-white/5 uppercase">+ QR</button>
+          </div>
+          <input type="file" accept="image/png" className="hidden" ref={fileInputRef} onChange={handleImageUpload} />
+        </div>
+
+        {layers.length === 0 && (
+          <div className="flex flex-col gap-3">
+            <p className="text-[10px] text-gray-500 font-mono">No template. {legacyOverlay ? 'The single PNG overlay is used.' : 'Outputs have no overlay.'}</p>
+            {legacyOverlay && (
+              <button onClick={importLegacy} className="self-start px-4 py-2 bg-purple-600 rounded text-[10px] font-bold uppercase hover:bg-purple-500">Start From Current PNG Overlay</button>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          {/* Top layer first, like an image editor */}
+          {[...layers].reverse().map(layer => {
+            const index = layers.indexOf(layer);
+            return (
+              <div key={layer.id} onClick={() => setSelectedId(layer.id)} className={`flex items-center gap-2 p-2 rounded border cursor-pointer ${layer.id === selectedId ? 'border-purple-500 bg-purple-900/20' : 'border-white/5 bg-white/5 hover:border-white/20'}`}>
+                <span className="text-[8px] font-mono text-gray-500 uppercase w-10">{layer.type}</span>
+                <span className={`flex-1 text-xs font-bold uppercase truncate ${layer.visible ? 'text-white' : 'text-gray-600 line-through'}`}>{layer.name}</span>
+                <button onClick={e => { e.stopPropagation(); updateLayer(layer.id, { visible: !layer.visible }); }} className="px-2 py-1 text-[10px] text-gray-400 hover:text-white">{layer.visible ? 'HIDE' : 'SHOW'}</button>
+                <button onClick={e => { e.stopPropagation(); moveLayer(index, 1); }} disabled={index === layers.length - 1} className="px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-20">▲</button>
+                <button onClick={e => { e.stopPropagation(); moveLayer(index, -1); }} disabled={index === 0} className="px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-20">▼</button>
+                <button onClick={e => { e.stopPropagation(); commit(layers.filter(l => l.id !== layer.id)); }} className="px-2 py-1 text-xs text-red-500/60 hover:text-red-500">✕</button>
+              </div>
+            );
+          })}
+        </div>
+
+        {selected && (() => {
+          const placement = resolvePlacement(selected, ratio);
+          return (
+            <div className="flex flex-col gap-4 border-t border-white/5 pt-4">
+              <input
+                className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+                value={selected.name}
+                onChange={e => updateLayer(selected.id, { name: e.target.value })}
+              />
+              <div className="grid grid-cols-5 gap-2">
+                {percentInput('X %', 'x', placement)}
+                {percentInput('Y %', 'y', placement)}
+                {percentInput('W %', 'width', placement)}
+                {percentInput('H %', 'height', placement)}
+                {percentInput('Rot °', 'rotation', placement, true)}
+              </div>
+              <button onClick={() => updatePlacement(selected.id, {}, true)} className="self-start px-3 py-1 border border-white/10 rounded font-mono text-[10px] text-gray-400 hover:bg-white/5 uppercase">Use this position for all ratios</button>
+
+              {selected.type === 'image' && (
+                <button onClick={() => pickImage(selected.id)} disabled={isUploading} className="py-3 border-2 border-white/10 hover:border-purple-500 text-[10px] tracking-widest font-bold uppercase bg-white/5 rounded-lg transition-colors">
+                  {isUploading ? 'UPLOADING...' : 'REPLACE PNG'}
+                </button>
+              )}
+
+              {selected.type === 'text' && (
+                <div className="flex flex-col gap-3">
+                  <textarea
+                    className="bg-black/50 border border-white/10 p-3 font-mono text-xs text-white focus:border-purple-500 outline-none h-16 rounded"
+                    value={selected.text || ''}
+                    onChange={e => updateLayer(selected.id, { text: e.target.value })}
+                  />
+                  <p className="text-[9px] text-gray-500 font-mono">Tokens: {TEXT_TOKENS.join(' ')}</p>
+                  <div className="grid grid-cols-4 gap-2">
+                    <select value={selected.fontFamily || 'sans-serif'} onChange={e => updateLayer(selected.id, { fontFamily: e.target.value })} className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none rounded">
+                      {LAYER_FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                    <select value={selected.fontWeight || 'bold'} onChange={e => updateLayer(selected.id, { fontWeight: e.target.value as OverlayLayer['fontWeight'] })} className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none rounded">
+                      <option value="bold">Bold</option>
+                      <option value="normal">Normal</option>
+                    </select>
+                    <select value={selected.align || 'center'} onChange={e => updateLayer(selected.id, { align: e.target.value as OverlayLayer['align'] })} className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none rounded">
+                      <option value="left">Left</option>
+                      <option value="center">Center</option>
+                      <option value="right">Right</option>
+                    </select>
+                    <input type="color" value={selected.color || '#ffffff'} onChange={e => updateLayer(selected.id, { color: e.target.value })} className="w-full h-full bg-black/50 border border-white/10 rounded cursor-pointer" />
+                  </div>
+                  <p className="text-[9px] text-gray-500">* Font size follows the layer height.</p>
+                </div>
+              )}
+
+              {selected.type === 'qr' && (
+                <div className="flex flex-col gap-2">
+                  <input
+                    className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+                    value={selected.qrValue || ''}
+                    placeholder="{sessionUrl}"
+                    onChange={e => updateLayer(selected.id, { qrValue: e.target.value })}
+                  />
+                  <p className="text-[9px] text-gray-500">* {'{sessionUrl}'} links to the guest's session folder. Skipped when there is no session (fast mode / offline).</p>
+                </div>
+              )}
+            </div>
+          );
+        })()}
+
+        {layers.length > 0 && (
+          <button onClick={() => { onChange(null); setSelectedId(null); }} className="self-start px-4 py-2 border border-red-900/40 text-red-500 rounded text-[10px] font-bold uppercase hover:bg-red-900/10">Remove Template</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// datetime-local <-> ISO (activation windows are stored as ISO in the Events sheet)
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : '');
+
+// Create / edit form for one event (name, description, activation window, retention)
+const EventForm: React.FC<{
+  initial?: EventRecord;
+  submitLabel: string;
+  disabled?: boolean;
+  onSubmit: (input: EventInput) => void;
+  onCancel?: () => void;
+}> = ({ initial, submitLabel, disabled, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initial?.name || '');
+  const [description, setDescription] = useState(initial?.description || '');
+  const [startsAt, setStartsAt] = useState(toLocalInput(initial?.startsAt));
+  const [endsAt, setEndsAt] = useState(toLocalInput(initial?.endsAt));
+  const [retentionDays, setRetentionDays] = useState(initial?.retentionDays || 0);
+
+  const handleSubmit = () => {
+    if (!name.trim()) return alert('Event name is required');
+    if (startsAt && endsAt && new Date(endsAt) <= new Date(startsAt)) return alert('Window end must be after its start');
+    onSubmit({ name: name.trim(), description, startsAt: fromLocalInput(startsAt), endsAt: fromLocalInput(endsAt), retentionDays });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <input value={name} onChange={e => setName(e.target.value)} placeholder="EVENT NAME" className="bg-black/50 border border-white/10 p-3 rounded text-xs font-mono text-white outline-none focus:border-purple-500" />
+      <input value={description} onChange={e => setDescription(e.target.value)} placeholder="Description" className="bg-black/50 border border-white/10 p-3 rounded text-xs font-mono text-white outline-none focus:border-purple-500" />
+      <label className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase tracking-widest">
+        Auto-activate from (optional)
+        <input type="datetime-local" value={startsAt} onChange={e => setStartsAt(e.target.value)} className="bg-black/50 border border-white/10 p-3 rounded text-xs font-mono text-white outline-none focus:border-purple-500" />
+      </label>
+      <label className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase tracking-widest">
+        Until (optional)
+        <input type="datetime-local" value={endsAt} onChange={e => setEndsAt(e.target.value)} className="bg-black/50 border border-white/10 p-3 rounded text-xs font-mono text-white outline-none focus:border-purple-500" />
+      </label>
+      <label className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase tracking-widest">
+        Delete photos after (days, 0 = keep)
+        <input type="number" min={0} max={MAX_RETENTION_DAYS} value={retentionDays} onChange={e => setRetentionDays(clampRetentionDays(e.target.value))} className="bg-black/50 border border-white/10 p-3 rounded text-xs font-mono text-white outline-none focus:border-purple-500" />
+      </label>
+      <div className="flex gap-2 md:col-span-2">
+        <button disabled={disabled} onClick={handleSubmit} className="px-6 py-3 bg-purple-600 rounded text-[10px] font-bold uppercase tracking-widest hover:bg-purple-500 disabled:opacity-50">{submitLabel}</button>
+        {onCancel && <button onClick={onCancel} className="px-6 py-3 border border-white/10 rounded text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:bg-white/5">Cancel</button>}
+      </div>
+    </div>
+  );
+};
+
+const SCHEDULE_BADGES: Record<string, string> = {
+  live: 'bg-green-600',
+  scheduled: 'bg-blue-600',
+  ended: 'bg-gray-600'
+};
+
+const formatDuration = (ms: number | null) => (ms === null ? '—' : ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${(ms / 60000).toFixed(1)}m`);
+const formatRate = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+const BUDGET_LEVEL_LABEL: Record<BudgetLevel, string> = { ok: 'Within budget', soft: 'Soft cap hit: Ultra off', hard: 'Hard cap hit: video off, Flash only' };
+
+// Throughput view for one event (or all), computed from Gallery + Jobs rows by lib/analytics.ts
+const AnalyticsPanel: React.FC<{ events: EventRecord[]; settings: PhotoboothSettings }> = ({ events, settings }) => {
+  const [eventId, setEventId] = useState(settings.activeEventId || '');
+  const [analytics, setAnalytics] = useState<EventAnalytics | null>(null);
+  const [cost, setCost] = useState<EventCost | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetchAnalyticsData(eventId);
+      if (!res.ok) throw new Error(res.error || 'unknown error');
+      setAnalytics(computeAnalytics(res.rows || [], res.jobs || []));
+      setCost(computeEventCost(res.rows || [], settings));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { load(); }, [eventId]);
+
+  const label = eventId ? events.find(ev => ev.id === eventId)?.name || eventId : 'All events';
+
+  const handleExport = () => {
+    if (!analytics) return;
+    const url = URL.createObjectURL(new Blob([analyticsToCsv(analytics, label)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `analytics_${label.replace(/[^A-Za-z0-9]+/g, '_')}_${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Caps are per event profile, so the status only means something for the live event
+  const budget = cost && eventId && eventId === settings.activeEventId ? budgetStatus(cost.total, settings) : null;
+  const maxPerHour = Math.max(1, ...(analytics?.capturesPerHour.map(b => b.captures) || []));
+  const maxConcept = Math.max(1, ...(analytics?.concepts.map(c => c.results) || []));
+
+  return (
+    <div className="glass-card p-6 md:p-10 flex flex-col gap-6 backdrop-blur-md bg-black/60 rounded-xl border border-white/10">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 border-b border-white/5 pb-4">
+        <h3 className="font-heading text-xl text-cyan-400 uppercase italic">Analytics</h3>
+        <div className="flex gap-2 flex-wrap">
+          <select value={eventId} onChange={e => setEventId(e.target.value)} className="bg-black/50 border border-white/10 px-3 py-2 rounded font-mono text-[10px] text-white outline-none focus:border-cyan-500 uppercase">
+            <option value="">All events</option>
+            {events.map(ev => <option key={ev.id} value={ev.id}>{ev.name}{ev.archivedAt ? ' (archived)' : ''}</option>)}
+          </select>
+          <button disabled={isLoading} onClick={load} className="px-4 py-2 border border-white/10 rounded font-mono text-[10px] text-gray-400 hover:bg-white/5 uppercase disabled:opacity-50">{isLoading ? 'Loading...' : 'Refresh'}</button>
+          <button disabled={!analytics} onClick={handleExport} className="px-4 py-2 bg-cyan-700 rounded text-[10px] font-bold uppercase hover:bg-cyan-600 disabled:opacity-50">Export CSV</button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400 font-mono">Analytics failed: {error}</p>}
+
+      {analytics && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {([
+              ['Captures', analytics.captures],
+              ['Results', analytics.results],
+              ['Prints', analytics.prints],
+              ['Videos', analytics.videosRequested],
+              ['Deleted', analytics.deleted],
+              ['Purged', analytics.purged]
+            ] as const).map(([name, value]) => (
+              <div key={name} className="flex flex-col gap-1 p-4 bg-white/5 rounded-lg border border-white/5">
+                <span className="text-[9px] text-gray-500 uppercase tracking-widest">{name}</span>
+                <span className="text-2xl font-mono text-white">{value}</span>
+              </div>
+            ))}
+          </div>
+
+          {cost && (
+            <div className="flex flex-col gap-2 overflow-x-auto">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Estimated spend</span>
+                {budget && (
+                  <span className={`text-[10px] font-mono uppercase ${budget.level === 'ok' ? 'text-green-400' : budget.level === 'soft' ? 'text-yellow-400' : 'text-red-400'}`}>
+                    {BUDGET_LEVEL_LABEL[budget.level]}
+                    {budget.softCap > 0 && ` · soft ${formatUsd(budget.softCap)}`}
+                    {budget.hardCap > 0 && ` · hard ${formatUsd(budget.hardCap)}`}
+                  </span>
+                )}
+              </div>
+              <p className="text-2xl font-mono text-white">{formatUsd(cost.total)} <span className="text-[10px] text-gray-500">images {formatUsd(cost.image)} · video {formatUsd(cost.video)}</span></p>
+              {cost.models.length > 0 && (
+                <table className="w-full text-[10px] font-mono text-left">
+                  <thead className="text-gray-500 uppercase">
+                    <tr><th className="py-1">Model</th><th>Kind</th><th>Calls</th><th>Unit</th><th>Cost</th></tr>
+                  </thead>
+                  <tbody className="text-gray-300">
+                    {cost.models.map(m => (
+                      <tr key={`${m.kind}:${m.model}`} className="border-t border-white/5">
+                        <td className="py-1 text-white">{m.model}</td>
+                        <td className="uppercase">{m.kind}</td>
+                        <td>{m.calls}</td>
+                        <td>{m.unitCost === null ? <span className="text-yellow-400">no price</span> : formatUsd(m.unitCost)}</td>
+                        <td>{formatUsd(m.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <span className="text-[9px] text-gray-500">Estimate from gallery rows: successful model calls and started video renders, priced with the cost table in Settings.</span>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Captures per hour</span>
+            {analytics.capturesPerHour.length === 0 ? (
+              <span className="text-[10px] text-gray-500 font-mono">No captures yet.</span>
+            ) : (
+              <div className="flex items-end gap-1 h-40 overflow-x-auto pb-6">
+                {analytics.capturesPerHour.map(bucket => (
+                  <div key={bucket.hour} className="flex flex-col items-center justify-end h-full min-w-[18px] relative" title={`${new Date(bucket.hour).toLocaleString()}: ${bucket.captures}`}>
+                    <span className="text-[8px] text-gray-400 font-mono">{bucket.captures || ''}</span>
+                    <div className="w-3 bg-cyan-500/70 rounded-t" style={{ height: `${(bucket.captures / maxPerHour) * 100}%` }} />
+                    <span className="absolute -bottom-5 text-[8px] text-gray-500 font-mono">{new Date(bucket.hour).getHours()}h</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Concept popularity</span>
+            {analytics.concepts.map(concept => (
+              <div key={concept.name} className="flex items-center gap-3 text-[10px] font-mono">
+                <span className="w-40 shrink-0 text-white uppercase truncate">{concept.name}</span>
+                <div className="flex-1 h-2 bg-white/5 rounded">
+                  <div className="h-2 bg-purple-500 rounded" style={{ width: `${(concept.results / maxConcept) * 100}%` }} />
+                </div>
+                <span className="w-24 shrink-0 text-right text-gray-400">{concept.results} · {concept.prints} prints</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-2 overflow-x-auto">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Image models</span>
+            <table className="w-full text-[10px] font-mono text-left">
+              <thead className="text-gray-500 uppercase">
+                <tr><th className="py-1">Model</th><th>Results</th><th>Fast jobs</th><th>Failure</th><th>Avg fast job</th></tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {analytics.imageProviders.map(p => (
+                  <tr key={p.model} className="border-t border-white/5">
+                    <td className="py-1 text-white">{p.model}</td>
+                    <td>{p.results}</td>
+                    <td>{p.jobsDone} done / {p.jobsDead} dead</td>
+                    <td>{formatRate(p.failureRate)}</td>
+                    <td>{formatDuration(p.avgJobMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col gap-2 overflow-x-auto">
+            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Video models</span>
+            {analytics.videoProviders.length === 0 ? (
+              <span className="text-[10px] text-gray-500 font-mono">No videos requested.</span>
+            ) : (
+              <table className="w-full text-[10px] font-mono text-left">
+                <thead className="text-gray-500 uppercase">
+                  <tr><th className="py-1">Model</th><th>Requested</th><th>Done</th><th>Failed</th><th>Failure</th><th>Queue wait</th><th>Render</th><th>Total</th></tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {analytics.videoProviders.map(p => (
+                    <tr key={p.model} className="border-t border-white/5">
+                      <td className="py-1 text-white">{p.model}</td>
+                      <td>{p.requested}</td>
+                      <td>{p.done}</td>
+                      <td>{p.failed}</td>
+                      <td>{formatRate(p.failureRate)}</td>
+                      <td>{formatDuration(p.avgQueueMs)}</td>
+                      <td>{formatDuration(p.avgRenderMs)}</td>
+                      <td>{formatDuration(p.avgTotalMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      <p className="text-[9px] text-gray-500">* Captures count each photo once (regenerates are extra results). Generation time per image model is only recorded for fast mode jobs (queue + generate + upload). Video times come from the video status timeline; retries can skew them.</p>
+    </div>
+  );
+};
+
+const formatAgo = (iso: string) => {
+  const ms = Date.now() - new Date(iso).getTime();
+  if (!iso || isNaN(ms)) return 'never';
+  if (ms < 60000) return `${Math.max(Math.round(ms / 1000), 0)}s ago`;
+  if (ms < 3600000) return `${Math.round(ms / 60000)}m ago`;
+  return new Date(iso).toLocaleString();
+};
+
+const CAMERA_BADGES: Record<KioskRecord['camera'], string> = {
+  unknown: 'text-gray-500',
+  ready: 'text-green-400',
+  denied: 'text-red-400',
+  missing: 'text-red-400',
+  error: 'text-yellow-400'
+};
+
+const KIOSK_COMMAND_LABEL: Record<KioskCommandType, string> = {
+  reload: 'Reload',
+  switchEvent: 'Switch event',
+  lock: 'Lock',
+  unlock: 'Unlock',
+  clearCache: 'Clear cache'
+};
+
+// Registered tablets (heartbeat) + remote commands, delivered on each kiosk's next heartbeat
+const FleetPanel: React.FC<{ events: EventRecord[] }> = ({ events }) => {
+  const [kiosks, setKiosks] = useState<KioskRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [targetEvent, setTargetEvent] = useState<Record<string, string>>({});
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetchKiosks();
+      if (!res.ok) throw new Error(res.error || 'unknown error');
+      setKiosks((res.kiosks || []).sort((a, b) => Number(b.online) - Number(a.online) || a.name.localeCompare(b.name)));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    const timerId = setInterval(load, 15000);
+    return () => clearInterval(timerId);
+  }, []);
+
+  const send = async (kioskId: string, type: KioskCommandType, eventId?: string) => {
+    const target = kioskId === '*' ? 'ALL kiosks' : kioskId;
+    if ((type === 'reload' || type === 'clearCache') && !confirm(`${KIOSK_COMMAND_LABEL[type]} ${target}? A guest mid-session finishes first.`)) return;
+    const res = await sendKioskCommand(kioskId, { type, eventId });
+    if (!res.ok) return alert(`Command failed: ${res.error}`);
+    if (res.skipped && res.skipped.length > 0) alert(`Skipped (command queue full): ${res.skipped.join(', ')}`);
+    load();
+  };
+
+  const handleRemove = async (kiosk: KioskRecord) => {
+    if (!confirm(`Remove ${kiosk.name} from the fleet list? It re-appears if it is still running.`)) return;
+    const res = await removeKiosk(kiosk.id);
+    if (!res.ok) return alert(`Remove failed: ${res.error}`);
+    load();
+  };
+
+  const eventName = (id: string) => events.find(ev => ev.id === id)?.name || id || '—';
+  const liveEvents = events.filter(ev => !ev.archivedAt);
+
+  return (
+    <div className="glass-card p-6 md:p-10 flex flex-col gap-6 backdrop-blur-md bg-black/60 rounded-xl border border-white/10">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 border-b border-white/5 pb-4">
+        <h3 className="font-heading text-xl text-cyan-400 uppercase italic">Kiosk Fleet</h3>
+        <div className="flex gap-2 flex-wrap">
+          <button disabled={isLoading} onClick={load} className="px-4 py-2 border border-white/10 rounded font-mono text-[10px] text-gray-400 hover:bg-white/5 uppercase disabled:opacity-50">{isLoading ? 'Loading...' : 'Refresh'}</button>
+          <button disabled={kiosks.length === 0} onClick={() => send('*', 'lock')} className="px-4 py-2 border border-yellow-700/50 text-yellow-400 rounded text-[10px] font-bold uppercase hover:bg-yellow-900/20 disabled:opacity-50">Lock all</button>
+          <button disabled={kiosks.length === 0} onClick={() => send('*', 'unlock')} className="px-4 py-2 border border-white/10 text-gray-300 rounded text-[10px] font-bold uppercase hover:bg-white/5 disabled:opacity-50">Unlock all</button>
+          <button disabled={kiosks.length === 0} onClick={() => send('*', 'reload')} className="px-4 py-2 bg-cyan-700 rounded text-[10px] font-bold uppercase hover:bg-cyan-600 disabled:opacity-50">Reload all</button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400 font-mono">Fleet failed: {error}</p>}
+      {!error && kiosks.length === 0 && !isLoading && (
+        <p className="text-[10px] text-gray-500 font-mono">No kiosk has checked in yet. Kiosks register themselves on their first heartbeat after loading the app.</p>
+      )}
+
+      <div className="flex flex-col gap-3">
+        {kiosks.map(kiosk => (
+          <div key={kiosk.id} className={`flex flex-col gap-3 p-4 rounded-lg border ${kiosk.online ? 'border-white/10 bg-white/5' : 'border-white/5 bg-black/40 opacity-60'}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-3">
+                <div className={`w-2 h-2 rounded-full ${kiosk.online ? 'bg-green-500' : 'bg-gray-600'}`} />
+                <span className="text-sm font-bold text-white uppercase">{kiosk.name}</span>
+                {kiosk.name !== kiosk.id && <span className="text-[9px] font-mono text-gray-500">{kiosk.id}</span>}
+                {kiosk.locked && <span className="px-2 py-0.5 bg-yellow-700 rounded text-[8px] font-bold uppercase">Locked</span>}
+              </div>
+              <span className="text-[9px] font-mono text-gray-500 uppercase">{kiosk.online ? 'online' : 'offline'} · seen {formatAgo(kiosk.lastSeen)}</span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-[10px] font-mono text-gray-300">
+              <span><span className="text-gray-500">VER </span>{kiosk.appVersion || '—'} · cfg v{kiosk.configVersion}</span>
+              <span><span className="text-gray-500">BATT </span>{kiosk.battery === null ? '—' : `${kiosk.battery}%${kiosk.charging ? ' ⚡' : ''}`}</span>
+              <span title={kiosk.cameraError}><span className="text-gray-500">CAM </span><span className={`uppercase ${CAMERA_BADGES[kiosk.camera]}`}>{kiosk.camera}</span></span>
+              <span><span className="text-gray-500">QUEUE </span>{kiosk.queueDepth}{kiosk.outboxPending > 0 && ` · ${kiosk.outboxPending} unsynced`}</span>
+              <span className="truncate"><span className="text-gray-500">PAGE </span>{kiosk.page || '—'}</span>
+              <span className="truncate" title={kiosk.pinnedEventId ? 'Pinned by switch event' : 'Follows the active event'}>
+                <span className="text-gray-500">EVENT </span>{eventName(kiosk.eventId)}{kiosk.pinnedEventId && ' 📌'}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => send(kiosk.id, 'reload')} className="px-3 py-2 border border-white/10 rounded text-[9px] font-bold uppercase text-gray-300 hover:bg-white/5">Reload</button>
+              <button onClick={() => send(kiosk.id, kiosk.locked ? 'unlock' : 'lock')} className="px-3 py-2 border border-yellow-700/50 rounded text-[9px] font-bold uppercase text-yellow-400 hover:bg-yellow-900/20">{kiosk.locked ? 'Unlock' : 'Lock to landing'}</button>
+              <button onClick={() => send(kiosk.id, 'clearCache')} className="px-3 py-2 border border-white/10 rounded text-[9px] font-bold uppercase text-gray-300 hover:bg-white/5">Clear cache</button>
+              <select
+                value={targetEvent[kiosk.id] ?? kiosk.pinnedEventId}
+                onChange={e => setTargetEvent({ ...targetEvent, [kiosk.id]: e.target.value })}
+                className="bg-black/50 border border-white/10 px-2 py-2 rounded font-mono text-[9px] text-white outline-none focus:border-cyan-500 uppercase"
+              >
+                <option value="">Follow active event</option>
+                {liveEvents.map(ev => <option key={ev.id} value={ev.id}>{ev.name}</option>)}
+              </select>
+              <button onClick={() => send(kiosk.id, 'switchEvent', targetEvent[kiosk.id] ?? kiosk.pinnedEventId)} className="px-3 py-2 bg-cyan-700 rounded text-[9px] font-bold uppercase hover:bg-cyan-600">Switch event</button>
+              <button onClick={() => handleRemove(kiosk)} className="ml-auto px-3 py-2 border border-red-900/40 rounded text-[9px] font-bold uppercase text-red-500 hover:bg-red-900/10">Remove</button>
+            </div>
+
+            {(kiosk.pendingCommands.length > 0 || kiosk.lastCommand) && (
+              <span className="text-[9px] font-mono text-gray-500">
+                {kiosk.pendingCommands.length > 0 && `Pending: ${kiosk.pendingCommands.map(c => KIOSK_COMMAND_LABEL[c.type]).join(', ')}. `}
+                {kiosk.lastCommand && `Last delivered: ${KIOSK_COMMAND_LABEL[kiosk.lastCommand.type]} ${formatAgo(kiosk.lastCommand.deliveredAt)}`}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[9px] text-gray-500">* Kiosks check in every 30s and count as offline after 90s of silence. Commands run on the kiosk's next check-in; reload, clear cache and switch event wait until a guest's generation is done. Switch event pins only that tablet (photos go to that event's folder) until switched back to "Follow active event"; settings still come from the active event's profile. Clear cache keeps unsynced photos.</p>
+    </div>
+  );
+};
+
+// Fill fields older configs (cloud, localStorage, event profiles) may not have
+const withSettingDefaults = (source: PhotoboothSettings): PhotoboothSettings => {
+  const merged = { ...source };
+  if (merged.cameraRotation === undefined) merged.cameraRotation = 0;
+  if (!merged.selectedModel) merged.selectedModel = 'gemini-2.5-flash-image';
+  if (!merged.outputRatio) merged.outputRatio = '9:16';
+  if (merged.folderId === undefined) merged.folderId = '';
+  if (merged.originalFolderId === undefined) merged.originalFolderId = '';
+  if (merged.spreadsheetId === undefined) merged.spreadsheetId = '';
+  if (merged.videoPrompt === undefined) merged.videoPrompt = 'Cinematic slow motion, subtle movement, 4k high quality, looping background';
+  // Default boothMode to video if undefined (migration)
+  if (merged.boothMode === undefined) merged.boothMode = 'video';
+  if (!merged.monitorImageSize) merged.monitorImageSize = 'medium';
+  if (!merged.monitorTheme) merged.monitorTheme = 'physics';
+  if (merged.enableOpenAI === undefined) merged.enableOpenAI = false;
+  if (!merged.gptModelSize) merged.gptModelSize = '1024';
+  if (!merged.processingMode) merged.processingMode = 'normal';
+  if (!merged.videoResolution) merged.videoResolution = '480p'; // Default 480p
+  if (!merged.videoModel) merged.videoModel = 'seedance-1-0-pro-fast-251015'; // Default Model
+  if (merged.backgroundVideoUrl === undefined) merged.backgroundVideoUrl = null;
+  if (merged.promptMode === undefined) merged.promptMode = 'wrapped'; // Default prompt mode
+  if (merged.enableModelShortcut === undefined) merged.enableModelShortcut = false; // Default off
+  if (merged.enablePrint === undefined) merged.enablePrint = false; // Default off
+  if (merged.requireConsent === undefined) merged.requireConsent = false;
+  if (!merged.consentText) merged.consentText = DEFAULT_SETTINGS.consentText;
+  if (!merged.guestDelivery) merged.guestDelivery = 'off';
+  if (!merged.modelCosts) merged.modelCosts = {};
+  if (merged.budgetSoftCap === undefined) merged.budgetSoftCap = 0;
+  if (merged.budgetHardCap === undefined) merged.budgetHardCap = 0;
+  return merged;
+};
+
+const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSettings, onSaveConcepts, onBack, onLaunchMonitor, configVersion }) => {
+  const [isAuthenticated, setIsAuthenticated] = useState(AdminSession.isActive());
   const [pin, setPin] = useState('');
+  const [isSetupMode, setIsSetupMode] = useState(false); // No PIN on the backend yet: first login sets it
+  const [loginMessage, setLoginMessage] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [pinChange, setPinChange] = useState({ current: '', next: '', confirm: '' });
   const [localSettings, setLocalSettings] = useState(settings);
   const [localConcepts, setLocalConcepts] = useState(concepts);
   const [gasUrl, setGasUrl] = useState('');
-  const [activeTab, setActiveTab] = useState<'settings' | 'concepts'>('settings');
+  const [storageBackend, setStorageBackend] = useState<StorageBackendId>(getStorageBackendId());
+  const [kioskCredentials, setKioskCredentialsState] = useState(getKioskCredentials());
+  const [kioskName, setKioskNameState] = useState(getKioskName());
+  const [activeTab, setActiveTab] = useState<'settings' | 'overlay' | 'concepts' | 'events' | 'jobs' | 'analytics' | 'fleet'>('settings');
+  const [deadJobs, setDeadJobs] = useState<ImageJob[]>([]);
   const [isUploadingOverlay, setIsUploadingOverlay] = useState(false);
   const [isUploadingBackground, setIsUploadingBackground] = useState(false);
   const [isUploadingAudio, setIsUploadingAudio] = useState(false);
   const [isSavingConcepts, setIsSavingConcepts] = useState(false);
+  // Event profiles: null = editor bound to the live config, otherwise saves go to that event's profile
+  const [events, setEvents] = useState<EventRecord[]>([]);
+  const [profileEvent, setProfileEvent] = useState<EventRecord | null>(null);
+  const [historyEventId, setHistoryEventId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<EventProfileRevision[]>([]);
+  const [isEventBusy, setIsEventBusy] = useState(false);
+  const [editingEventId, setEditingEventId] = useState<string | null>(null);
+  const [archiveConfirmId, setArchiveConfirmId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [purgeLog, setPurgeLog] = useState<PurgeLogEntry[] | null>(null); // null = not loaded yet
+  const [isPurging, setIsPurging] = useState(false);
 
   const overlayInputRef = useRef<HTMLInputElement>(null);
   const backgroundInputRef = useRef<HTMLInputElement>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
 
+  // Token rejected by the backend (expired / PIN changed elsewhere) -> back to the PIN screen
+  useEffect(() => AdminSession.subscribe(setIsAuthenticated), []);
+
   // Initialize GAS URL
   useEffect(() => {
     const savedUrl = localStorage.getItem('APPS_SCRIPT_BASE_URL') || DEFAULT_GAS_URL;
     setGasUrl(savedUrl);
   }, []);
 
+  // Dead-letter list (fast mode jobs that exhausted their retries)
+  const refreshDeadJobs = () => {
+    JobQueue.listDeadLetters().then(setDeadJobs).catch(() => setDeadJobs([]));
+  };
+
+  useEffect(() => {
+    if (activeTab !== 'jobs') return;
+    refreshDeadJobs();
+    return JobQueue.subscribe(() => refreshDeadJobs());
+  }, [activeTab]);
+
+  const refreshEvents = () => {
+    fetchEvents().then(setEvents).catch(() => setEvents([]));
+  };
+
+  useEffect(() => {
+    if (activeTab === 'events' || activeTab === 'analytics' || activeTab === 'fleet') refreshEvents();
+  }, [activeTab]);
+
   // Sync Local Concepts with Props ONLY when Props change (e.g. initial load or parent update)
   useEffect(() => {
     setLocalConcepts(concepts);
@@ -49,48 +964,55 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
 
   // Sync Local Settings with Props ONLY when Props change
   useEffect(() => {
-    setLocalSettings(prev => {
-      // Merge current settings with defaults to ensure all fields exist
-      const merged = { ...settings };
-      if (merged.cameraRotation === undefined) merged.cameraRotation = 0;
-      if (!merged.selectedModel) merged.selectedModel = 'gemini-2.5-flash-image';
-      if (!merged.outputRatio) merged.outputRatio = '9:16';
-      if (merged.folderId === undefined) merged.folderId = '';
-      if (merged.originalFolderId === undefined) merged.originalFolderId = '';
-      if (merged.spreadsheetId === undefined) merged.spreadsheetId = '';
-      if (merged.videoPrompt === undefined) merged.videoPrompt = 'Cinematic slow motion, subtle movement, 4k high quality, looping background';
-      // Default boothMode to video if undefined (migration)
-      if (merged.boothMode === undefined) merged.boothMode = 'video';
-      if (!merged.monitorImageSize) merged.monitorImageSize = 'medium';
-      if (!merged.monitorTheme) merged.monitorTheme = 'physics';
-      if (!merged.adminPin) merged.adminPin = '1234';
-      if (merged.enableOpenAI === undefined) merged.enableOpenAI = false;
-      if (!merged.gptModelSize) merged.gptModelSize = '1024';
-      if (!merged.processingMode) merged.processingMode = 'normal';
-      if (!merged.videoResolution) merged.videoResolution = '480p'; // Default 480p
-      if (!merged.videoModel) merged.videoModel = 'seedance-1-0-pro-fast-251015'; // Default Model
-      if (merged.backgroundVideoUrl === undefined) merged.backgroundVideoUrl = null;
-      if (merged.promptMode === undefined) merged.promptMode = 'wrapped'; // Default prompt mode
-      if (merged.enableModelShortcut === undefined) merged.enableModelShortcut = false; // Default off
-      if (merged.enablePrint === undefined) merged.enablePrint = false; // Default off
-      return merged;
-    });
+    setLocalSettings(withSettingDefaults(settings));
   }, [settings]);
 
-  const handleLogin = () => {
-    if (pin === settings.adminPin) {
-      setIsAuthenticated(true);
-    } else {
-      alert('INVALID SECURITY PIN');
+  const describeLoginError = (res: LoginResult) => {
+    if (res.error === AUTH_LOCKED) return `Too many attempts. Locked until ${new Date(res.lockedUntil || '').toLocaleTimeString()}`;
+    if (res.attemptsLeft !== undefined) return `INVALID SECURITY PIN (${res.attemptsLeft} attempts left)`;
+    return res.error || 'Login failed';
+  };
+
+  const handleLogin = async () => {
+    if (isLoggingIn) return;
+    if (isSetupMode) {
+      const pinError = validateNewPin(pin);
+      if (pinError) return setLoginMessage(pinError);
+    }
+    setIsLoggingIn(true);
+    try {
+      const res = isSetupMode ? await AdminSession.setupPin(pin) : await AdminSession.login(pin);
+      if (res.ok) {
+        setLoginMessage('');
+        setIsSetupMode(false);
+      } else if (res.error === AUTH_SETUP_REQUIRED) {
+        setIsSetupMode(true);
+        setLoginMessage(`No admin PIN configured yet. Choose a PIN (min. ${MIN_PIN_LENGTH} digits).`);
+      } else {
+        setLoginMessage(describeLoginError(res));
+      }
+    } finally {
       setPin('');
+      setIsLoggingIn(false);
     }
   };
 
+  const handleChangePin = async () => {
+    if (pinChange.next !== pinChange.confirm) return alert('New PIN and confirmation do not match');
+    const pinError = validateNewPin(pinChange.next);
+    if (pinError) return alert(pinError);
+    const res = await AdminSession.changePin(pinChange.current, pinChange.next);
+    setPinChange({ current: '', next: '', confirm: '' });
+    alert(res.ok ? 'PIN changed. Other admin sessions have been signed out.' : describeLoginError(res));
+  };
+
   const handleSaveSettings = async () => {
     localStorage.setItem('APPS_SCRIPT_BASE_URL', gasUrl);
-    // Note: We send settings.adminPin (the OLD one) for authentication, 
-    // but the body contains localSettings which has the NEW adminPin.
-    const ok = await saveSettingsToGas(localSettings, settings.adminPin);
+    setStorageBackendId(storageBackend);
+    setKioskCredentials(kioskCredentials);
+    setKioskName(kioskName);
+    if (profileEvent) return handleSaveProfile();
+    const ok = await saveSettingsToGas(localSettings);
     if (ok) {
       onSaveSettings(localSettings);
       alert('Settings saved and synced to cloud');
@@ -133,6 +1055,10 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
     setLocalConcepts(prev => prev.map((c, i) => i === index ? { ...c, [field]: value } : c));
   };
 
+  const handleConceptChainChange = (index: number, chain: FallbackStep[]) => {
+    setLocalConcepts(prev => prev.map((c, i) => i === index ? { ...c, fallbackChain: chain } : c));
+  };
+
   const handleThumbChange = (index: number, base64: string) => {
     setLocalConcepts(prev => prev.map((c, i) => i === index ? { ...c, thumbnail: base64 } : c));
   };
@@ -154,7 +1080,8 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
   const handleSyncConcepts = async () => {
     setIsSavingConcepts(true);
     try {
-      const ok = await saveConceptsToGas(localConcepts, settings.adminPin);
+      if (profileEvent) return await handleSaveProfile();
+      const ok = await saveConceptsToGas(localConcepts);
       if (ok) {
         onSaveConcepts(localConcepts);
         alert('All concepts updated on cloud and local archive');
@@ -166,6 +1093,156 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
     }
   };
 
+  // --- EVENT PROFILES ---
+
+  // Settings + concepts in the editor become a new revision of the event being edited
+  const handleSaveProfile = async () => {
+    if (!profileEvent) return;
+    const res = await saveEventProfile(profileEvent.id, { settings: toProfileSettings(localSettings), concepts: localConcepts });
+    if (!res.ok) {
+      alert(`Profile save failed: ${res.error || 'unknown error'}`);
+      return;
+    }
+    if (res.applied) {
+      onSaveSettings(applyEventProfile(settings, profileEvent, { settings: localSettings, concepts: localConcepts }));
+      onSaveConcepts(localConcepts);
+    }
+    setProfileEvent(prev => prev ? { ...prev, profileRevision: res.revision } : prev);
+    if (historyEventId === profileEvent.id) handleShowHistory(profileEvent.id);
+    alert(`Saved as revision r${res.revision} of "${profileEvent.name}"${res.applied ? ' (live now)' : ''}`);
+  };
+
+  const handleEditProfile = async (event: EventRecord, revision?: number) => {
+    setIsEventBusy(true);
+    try {
+      const res = await fetchEventProfile(event.id, revision);
+      if (!res.ok) {
+        alert(`Could not load profile: ${res.error || 'unknown error'}`);
+        return;
+      }
+      if (res.profile) {
+        setLocalSettings(withSettingDefaults(applyEventProfile(settings, event, res.profile)));
+        setLocalConcepts(res.profile.concepts);
+      } else {
+        // No snapshot yet: start from the live config, first save creates r1
+        setLocalSettings(withSettingDefaults(applyEventProfile(settings, event, null)));
+        setLocalConcepts(concepts);
+      }
+      setProfileEvent(event);
+      setActiveTab('settings');
+    } finally {
+      setIsEventBusy(false);
+    }
+  };
+
+  const handleBackToLive = () => {
+    setProfileEvent(null);
+    setLocalSettings(withSettingDefaults(settings));
+    setLocalConcepts(concepts);
+  };
+
+  const handleActivateEvent = async (event: EventRecord) => {
+    setIsEventBusy(true);
+    try {
+      const res = await activateEvent(event.id);
+      if (!res.ok || !res.event) {
+        alert(`Activation failed: ${res.error || 'unknown error'}`);
+        return;
+      }
+      onSaveSettings(applyEventProfile(settings, res.event, res.profile || null));
+      if (res.profile) onSaveConcepts(res.profile.concepts);
+      if (profileEvent) setProfileEvent(prev => prev ? { ...prev, isActive: prev.id === event.id } : prev);
+      refreshEvents();
+      alert(res.profile ? `"${event.name}" is live (profile r${res.revision})` : `"${event.name}" is live (no saved profile, current settings kept)`);
+    } finally {
+      setIsEventBusy(false);
+    }
+  };
+
+  const handleShowHistory = (eventId: string) => {
+    setHistoryEventId(eventId);
+    fetchEventProfile(eventId).then(res => setRevisions(res.ok ? [...(res.revisions || [])].reverse() : []));
+  };
+
+  const handleRestoreRevision = async (event: EventRecord, revision: number) => {
+    setIsEventBusy(true);
+    try {
+      const res = await restoreEventRevision(event.id, revision);
+      if (!res.ok || !res.profile) {
+        alert(`Restore failed: ${res.error || 'unknown error'}`);
+        return;
+      }
+      if (res.applied) {
+        onSaveSettings(applyEventProfile(settings, event, res.profile));
+        onSaveConcepts(res.profile.concepts);
+      }
+      refreshEvents();
+      handleShowHistory(event.id);
+      alert(`r${revision} restored as r${res.revision}${res.applied ? ' (live now)' : ''}`);
+    } finally {
+      setIsEventBusy(false);
+    }
+  };
+
+  const handleCreateEvent = async (input: EventInput) => {
+    setIsEventBusy(true);
+    try {
+      const res = await createEvent(input);
+      if (!res.ok) return alert(`Create failed: ${res.error || 'unknown error'}`);
+      refreshEvents();
+      alert(`Event "${input.name}" created with its own folder. Use Edit Profile to prepare its settings.`);
+    } finally {
+      setIsEventBusy(false);
+    }
+  };
+
+  const handleUpdateEvent = async (id: string, input: EventInput) => {
+    setIsEventBusy(true);
+    try {
+      const res = await updateEvent({ id, ...input });
+      if (!res.ok || !res.event) return alert(`Update failed: ${res.error || 'unknown error'}`);
+      if (res.event.isActive) onSaveSettings(applyEventProfile(settings, res.event, null));
+      setEditingEventId(null);
+      refreshEvents();
+    } finally {
+      setIsEventBusy(false);
+    }
+  };
+
+  const refreshPurgeLog = async () => {
+    const res = await fetchPurgeLog();
+    if (res.ok) setPurgeLog(res.entries || []);
+    else alert(`Purge log failed: ${res.error || 'unknown error'}`);
+  };
+
+  const handleRunPurge = async () => {
+    setIsPurging(true);
+    try {
+      const res = await runRetentionPurge();
+      if (!res.ok) return alert(`Purge failed: ${res.error || 'unknown error'}`);
+      alert(`${res.purged || 0} items purged${res.hasMore ? ' (more remaining, run again)' : ''}`);
+      refreshPurgeLog();
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  // Two-step button instead of window.confirm (blocked in kiosk mode)
+  const handleArchiveEvent = async (event: EventRecord) => {
+    if (archiveConfirmId !== event.id) return setArchiveConfirmId(event.id);
+    setArchiveConfirmId(null);
+    setIsEventBusy(true);
+    try {
+      const res = await archiveEvent(event.id);
+      if (!res.ok) return alert(`Archive failed: ${res.error || 'unknown error'}`);
+      if (profileEvent?.id === event.id) handleBackToLive();
+      refreshEvents();
+      alert(`"${event.name}" archived (${res.archived} gallery items moved to GalleryArchive)`);
+    } finally {
+      setIsEventBusy(false);
+    }
+  };
+
   if (!isAuthenticated) {
     return (
       <div className="w-full min-h-screen flex flex-col items-center justify-center p-6 bg-transparent">
@@ -179,7 +1256,8 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
             onChange={(e) => setPin(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
           />
-          <button onClick={handleLogin} className="w-full py-5 bg-purple-600 font-heading tracking-widest uppercase rounded-lg hover:bg-purple-500 transition-colors">AUTHORIZE</button>
+          {loginMessage && <p className="text-[10px] text-red-400 font-mono text-center uppercase tracking-wider">{loginMessage}</p>}
+          <button onClick={handleLogin} disabled={isLoggingIn} className="w-full py-5 bg-purple-600 font-heading tracking-widest uppercase rounded-lg hover:bg-purple-500 transition-colors disabled:opacity-50">{isLoggingIn ? 'CHECKING...' : isSetupMode ? 'SET PIN' : 'AUTHORIZE'}</button>
           <button onClick={onBack} className="text-gray-400 hover:text-white uppercase text-[10px] tracking-widest transition-colors">Back</button>
         </div>
       </div>
@@ -189,9 +1267,20 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
   return (
     <div className="w-full min-h-screen flex flex-col p-6 md:p-10 bg-transparent overflow-y-auto">
       <div className="flex flex-col md:flex-row justify-between items-center mb-10 max-w-7xl mx-auto w-full border-b border-white/5 pb-10 gap-8 bg-black/40 backdrop-blur-md p-6 rounded-xl">
-        <h2 className="text-2xl font-heading text-white neon-text italic uppercase">SYSTEM_ROOT</h2>
+        <div className="flex flex-col items-center md:items-start gap-1">
+          <h2 className="text-2xl font-heading text-white neon-text italic uppercase">SYSTEM_ROOT</h2>
+          {configVersion && (
+            <span
+              className={`text-[9px] font-mono uppercase tracking-widest ${configVersion.latest !== configVersion.applied ? 'text-yellow-400' : 'text-gray-500'}`}
+              title="Settings, concepts and events. Other kiosks pick up a new version when they are back on the landing page."
+            >
+              Config v{configVersion.applied}
+              {configVersion.latest !== configVersion.applied && ` · v${configVersion.latest} applies on landing`}
+            </span>
+          )}
+        </div>
         <div className="flex bg-white/5 p-1 rounded-xl">
-          {(['settings', 'concepts'] as const).map(tab => (
+          {(['settings', 'overlay', 'concepts', 'events', 'jobs', 'analytics', 'fleet'] as const).map(tab => (
             <button 
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -201,7 +1290,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
             </button>
           ))}
         </div>
-        <button onClick={() => setIsAuthenticated(false)} className="px-10 py-4 border-2 border-red-900/40 text-red-500 uppercase tracking-widest text-xs italic hover:bg-red-900/10 rounded-lg transition-colors">Disconnect</button>
+        <button onClick={() => AdminSession.logout()} className="px-10 py-4 border-2 border-red-900/40 text-red-500 uppercase tracking-widest text-xs italic hover:bg-red-900/10 rounded-lg transition-colors">Disconnect</button>
       </div>
 
       <div className="max-w-7xl mx-auto w-full pb-24">
@@ -216,6 +1305,18 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
            </button>
         </div>
 
+        {profileEvent && (
+          <div className="flex flex-col md:flex-row items-center justify-between gap-4 mb-8 p-4 bg-yellow-900/30 border border-yellow-500/40 rounded-xl backdrop-blur-md">
+            <div className="flex flex-col gap-1">
+              <span className="text-xs font-bold text-yellow-300 uppercase tracking-widest">Editing Event Profile: {profileEvent.name}</span>
+              <span className="text-[10px] text-yellow-100/70 font-mono">
+                {profileEvent.isActive ? 'This event is LIVE: saving applies to all kiosks.' : 'Not live: saving only updates the profile, kiosks are unaffected until it is activated.'}
+              </span>
+            </div>
+            <button onClick={handleBackToLive} className="px-6 py-3 border border-yellow-500/40 text-yellow-200 rounded-lg text-[10px] font-bold uppercase tracking-widest hover:bg-yellow-500/10">Back To Live Config</button>
+          </div>
+        )}
+
         {activeTab === 'settings' && (
           <div className="flex flex-col gap-10">
             {/* ... Existing Settings Code ... */}
@@ -229,7 +1330,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                   {/* Booth Mode Selector */}
                   <div className="flex flex-col gap-2">
                      <label className="text-[10px] text-purple-400 uppercase tracking-widest font-bold">BOOTH MODE</label>
-                     <div className="grid grid-cols-2 gap-3">
+                     <div className="grid grid-cols-3 gap-3">
                         <button
                           onClick={() => setLocalSettings({...localSettings, boothMode: 'photo'})}
                           className={`py-3 border border-white/10 rounded font-mono text-xs transition-all uppercase flex flex-col items-center gap-1 ${localSettings.boothMode === 'photo' ? 'bg-pink-600 text-white shadow-lg border-pink-400' : 'bg-black/50 text-gray-400 hover:bg-white/5'}`}
@@ -244,7 +1345,27 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                           <span className="font-bold">VIDEOBOOTH MODE</span>
                           <span className="text-[8px] opacity-60">Photos + Video</span>
                         </button>
+                        <button
+                          onClick={() => setLocalSettings({...localSettings, boothMode: 'boomerang'})}
+                          className={`py-3 border border-white/10 rounded font-mono text-xs transition-all uppercase flex flex-col items-center gap-1 ${localSettings.boothMode === 'boomerang' ? 'bg-amber-600 text-white shadow-lg border-amber-400' : 'bg-black/50 text-gray-400 hover:bg-white/5'}`}
+                        >
+                          <span className="font-bold">BOOMERANG MODE</span>
+                          <span className="text-[8px] opacity-60">Looping GIF + Video</span>
+                        </button>
                      </div>
+                     {localSettings.boothMode === 'boomerang' && (
+                        <div className="flex items-center justify-between gap-3 mt-1">
+                          <span className="text-[9px] text-gray-400 uppercase">AI Keyframes ({MIN_KEYFRAMES}-{MAX_KEYFRAMES}, 1 generation each)</span>
+                          <input
+                            type="number"
+                            min={MIN_KEYFRAMES}
+                            max={MAX_KEYFRAMES}
+                            className="w-20 bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-amber-500 rounded"
+                            value={localSettings.boomerangKeyframes || 4}
+                            onChange={e => setLocalSettings({...localSettings, boomerangKeyframes: clampKeyframes(Number(e.target.value))})}
+                          />
+                        </div>
+                     )}
                   </div>
 
                   <div className="h-px bg-white/10 w-full my-1"></div>
@@ -276,6 +1397,64 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                   </p>
                 </div>
 
+                {/* Multi-shot Capture */}
+                <div className="flex flex-col gap-3">
+                  <label className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Capture Mode</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => setLocalSettings({...localSettings, captureMode: 'single'})}
+                      className={`py-3 border border-white/10 rounded font-mono text-xs transition-all uppercase flex flex-col items-center gap-1 ${localSettings.captureMode !== 'multi' ? 'bg-purple-600 text-white shadow-lg border-purple-400' : 'bg-black/50 text-gray-400 hover:bg-white/5'}`}
+                    >
+                       <span className="font-bold">SINGLE SHOT</span>
+                       <span className="text-[8px] opacity-60">One Photo</span>
+                    </button>
+                    <button
+                      onClick={() => setLocalSettings({...localSettings, captureMode: 'multi'})}
+                      className={`py-3 border border-white/10 rounded font-mono text-xs transition-all uppercase flex flex-col items-center gap-1 ${localSettings.captureMode === 'multi' ? 'bg-purple-600 text-white shadow-lg border-purple-400' : 'bg-black/50 text-gray-400 hover:bg-white/5'}`}
+                    >
+                       <span className="font-bold">PHOTO STRIP</span>
+                       <span className="text-[8px] opacity-60">Multi-shot Collage</span>
+                    </button>
+                  </div>
+                  {localSettings.captureMode === 'multi' && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="flex flex-col gap-1">
+                        <span className="text-[9px] text-gray-500 uppercase">Shots ({MIN_SHOTS}-{MAX_SHOTS})</span>
+                        <input
+                          type="number"
+                          min={MIN_SHOTS}
+                          max={MAX_SHOTS}
+                          className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+                          value={localSettings.shotCount || 4}
+                          onChange={e => setLocalSettings({...localSettings, shotCount: Math.min(MAX_SHOTS, Math.max(MIN_SHOTS, Number(e.target.value) || MIN_SHOTS))})}
+                        />
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        <span className="text-[9px] text-gray-500 uppercase">Layout</span>
+                        <select
+                          value={localSettings.stripLayout || 'strip'}
+                          onChange={e => setLocalSettings({...localSettings, stripLayout: e.target.value as StripLayout})}
+                          className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+                        >
+                          {STRIP_LAYOUT_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        <span className="text-[9px] text-gray-500 uppercase">Concepts</span>
+                        <select
+                          value={localSettings.shotConcepts || 'same'}
+                          onChange={e => setLocalSettings({...localSettings, shotConcepts: e.target.value as 'same' | 'cycle'})}
+                          className="bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-purple-500 rounded"
+                        >
+                          <option value="same">Same for all</option>
+                          <option value="cycle">Different per shot</option>
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-[9px] text-gray-500">* Photo strips are always processed in the foreground (fast mode applies to single shots only).</p>
+                </div>
+
                 {/* Event Identity Inputs */}
                 <div className="flex flex-col gap-3">
                   <label className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Event Name</label>
@@ -294,6 +1473,55 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                   />
                 </div>
                 
+                {/* Storage Backend */}
+                <div className="flex flex-col gap-3">
+                  <label className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Storage Backend</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => setStorageBackend('apps-script')}
+                      className={`py-3 border border-white/10 rounded font-mono text-xs transition-all uppercase flex flex-col items-center gap-1 ${storageBackend === 'apps-script' ? 'bg-purple-600 text-white shadow-lg border-purple-400' : 'bg-black/50 text-gray-400 hover:bg-white/5'}`}
+                    >
+                       <span className="font-bold">APPS SCRIPT</span>
+                       <span className="text-[8px] opacity-60">Google Sheet + Drive</span>
+                    </button>
+                    <button
+                      onClick={() => setStorageBackend('local')}
+                      className={`py-3 border border-white/10 rounded font-mono text-xs transition-all uppercase flex flex-col items-center gap-1 ${storageBackend === 'local' ? 'bg-green-600 text-white shadow-lg border-green-400' : 'bg-black/50 text-gray-400 hover:bg-white/5'}`}
+                    >
+                       <span className="font-bold">LOCAL (LAN)</span>
+                       <span className="text-[8px] opacity-60">Offline Server</span>
+                    </button>
+                  </div>
+                  <p className="text-[9px] text-gray-500">* Local requires the server to run with STORAGE_BACKEND=local. Folder IDs below are ignored.</p>
+                </div>
+
+                {/* Kiosk Access (lib/apiMiddleware.ts) */}
+                <div className="flex flex-col gap-3">
+                  <label className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Kiosk Access</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      className="bg-black/50 border border-white/10 p-4 font-mono text-xs text-white focus:border-purple-500 outline-none transition-colors rounded-lg"
+                      value={kioskCredentials.id}
+                      onChange={e => setKioskCredentialsState({ ...kioskCredentials, id: e.target.value })}
+                      placeholder="Kiosk ID"
+                    />
+                    <input
+                      type="password"
+                      className="bg-black/50 border border-white/10 p-4 font-mono text-xs text-white focus:border-purple-500 outline-none transition-colors rounded-lg"
+                      value={kioskCredentials.key}
+                      onChange={e => setKioskCredentialsState({ ...kioskCredentials, key: e.target.value })}
+                      placeholder="Kiosk API key"
+                    />
+                  </div>
+                  <input
+                    className="bg-black/50 border border-white/10 p-4 font-mono text-xs text-white focus:border-purple-500 outline-none transition-colors rounded-lg"
+                    value={kioskName}
+                    onChange={e => setKioskNameState(e.target.value)}
+                    placeholder={`Device name in Fleet (default ${getKioskId()})`}
+                  />
+                  <p className="text-[9px] text-gray-500">* Must match an entry in KIOSK_API_KEYS (id:key) on the server; without keys the server rejects AI / video calls (KIOSK_AUTH=off for local dev only). Stored on this device only, not synced. The Kiosk ID is also this tablet's id in Fleet.</p>
+                </div>
+
                 {/* Folder Configurations */}
                 <div className="flex flex-col gap-3">
                   <label className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Generated Result Folder ID</label>
@@ -389,6 +1617,93 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                   </div>
                 </div>
 
+                {/* Guest Delivery (email / SMS link to the share page) */}
+                <div className="flex flex-col gap-3 bg-white/5 p-4 rounded border border-white/10 mb-4">
+                   <div className="flex flex-col">
+                       <label className="text-[10px] text-pink-400 uppercase tracking-widest font-bold">Send Results To Guests</label>
+                       <span className="text-[8px] text-gray-500">Guests can enter a contact on the Result screen to receive their share link (needs DELIVERY_SECRET on the server)</span>
+                   </div>
+                   <div className="grid grid-cols-4 gap-2">
+                      {(['off', 'email', 'sms', 'both'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => setLocalSettings({...localSettings, guestDelivery: mode})}
+                          className={`py-2 border rounded font-mono text-xs transition-all uppercase ${(localSettings.guestDelivery || 'off') === mode ? 'bg-pink-600 text-white border-pink-400' : 'bg-black/50 text-gray-400 border-white/10 hover:bg-white/5'}`}
+                        >
+                          {mode}
+                        </button>
+                      ))}
+                   </div>
+                </div>
+
+                {/* Consent Screen */}
+                <div className="flex flex-col gap-3 bg-white/5 p-4 rounded border border-white/10 mb-4">
+                   <div className="flex items-center justify-between">
+                      <div className="flex flex-col">
+                          <label className="text-[10px] text-orange-300 uppercase tracking-widest font-bold">Require Guest Consent</label>
+                          <span className="text-[8px] text-gray-500">Consent screen after choosing a concept, before the camera opens</span>
+                      </div>
+                      <input 
+                        type="checkbox" 
+                        className="w-5 h-5 accent-orange-500 cursor-pointer"
+                        checked={localSettings.requireConsent ?? false}
+                        onChange={e => setLocalSettings({...localSettings, requireConsent: e.target.checked})}
+                      />
+                   </div>
+                   {localSettings.requireConsent && (
+                      <textarea
+                        rows={4}
+                        className="w-full bg-black/50 border border-white/10 p-3 font-mono text-xs text-white outline-none focus:border-orange-500 rounded"
+                        value={localSettings.consentText || ''}
+                        onChange={e => setLocalSettings({...localSettings, consentText: e.target.value})}
+                      />
+                   )}
+                </div>
+
+                {/* Budget Caps (lib/costs.ts) */}
+                <div className="flex flex-col gap-3 bg-white/5 p-4 rounded border border-white/10 mb-4">
+                   <div className="flex flex-col">
+                       <label className="text-[10px] text-yellow-400 uppercase tracking-widest font-bold">Event Budget (USD)</label>
+                       <span className="text-[8px] text-gray-500">Soft cap turns Ultra off. Hard cap also stops new videos and locks photos to Gemini Flash. 0 = no cap</span>
+                   </div>
+                   <div className="grid grid-cols-2 gap-3">
+                      {([['budgetSoftCap', 'Soft cap'], ['budgetHardCap', 'Hard cap']] as const).map(([key, label]) => (
+                        <label key={key} className="flex flex-col gap-1">
+                          <span className="text-[9px] text-gray-400 uppercase tracking-widest">{label}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.5"
+                            className="w-full bg-black/50 border border-white/10 p-2 font-mono text-xs text-white outline-none focus:border-yellow-500 rounded"
+                            value={localSettings[key] ?? 0}
+                            onChange={e => setLocalSettings({...localSettings, [key]: Math.max(Number(e.target.value) || 0, 0)})}
+                          />
+                        </label>
+                      ))}
+                   </div>
+                   <span className="text-[9px] text-gray-400 uppercase tracking-widest">Cost per call</span>
+                   <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {Object.entries(costTable(localSettings)).map(([model, cost]) => (
+                        <label key={model} className="flex items-center justify-between gap-2 bg-black/30 px-2 py-1 rounded">
+                          <span className="text-[9px] font-mono text-gray-300 truncate">{model}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.001"
+                            className={`w-24 bg-black/50 border p-1 font-mono text-xs text-white outline-none focus:border-yellow-500 rounded ${localSettings.modelCosts?.[model] !== undefined ? 'border-yellow-500/50' : 'border-white/10'}`}
+                            value={Number(cost)}
+                            onChange={e => setLocalSettings({...localSettings, modelCosts: { ...localSettings.modelCosts, [model]: Math.max(Number(e.target.value) || 0, 0) }})}
+                          />
+                        </label>
+                      ))}
+                   </div>
+                   {Object.keys(localSettings.modelCosts || {}).length > 0 && (
+                      <button onClick={() => setLocalSettings({...localSettings, modelCosts: {}})} className="self-start text-[9px] text-gray-400 hover:text-white uppercase tracking-widest underline">
+                        Reset to default prices ({Object.keys(DEFAULT_MODEL_COSTS).length} models)
+                      </button>
+                   )}
+                </div>
+
                 {localSettings.enableOpenAI && (
                    <div className="flex flex-col gap-3 mb-6 bg-green-900/10 p-4 rounded border border-green-500/20">
                      <label className="text-[10px] text-green-500 uppercase tracking-widest font-bold">OpenAI GPT-1.5 Render Size (Speed Control)</label>
@@ -453,6 +1768,16 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                   </div>
                 </div>
 
+                <div className="flex flex-col gap-3">
+                  <label className="text-[10px] text-gray-500 uppercase tracking-widest font-bold">Fallback Chain (Global)</label>
+                  <FallbackChainEditor
+                    chain={localSettings.fallbackChain}
+                    onChange={chain => setLocalSettings({...localSettings, fallbackChain: chain})}
+                    emptyLabel="Default: selected model above, then Gemini 2.5 Flash if it fails."
+                  />
+                  <p className="text-[9px] text-gray-500">* Models are tried in order; each step gives up after its timeout. When set, this list replaces the selected model above. Concepts can override it.</p>
+                </div>
+
                 {/* Video Settings */}
                 <h3 className="font-heading text-xl text-purple-400 border-b border-white/5 pb-4 mt-6 uppercase italic">Video Generation (Seedance)</h3>
                 
@@ -502,9 +1827,9 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                     value={localSettings.videoPrompt} 
                     onChange={e => setLocalSettings({...localSettings, videoPrompt: e.target.value})}
                     placeholder="Describe motion (e.g. slow motion, subtle movement...)"
-                    disabled={localSettings.boothMode === 'photo'}
+                    disabled={localSettings.boothMode !== 'video'}
                   />
-                  {localSettings.boothMode === 'photo' && <p className="text-[9px] text-red-500 italic">* Disabled in Photobooth Mode</p>}
+                  {localSettings.boothMode !== 'video' && <p className="text-[9px] text-red-500 italic">* Only used in Videobooth Mode</p>}
                 </div>
 
                 {/* Output Config */}
@@ -579,19 +1904,23 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                 {/* Security - Update PIN */}
                 <h3 className="font-heading text-xl text-red-400 border-b border-white/5 pb-4 mt-6 uppercase italic">Security</h3>
                 <div className="flex flex-col gap-3">
-                  <label className="text-[10px] text-red-500 uppercase tracking-widest font-bold">Admin PIN</label>
-                  <input 
-                    type="text"
-                    maxLength={8}
-                    className="bg-red-900/10 border border-red-500/30 p-4 font-mono text-xs text-red-200 focus:border-red-500 outline-none transition-colors tracking-[0.5em] text-center rounded-lg" 
-                    value={localSettings.adminPin} 
-                    onChange={e => setLocalSettings({...localSettings, adminPin: e.target.value})}
-                    placeholder="****"
-                  />
-                  <p className="text-[9px] text-gray-500">* Changing this will require re-login next time.</p>
+                  <label className="text-[10px] text-red-500 uppercase tracking-widest font-bold">Change Admin PIN</label>
+                  {(['current', 'next', 'confirm'] as const).map(field => (
+                    <input 
+                      key={field}
+                      type="password"
+                      inputMode="numeric"
+                      className="bg-red-900/10 border border-red-500/30 p-4 font-mono text-xs text-red-200 focus:border-red-500 outline-none transition-colors tracking-[0.5em] text-center rounded-lg" 
+                      value={pinChange[field]} 
+                      onChange={e => setPinChange(prev => ({ ...prev, [field]: e.target.value }))}
+                      placeholder={field === 'current' ? 'CURRENT PIN' : field === 'next' ? 'NEW PIN' : 'CONFIRM NEW PIN'}
+                    />
+                  ))}
+                  <button onClick={handleChangePin} disabled={!pinChange.current || !pinChange.next} className="py-3 border border-red-500/30 text-red-300 rounded-lg text-[10px] font-bold uppercase tracking-widest hover:bg-red-900/20 disabled:opacity-40">Update PIN</button>
+                  <p className="text-[9px] text-gray-500">* Stored hashed on the backend, never synced to kiosks. Min. {MIN_PIN_LENGTH} digits; changing it signs out every other admin session.</p>
                 </div>
 
-                <button onClick={handleSaveSettings} className="w-full py-6 bg-green-800 hover:bg-green-700 text-white font-heading tracking-widest uppercase italic mt-6 transition-all rounded-lg shadow-xl">SAVE SETTINGS & LINK DB</button>
+                <button onClick={handleSaveSettings} className="w-full py-6 bg-green-800 hover:bg-green-700 text-white font-heading tracking-widest uppercase italic mt-6 transition-all rounded-lg shadow-xl">{profileEvent ? 'SAVE TO EVENT PROFILE' : 'SAVE SETTINGS & LINK DB'}</button>
               </div>
 
               {/* Assets Column */}
@@ -617,7 +1946,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                       setIsUploadingOverlay(true);
                       const reader = new FileReader();
                       reader.onload = async () => {
-                        const res = await uploadOverlayToGas(reader.result as string, settings.adminPin);
+                        const res = await uploadOverlayToGas(reader.result as string);
                         if (res.ok) {
                           setLocalSettings({...localSettings, overlayImage: res.url});
                           alert('Overlay updated');
@@ -629,6 +1958,9 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                     <button onClick={() => overlayInputRef.current?.click()} disabled={isUploadingOverlay} className="w-full py-4 border-2 border-white/10 hover:border-purple-500 text-[10px] tracking-widest font-bold uppercase bg-white/5 rounded-lg transition-colors">
                       {isUploadingOverlay ? 'UPLOADING...' : 'CHANGE PNG OVERLAY'}
                     </button>
+                    {localSettings.overlayTemplate && localSettings.overlayTemplate.layers.length > 0 && (
+                      <p className="text-[9px] text-amber-400">* A layered template is active (OVERLAY tab) and is used instead of this PNG.</p>
+                    )}
                   </div>
                 </div>
 
@@ -664,7 +1996,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                       setIsUploadingBackground(true);
                       const reader = new FileReader();
                       reader.onload = async () => {
-                        const res = await uploadBackgroundToGas(reader.result as string, settings.adminPin);
+                        const res = await uploadBackgroundToGas(reader.result as string);
                         if (res.ok) {
                           setLocalSettings({...localSettings, backgroundImage: res.url});
                           alert('Background Image updated');
@@ -697,7 +2029,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                       setIsUploadingAudio(true);
                       const reader = new FileReader();
                       reader.onload = async () => {
-                        const res = await uploadAudioToGas(reader.result as string, settings.adminPin);
+                        const res = await uploadAudioToGas(reader.result as string);
                         if (res.ok) {
                           setLocalSettings({...localSettings, backgroundAudio: res.url});
                           alert('Audio updated');
@@ -717,6 +2049,177 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
           </div>
         )}
 
+        {/* Overlay Designer Tab */}
+        {activeTab === 'overlay' && (
+          <div className="flex flex-col gap-6">
+            <OverlayDesigner
+              template={localSettings.overlayTemplate}
+              legacyOverlay={localSettings.overlayImage}
+              defaultRatio={localSettings.outputRatio}
+              eventName={localSettings.eventName}
+              onChange={overlayTemplate => setLocalSettings(prev => ({ ...prev, overlayTemplate }))}
+            />
+            <button onClick={handleSaveSettings} className="w-full py-6 bg-green-800 hover:bg-green-700 text-white font-heading tracking-widest uppercase italic transition-all rounded-lg shadow-xl">{profileEvent ? 'SAVE TO EVENT PROFILE' : 'SAVE OVERLAY TEMPLATE'}</button>
+          </div>
+        )}
+
+        {/* Events Tab (Per-Event Profiles) */}
+        {activeTab === 'events' && (
+          <div className="glass-card p-6 md:p-10 flex flex-col gap-6 backdrop-blur-md bg-black/60 rounded-xl border border-white/10">
+            <div className="flex justify-between items-center border-b border-white/5 pb-4">
+              <h3 className="font-heading text-xl text-purple-400 uppercase italic">Events</h3>
+              <button onClick={refreshEvents} className="px-4 py-2 border border-white/10 rounded font-mono text-[10px] text-gray-400 hover:bg-white/5 uppercase">Refresh</button>
+            </div>
+            <div className="flex flex-col gap-3 p-4 bg-white/5 rounded-lg border border-white/5">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">New Event</span>
+              <EventForm key={events.length} submitLabel="Create Event" disabled={isEventBusy} onSubmit={handleCreateEvent} />
+            </div>
+            {events.filter(ev => !ev.archivedAt).length === 0 ? (
+              <p className="text-xs text-gray-500 font-mono">No events yet.</p>
+            ) : (
+              <div className="flex flex-col gap-3">
+                {events.filter(ev => !ev.archivedAt).map(event => (
+                  <div key={event.id} className={`flex flex-col gap-3 p-4 rounded-lg border ${event.isActive ? 'bg-green-900/20 border-green-500/40' : 'bg-white/5 border-white/5'}`}>
+                    <div className="flex flex-col md:flex-row md:items-center gap-4">
+                      <div className="flex-1 min-w-0 flex flex-col gap-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-bold text-white uppercase truncate">{event.name}</span>
+                          {SCHEDULE_BADGES[scheduleState(event)] && <span className={`px-2 py-0.5 ${SCHEDULE_BADGES[scheduleState(event)]} rounded text-[8px] font-bold uppercase tracking-widest`}>{scheduleState(event)}</span>}
+                          {profileEvent?.id === event.id && <span className="px-2 py-0.5 bg-yellow-600 rounded text-[8px] font-bold uppercase tracking-widest">Editing</span>}
+                        </div>
+                        <span className="text-[10px] text-gray-400 truncate">{event.description}</span>
+                        <span className="text-[9px] text-gray-500 font-mono">
+                          {event.profileRevision ? `Profile r${event.profileRevision} · ${new Date(event.profileUpdatedAt || '').toLocaleString()}` : 'No saved profile'}
+                        </span>
+                        {(event.startsAt || event.endsAt) && (
+                          <span className="text-[9px] text-blue-300 font-mono">
+                            Window: {event.startsAt ? new Date(event.startsAt).toLocaleString() : '…'} → {event.endsAt ? new Date(event.endsAt).toLocaleString() : 'open'}
+                          </span>
+                        )}
+                        {!!event.retentionDays && (
+                          <span className="text-[9px] text-orange-300 font-mono">Photos deleted {event.retentionDays} day{event.retentionDays === 1 ? '' : 's'} after capture</span>
+                        )}
+                      </div>
+                      <div className="flex gap-2 flex-wrap">
+                        <button disabled={isEventBusy} onClick={() => handleEditProfile(event)} className="px-4 py-2 bg-purple-600 rounded text-[10px] font-bold uppercase hover:bg-purple-500 disabled:opacity-50">Edit Profile</button>
+                        {!event.isActive && (
+                          <button disabled={isEventBusy} onClick={() => handleActivateEvent(event)} className="px-4 py-2 bg-green-700 rounded text-[10px] font-bold uppercase hover:bg-green-600 disabled:opacity-50">Activate</button>
+                        )}
+                        <button onClick={() => historyEventId === event.id ? setHistoryEventId(null) : handleShowHistory(event.id)} className="px-4 py-2 border border-white/10 rounded text-[10px] font-bold uppercase text-gray-300 hover:bg-white/5">
+                          {historyEventId === event.id ? 'Hide History' : 'History'}
+                        </button>
+                        <button onClick={() => setEditingEventId(editingEventId === event.id ? null : event.id)} className="px-4 py-2 border border-white/10 rounded text-[10px] font-bold uppercase text-gray-300 hover:bg-white/5">Edit</button>
+                        {!event.isActive && (
+                          <button disabled={isEventBusy} onClick={() => handleArchiveEvent(event)} onBlur={() => setArchiveConfirmId(null)} className="px-4 py-2 border border-red-900/40 text-red-500 rounded text-[10px] font-bold uppercase hover:bg-red-900/10 disabled:opacity-50">
+                            {archiveConfirmId === event.id ? 'Confirm Archive' : 'Archive'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {editingEventId === event.id && (
+                      <div className="pl-4 border-l border-white/10">
+                        <EventForm initial={event} submitLabel="Save Event" disabled={isEventBusy} onSubmit={input => handleUpdateEvent(event.id, input)} onCancel={() => setEditingEventId(null)} />
+                      </div>
+                    )}
+                    {historyEventId === event.id && (
+                      <div className="flex flex-col gap-2 pl-4 border-l border-white/10">
+                        {revisions.length === 0 && <span className="text-[10px] text-gray-500 font-mono">No revisions yet.</span>}
+                        {revisions.map(rev => (
+                          <div key={rev.revision} className="flex items-center gap-3 text-[10px] font-mono">
+                            <span className="text-white font-bold w-10">r{rev.revision}</span>
+                            <span className="text-gray-400 w-40">{new Date(rev.savedAt).toLocaleString()}</span>
+                            <span className="flex-1 text-gray-500 truncate">{rev.note}</span>
+                            <button disabled={isEventBusy} onClick={() => handleEditProfile(event, rev.revision)} className="px-3 py-1 border border-white/10 rounded uppercase hover:bg-white/5 disabled:opacity-50">Load</button>
+                            {rev.revision !== event.profileRevision && (
+                              <button disabled={isEventBusy} onClick={() => handleRestoreRevision(event, rev.revision)} className="px-3 py-1 border border-yellow-500/40 text-yellow-300 rounded uppercase hover:bg-yellow-500/10 disabled:opacity-50">Restore</button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {events.some(ev => ev.archivedAt) && (
+              <div className="flex flex-col gap-2">
+                <button onClick={() => setShowArchived(v => !v)} className="self-start text-[10px] font-bold uppercase tracking-widest text-gray-500 hover:text-white">
+                  {showArchived ? '▾' : '▸'} Archived ({events.filter(ev => ev.archivedAt).length})
+                </button>
+                {showArchived && events.filter(ev => ev.archivedAt).map(event => (
+                  <div key={event.id} className="flex items-center gap-4 p-3 bg-white/5 rounded-lg border border-white/5 opacity-60 text-[10px] font-mono">
+                    <span className="flex-1 text-white uppercase truncate">{event.name}</span>
+                    {!!event.retentionDays && <span className="text-orange-300">{event.retentionDays}d retention</span>}
+                    <span className="text-gray-400">{event.archivedCount || 0} items</span>
+                    <span className="text-gray-500">{new Date(event.archivedAt!).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[9px] text-gray-500">* New events get their own Drive folder. An activation window switches the booth to the event automatically when it starts (checked whenever a kiosk syncs) and ends it when it closes; manual activation always wins. <strong>Archive</strong> moves the event's gallery to the GalleryArchive sheet, files stay in its folder.</p>
+            <div className="flex flex-col gap-3 p-4 bg-white/5 rounded-lg border border-white/5">
+              <div className="flex justify-between items-center gap-2 flex-wrap">
+                <span className="text-[10px] font-bold text-orange-300 uppercase tracking-widest">Data Retention · Purge Log</span>
+                <div className="flex gap-2">
+                  <button onClick={refreshPurgeLog} className="px-4 py-2 border border-white/10 rounded font-mono text-[10px] text-gray-400 hover:bg-white/5 uppercase">{purgeLog ? 'Refresh' : 'Load Log'}</button>
+                  <button disabled={isPurging} onClick={handleRunPurge} className="px-4 py-2 border border-orange-500/40 text-orange-300 rounded text-[10px] font-bold uppercase hover:bg-orange-500/10 disabled:opacity-50">{isPurging ? 'Purging...' : 'Run Purge Now'}</button>
+                </div>
+              </div>
+              {purgeLog && purgeLog.length === 0 && <span className="text-[10px] text-gray-500 font-mono">Nothing purged yet.</span>}
+              {purgeLog && purgeLog.length > 0 && (
+                <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+                  {purgeLog.map((entry, i) => (
+                    <div key={`${entry.photoId}_${i}`} className="flex items-center gap-3 text-[10px] font-mono">
+                      <span className="text-gray-400 w-40 shrink-0">{new Date(entry.at).toLocaleString()}</span>
+                      <span className={`w-28 shrink-0 uppercase ${entry.reason === 'guest_request' ? 'text-pink-300' : 'text-orange-300'}`}>{entry.reason === 'guest_request' ? 'Guest request' : 'Retention'}</span>
+                      <span className="flex-1 text-gray-300 truncate" title={entry.photoId}>{entry.photoId}</span>
+                      <span className="text-gray-500 shrink-0">{events.find(ev => ev.id === entry.eventId)?.name || entry.eventId || '-'}</span>
+                      <span className="text-gray-500 w-16 shrink-0 text-right">{entry.files} files</span>
+                      <span className="text-gray-600 w-24 shrink-0 truncate" title={entry.actor}>{entry.actor}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <p className="text-[9px] text-gray-500">* <strong>Retention</strong> permanently deletes an event's photos, videos, original captures and session folders the set number of days after capture (checked by the video tick worker about every 15 minutes). Guests can do the same for their own session from their share link. Every purge is listed in the PurgeLog sheet; purged items cannot be restored. On Apps Script, enable the Drive advanced service to delete immediately instead of via the Drive trash.</p>
+            <p className="text-[9px] text-gray-500">* Each event keeps its own settings + concepts. <strong>Edit Profile</strong> loads it into the Settings / Overlay / Concepts tabs; saving there creates a new revision instead of changing the live booth (unless the event is live). <strong>Activate</strong> switches every kiosk to the event's latest profile; the previous event's live config is auto-saved first. <strong>Restore</strong> copies an old revision as the newest one.</p>
+          </div>
+        )}
+
+        {/* Analytics Tab */}
+        {activeTab === 'analytics' && <AnalyticsPanel events={events} settings={settings} />}
+
+        {activeTab === 'fleet' && <FleetPanel events={events} />}
+
+        {/* Jobs Tab (Dead-Letter) */}
+        {activeTab === 'jobs' && (
+          <div className="glass-card p-6 md:p-10 flex flex-col gap-6 backdrop-blur-md bg-black/60 rounded-xl border border-white/10">
+            <div className="flex justify-between items-center border-b border-white/5 pb-4">
+              <h3 className="font-heading text-xl text-red-400 uppercase italic">Failed Jobs (Dead-Letter)</h3>
+              <button onClick={refreshDeadJobs} className="px-4 py-2 border border-white/10 rounded font-mono text-[10px] text-gray-400 hover:bg-white/5 uppercase">Refresh</button>
+            </div>
+            {deadJobs.length === 0 ? (
+              <p className="text-xs text-gray-500 font-mono">No failed jobs on this kiosk.</p>
+            ) : (
+              <div className="flex flex-col gap-3">
+                {deadJobs.map(job => (
+                  <div key={job.id} className="flex items-center gap-4 p-3 bg-white/5 rounded-lg border border-white/5">
+                    <img src={job.image} className="w-12 h-16 object-cover rounded" />
+                    <div className="flex-1 min-w-0 flex flex-col gap-1">
+                      <span className="text-xs font-bold text-white uppercase">{job.concept.name}</span>
+                      <span className="text-[9px] text-gray-500 font-mono">{new Date(job.createdAt).toLocaleString()} · {job.attempts} attempts</span>
+                      <span className="text-[9px] text-red-400 font-mono truncate" title={job.lastError}>{job.lastError}</span>
+                    </div>
+                    <button onClick={() => JobQueue.retryDead(job.id).then(refreshDeadJobs)} className="px-4 py-2 bg-purple-600 rounded text-[10px] font-bold uppercase hover:bg-purple-500">Retry</button>
+                    <button onClick={() => JobQueue.discard(job.id).then(refreshDeadJobs)} className="px-4 py-2 border border-red-900/40 text-red-500 rounded text-[10px] font-bold uppercase hover:bg-red-900/10">Discard</button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[9px] text-gray-500">* Fast mode jobs are retried automatically with backoff. Jobs listed here failed every attempt; the capture is kept on this device until retried or discarded.</p>
+          </div>
+        )}
+
         {/* Concepts Tab */}
         {activeTab === 'concepts' && (
           <div className="flex flex-col gap-10">
@@ -798,10 +2301,21 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
                      </div>
                   </div>
                   
+                  {/* FALLBACK CHAIN OVERRIDE */}
+                  <div className="flex flex-col gap-2">
+                     <label className="text-[9px] text-gray-500 uppercase tracking-widest font-bold">Model Fallback Chain</label>
+                     <FallbackChainEditor
+                        chain={concept.fallbackChain}
+                        onChange={chain => handleConceptChainChange(index, chain)}
+                        emptyLabel="Uses the global fallback chain."
+                     />
+                  </div>
+
                   {/* HELPER TEXT */}
                   <div className="bg-white/5 p-2 rounded text-[9px] text-gray-500 italic">
                      * <strong>Thumbnail:</strong> Displayed in concept menu. <br/>
-                     * <strong>Reference Image:</strong> Optional. If uploaded, AI will use it as style/clothing/background reference.
+                     * <strong>Reference Image:</strong> Optional. If uploaded, AI will use it as style/clothing/background reference. <br/>
+                     * <strong>Fallback Chain:</strong> Optional. Overrides the global model order for this concept only.
                   </div>
                 </div>
               ))}
@@ -814,7 +2328,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ settings, concepts, onSaveSetting
             </div>
             <div className="flex justify-center mt-10">
               <button onClick={handleSyncConcepts} disabled={isSavingConcepts} className="px-20 py-6 bg-purple-600 font-heading tracking-widest uppercase italic shadow-2xl hover:bg-purple-500 transition-all disabled:opacity-50 rounded-lg">
-                {isSavingConcepts ? 'SINKRONISASI...' : 'SYNC ALL CONCEPTS TO CLOUD'}
+                {isSavingConcepts ? 'SINKRONISASI...' : (profileEvent ? 'SAVE CONCEPTS TO EVENT PROFILE' : 'SYNC ALL CONCEPTS TO CLOUD')}
               </button>
             </div>
           </div>
@@ -1,6 +1,8 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { AspectRatio, PhotoboothSettings } from '../types';
+import { BURST_INTERVAL_MS } from '../lib/boomerang';
+import { reportCameraStatus } from '../lib/kioskAgent';
 
 interface CameraPageProps {
   onCapture: (image: string) => void;
@@ -12,8 +14,15 @@ interface CameraPageProps {
   aspectRatio?: AspectRatio; // '9:16' | '16:9' etc
   settings?: PhotoboothSettings; 
   onUpdateSettings?: (settings: PhotoboothSettings) => void; 
+  shotCount?: number; // > 1 = multi-shot session (photo strip)
+  onCaptureShots?: (images: string[]) => void;
+  burstFrames?: number; // > 1 = boomerang burst (frames grabbed back to back)
+  onCaptureBurst?: (frames: string[]) => void;
 }
 
+// Pause between shots so the guest can see the frame and change pose
+const SHOT_REVIEW_MS = 1200;
+
 const CameraPage: React.FC<CameraPageProps> = ({ 
     onCapture, 
     onGenerate, 
@@ -23,7 +32,11 @@ const CameraPage: React.FC<CameraPageProps> = ({
     cameraRotation = 0,
     aspectRatio = '9:16',
     settings,
-    onUpdateSettings
+    onUpdateSettings,
+    shotCount = 1,
+    onCaptureShots,
+    burstFrames = 0,
+    onCaptureBurst
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -34,6 +47,9 @@ const CameraPage: React.FC<CameraPageProps> = ({
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [isMirrored, setIsMirrored] = useState(true); 
+  const [sessionShots, setSessionShots] = useState<string[]>([]);
+  const [isShooting, setIsShooting] = useState(false);
+  const [burstProgress, setBurstProgress] = useState<number | null>(null);
 
   // --- CAMERA CONTROL FUNCTIONS ---
 
@@ -78,6 +94,7 @@ const CameraPage: React.FC<CameraPageProps> = ({
         await videoRef.current.play().catch(e => console.warn("Autoplay blocked:", e));
       }
       setIsStreaming(true);
+      reportCameraStatus('ready');
     } catch (err: any) {
       console.error("Camera Setup Error:", err);
       let msg = "Failed to access camera.";
@@ -85,6 +102,7 @@ const CameraPage: React.FC<CameraPageProps> = ({
       else if (err.name === 'NotFoundError') msg = "No camera device found.";
       else if (err.name === 'NotReadableError') msg = "Camera is busy.";
       setCameraError(msg);
+      reportCameraStatus(err.name === 'NotAllowedError' ? 'denied' : err.name === 'NotFoundError' ? 'missing' : 'error', msg);
     }
   }, [stopCamera]);
 
@@ -114,58 +132,63 @@ const CameraPage: React.FC<CameraPageProps> = ({
   };
   const targetRatioValue = getAspectRatioValue(aspectRatio);
 
-  const capture = useCallback(() => {
-    if (videoRef.current && canvasRef.current) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
+  // Grab the current video frame, center-cropped to the output ratio
+  const grabFrame = useCallback((): string | null => {
+    if (!videoRef.current || !canvasRef.current) return null;
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
 
-      const rawW = video.videoWidth;
-      const rawH = video.videoHeight;
+    const rawW = video.videoWidth;
+    const rawH = video.videoHeight;
 
-      if (rawW === 0 || rawH === 0) return;
+    if (rawW === 0 || rawH === 0) return null;
 
-      const MAX_DIMENSION = 1024;
-      let destW, destH;
+    const MAX_DIMENSION = 1024;
+    let destW, destH;
 
-      if (targetRatioValue < 1) {
-          destW = Math.round(MAX_DIMENSION * targetRatioValue);
-          destH = MAX_DIMENSION;
-      } else {
-          destW = MAX_DIMENSION;
-          destH = Math.round(MAX_DIMENSION / targetRatioValue);
-      }
+    if (targetRatioValue < 1) {
+        destW = Math.round(MAX_DIMENSION * targetRatioValue);
+        destH = MAX_DIMENSION;
+    } else {
+        destW = MAX_DIMENSION;
+        destH = Math.round(MAX_DIMENSION / targetRatioValue);
+    }
 
-      canvas.width = destW;
-      canvas.height = destH;
+    canvas.width = destW;
+    canvas.height = destH;
 
-      const ctx = canvas.getContext('2d', { willReadFrequently: false });
-      if (!ctx) return;
+    const ctx = canvas.getContext('2d', { willReadFrequently: false });
+    if (!ctx) return null;
 
-      ctx.save();
-      ctx.translate(destW / 2, destH / 2);
-      ctx.rotate((cameraRotation * Math.PI) / 180);
-      ctx.scale(isMirrored ? -1 : 1, 1);
+    ctx.save();
+    ctx.translate(destW / 2, destH / 2);
+    ctx.rotate((cameraRotation * Math.PI) / 180);
+    ctx.scale(isMirrored ? -1 : 1, 1);
 
-      const isRotated = cameraRotation % 180 !== 0;
-      const canvasWidthSeenByVideo = isRotated ? destH : destW;
-      const canvasHeightSeenByVideo = isRotated ? destW : destH;
+    const isRotated = cameraRotation % 180 !== 0;
+    const canvasWidthSeenByVideo = isRotated ? destH : destW;
+    const canvasHeightSeenByVideo = isRotated ? destW : destH;
 
-      const scale = Math.max(canvasWidthSeenByVideo / rawW, canvasHeightSeenByVideo / rawH);
+    const scale = Math.max(canvasWidthSeenByVideo / rawW, canvasHeightSeenByVideo / rawH);
 
-      const drawW = rawW * scale;
-      const drawH = rawH * scale;
-      const offsetX = -drawW / 2;
-      const offsetY = -drawH / 2;
+    const drawW = rawW * scale;
+    const drawH = rawH * scale;
+    const offsetX = -drawW / 2;
+    const offsetY = -drawH / 2;
 
-      ctx.drawImage(video, offsetX, offsetY, drawW, drawH);
-      ctx.restore();
+    ctx.drawImage(video, offsetX, offsetY, drawW, drawH);
+    ctx.restore();
 
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
-      stopCamera();
-      onCapture(dataUrl);
-      onGenerate();
-    }
-  }, [onCapture, onGenerate, cameraRotation, targetRatioValue, stopCamera, isMirrored]);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  }, [cameraRotation, targetRatioValue, isMirrored]);
+
+  const capture = useCallback(() => {
+    const dataUrl = grabFrame();
+    if (!dataUrl) return;
+    stopCamera();
+    onCapture(dataUrl);
+    onGenerate();
+  }, [grabFrame, onCapture, onGenerate, stopCamera]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -227,18 +250,66 @@ const CameraPage: React.FC<CameraPageProps> = ({
     }
   };
 
-  const doCountdown = () => {
-      setCountdown(3);
+  const runCountdown = (seconds: number) => new Promise<void>((resolve) => {
+      let remaining = seconds;
+      setCountdown(remaining);
       const interval = setInterval(() => {
-        setCountdown(prev => {
-          if (prev === 1) {
-            clearInterval(interval);
-            capture();
-            return null;
-          }
-          return prev ? prev - 1 : null;
-        });
+        remaining--;
+        if (remaining <= 0) {
+          clearInterval(interval);
+          setCountdown(null);
+          resolve();
+        } else {
+          setCountdown(remaining);
+        }
       }, 1000);
+  });
+
+  const doCountdown = async () => {
+      if (burstFrames > 1 && onCaptureBurst) {
+          await runCountdown(3);
+          setIsShooting(true);
+          setBurstProgress(0);
+          const frames: string[] = [];
+          for (let i = 0; i < burstFrames; i++) {
+              const frame = grabFrame();
+              if (frame) frames.push(frame);
+              setBurstProgress(i + 1);
+              await new Promise(r => setTimeout(r, BURST_INTERVAL_MS));
+          }
+          setIsShooting(false);
+          setBurstProgress(null);
+
+          if (frames.length < 2) return;
+          stopCamera();
+          onCaptureBurst(frames);
+          return;
+      }
+
+      if (shotCount <= 1 || !onCaptureShots) {
+          await runCountdown(3);
+          capture();
+          return;
+      }
+
+      // MULTI-SHOT: countdown per shot, camera stays live between shots
+      setIsShooting(true);
+      setSessionShots([]);
+      const shots: string[] = [];
+      for (let i = 0; i < shotCount; i++) {
+          await runCountdown(3);
+          const frame = grabFrame();
+          if (frame) {
+              shots.push(frame);
+              setSessionShots([...shots]);
+          }
+          if (i < shotCount - 1) await new Promise(r => setTimeout(r, SHOT_REVIEW_MS));
+      }
+      setIsShooting(false);
+
+      if (shots.length === 0) return;
+      stopCamera();
+      onCaptureShots(shots);
   };
 
   const handleBack = () => {
@@ -352,6 +423,32 @@ const CameraPage: React.FC<CameraPageProps> = ({
                   <span className="text-[120px] md:text-[250px] font-heading text-white neon-text animate-ping italic">{countdown}</span>
                 </div>
               )}
+
+              {burstProgress !== null && (
+                <div className="absolute top-4 left-0 right-0 flex flex-col items-center gap-2 z-[60] pointer-events-none">
+                  <span className="flex items-center gap-2 bg-black/60 backdrop-blur-md border border-red-500/60 px-4 py-1 rounded-full text-[10px] md:text-xs font-heading text-white tracking-[0.3em] uppercase italic">
+                    <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" /> REC
+                  </span>
+                  <div className="w-32 md:w-48 h-1 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-red-500 transition-all" style={{ width: `${(burstProgress / burstFrames) * 100}%` }} />
+                  </div>
+                </div>
+              )}
+
+              {isShooting && burstProgress === null && (
+                <div className="absolute top-4 left-0 right-0 flex flex-col items-center gap-3 z-[60] pointer-events-none">
+                  <span className="bg-black/60 backdrop-blur-md border border-purple-500/50 px-4 py-1 rounded-full text-[10px] md:text-xs font-heading text-white tracking-[0.3em] uppercase italic">
+                    SHOT {Math.min(sessionShots.length + 1, shotCount)} / {shotCount}
+                  </span>
+                  <div className="flex gap-2">
+                    {Array.from({ length: shotCount }).map((_, i) => (
+                      <div key={i} className={`w-10 h-10 md:w-14 md:h-14 rounded border overflow-hidden ${sessionShots[i] ? 'border-purple-400' : 'border-white/20 bg-black/40'}`}>
+                        {sessionShots[i] && <img src={sessionShots[i]} className="w-full h-full object-cover" />}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
            </div>
         ) : (
            /* CAPTURE RESULT PREVIEW */
@@ -371,7 +468,7 @@ const CameraPage: React.FC<CameraPageProps> = ({
       </div>
 
       {/* CONTROLS */}
-      {!countdown && !capturedImage && (
+      {!countdown && !isShooting && !capturedImage && (
         <div className="absolute bottom-10 left-0 right-0 flex justify-center items-center z-50 px-6 gap-8 pointer-events-none">
                 
                 {/* QUICK MODEL SHORTCUT TOGGLE (LEFT) */}
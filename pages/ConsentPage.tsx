@@ -0,0 +1,38 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ConsentPageProps {
+  text: string;
+  timeoutSeconds: number;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// Shown between Themes and Camera when settings.requireConsent is on; nothing is captured before "I Agree"
+const ConsentPage: React.FC<ConsentPageProps> = ({ text, timeoutSeconds, onAccept, onDecline }) => {
+  const onDeclineRef = useRef(onDecline);
+  onDeclineRef.current = onDecline;
+
+  // Guest walked away: back to the landing screen instead of leaving the kiosk on this page
+  useEffect(() => {
+    const timer = setTimeout(() => onDeclineRef.current(), timeoutSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [timeoutSeconds]);
+
+  return (
+    <div className="w-full min-h-screen flex flex-col items-center justify-center p-6 bg-transparent font-sans">
+      <div className="glass-card w-full max-w-xl flex flex-col gap-8 p-8 md:p-12 rounded-2xl backdrop-blur-md bg-black/60 border border-white/10 animate-[popIn_0.5s_ease-out]">
+        <div className="text-center">
+          <h2 className="text-2xl md:text-4xl font-heading text-white neon-text italic uppercase">BEFORE WE START</h2>
+          <p className="text-[10px] text-purple-400 tracking-widest uppercase mt-2">Your photo, your choice</p>
+        </div>
+        <p className="text-sm md:text-base text-gray-200 leading-relaxed whitespace-pre-line text-center">{text}</p>
+        <div className="grid grid-cols-2 gap-4">
+          <button onClick={onDecline} className="py-5 border-2 border-white/10 rounded-xl text-gray-300 font-bold uppercase tracking-widest text-xs hover:bg-white/5 transition-colors">No Thanks</button>
+          <button onClick={onAccept} className="py-5 bg-purple-600 hover:bg-purple-500 rounded-xl text-white font-heading uppercase tracking-widest text-xs shadow-[0_0_30px_rgba(168,85,247,0.4)] transition-colors">I Agree</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentPage;
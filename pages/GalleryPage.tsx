@@ -1,8 +1,16 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { GalleryItem, Concept, PhotoboothSettings, ProcessNotification } from '../types';
-import { fetchGallery, fetchImageBase64, deletePhotoFromGas, deleteAllPhotosFromGas } from '../lib/appsScript';
+import { GalleryItem, GalleryQuery, Concept, EventRecord, PhotoboothSettings, ProcessNotification, VideoStatus } from '../types';
+import { fetchGallery, fetchGalleryPage, fetchEvents, fetchImageBase64, deletePhotoFromGas, deleteAllPhotosFromGas, fetchDeletedPhotos, restorePhotoFromGas, recordPrint } from '../lib/appsScript';
 import { printImage } from '../lib/printUtils'; // Import Print Utils
+import { getStorageBackend } from '../lib/storageBackend';
+import { AdminSession } from '../lib/adminSession';
+import { getShareUrl } from '../lib/share';
+import { fetchShareTokens } from '../lib/shareLinks';
+import { parseFallbackPath, parseStageTimings } from '../lib/generationMeta';
+import { apiFetch } from '../lib/apiClient';
+import { loadProxiedVideo } from '../lib/videoPlayback';
+import { GALLERY_TYPES, isGalleryQueryEmpty, matchesGalleryQuery } from '../lib/galleryQuery';
 
 interface GalleryPageProps {
   onBack: () => void;
@@ -11,6 +19,7 @@ interface GalleryPageProps {
   concepts: Concept[];
   settings?: PhotoboothSettings;
   notifications?: ProcessNotification[]; 
+  pendingSyncCount?: number; // Photos waiting in the offline outbox
   cachedItems: GalleryItem[]; // Receive cache
   onUpdateCache: (items: GalleryItem[]) => void; // Update cache fn
 }
@@ -26,6 +35,21 @@ const getImageUrl = (item: GalleryItem) => {
   return `https://drive.google.com/thumbnail?id=${item.id}&sz=w600`;
 };
 
+// SORTING PRIORITY: Active Tasks First (processing, queued, uploading), Then Date
+const ACTIVE_VIDEO_STATES = ['processing', 'queued', 'uploading'];
+const sortGalleryItems = (items: GalleryItem[]) => items.sort((a, b) => {
+    const aActive = ACTIVE_VIDEO_STATES.includes(a.videoStatus || '');
+    const bActive = ACTIVE_VIDEO_STATES.includes(b.videoStatus || '');
+    if (aActive && !bActive) return -1;
+    if (!aActive && bActive) return 1;
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+});
+
+const FILTER_VIDEO_STATUSES: VideoStatus[] = ['idle', 'queued', 'processing', 'ready_url', 'uploading', 'done', 'failed'];
+const SEARCH_DEBOUNCE_MS = 400;
+
+const FILTER_SELECT_CLASS = "bg-black/50 border border-white/10 px-3 py-2 rounded-lg font-mono text-[10px] text-white outline-none focus:border-purple-500 uppercase backdrop-blur-md";
+
 // Sub-Component untuk menangani Loading State per Gambar
 const GalleryThumb: React.FC<{ 
     item: GalleryItem; 
@@ -80,7 +104,14 @@ const GalleryThumb: React.FC<{
                 </div>
             )}
 
-            {/* 4. VIDEO STATUS INDICATOR (LOG VISUAL) */}
+            {/* 4. BOOMERANG BADGE */}
+            {item.type === 'boomerang' && (
+                <div className="absolute top-2 left-2 z-20 bg-amber-500/90 backdrop-blur text-black text-[8px] font-bold px-2 py-1 rounded shadow-lg border border-amber-300/50 tracking-widest">
+                    BOOMERANG
+                </div>
+            )}
+
+            {/* 5. VIDEO STATUS INDICATOR (LOG VISUAL) */}
             {isVideoMode && !isUploading && (
                 <>
                     {/* Status Badge (Top Right) */}
@@ -120,6 +151,35 @@ const GalleryThumb: React.FC<{
     );
 };
 
+const formatSeconds = (ms?: number) => (ms === undefined ? null : `${(ms / 1000).toFixed(1)}s`);
+
+// Generation metadata of one result (lib/generationMeta.ts); rows from before it was recorded show nothing
+const GenerationInfo: React.FC<{ item: GalleryItem }> = ({ item }) => {
+    const attempts = parseFallbackPath(item);
+    const timings = parseStageTimings(item);
+    const stages = [['AI', timings.aiMs], ['OVERLAY', timings.overlayMs], ['UPLOAD', timings.uploadMs]]
+        .map(([label, ms]) => [label, formatSeconds(ms as number | undefined)])
+        .filter(([, text]) => text);
+    const failed = attempts.filter(a => !a.ok);
+    if (!item.aiModel && !item.promptMode && attempts.length === 0 && stages.length === 0) return null;
+
+    return (
+        <div className="mt-3 flex flex-col gap-1 text-[10px] font-mono uppercase tracking-wider text-gray-400 max-w-md">
+            <p>
+                {item.aiModel && <span className="text-purple-300">{item.aiModel}</span>}
+                {item.promptMode && <span> · {item.promptMode} prompt</span>}
+                {stages.map(([label, text]) => <span key={label}> · {label} {text}</span>)}
+            </p>
+            {attempts.length > 1 && (
+                <p>{attempts.map((a, i) => <span key={i} className={a.ok ? 'text-green-400' : 'text-red-400'}>{i > 0 && ' → '}{a.ok ? '✓' : '✕'} {a.model}</span>)}</p>
+            )}
+            {failed.map((a, i) => (
+                <p key={i} className="text-red-400/80 normal-case break-words">{a.model}: {a.error || 'failed'}</p>
+            ))}
+        </div>
+    );
+};
+
 const GalleryPage: React.FC<GalleryPageProps> = ({ 
     onBack, 
     activeEventId, 
@@ -127,11 +187,13 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
     concepts, 
     settings, 
     notifications = [],
+    pendingSyncCount = 0,
     cachedItems,
     onUpdateCache
 }) => {
   const [items, setItems] = useState<GalleryItem[]>(cachedItems);
   const [selectedItem, setSelectedItem] = useState<GalleryItem | null>(null);
+  const [shareTokens, setShareTokens] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(cachedItems.length === 0);
   const [viewMode, setViewMode] = useState<'result' | 'original' | 'video'>('result');
   const [showConceptSelector, setShowConceptSelector] = useState(false);
@@ -144,23 +206,77 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
   const [clearPin, setClearPin] = useState('');
   const [isClearing, setIsClearing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deletePin, setDeletePin] = useState('');
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [deletedItems, setDeletedItems] = useState<GalleryItem[]>([]);
+  const [deletedPin, setDeletedPin] = useState('');
+  const [isLoadingDeleted, setIsLoadingDeleted] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  
+  const [events, setEvents] = useState<EventRecord[]>([]);
+  // Server-side filter (lib/galleryQuery.ts); the search box is debounced into query.q
+  const [query, setQuery] = useState<GalleryQuery>({ eventId: activeEventId || undefined });
+  const [searchInput, setSearchInput] = useState('');
+  const [olderCursor, setOlderCursor] = useState('');
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   
   // State for Delta Sync
   const cursorRef = useRef<number>(0); 
   const itemsRef = useRef<GalleryItem[]>([]); // Track items for effect closure access
+  const queryRef = useRef<GalleryQuery>(query);
+  const isFirstQueryRef = useRef(true);
 
   // Update ref when items change
   useEffect(() => {
       itemsRef.current = items;
   }, [items]);
 
+  useEffect(() => {
+      fetchEvents().then(setEvents);
+  }, []);
+
+  // Follow the active event when it changes (kiosk switched event from Admin / Fleet)
+  useEffect(() => {
+      setQuery(prev => ({ ...prev, eventId: activeEventId || undefined }));
+  }, [activeEventId]);
+
+  useEffect(() => {
+      const timerId = setTimeout(() => {
+          const q = searchInput.trim();
+          setQuery(prev => (prev.q || '') === q ? prev : { ...prev, q: q || undefined });
+      }, SEARCH_DEBOUNCE_MS);
+      return () => clearTimeout(timerId);
+  }, [searchInput]);
+
+  const updateFilter = <K extends keyof GalleryQuery>(key: K, value: GalleryQuery[K] | '') => {
+      setQuery(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const resetFilters = () => {
+      setSearchInput('');
+      setQuery({ eventId: activeEventId || undefined });
+  };
+
+  // Default view (active event, no other filter) is what the parent caches
+  const isDefaultQuery = (q: GalleryQuery) => (q.eventId || '') === (activeEventId || '') && isGalleryQueryEmpty({ ...q, eventId: undefined });
+  const queryKey = JSON.stringify(query);
+
   // --- ADAPTIVE DATA POLLING & DELTA SYNC ---
+  // First call loads the newest page for the current filter; after that only deltas (since cursor).
+  // Deltas are unfiltered, so every merge re-applies the filter locally
   useEffect(() => {
      let timerId: ReturnType<typeof setTimeout>;
      let isMounted = true;
 
-     // Reset cursor when event changes
+     // Reset cursor when the filter (or event) changes
      cursorRef.current = 0;
+     queryRef.current = query;
+     setOlderCursor('');
+     if (!isFirstQueryRef.current) {
+         setItems([]);
+         setLoading(true);
+     }
+     isFirstQueryRef.current = false;
 
      const loadGallery = async () => {
         if (!isMounted) return;
@@ -175,38 +291,29 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
         let nextInterval = 15000; // Idle speed
 
         try {
-            // INCREMENTAL FETCH
-            const response = await fetchGallery(activeEventId, cursorRef.current);
+            const isFirstPage = cursorRef.current === 0;
+            // FIRST PAGE, THEN INCREMENTAL FETCH
+            const response = isFirstPage ? await fetchGalleryPage(query) : await fetchGallery(undefined, cursorRef.current);
+            if (!isMounted) return;
             const { items: newItems, nextCursor } = response;
 
-            if (newItems && newItems.length > 0) {
+            if (isFirstPage) {
+                console.log(`[GALLERY] Loaded ${newItems.length} items (Filter: ${queryKey})`);
+                setItems(sortGalleryItems([...newItems]));
+                setOlderCursor(response.olderCursor || '');
+            } else if (newItems.length > 0) {
                 console.log(`[GALLERY] Fetched ${newItems.length} items (Since: ${cursorRef.current})`);
                 
                 // MERGE STRATEGY
                 setItems(prevItems => {
-                    const mergedMap = new Map();
+                    const mergedMap = new Map<string, GalleryItem>();
                     // 1. Put old items in map
                     prevItems.forEach(i => mergedMap.set(i.id, i));
-                    // 2. Put/Overwrite new items in map (Updates status or adds new)
-                    newItems.forEach(i => mergedMap.set(i.id, i));
+                    // 2. Put/Overwrite new items in map (Updates status or adds new), drop soft-deleted ones and rows that left the filter
+                    newItems.forEach(i => i.deletedAt || !matchesGalleryQuery(i, query) ? mergedMap.delete(i.id) : mergedMap.set(i.id, i));
                     
-                    // 3. Convert back to array
-                    const mergedArray = Array.from(mergedMap.values()) as GalleryItem[];
-                    
-                    // 4. SORTING PRIORITY: Active Tasks First, Then Date
-                    return mergedArray.sort((a, b) => {
-                        // Check if items are active (processing, queued, uploading)
-                        const activeStates = ['processing', 'queued', 'uploading'];
-                        const aActive = activeStates.includes(a.videoStatus || '');
-                        const bActive = activeStates.includes(b.videoStatus || '');
-
-                        // Active items float to top
-                        if (aActive && !bActive) return -1;
-                        if (!aActive && bActive) return 1;
-
-                        // Otherwise sort by newest date
-                        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-                    });
+                    // 3. Convert back to array, active tasks first
+                    return sortGalleryItems(Array.from(mergedMap.values()));
                 });
             }
 
@@ -244,28 +351,60 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
         isMounted = false;
         if (timerId) clearTimeout(timerId);
      };
-  }, [activeEventId]);
+  }, [queryKey]);
+
+  // Backward paging through history for the current filter
+  const loadOlder = async () => {
+      if (!olderCursor || isLoadingOlder) return;
+      const requestedQuery = queryRef.current;
+      setIsLoadingOlder(true);
+      try {
+          const response = await fetchGalleryPage(requestedQuery, olderCursor);
+          if (queryRef.current !== requestedQuery) return; // Filter changed while loading
+          setItems(prevItems => {
+              const known = new Set(prevItems.map(i => i.id));
+              return sortGalleryItems([...prevItems, ...response.items.filter(i => !known.has(i.id))]);
+          });
+          setOlderCursor(response.olderCursor || '');
+      } catch (err) {
+          console.error("Gallery older page error:", err);
+      } finally {
+          setIsLoadingOlder(false);
+      }
+  };
 
   // Sync state to parent cache when items change
   useEffect(() => {
-      if (items.length > 0) {
+      if (items.length > 0 && isDefaultQuery(queryRef.current)) {
           // Filter items visually but cache everything relevant
           const filteredItems = items.filter(i => i.type !== 'video' || i.videoStatus === 'done' || i.videoStatus === 'ready_url' || i.videoStatus === 'uploading');
           onUpdateCache(filteredItems);
       }
   }, [items, onUpdateCache]);
 
-  // Display items are filtered
-  const displayItems = items.filter(i => i.type !== 'video' || i.videoStatus === 'done' || i.videoStatus === 'ready_url' || i.videoStatus === 'uploading' || i.videoStatus === 'processing' || i.videoStatus === 'queued');
+  // Display items are filtered (an explicit video status filter shows exactly what was asked for)
+  const displayItems = query.videoStatus ? items : items.filter(i => i.type !== 'video' || i.videoStatus === 'done' || i.videoStatus === 'ready_url' || i.videoStatus === 'uploading' || i.videoStatus === 'processing' || i.videoStatus === 'queued');
+  const conceptNames = Array.from(new Set(concepts.map(c => c.name).filter(Boolean)));
+  const hasFilter = !isDefaultQuery(query) || searchInput.trim() !== '';
 
   const confirmDelete = (e: React.MouseEvent) => {
       e.stopPropagation();
       if (!selectedItem || isDeleting) return;
+      setDeletePin('');
       setShowDeleteConfirm(true);
   };
 
+  // Deletes need an admin session; reuse the one from Admin or sign in with the PIN typed here
+  const ensureAdminSession = async (pin: string): Promise<boolean> => {
+      if (AdminSession.isActive()) return true;
+      const res = await AdminSession.login(pin);
+      if (!res.ok) alert(res.attemptsLeft !== undefined ? `PIN INVALID! (${res.attemptsLeft} attempts left)` : `PIN INVALID! ${res.error || ''}`);
+      return res.ok;
+  };
+
   const executeDelete = async () => {
       if (!selectedItem) return;
+      if (!(await ensureAdminSession(deletePin))) return;
       setIsDeleting(true);
       setShowDeleteConfirm(false); 
 
@@ -276,7 +415,7 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
       setSelectedItem(null); 
 
       try {
-          const res = await deletePhotoFromGas(idToDelete, settings?.adminPin || "0000");
+          const res = await deletePhotoFromGas(idToDelete);
           if (!res.ok) throw new Error(res.error || "Failed to delete");
       } catch (err: any) {
           console.error(err);
@@ -293,13 +432,16 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
   };
 
   const executeClearGallery = async () => {
-      if (String(clearPin) !== String(settings?.adminPin)) {
-          alert("PIN INVALID!");
+      // Purge always asks for the PIN again, even with an open admin session
+      const login = await AdminSession.login(clearPin);
+      if (!login.ok) {
+          alert(login.attemptsLeft !== undefined ? `PIN INVALID! (${login.attemptsLeft} attempts left)` : `PIN INVALID! ${login.error || ''}`);
           return;
       }
       setIsClearing(true);
       try {
-          await deleteAllPhotosFromGas(clearPin);
+          const res = await deleteAllPhotosFromGas();
+          if (!res.ok) throw new Error(res.error);
           setItems([]);
           onUpdateCache([]);
           cursorRef.current = 0; // Reset cursor
@@ -312,6 +454,48 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
       }
   };
 
+  // --- RECENTLY DELETED ---
+  const loadDeletedItems = async () => {
+      setIsLoadingDeleted(true);
+      const res = await fetchDeletedPhotos();
+      setIsLoadingDeleted(false);
+      if (res.ok) {
+          setDeletedItems(res.items || []);
+      } else if (AdminSession.isActive()) {
+          alert(`Failed to load deleted photos. ${res.error || ''}`);
+      }
+      // Expired session: panel falls back to the PIN prompt
+  };
+
+  const handleOpenDeleted = () => {
+      setShowDeleted(true);
+      setDeletedPin('');
+      setDeletedItems([]);
+      if (AdminSession.isActive()) loadDeletedItems();
+  };
+
+  const unlockDeleted = async () => {
+      if (!(await ensureAdminSession(deletedPin))) return;
+      setDeletedPin('');
+      loadDeletedItems();
+  };
+
+  const handleRestore = async (item: GalleryItem) => {
+      setRestoringId(item.id);
+      try {
+          const res = await restorePhotoFromGas(item.id);
+          if (!res.ok) throw new Error(res.error || "Failed to restore");
+          setDeletedItems(prev => prev.filter(i => i.id !== item.id));
+          // Optimistic; the next delta sync returns the row with its new updatedAt
+          setItems(prev => [{ ...item, deletedAt: undefined, deletedBy: undefined }, ...prev.filter(i => i.id !== item.id)]);
+      } catch (err: any) {
+          console.error(err);
+          alert(`Gagal memulihkan foto. Error: ${err.message}`);
+      } finally {
+          setRestoringId(null);
+      }
+  };
+
   const handleGenerateVideoFromGallery = async () => {
       if (!selectedItem || !selectedItem.sessionFolderId) {
           alert("Session data incomplete. Cannot generate video.");
@@ -319,12 +503,13 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
       }
       setIsGeneratingVideo(true);
       try {
-         const res = await fetch('/api/video/start', {
+         const res = await apiFetch('/api/video/start', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
                driveFileId: selectedItem.id,
                sessionFolderId: selectedItem.sessionFolderId,
+               eventId: selectedItem.eventId || undefined, // Budget of the photo's own event
                prompt: settings?.videoPrompt,
                resolution: settings?.videoResolution || '480p',
                model: settings?.videoModel || 'seedance-1-0-pro-fast-251015'
@@ -347,24 +532,58 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
       }
   };
 
-  const getHighResUrl = (id: string) => `https://drive.google.com/thumbnail?id=${id}&sz=w1200`;
-  const getOriginalUrl = (id: string) => `https://drive.google.com/thumbnail?id=${id}&sz=w1000`;
-  
-  // Logic updated: Prioritize providerUrl for instant playback
-  const getVideoPlayUrl = (item: GalleryItem) => {
-    if (item.providerUrl) {
-        // Use proxy to avoid CORS/Headers issues with provider URL
-        return `/api/video/proxy?url=${encodeURIComponent(item.providerUrl)}`;
+  const getHighResUrl = (id: string) => getStorageBackend().fileUrl(id, 1200);
+  const getOriginalUrl = (id: string) => getStorageBackend().fileUrl(id, 1000);
+
+  // Multi-shot rows store individual frame IDs as a JSON array
+  const getFrameIds = (item: GalleryItem): string[] => {
+    if (!item.frames) return [];
+    try {
+      const ids = JSON.parse(item.frames);
+      return Array.isArray(ids) ? ids.filter((id: any) => typeof id === 'string') : [];
+    } catch (e) {
+      return [];
     }
-    if (item.videoFileId) {
-        const targetUrl = `https://drive.google.com/uc?export=download&id=${item.videoFileId}`;
-        return `/api/video/proxy?url=${encodeURIComponent(targetUrl)}`;
-    }
-    return '';
   };
+  
+  // Logic updated: Prioritize providerUrl for instant playback. The proxy needs the kiosk key,
+  // so remote videos are fetched through apiFetch and played from an object URL
+  const [videoPlayUrl, setVideoPlayUrl] = useState('');
+  const videoSourceKey = selectedItem && viewMode === 'video' ? `${selectedItem.providerUrl || ''}|${selectedItem.videoFileId || ''}` : '';
+  useEffect(() => {
+     setVideoPlayUrl('');
+     if (!selectedItem || !videoSourceKey) return;
+     const backend = getStorageBackend();
+     // Local files are same-origin already (and the proxy refuses LAN hosts)
+     if (!selectedItem.providerUrl && selectedItem.videoFileId && backend.id === 'local') {
+        setVideoPlayUrl(backend.downloadUrl(selectedItem.videoFileId));
+        return;
+     }
+     const targetUrl = selectedItem.providerUrl || (selectedItem.videoFileId ? backend.downloadUrl(selectedItem.videoFileId) : '');
+     if (!targetUrl) return;
+     const controller = new AbortController();
+     let objectUrl = '';
+     loadProxiedVideo(targetUrl, controller.signal)
+        .then(url => {
+           if (controller.signal.aborted) return URL.revokeObjectURL(url);
+           objectUrl = url;
+           setVideoPlayUrl(url);
+        })
+        .catch(e => { if (!controller.signal.aborted) console.warn("[Gallery] Video playback failed:", e.message); });
+     return () => {
+        controller.abort();
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+     };
+  }, [videoSourceKey]);
+
+  // Share token only for the photo being opened (public gallery reads do not carry it)
+  useEffect(() => {
+     if (!selectedItem || shareTokens[selectedItem.id]) return;
+     fetchShareTokens([selectedItem.id]).then(found => setShareTokens(prev => ({ ...prev, ...found })));
+  }, [selectedItem?.id]);
 
   const getQRLink = (item: GalleryItem) => {
-     return item.sessionFolderUrl || item.downloadUrl;
+     return getShareUrl({ token: shareTokens[item.id] }, item.sessionFolderUrl || item.downloadUrl);
   };
 
   const handleItemClick = (item: GalleryItem) => {
@@ -406,6 +625,7 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
       if (selectedItem) {
           // Print High Res Version
           printImage(getHighResUrl(selectedItem.id));
+          recordPrint(selectedItem.id);
       }
   };
 
@@ -421,18 +641,65 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
           <svg className="w-6 h-6 transform group-hover:-translate-x-2 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
           BACK
         </button>
-        <h2 className="text-3xl md:text-5xl font-heading text-white neon-text italic uppercase tracking-tighter text-center bg-black/20 backdrop-blur-sm px-6 py-2 rounded-lg">PHOTO GALLERY</h2>
+        <div className="flex flex-col items-center gap-2">
+          <h2 className="text-3xl md:text-5xl font-heading text-white neon-text italic uppercase tracking-tighter text-center bg-black/20 backdrop-blur-sm px-6 py-2 rounded-lg">PHOTO GALLERY</h2>
+          {pendingSyncCount > 0 && (
+            <span className="text-[10px] font-mono uppercase tracking-widest text-orange-300 bg-orange-900/30 border border-orange-500/40 px-3 py-1 rounded-full animate-pulse">
+              {pendingSyncCount} PENDING SYNC
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+        <button onClick={handleOpenDeleted} className="flex items-center gap-2 text-gray-300 hover:text-white uppercase tracking-widest font-bold text-xs transition-all border border-white/10 px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 shrink-0 backdrop-blur-md">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
+            <span className="hidden md:inline">RECENTLY DELETED</span>
+        </button>
         <button onClick={handleClearClick} className="flex items-center gap-2 text-red-500 hover:text-red-400 uppercase tracking-widest font-bold text-xs transition-all border border-red-900/30 px-4 py-2 rounded-lg bg-red-900/10 hover:bg-red-900/30 shrink-0 backdrop-blur-md">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
             <span className="hidden md:inline">CLEAR GALLERY</span>
         </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 max-w-7xl mx-auto w-full px-2 mb-6 shrink-0">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={e => setSearchInput(e.target.value)}
+          placeholder="SEARCH CONCEPT / ID"
+          className="flex-1 min-w-[180px] bg-black/50 border border-white/10 px-3 py-2 rounded-lg font-mono text-[10px] text-white outline-none focus:border-purple-500 uppercase tracking-wider backdrop-blur-md"
+        />
+        <select value={query.eventId || ''} onChange={e => updateFilter('eventId', e.target.value)} className={FILTER_SELECT_CLASS}>
+          <option value="">All events</option>
+          {events.map(ev => <option key={ev.id} value={ev.id}>{ev.name}{ev.isActive ? ' (active)' : ''}</option>)}
+        </select>
+        <select value={query.conceptName || ''} onChange={e => updateFilter('conceptName', e.target.value)} className={FILTER_SELECT_CLASS}>
+          <option value="">All concepts</option>
+          {conceptNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select value={query.type || ''} onChange={e => updateFilter('type', e.target.value as GalleryQuery['type'])} className={FILTER_SELECT_CLASS}>
+          <option value="">All types</option>
+          {GALLERY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <select value={query.videoStatus || ''} onChange={e => updateFilter('videoStatus', e.target.value as VideoStatus)} className={FILTER_SELECT_CLASS}>
+          <option value="">Any video status</option>
+          {FILTER_VIDEO_STATUSES.map(status => <option key={status} value={status}>{status.replace('_', ' ')}</option>)}
+        </select>
+        {hasFilter && (
+          <button onClick={resetFilters} className="px-3 py-2 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 text-gray-300 hover:text-white font-bold uppercase tracking-widest text-[10px] transition-all">
+            Reset
+          </button>
+        )}
       </div>
 
       <div className="flex-1 max-w-7xl mx-auto w-full px-2">
         {loading && items.length === 0 && processingItems.length === 0 ? (
           <div className="flex justify-center mt-20"><div className="w-16 h-16 border-4 border-purple-500 rounded-full animate-spin border-t-transparent"/></div>
+        ) : displayItems.length === 0 && processingItems.length === 0 && hasFilter ? (
+          <p className="text-center text-gray-500 font-mono text-xs uppercase tracking-widest mt-20">No photos match these filters</p>
         ) : (
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pb-32 animate-[popIn_0.5s_ease-out]">
+          <div className="pb-32">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 animate-[popIn_0.5s_ease-out]">
             {processingItems.map((n) => (
                <div key={`ghost-${n.id}`} className="aspect-[9/16] bg-black/40 backdrop-blur-md border-2 border-dashed border-white/20 rounded-lg overflow-hidden flex flex-col items-center justify-center p-4 relative animate-pulse shadow-[0_0_20px_rgba(255,255,255,0.05)]">
                    <div className="w-12 h-12 rounded-full border-4 border-purple-500 border-t-transparent animate-spin mb-4" />
@@ -444,6 +711,14 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
               <GalleryThumb key={item.id || idx} item={item} settings={settings} onClick={handleItemClick} />
             ))}
           </div>
+          {olderCursor && (
+            <div className="flex justify-center mt-8">
+              <button onClick={loadOlder} disabled={isLoadingOlder} className="px-6 py-3 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 text-gray-300 hover:text-white font-bold uppercase tracking-widest text-xs transition-all disabled:opacity-50 disabled:cursor-wait backdrop-blur-md">
+                {isLoadingOlder ? 'LOADING...' : 'LOAD OLDER'}
+              </button>
+            </div>
+          )}
+          </div>
         )}
       </div>
 
@@ -454,7 +729,7 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
                       <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                   </div>
                   <div className="text-center"><h3 className="text-xl font-heading text-red-500 uppercase tracking-widest">SECURITY CHECK</h3></div>
-                  <input type="password" className="w-full bg-black border-2 border-white/10 p-4 text-center text-2xl text-white tracking-[0.5em] focus:border-red-500 outline-none rounded-lg" placeholder="PIN" value={clearPin} onChange={(e) => setClearPin(e.target.value)} maxLength={8} />
+                  <input type="password" className="w-full bg-black border-2 border-white/10 p-4 text-center text-2xl text-white tracking-[0.5em] focus:border-red-500 outline-none rounded-lg" placeholder="PIN" value={clearPin} onChange={(e) => setClearPin(e.target.value)} />
                   <div className="flex flex-col gap-3 w-full">
                       <button onClick={executeClearGallery} disabled={isClearing} className="w-full py-4 bg-red-600 hover:bg-red-500 text-white font-bold uppercase tracking-widest rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed">{isClearing ? 'DELETING...' : 'CONFIRM PURGE'}</button>
                       <button onClick={() => setShowClearDialog(false)} disabled={isClearing} className="w-full py-4 bg-white/5 hover:bg-white/10 text-gray-400 font-bold uppercase tracking-widest rounded-lg transition-all">CANCEL</button>
@@ -463,11 +738,51 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
           </div>
       )}
 
+      {showDeleted && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/95 backdrop-blur-xl p-4 animate-[fadeIn_0.2s]" onClick={() => setShowDeleted(false)}>
+            <div className="bg-[#0a0a0a] border border-white/10 rounded-xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col gap-4 shadow-[0_0_50px_rgba(188,19,254,0.15)]" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h3 className="text-xl font-heading text-white uppercase italic tracking-widest">RECENTLY DELETED</h3>
+                    <button onClick={() => setShowDeleted(false)} className="text-gray-500 hover:text-white text-xs font-bold uppercase tracking-widest">Close</button>
+                </div>
+                {!AdminSession.isActive() ? (
+                    <div className="flex flex-col items-center gap-4 py-6">
+                        <input type="password" className="w-full max-w-xs bg-black border-2 border-white/10 p-3 text-center text-xl text-white tracking-[0.5em] focus:border-purple-500 outline-none rounded-lg" placeholder="ADMIN PIN" value={deletedPin} onChange={(e) => setDeletedPin(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && unlockDeleted()} />
+                        <button onClick={unlockDeleted} className="w-full max-w-xs py-3 bg-purple-600 hover:bg-purple-500 text-white font-bold uppercase tracking-widest text-[10px] rounded transition-colors">Unlock</button>
+                    </div>
+                ) : isLoadingDeleted ? (
+                    <div className="flex justify-center py-10"><div className="w-10 h-10 border-4 border-purple-500 rounded-full animate-spin border-t-transparent"/></div>
+                ) : deletedItems.length === 0 ? (
+                    <p className="text-gray-500 text-xs font-mono uppercase tracking-widest text-center py-10">No deleted photos</p>
+                ) : (
+                    <div className="flex flex-col gap-2 overflow-y-auto pr-1">
+                        {deletedItems.map(item => (
+                            <div key={item.id} className="flex items-center justify-between gap-4 bg-white/5 border border-white/10 rounded-lg px-4 py-3">
+                                <div className="flex flex-col min-w-0">
+                                    <span className="text-white text-xs font-bold uppercase tracking-wider truncate">{item.conceptName || item.id} {item.type && item.type !== 'image' ? `(${item.type})` : ''}</span>
+                                    <span className="text-gray-500 text-[10px] font-mono">Taken {new Date(item.createdAt).toLocaleString()}</span>
+                                    <span className="text-red-400/80 text-[10px] font-mono">Deleted {item.deletedAt ? new Date(item.deletedAt).toLocaleString() : ''} by {item.deletedBy || 'unknown'}</span>
+                                </div>
+                                <button onClick={() => handleRestore(item)} disabled={restoringId !== null} className="shrink-0 px-4 py-2 bg-green-900/30 hover:bg-green-900/50 border border-green-500/40 text-green-300 font-bold uppercase tracking-widest text-[10px] rounded transition-colors disabled:opacity-50 disabled:cursor-wait">
+                                    {restoringId === item.id ? 'RESTORING...' : 'RESTORE'}
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+      )}
+
       {showDeleteConfirm && (
         <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.2s]" onClick={() => setShowDeleteConfirm(false)}>
             <div className="bg-[#0a0a0a] border border-red-500/50 rounded-xl p-6 max-w-sm w-full shadow-[0_0_30px_rgba(239,68,68,0.3)] relative" onClick={e => e.stopPropagation()}>
                 <div className="flex flex-col items-center gap-4 text-center">
                     <h3 className="text-xl font-heading text-red-500 uppercase italic tracking-widest">DELETE PHOTO?</h3>
+                    <p className="text-gray-500 text-[10px] font-mono uppercase tracking-wider">Can be restored from Recently Deleted</p>
+                    {!AdminSession.isActive() && (
+                        <input type="password" className="w-full bg-black border-2 border-white/10 p-3 text-center text-xl text-white tracking-[0.5em] focus:border-red-500 outline-none rounded-lg" placeholder="ADMIN PIN" value={deletePin} onChange={(e) => setDeletePin(e.target.value)} />
+                    )}
                     <div className="flex gap-4 w-full mt-4">
                         <button onClick={() => setShowDeleteConfirm(false)} className="flex-1 py-3 bg-white/5 hover:bg-white/10 text-white font-bold uppercase tracking-widest text-[10px] rounded transition-colors border border-white/10">Cancel</button>
                         <button onClick={executeDelete} className="flex-1 py-3 bg-red-600 hover:bg-red-500 text-white font-bold uppercase tracking-widest text-[10px] rounded transition-colors shadow-lg">Confirm Delete</button>
@@ -485,9 +800,9 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
                   {viewMode === 'original' && selectedItem.originalId && <img src={getOriginalUrl(selectedItem.originalId)} className="w-full h-full object-contain" />}
                   
                   {/* VIDEO PLAYER */}
-                  {viewMode === 'video' && (selectedItem.videoFileId || selectedItem.providerUrl) && (
+                  {viewMode === 'video' && videoPlayUrl && (
                       <video 
-                        src={getVideoPlayUrl(selectedItem)} 
+                        src={videoPlayUrl} 
                         controls 
                         autoPlay 
                         loop 
@@ -508,7 +823,17 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
                   )}
 
                   <div className="absolute top-0 left-0 w-full p-6 bg-gradient-to-b from-black/80 to-transparent flex justify-between items-start z-30 pointer-events-none">
-                      <div className="pointer-events-auto"><p className="text-gray-400 text-xs uppercase font-mono tracking-widest mt-1">{new Date(selectedItem.createdAt).toLocaleString()}</p></div>
+                      <div className="pointer-events-auto">
+                          <p className="text-gray-400 text-xs uppercase font-mono tracking-widest mt-1">{new Date(selectedItem.createdAt).toLocaleString()}</p>
+                          <GenerationInfo item={selectedItem} />
+                          {getFrameIds(selectedItem).length > 0 && (
+                              <div className="flex gap-2 mt-3">
+                                  {getFrameIds(selectedItem).map((frameId, i) => (
+                                      <img key={frameId} src={getStorageBackend().fileUrl(frameId, 400)} alt={`Frame ${i + 1}`} className="w-14 h-14 object-cover rounded border border-white/20" />
+                                  ))}
+                              </div>
+                          )}
+                      </div>
                       <button onClick={() => setSelectedItem(null)} className="pointer-events-auto text-white/70 hover:text-white bg-black/20 hover:bg-red-500/20 rounded-full p-2 transition-all backdrop-blur-md border border-white/10">
                           <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                       </button>
@@ -539,6 +864,9 @@ const GalleryPage: React.FC<GalleryPageProps> = ({
                           <div className="flex bg-black/40 backdrop-blur-md rounded-xl p-1.5 border border-white/10 shadow-lg">
                               <button onClick={() => setViewMode('result')} className={`px-6 py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all ${viewMode === 'result' ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}>RESULT</button>
                               {selectedItem.originalId && <button onClick={() => setViewMode('original')} className={`px-6 py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all ${viewMode === 'original' ? 'bg-green-600 text-white shadow-lg' : 'text-gray-400 hover:text-white'}`}>ORIGINAL</button>}
+                              {selectedItem.type === 'boomerang' && selectedItem.videoFileId && (
+                                  <button onClick={() => setViewMode('video')} className={`px-6 py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all ${viewMode === 'video' ? 'bg-amber-500 text-black shadow-lg' : 'text-amber-400 hover:text-amber-200'}`}>LOOP</button>
+                              )}
                               {settings?.boothMode === 'video' && (
                                   <>
                                       {isSelectedVideoReady && (selectedItem.videoFileId || selectedItem.providerUrl) && (
@@ -8,9 +8,11 @@ interface LandingPageProps {
   onAdmin: () => void;
   settings: PhotoboothSettings;
   notifications?: ProcessNotification[]; // New Prop
+  pendingSyncCount?: number; // Photos waiting in the offline outbox
+  locked?: boolean; // Held by Admin > Fleet: guests cannot start a session
 }
 
-const LandingPage: React.FC<LandingPageProps> = ({ onStart, onGallery, onAdmin, settings, notifications = [] }) => {
+const LandingPage: React.FC<LandingPageProps> = ({ onStart, onGallery, onAdmin, settings, notifications = [], pendingSyncCount = 0, locked = false }) => {
   
   const toggleFullScreen = () => {
     if (!document.fullscreenElement) {
@@ -52,6 +54,11 @@ const LandingPage: React.FC<LandingPageProps> = ({ onStart, onGallery, onAdmin,
         </h2>
       </div>
 
+      {locked ? (
+        <div className="relative z-10 px-8 py-5 border-2 border-white/20 bg-black/60 font-heading text-lg md:text-2xl tracking-widest text-gray-300 italic uppercase">
+          Booth paused, please ask our crew
+        </div>
+      ) : (
       <div className="relative z-10 flex flex-col md:flex-row gap-4 md:gap-8 w-full max-w-md md:max-w-none justify-center">
         <button 
           onClick={onStart}
@@ -68,9 +75,18 @@ const LandingPage: React.FC<LandingPageProps> = ({ onStart, onGallery, onAdmin,
           <span className="relative z-10 italic">GALLERY</span>
         </button>
       </div>
+      )}
 
       {/* SYSTEM LOGS / NOTIFICATIONS */}
       <div className="absolute bottom-0 left-0 w-full z-20 flex flex-col items-center pb-4 pointer-events-none">
+         {pendingSyncCount > 0 && (
+            <div className="mb-2 bg-black/80 backdrop-blur-md border border-orange-500/40 px-4 py-2 rounded-full flex items-center gap-3">
+                <div className="w-2 h-2 rounded-full bg-orange-500 animate-pulse" />
+                <span className="text-[10px] font-mono uppercase text-orange-300">
+                    {pendingSyncCount} PHOTO{pendingSyncCount > 1 ? 'S' : ''} PENDING SYNC
+                </span>
+            </div>
+         )}
          {notifications.map(n => (
             <div key={n.id} className="mb-2 bg-black/80 backdrop-blur-md border border-white/10 px-4 py-2 rounded-full flex items-center gap-3 animate-[slideInUp_0.3s_ease-out]">
                 {n.status === 'processing' && <div className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse" />}
@@ -2,6 +2,8 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { GalleryItem, MonitorTheme } from '../types';
 import { fetchGallery } from '../lib/appsScript';
+import { getShareUrl as getGuestShareUrl } from '../lib/share';
+import { fetchShareTokens } from '../lib/shareLinks';
 
 interface MonitorPageProps {
   onBack: () => void;
@@ -36,6 +38,7 @@ const MonitorPage: React.FC<MonitorPageProps> = ({ onBack, activeEventId, eventN
 
   // State specific for Slider Theme
   const [sliderActiveItem, setSliderActiveItem] = useState<GalleryItem | null>(null);
+  const [shareTokens, setShareTokens] = useState<Record<string, string>>({});
 
   // Constants for Physics
   const getDimensions = () => {
@@ -297,9 +300,17 @@ const MonitorPage: React.FC<MonitorPageProps> = ({ onBack, activeEventId, eventN
     });
   };
 
+  // Share tokens for the items showing a QR (public gallery reads do not carry them)
+  const qrItemIds = [photoItems[0]?.id, sliderActiveItem?.id, lightboxItem?.id].filter((id): id is string => !!id);
+  useEffect(() => {
+     const missing = qrItemIds.filter(id => !shareTokens[id]);
+     if (missing.length === 0) return;
+     fetchShareTokens(missing).then(found => setShareTokens(prev => ({ ...prev, ...found })));
+  }, [qrItemIds.join(',')]);
+
   const getShareUrl = (item: GalleryItem) => {
-    if (item.downloadUrl && item.downloadUrl.includes('drive.google.com')) return item.downloadUrl;
-    return `https://drive.google.com/file/d/${item.id}/view`;
+    const fallback = item.downloadUrl && item.downloadUrl.startsWith('http') ? item.downloadUrl : `https://drive.google.com/file/d/${item.id}/view`;
+    return getGuestShareUrl({ token: shareTokens[item.id] }, fallback);
   };
 
   const getHighResUrl = (item: GalleryItem) => {
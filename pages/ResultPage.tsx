@@ -1,14 +1,25 @@
 
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { Concept, PhotoboothSettings, AspectRatio } from '../types';
-import { generateAIImage } from '../lib/gemini';
-import { uploadToDrive, createSessionFolder, queueVideoTask } from '../lib/appsScript';
+import { Concept, PhotoboothSettings, AspectRatio, StripLayout, GuestContact, StageTimings } from '../types';
+import { generateAIImage, GeneratedImage } from '../lib/gemini';
+import { uploadToDrive, readAsDataUrl, createSessionFolder, queueVideoTask, saveGuestContact, recordPrint } from '../lib/appsScript';
+import { deliveryChannels, normalizeContact } from '../lib/delivery';
+import { serializeFallbackPath } from '../lib/generationMeta';
+import { apiFetch } from '../lib/apiClient';
 import { applyOverlay } from '../lib/imageUtils';
-import { OverlayCache } from '../lib/overlayCache'; 
+import { resolveOverlayTemplate, preloadTemplateAssets, OverlayContext } from '../lib/overlayCompositor';
 import { printImage } from '../lib/printUtils';
+import { Outbox } from '../lib/outbox';
+import { getShareUrl } from '../lib/share';
+import { fetchShareTokens } from '../lib/shareLinks';
+import { composeLayout, planLayout } from '../lib/layoutEngine';
+import { aiQueue } from '../lib/aiQueue';
+import { pickKeyframes, clampKeyframes, encodeBoomerangGif, recordBoomerangVideo } from '../lib/boomerang';
 
 interface ResultPageProps {
   capturedImage: string;
+  capturedShots?: string[]; // Multi-shot session (> 1 frame = photo strip)
+  capturedBurst?: string[]; // Boomerang burst (> 1 frame = looping GIF + video)
   concept: Concept;
   settings: PhotoboothSettings;
   concepts: Concept[]; 
@@ -18,13 +29,24 @@ interface ResultPageProps {
   existingSession?: {id: string, url: string} | null;
 }
 
-const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initialConcept, settings, concepts, onDone, onGallery, isUltraQuality = false, existingSession }) => {
+// Concept per shot: same for all, or cycle through the list starting at the chosen one
+const resolveShotConcepts = (concept: Concept, concepts: Concept[], count: number, mode: PhotoboothSettings['shotConcepts']): Concept[] => {
+  if (mode !== 'cycle' || concepts.length < 2) return Array(count).fill(concept);
+  const start = Math.max(0, concepts.findIndex(c => c.id === concept.id));
+  return Array.from({ length: count }, (_, i) => concepts[(start + i) % concepts.length]);
+};
+
+const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, capturedShots = [], capturedBurst = [], concept: initialConcept, settings, concepts, onDone, onGallery, isUltraQuality = false, existingSession }) => {
   const [concept, setConcept] = useState(initialConcept);
   const [isProcessing, setIsProcessing] = useState(true);
   const [isFinalizing, setIsFinalizing] = useState(false);
   const [resultImage, setResultImage] = useState<string | null>(null);
+  const [originalPreview, setOriginalPreview] = useState<string>(capturedImage);
   const [sessionFolder, setSessionFolder] = useState<{id: string, url: string} | null>(existingSession || null);
   const [photoId, setPhotoId] = useState<string | null>(null); 
+  const [isPendingSync, setIsPendingSync] = useState(false);
+  const [shareToken, setShareToken] = useState('');
+  const [boomerangUrl, setBoomerangUrl] = useState<string | null>(null); // Object URL of the encoded GIF
   const [viewMode, setViewMode] = useState<'result' | 'original'>('result');
   const [showConceptSelector, setShowConceptSelector] = useState(false);
   const [selectedRegenConcept, setSelectedRegenConcept] = useState<Concept | null>(null);
@@ -38,6 +60,14 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
   const [isVideoRequested, setIsVideoRequested] = useState(false);
   const [videoRedirectTimer, setVideoRedirectTimer] = useState<number | null>(null);
   const [videoStatusText, setVideoStatusText] = useState("PREPARING REQUEST...");
+  const [showContactForm, setShowContactForm] = useState(false);
+  const [contactEmail, setContactEmail] = useState('');
+  const [contactPhone, setContactPhone] = useState('');
+  const [contactError, setContactError] = useState<string | null>(null);
+  const [guestContact, setGuestContact] = useState<GuestContact | null>(null);
+  const [contactStatus, setContactStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const contactSavedForRef = useRef<string | null>(null); // Photo the contact was attached to (regenerate = new photo)
+  const contactChannels = deliveryChannels(settings.guestDelivery);
 
   let targetWidth = 1080;
   let targetHeight = 1920;
@@ -50,6 +80,15 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
     case '2:3': targetWidth = 1200; targetHeight = 1800; displayAspectRatio = '2/3'; break;
   }
 
+  const isBoomerang = capturedBurst.length > 1;
+  const isMultiShot = !isBoomerang && capturedShots.length > 1;
+  const stripLayout: StripLayout = settings.stripLayout || 'strip';
+  const frameAspect = targetWidth / targetHeight;
+  if (isMultiShot) {
+    const plan = planLayout(stripLayout, capturedShots.length, frameAspect);
+    displayAspectRatio = `${plan.width}/${plan.height}`;
+  }
+
   const handleProcessFlow = useCallback(async () => {
     setIsProcessing(true);
     setIsFinalizing(true); 
@@ -57,6 +96,8 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
     setTimer(0);
     setResultImage(null);
     setPhotoId(null);
+    setIsPendingSync(false);
+    setBoomerangUrl(null);
     
     if (timerRef.current) clearInterval(timerRef.current);
     timerRef.current = setInterval(() => setTimer(prev => prev + 1), 1000);
@@ -78,8 +119,14 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
            });
       }
 
+      // Multi-shot: the "original" is the untouched strip
+      const originalImage = isMultiShot
+        ? await composeLayout(capturedShots, { layout: stripLayout, frameAspect, caption: settings.eventName })
+        : capturedImage;
+      setOriginalPreview(originalImage);
+
       const originalUploadTask = (!isRegeneration && settings.originalFolderId) 
-        ? uploadToDrive(capturedImage, {
+        ? uploadToDrive(originalImage, {
              conceptName: "ORIGINAL_CAPTURE",
              eventName: settings.eventName,
              eventId: settings.activeEventId,
@@ -88,16 +135,131 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
           })
         : Promise.resolve({ ok: true, id: null });
 
-      const overlayPreloadTask = settings.overlayImage 
-        ? OverlayCache.preloadOverlay(settings.overlayImage)
-        : Promise.resolve(null);
-
-      setProgress(currentQuality ? "GENERATING ULTRA QUALITY (SLOW)..." : "GENERATING AI VISUALS...");
-      const aiOutput = await generateAIImage(capturedImage, concept, outputRatio, currentQuality);
+      // Layer assets warm up during AI generation; QR layers also wait for the session URL
+      const overlay = resolveOverlayTemplate(settings);
+      const hasQrLayer = !!overlay?.layers.some(l => l.visible && l.type === 'qr');
+      const overlayTask = Promise.all([
+          preloadTemplateAssets(overlay),
+          hasQrLayer ? sessionTask : Promise.resolve(null)
+      ]).then(([, session]): OverlayContext => ({
+          eventName: settings.eventName,
+          conceptName: concept.name,
+          sessionUrl: session?.ok ? session.folderUrl : undefined
+      }));
+
+      let finalImage: string;
+      let aiModel: string;
+      let frames: string[] | undefined;
+      let generated: GeneratedImage[];
+      // Kiosk side of GalleryItem.stageTimings, uploadMs is measured by the backend
+      const aiStartedAt = Date.now();
+      let overlayStartedAt: number;
+
+      if (isBoomerang) {
+          const keyframes = pickKeyframes(capturedBurst, clampKeyframes(settings.boomerangKeyframes));
+          let completed = 0;
+          setProgress(`GENERATING KEYFRAMES 0/${keyframes.length}...`);
+          const results = await Promise.all(keyframes.map(frame => aiQueue.add(async (): Promise<GeneratedImage> => {
+              const result = await generateAIImage(frame, concept, outputRatio, currentQuality, settings.activeEventId);
+              completed++;
+              setProgress(`GENERATING KEYFRAMES ${completed}/${keyframes.length}...`);
+              return result;
+          }, { throwOnTimeout: true })));
+          aiModel = Array.from(new Set(results.map(r => r.model))).join(',');
+          overlayStartedAt = Date.now();
+
+          setProgress("ENCODING BOOMERANG...");
+          const overlayContext = await overlayTask;
+          const loopFrames: string[] = [];
+          for (const r of results) {
+              loopFrames.push(await applyOverlay(r.image, overlay, targetWidth, targetHeight, overlayContext));
+          }
+          const gif = await encodeBoomerangGif(loopFrames);
+          const video = await recordBoomerangVideo(loopFrames).catch(err => {
+              console.warn("[Boomerang] Video recording failed, GIF only:", err);
+              return null;
+          });
+
+          const stageTimings: StageTimings = { aiMs: overlayStartedAt - aiStartedAt, overlayMs: Date.now() - overlayStartedAt };
+
+          // Still frame for print / regenerate preview
+          setResultImage(loopFrames[0]);
+          setBoomerangUrl(URL.createObjectURL(gif));
+          setIsProcessing(false);
+          if (timerRef.current) clearInterval(timerRef.current);
+
+          const sessionRes = await sessionTask;
+          const originalRes = await originalUploadTask;
+          const hasSession = sessionRes.ok && !!sessionRes.folderId;
+
+          // Same outbox as photos: a dropped upload keeps the GIF + loop video for a later retry
+          const delivery = await Outbox.deliver({
+              kind: 'boomerang',
+              image: await readAsDataUrl(gif),
+              video: video ? await readAsDataUrl(video) : undefined,
+              original: (!isRegeneration && settings.originalFolderId && !originalRes.ok) ? originalImage : undefined,
+              conceptName: concept.name,
+              eventName: settings.eventName,
+              eventId: settings.activeEventId,
+              folderId: hasSession ? sessionRes.folderId : undefined,
+              needsSession: !hasSession,
+              originalFolderId: settings.originalFolderId,
+              originalId: originalRes.id || undefined,
+              sessionFolderId: hasSession ? sessionRes.folderId : undefined,
+              sessionFolderUrl: hasSession ? sessionRes.folderUrl : undefined,
+              aiModel,
+              promptMode: results[0]?.promptMode,
+              fallbackPath: serializeFallbackPath(results),
+              stageTimings
+          });
+
+          if (delivery.ok) {
+              setPhotoId(delivery.id);
+              if (!hasSession && delivery.sessionFolderId && delivery.sessionFolderUrl) {
+                  setSessionFolder({ id: delivery.sessionFolderId, url: delivery.sessionFolderUrl });
+              }
+          } else {
+              setIsPendingSync(true);
+          }
+          setIsFinalizing(false);
+          return;
+      }
 
-      setProgress("APPLYING FINAL TOUCHES...");
-      await overlayPreloadTask;
-      const finalImage = await applyOverlay(aiOutput, settings.overlayImage, targetWidth, targetHeight);
+      if (isMultiShot) {
+          const shotConcepts = resolveShotConcepts(concept, concepts, capturedShots.length, settings.shotConcepts);
+          let completed = 0;
+          setProgress(`GENERATING FRAMES 0/${capturedShots.length}...`);
+          const results = await Promise.all(capturedShots.map((shot, i) => aiQueue.add(async (): Promise<GeneratedImage> => {
+              const result = await generateAIImage(shot, shotConcepts[i], outputRatio, currentQuality, settings.activeEventId);
+              completed++;
+              setProgress(`GENERATING FRAMES ${completed}/${capturedShots.length}...`);
+              return result;
+          }, { throwOnTimeout: true })));
+
+          frames = results.map(r => r.image);
+          generated = results;
+          aiModel = Array.from(new Set(results.map(r => r.model))).join(',');
+          overlayStartedAt = Date.now();
+
+          setProgress("COMPOSING PHOTO STRIP...");
+          finalImage = await composeLayout(frames, {
+              layout: stripLayout,
+              frameAspect,
+              overlay,
+              overlayContext: await overlayTask,
+              caption: settings.eventName
+          });
+      } else {
+          setProgress(currentQuality ? "GENERATING ULTRA QUALITY (SLOW)..." : "GENERATING AI VISUALS...");
+          const result = await generateAIImage(capturedImage, concept, outputRatio, currentQuality, settings.activeEventId);
+          generated = [result];
+          aiModel = result.model;
+          overlayStartedAt = Date.now();
+
+          setProgress("APPLYING FINAL TOUCHES...");
+          finalImage = await applyOverlay(result.image, overlay, targetWidth, targetHeight, await overlayTask);
+      }
+      const stageTimings: StageTimings = { aiMs: overlayStartedAt - aiStartedAt, overlayMs: Date.now() - overlayStartedAt };
       
       setResultImage(finalImage);
       setIsProcessing(false);
@@ -105,23 +267,36 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
 
       const sessionRes = await sessionTask;
       const originalRes = await originalUploadTask;
+      const hasSession = sessionRes.ok && !!sessionRes.folderId;
 
-      if (!sessionRes.ok || !sessionRes.folderId) {
-          throw new Error("Gagal membuat/akses folder sesi.");
-      }
-
-      const uploadRes = await uploadToDrive(finalImage, {
+      // Gagal (Wi-Fi putus) -> otomatis masuk outbox, tamu tetap bisa lihat & print
+      const delivery = await Outbox.deliver({
+          image: finalImage,
+          original: (!isRegeneration && settings.originalFolderId && !originalRes.ok) ? originalImage : undefined,
           conceptName: concept.name,
           eventName: settings.eventName,
           eventId: settings.activeEventId,
-          folderId: sessionRes.folderId, 
-          originalId: originalRes.id,
-          sessionFolderId: sessionRes.folderId,
-          sessionFolderUrl: sessionRes.folderUrl
+          folderId: hasSession ? sessionRes.folderId : undefined,
+          needsSession: !hasSession,
+          originalFolderId: settings.originalFolderId,
+          originalId: originalRes.id || undefined,
+          sessionFolderId: hasSession ? sessionRes.folderId : undefined,
+          sessionFolderUrl: hasSession ? sessionRes.folderUrl : undefined,
+          aiModel,
+          promptMode: generated[0]?.promptMode,
+          fallbackPath: serializeFallbackPath(generated),
+          stageTimings,
+          layout: isMultiShot ? stripLayout : undefined,
+          frames
       });
 
-      if (uploadRes.ok) {
-        setPhotoId(uploadRes.id);
+      if (delivery.ok) {
+        setPhotoId(delivery.id);
+        if (!hasSession && delivery.sessionFolderId && delivery.sessionFolderUrl) {
+            setSessionFolder({ id: delivery.sessionFolderId, url: delivery.sessionFolderUrl });
+        }
+      } else {
+        setIsPendingSync(true);
       }
       
       setIsFinalizing(false);
@@ -133,13 +308,60 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
       setIsFinalizing(false);
       if (timerRef.current) clearInterval(timerRef.current);
     }
-  }, [capturedImage, concept, settings, outputRatio, currentQuality, existingSession]);
+  }, [capturedImage, capturedShots, capturedBurst, concept, concepts, settings, outputRatio, currentQuality, existingSession]);
 
   useEffect(() => {
     handleProcessFlow();
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
   }, [handleProcessFlow]); 
 
+  useEffect(() => {
+    return () => { if (boomerangUrl) URL.revokeObjectURL(boomerangUrl); };
+  }, [boomerangUrl]);
+
+  // Session QR opens the guest share page (/share/:token) once the row exists; the folder is the fallback
+  useEffect(() => {
+    setShareToken('');
+    if (!photoId) return;
+    let cancelled = false;
+    fetchShareTokens([photoId]).then(found => { if (!cancelled) setShareToken(found[photoId] || ''); });
+    return () => { cancelled = true; };
+  }, [photoId]);
+
+  // --- GUEST DELIVERY ---
+  // Contact can be entered while the photo is still saving; it is attached once the photo has an ID
+  useEffect(() => {
+    if (!guestContact || !photoId || contactSavedForRef.current === photoId) return;
+    contactSavedForRef.current = photoId;
+    setContactStatus('saving');
+    saveGuestContact(photoId, guestContact).then(res => {
+        if (!res.ok) throw new Error(res.error || 'Failed to save contact');
+        setContactStatus('saved');
+        // Sends the photo link right away; the video link follows from the tick worker
+        apiFetch('/api/delivery', { method: 'POST' }).catch(err => console.warn("[Delivery] Trigger failed:", err));
+    }).catch(err => {
+        console.error("[Delivery] Contact save failed:", err);
+        contactSavedForRef.current = null;
+        setContactStatus('error');
+        setContactError(err.message);
+    });
+  }, [guestContact, photoId]);
+
+  const handleSubmitContact = () => {
+    const { contact, error } = normalizeContact({
+        email: contactChannels.includes('email') ? contactEmail : undefined,
+        phone: contactChannels.includes('sms') ? contactPhone : undefined
+    });
+    if (!contact) {
+        setContactError(error || 'Invalid contact');
+        return;
+    }
+    setContactError(null);
+    contactSavedForRef.current = null;
+    setGuestContact(contact);
+    setShowContactForm(false);
+  };
+
   // FIXED: Trigger queueing instead of direct generate and AWAIT RESPONSE
   const handleGenerateVideo = async () => {
     if (!photoId) return;
@@ -168,11 +390,12 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
        // Fallback: Direct API Call if Sheet Queue fails
        // AWAIT this fetch to ensure it sends before page unmounts
        try {
-           await fetch('/api/video/start', {
+           await apiFetch('/api/video/start', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
                  driveFileId: photoId,
+                 eventId: settings.activeEventId,
                  prompt: settings.videoPrompt,
                  resolution: settings.videoResolution || '480p',
                  model: settings.videoModel // Ensure model is passed
@@ -213,14 +436,16 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
   };
 
   const handlePrint = () => {
-      if (resultImage) printImage(resultImage);
+      if (!resultImage) return;
+      printImage(resultImage);
+      if (photoId) recordPrint(photoId);
   };
 
   if (isProcessing) {
     return (
       <div className="w-full h-[100dvh] flex flex-col items-center justify-center relative p-6 text-center overflow-hidden bg-black/90 backdrop-blur-md">
         <div className="absolute inset-0 z-0 flex items-center justify-center p-4">
-          <img src={capturedImage} className="max-w-full max-h-full object-contain opacity-50 blur-lg" alt="Preview" />
+          <img src={originalPreview} className="max-w-full max-h-full object-contain opacity-50 blur-lg" alt="Preview" />
           <div className="absolute inset-0 bg-black/60" />
         </div>
         <div className="relative z-10 flex flex-col items-center">
@@ -276,7 +501,7 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
       <div className="relative z-10 w-full h-full flex flex-col items-center p-4 md:p-6 gap-6">
          <div className="flex-1 w-full min-h-0 flex items-center justify-center">
             <div className="relative border-4 border-white/5 shadow-2xl bg-black/50 backdrop-blur-sm rounded-xl overflow-hidden" style={{ aspectRatio: displayAspectRatio, maxHeight: '100%', maxWidth: '100%' }}>
-                <img src={viewMode === 'result' ? resultImage! : capturedImage} className="w-full h-full object-cover" />
+                <img src={viewMode === 'result' ? (boomerangUrl || resultImage!) : originalPreview} className={`w-full h-full ${isMultiShot ? 'object-contain' : 'object-cover'}`} />
                 <div className="absolute top-4 right-4 z-40">
                     <button onClick={() => setViewMode(prev => prev === 'result' ? 'original' : 'result')} className={`backdrop-blur border px-4 py-2 rounded-full font-bold text-[10px] uppercase tracking-widest transition-all ${viewMode === 'result' ? 'bg-purple-900/50 border-purple-500 text-purple-200' : 'bg-green-900/50 border-green-500 text-green-200'}`}>
                       {viewMode === 'result' ? '👁 VIEW ORIGINAL' : '✨ VIEW RESULT'}
@@ -284,8 +509,13 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
                 </div>
                 <div className="absolute bottom-4 left-0 right-0 flex justify-center items-center gap-3 z-30 px-2 flex-wrap">
                    <button onClick={() => setShowQR(true)} disabled={!sessionFolder} className={`backdrop-blur-md border px-5 py-4 rounded-full font-heading text-[10px] tracking-[0.2em] uppercase italic flex items-center gap-2 transition-all ${!sessionFolder ? 'bg-gray-800/50 border-gray-600 text-gray-400 cursor-wait' : 'bg-purple-900/30 border-purple-500/50 text-purple-100 hover:bg-purple-600/40'}`}>
-                      {!sessionFolder ? "SAVING..." : "SESSION QR"}
+                      {!sessionFolder ? (isPendingSync ? "SAVED OFFLINE" : "SAVING...") : "SESSION QR"}
                    </button>
+                   {contactChannels.length > 0 && !isPendingSync && (
+                       <button onClick={() => { setContactError(null); setShowContactForm(true); }} className={`backdrop-blur-md border px-5 py-4 rounded-full font-heading text-[10px] tracking-[0.2em] uppercase italic flex items-center gap-2 transition-all ${contactStatus === 'saved' ? 'bg-green-900/30 border-green-500/50 text-green-100' : contactStatus === 'error' ? 'bg-red-900/30 border-red-500/50 text-red-100' : 'bg-pink-900/30 border-pink-500/50 text-pink-100 hover:bg-pink-600/40'}`}>
+                          {contactStatus === 'saved' ? 'SENT TO YOU ✓' : contactStatus === 'saving' || (guestContact && !photoId) ? 'SENDING...' : contactStatus === 'error' ? 'SEND FAILED, RETRY' : 'SEND TO ME'}
+                       </button>
+                   )}
                    {settings.enablePrint && (
                        <button onClick={handlePrint} className="backdrop-blur-md bg-cyan-900/30 border border-cyan-500/50 text-cyan-100 px-5 py-4 rounded-full font-heading text-[10px] tracking-[0.2em] uppercase italic flex items-center gap-2 hover:bg-cyan-600/40 shadow-[0_0_15px_rgba(6,182,212,0.3)] transition-all">
                           PRINT
@@ -296,7 +526,7 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
                    </button>
                    {settings.boothMode === 'video' && (
                       <button onClick={handleGenerateVideo} disabled={!photoId} className={`backdrop-blur-md border px-5 py-4 rounded-full font-heading text-[10px] tracking-[0.2em] uppercase italic flex items-center gap-2 shadow-[0_0_20px_rgba(37,99,235,0.4)] ${!photoId ? 'bg-gray-800/50 border-gray-600 text-gray-400 cursor-wait' : 'bg-blue-900/30 border-blue-500/50 text-blue-100 hover:bg-blue-600/40 animate-pulse'}`}>
-                         {!photoId ? "SYNCING..." : "GENERATE VIDEO"}
+                         {!photoId ? (isPendingSync ? "PENDING SYNC" : "SYNCING...") : "GENERATE VIDEO"}
                       </button>
                    )}
                 </div>
@@ -350,6 +580,26 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
          </div>
       )}
 
+      {showContactForm && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.3s]" onClick={() => setShowContactForm(false)}>
+            <div className="bg-[#050505]/95 border border-pink-500/50 p-6 rounded-2xl flex flex-col gap-4 max-w-sm w-full shadow-[0_0_80px_rgba(236,72,153,0.3)]" onClick={e => e.stopPropagation()}>
+                <h3 className="text-white font-heading text-xs tracking-[0.3em] uppercase neon-text text-center">Send It To Me</h3>
+                <p className="text-gray-400 text-[10px] font-mono uppercase tracking-wider text-center">We'll send you a link to your {settings.boothMode === 'video' ? 'photo (and video when ready)' : 'result'}</p>
+                {contactChannels.includes('email') && (
+                    <input type="email" inputMode="email" autoComplete="off" className="w-full bg-black border-2 border-white/10 p-3 text-white font-mono text-sm focus:border-pink-500 outline-none rounded-lg" placeholder="EMAIL" value={contactEmail} onChange={e => setContactEmail(e.target.value)} />
+                )}
+                {contactChannels.includes('sms') && (
+                    <input type="tel" inputMode="tel" autoComplete="off" className="w-full bg-black border-2 border-white/10 p-3 text-white font-mono text-sm focus:border-pink-500 outline-none rounded-lg" placeholder="PHONE NUMBER" value={contactPhone} onChange={e => setContactPhone(e.target.value)} />
+                )}
+                {contactError && <p className="text-red-400 text-[10px] font-mono uppercase tracking-wider text-center">{contactError}</p>}
+                <div className="flex gap-3">
+                    <button onClick={() => setShowContactForm(false)} className="flex-1 py-3 bg-white/5 hover:bg-white/10 text-white border border-white/10 font-bold uppercase text-[10px] tracking-[0.2em] rounded transition-colors">Cancel</button>
+                    <button onClick={handleSubmitContact} className="flex-1 py-3 bg-pink-600 hover:bg-pink-500 text-white font-bold uppercase text-[10px] tracking-[0.2em] rounded transition-colors">Send</button>
+                </div>
+            </div>
+          </div>
+      )}
+
       {showQR && sessionFolder && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-[fadeIn_0.3s]" onClick={() => setShowQR(false)}>
             <div className="relative bg-[#050505]/95 border border-purple-500/50 p-6 rounded-2xl flex flex-col items-center gap-4 max-w-[280px] w-full shadow-[0_0_80px_rgba(168,85,247,0.4)] backdrop-blur-xl overflow-hidden" onClick={e => e.stopPropagation()}>
@@ -363,7 +613,7 @@ const ResultPage: React.FC<ResultPageProps> = ({ capturedImage, concept: initial
                   <div className="absolute -top-1 -right-1 w-3 h-3 border-t-2 border-r-2 border-purple-500" />
                   <div className="absolute -bottom-1 -left-1 w-3 h-3 border-b-2 border-l-2 border-purple-500" />
                   <div className="absolute -bottom-1 -right-1 w-3 h-3 border-b-2 border-r-2 border-purple-500" />
-                  <img src={`https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(sessionFolder.url)}`} className="w-32 h-32 object-contain mix-blend-multiply" />
+                  <img src={`https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(getShareUrl({ token: shareToken }, sessionFolder.url))}`} className="w-32 h-32 object-contain mix-blend-multiply" />
                 </div>
                 <div className="text-center z-10 mt-1">
                   <p className="text-purple-300 text-[9px] font-mono tracking-widest uppercase mb-1">SCAN_TO_DOWNLOAD</p>
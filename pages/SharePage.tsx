@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { SharedPhoto } from '../types';
+import { getStorageBackendById, StorageBackendId } from '../lib/storageBackend';
+
+interface SharePageProps {
+  token: string;
+  deleteKey: string | null; // From the link sent to the guest's contact; without it "Delete my data" is unavailable
+}
+
+interface ShareResponse {
+  ok: boolean;
+  backend?: StorageBackendId;
+  share?: SharedPhoto;
+  error?: string;
+}
+
+const PENDING_VIDEO_STATES = ['queued', 'processing', 'uploading'];
+
+// Guest page behind the QR code: opened on the guest's own phone, outside the kiosk app
+const SharePage: React.FC<SharePageProps> = ({ token, deleteKey }) => {
+  const [data, setData] = useState<ShareResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isDeleted, setIsDeleted] = useState(false);
+
+  // Poll while the video is still rendering so it appears without a reload
+  useEffect(() => {
+    let timerId: ReturnType<typeof setTimeout>;
+    let isMounted = true;
+
+    const load = async () => {
+      let next: ShareResponse;
+      try {
+        const res = await fetch(`/api/share?token=${encodeURIComponent(token)}`);
+        next = await res.json();
+      } catch (e) {
+        next = { ok: false, error: 'FETCH_FAILED' };
+      }
+      if (!isMounted) return;
+      // Keep showing the last good state if a poll fails
+      setData(prev => (next.ok || !prev?.ok ? next : prev));
+      setLoading(false);
+      const pending = next.ok && next.share && PENDING_VIDEO_STATES.includes(next.share.videoStatus);
+      if (pending || (!next.ok && next.error === 'FETCH_FAILED')) timerId = setTimeout(load, 15000);
+    };
+
+    if (isDeleted) return;
+    load();
+    return () => {
+      isMounted = false;
+      if (timerId) clearTimeout(timerId);
+    };
+  }, [token, isDeleted]);
+
+  useEffect(() => {
+    if (data?.share) document.title = data.share.eventName;
+  }, [data]);
+
+  // Permanent: photo, video, original capture and the rest of the session (lib/retention.ts)
+  const handleDeleteData = async () => {
+    if (!confirmDelete) return setConfirmDelete(true);
+    setIsDeleting(true);
+    try {
+      const res = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, deleteKey })
+      });
+      const result = await res.json();
+      if (!result.ok) throw new Error(result.error || `HTTP ${res.status}`);
+      setIsDeleted(true);
+    } catch (e: any) {
+      alert(`Could not delete your data: ${e.message}`);
+    } finally {
+      setIsDeleting(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  if (isDeleted) {
+    return (
+      <div className="w-full min-h-screen flex flex-col items-center justify-center gap-4 bg-[#050505] p-8 text-center">
+        <h1 className="text-2xl font-heading text-white uppercase italic tracking-widest">DATA DELETED</h1>
+        <p className="text-gray-500 text-xs font-mono uppercase tracking-widest max-w-xs">Your photos, videos and original capture have been permanently removed.</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="w-full min-h-screen flex items-center justify-center bg-[#050505]">
+        <div className="w-12 h-12 border-4 border-purple-500 rounded-full animate-spin border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!data?.ok || !data.share) {
+    return (
+      <div className="w-full min-h-screen flex flex-col items-center justify-center gap-4 bg-[#050505] p-8 text-center">
+        <h1 className="text-2xl font-heading text-white uppercase italic tracking-widest">PHOTO NOT FOUND</h1>
+        <p className="text-gray-500 text-xs font-mono uppercase tracking-widest max-w-xs">This link is invalid or the photo has been removed.</p>
+      </div>
+    );
+  }
+
+  const share = data.share;
+  const backend = getStorageBackendById(data.backend || 'apps-script');
+  const videoFileId = share.videoFileId || (share.type === 'video' ? share.photoId : undefined);
+  const videoPending = PENDING_VIDEO_STATES.includes(share.videoStatus);
+
+  // Guests have no kiosk key for /api/video/proxy: play the provider URL first, then the stored file directly
+  const videoPlayUrl = share.providerUrl || (videoFileId ? backend.downloadUrl(videoFileId) : '');
+  const videoDownloadUrl = videoFileId ? backend.downloadUrl(videoFileId) : share.providerUrl;
+  const showVideo = !!videoPlayUrl && (share.type !== 'image' || share.videoStatus === 'done' || share.videoStatus === 'ready_url');
+
+  return (
+    <div className="w-full min-h-screen flex flex-col items-center bg-[#050505] relative overflow-x-hidden font-sans">
+      {share.backgroundImage && (
+        <div className="fixed inset-0 bg-cover bg-center opacity-20 pointer-events-none" style={{ backgroundImage: `url(${share.backgroundImage})` }} />
+      )}
+      <div className="relative z-10 w-full max-w-md flex flex-col items-center gap-6 px-5 py-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-heading text-white neon-text italic uppercase tracking-tighter">{share.eventName}</h1>
+          {share.eventDescription && <p className="text-purple-300 text-[10px] font-mono uppercase tracking-[0.3em] mt-2">{share.eventDescription}</p>}
+        </div>
+
+        <div className="w-full bg-black rounded-2xl overflow-hidden border border-white/10 shadow-[0_0_40px_rgba(188,19,254,0.2)]">
+          {showVideo ? (
+            <video src={videoPlayUrl} controls autoPlay loop muted playsInline className="w-full h-auto" />
+          ) : (
+            <img src={backend.fileUrl(share.photoId, 1600)} alt={share.conceptName} className="w-full h-auto" />
+          )}
+        </div>
+
+        <div className="text-center">
+          {share.conceptName && <p className="text-white text-xs font-bold uppercase tracking-widest">{share.conceptName}</p>}
+          <p className="text-gray-500 text-[10px] font-mono mt-1">{new Date(share.createdAt).toLocaleString()}</p>
+        </div>
+
+        {videoPending && (
+          <div className="w-full flex items-center justify-center gap-3 bg-blue-900/30 border border-blue-500/30 rounded-xl px-4 py-3">
+            <span className="animate-spin h-3 w-3 border-2 border-blue-300 border-t-transparent rounded-full" />
+            <span className="text-blue-200 text-[10px] font-bold uppercase tracking-widest">Your video is being made, this page updates automatically</span>
+          </div>
+        )}
+
+        <div className="w-full flex flex-col gap-3">
+          {share.type !== 'video' && (
+            <a href={backend.downloadUrl(share.photoId)} download className="w-full py-4 bg-purple-600 hover:bg-purple-500 text-white text-center font-bold uppercase tracking-widest text-xs rounded-xl transition-colors shadow-lg">
+              {share.type === 'boomerang' ? 'DOWNLOAD GIF' : 'DOWNLOAD PHOTO'}
+            </a>
+          )}
+          {videoDownloadUrl && !videoPending && (share.type !== 'image' || showVideo) && (
+            <a href={videoDownloadUrl} download className="w-full py-4 bg-blue-600 hover:bg-blue-500 text-white text-center font-bold uppercase tracking-widest text-xs rounded-xl transition-colors shadow-lg">
+              DOWNLOAD VIDEO
+            </a>
+          )}
+        </div>
+
+        <div className="w-full flex flex-col items-center gap-2 pt-6 border-t border-white/10">
+          {deleteKey ? (
+            <>
+              <button
+                onClick={handleDeleteData}
+                onBlur={() => setConfirmDelete(false)}
+                disabled={isDeleting}
+                className={`px-6 py-3 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-50 ${confirmDelete ? 'bg-red-600 text-white hover:bg-red-500' : 'border border-red-900/50 text-red-400 hover:bg-red-900/20'}`}
+              >
+                {isDeleting ? 'DELETING...' : confirmDelete ? 'TAP AGAIN TO DELETE PERMANENTLY' : 'DELETE MY DATA'}
+              </button>
+              <p className="text-gray-600 text-[9px] font-mono uppercase tracking-wider text-center">Removes this photo, its video and your original capture. This cannot be undone.</p>
+            </>
+          ) : (
+            <p className="text-gray-600 text-[9px] font-mono uppercase tracking-wider text-center">To delete your data, open the link we sent to your email / phone, or ask the booth staff.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePage;
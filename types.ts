@@ -5,6 +5,13 @@ export interface Concept {
   prompt: string;
   thumbnail: string;
   refImage?: string; // Optional: Reference image for style/clothes/background
+  fallbackChain?: FallbackStep[]; // Optional: Overrides the global fallback chain for this concept
+}
+
+// One step of an ordered AI model fallback list (first step = primary model)
+export interface FallbackStep {
+  model: string;
+  timeoutMs?: number; // Per-step timeout, defaults to 60s
 }
 
 export interface EventRecord {
@@ -14,12 +21,35 @@ export interface EventRecord {
   folderId: string;
   createdAt: string;
   isActive: boolean;
+  profileRevision?: number; // Latest saved settings profile (0 / undefined = never saved)
+  profileUpdatedAt?: string;
+  startsAt?: string; // Activation window (ISO), see lib/eventSchedule.ts
+  endsAt?: string;
+  activatedAt?: string;
+  archivedAt?: string; // Gallery rows moved to the GalleryArchive sheet
+  archivedCount?: number;
+  retentionDays?: number; // Purge the event's photos / videos / originals this many days after capture (0 = keep)
+}
+
+// Full booth configuration owned by one event (see lib/eventProfiles.ts)
+export interface EventProfile {
+  settings: Partial<PhotoboothSettings>;
+  concepts: Concept[];
+}
+
+export interface EventProfileRevision {
+  eventId: string;
+  revision: number;
+  savedAt: string;
+  note: string;
 }
 
 export type AspectRatio = '16:9' | '9:16' | '3:2' | '2:3';
 
 export type MonitorTheme = 'physics' | 'grid' | 'hero' | 'slider';
 
+export type GuestDeliveryMode = 'off' | 'email' | 'sms' | 'both';
+
 export interface PhotoboothSettings {
   eventName: string;
   eventDescription: string;
@@ -30,6 +60,7 @@ export interface PhotoboothSettings {
   enableOpenAI?: boolean; 
   gptModelSize?: '512' | '720' | '1024'; 
   overlayImage: string | null;
+  overlayTemplate?: OverlayTemplate | null; // Layered overlay (takes precedence over overlayImage)
   backgroundImage: string | null;
   backgroundVideoUrl?: string | null; // New Field for Video Loop Background
   backgroundAudio: string | null; 
@@ -38,12 +69,11 @@ export interface PhotoboothSettings {
   enableVideoGeneration?: boolean; 
   videoResolution?: '480p' | '720p'; 
   videoModel?: string; // New Setting for Seedance Model ID
-  boothMode?: 'photo' | 'video';
+  boothMode?: 'photo' | 'video' | 'boomerang';
   monitorImageSize?: 'small' | 'medium' | 'large'; 
   monitorTheme?: MonitorTheme; 
   processingMode?: 'normal' | 'fast'; 
   autoResetTime: number;
-  adminPin: string;
   orientation: 'portrait' | 'landscape';
   outputRatio: AspectRatio;
   activeEventId?: string;
@@ -51,8 +81,61 @@ export interface PhotoboothSettings {
   promptMode?: 'raw' | 'wrapped'; // New Setting: 'raw' = free transform, 'wrapped' = strict face lock
   enableModelShortcut?: boolean; // New Setting: Show Quick Model Toggle on Camera
   enablePrint?: boolean; // New Setting: Enable Direct Printing Feature
+  fallbackChain?: FallbackStep[]; // Global model fallback order (empty = selectedModel -> Gemini 2.5 Flash)
+  captureMode?: 'single' | 'multi'; // 'multi' = photo strip session (always processed in the foreground)
+  shotCount?: number; // Shots per multi-shot session (2-6)
+  stripLayout?: StripLayout;
+  shotConcepts?: 'same' | 'cycle'; // 'cycle' = each shot uses the next concept in the list
+  boomerangKeyframes?: number; // Burst frames sent to the AI in boomerang mode (3-8)
+  guestDelivery?: GuestDeliveryMode; // Optional "send it to me" step on the Result page
+  requireConsent?: boolean; // Consent screen between Themes and Camera
+  consentText?: string;
+  modelCosts?: Record<string, number>; // USD per successful call, overrides DEFAULT_MODEL_COSTS (lib/costs.ts)
+  budgetSoftCap?: number; // Event spend (USD) that turns Ultra off, 0 = no cap
+  budgetHardCap?: number; // Event spend (USD) that also stops video and locks images to Gemini Flash, 0 = no cap
+}
+
+// --- LAYERED OVERLAY TEMPLATE (lib/overlayCompositor.ts) ---
+
+export type OverlayLayerType = 'image' | 'text' | 'qr';
+
+// Fractions of the output canvas (0-1), so one placement works for any resolution
+export interface LayerPlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number; // Degrees, around the layer center
 }
 
+export interface OverlayLayer {
+  id: string;
+  type: OverlayLayerType;
+  name: string;
+  visible: boolean;
+  src?: string; // image: frame PNG / logo URL
+  text?: string; // text: supports {eventName} {date} {time} {guestName} {conceptName}
+  fontFamily?: string;
+  fontWeight?: 'normal' | 'bold';
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+  qrValue?: string; // qr: URL or token, default {sessionUrl}
+  placements: Partial<Record<AspectRatio, LayerPlacement>>;
+}
+
+export interface OverlayTemplate {
+  id: string;
+  name: string;
+  layers: OverlayLayer[]; // Bottom to top
+  updatedAt: number;
+}
+
+// Multi-shot composite templates, see lib/layoutEngine.ts
+export type StripLayout = 'strip' | 'grid' | 'polaroid';
+
+// Video pipeline status, transitions defined in lib/videoStateMachine.ts
+export type VideoStatus = 'idle' | 'queued' | 'processing' | 'ready_url' | 'uploading' | 'done' | 'failed';
+
 export interface GalleryItem {
   id: string;
   createdAt: string;
@@ -60,20 +143,252 @@ export interface GalleryItem {
   conceptName: string;
   imageUrl: string;
   downloadUrl: string;
-  token: string;
+  token?: string; // Share key, backend only: never in public gallery reads (see /api/share-link)
   eventId?: string;
-  type?: 'image' | 'video';
+  type?: 'image' | 'video' | 'boomerang'; // boomerang: id = GIF, videoFileId = looping video
   originalId?: string; 
   providerUrl?: string; 
   relatedPhotoId?: string; 
   // New Fields for Session & Queue
   sessionFolderId?: string;
   sessionFolderUrl?: string;
-  videoStatus?: 'idle' | 'queued' | 'processing' | 'done' | 'failed' | 'ready_url' | 'uploading';
+  videoStatus?: VideoStatus;
+  videoAttempts?: number; // Render/upload attempts (see lib/videoStateMachine.ts)
+  videoStateAt?: string; // ISO time of the last status transition
+  videoTimeline?: string; // JSON: { [status]: ISO time entered }
+  videoError?: string; // Last failure / reaper reason
   videoTaskId?: string;
   videoFileId?: string; // ID File Video di Google Drive
   videoResolution?: string;
   videoModel?: string; // New Field in Sheet
+  aiModel?: string; // Model that actually produced the photo (after fallback)
+  layout?: StripLayout; // Set on multi-shot composites
+  frames?: string; // JSON: file IDs of the individual transformed frames
+  deletedAt?: string; // Soft delete: set = hidden from gallery, Drive files in trash (restorable)
+  deletedBy?: string; // Admin session that deleted it (admin#<token hash prefix>)
+  guestContact?: string; // JSON GuestContact. Server only, stripped from every public response
+  delivery?: string; // JSON DeliveryLog (see lib/delivery.ts)
+  purgedAt?: string; // Permanently purged (lib/retention.ts): tombstone only, files gone, not restorable
+  prints?: number; // Times printed from the Result / Gallery screens
+  promptMode?: 'raw' | 'wrapped'; // Prompt wrapping the server used (settings.promptMode at generate time)
+  fallbackPath?: string; // JSON FallbackAttempt[]: every model tried, in order, with error reasons
+  stageTimings?: string; // JSON StageTimings (see lib/generationMeta.ts)
+}
+
+// Server-side gallery filter (lib/galleryQuery.ts). Empty fields = no filter
+export interface GalleryQuery {
+  eventId?: string;
+  conceptName?: string;
+  type?: 'image' | 'video' | 'boomerang';
+  videoStatus?: VideoStatus;
+  q?: string; // Case-insensitive substring of conceptName, id or token
+}
+
+// One response of the gallery action: a page (newest first) or a delta (since > 0)
+export interface GalleryPage {
+  items: GalleryItem[];
+  nextCursor: number; // Newest updatedAt seen; pass back as `since` for the next delta
+  olderCursor?: string; // Pass back as `before` for the next older page; empty = end of history
+  isDelta?: boolean;
+}
+
+// Duration of each stage of one result, in ms. Multi-frame results (strip / boomerang) count wall time
+export interface StageTimings {
+  aiMs?: number; // All AI calls incl. fallback and aiQueue wait (kiosk clock)
+  overlayMs?: number; // Overlay / strip composition / GIF encoding (kiosk clock)
+  uploadMs?: number; // Backend: request received -> file stored (server clock, excludes network transfer)
+}
+
+// --- DATA RETENTION (lib/retention.ts) ---
+
+export type PurgeReason = 'retention' | 'guest_request';
+
+// One purged gallery row (PurgeLog sheet). No guest data, only what is needed to answer "was it deleted"
+export interface PurgeLogEntry {
+  at: string;
+  reason: PurgeReason;
+  actor: string; // 'system', 'guest' or admin#<token hash prefix>
+  photoId: string;
+  eventId: string;
+  capturedAt: string;
+  files: number; // Files / folders removed from storage
+}
+
+// --- GUEST DELIVERY (lib/delivery.ts) ---
+
+export type DeliveryChannel = 'email' | 'sms';
+export type DeliveryKind = 'photo' | 'video'; // photo: as soon as the row exists, video: once videoStatus is done
+export type DeliveryStatus = 'sending' | 'sent' | 'failed';
+
+export interface GuestContact {
+  email?: string;
+  phone?: string;
+}
+
+export interface DeliveryRecord {
+  status: DeliveryStatus;
+  attempts: number;
+  at: string; // ISO time of the last status change
+  error?: string;
+  channels?: DeliveryChannel[]; // Channels that actually went out
+}
+
+export type DeliveryLog = Partial<Record<DeliveryKind, DeliveryRecord>>;
+
+// A row with deliveries due (action pendingDeliveries, worker only)
+export interface PendingDelivery {
+  photoId: string;
+  token: string;
+  deleteKey: string; // Unlocks "Delete my data" on the share page; only ever sent to the guest's own contact
+  type: 'image' | 'video' | 'boomerang';
+  conceptName: string;
+  eventName: string;
+  contact: GuestContact;
+  kinds: DeliveryKind[];
+}
+
+// Guest-facing view of one gallery row, looked up by GalleryItem.token (/share/:token)
+export interface SharedPhoto {
+  token: string;
+  type: 'image' | 'video' | 'boomerang';
+  conceptName: string;
+  createdAt: string;
+  photoId: string; // Result file (GIF for boomerang, the video itself for type 'video')
+  videoStatus: VideoStatus;
+  videoFileId?: string;
+  providerUrl?: string; // Only while ready_url (not yet copied to storage)
+  eventName: string;
+  eventDescription: string;
+  backgroundImage?: string | null;
+}
+
+// --- COSTS & BUDGET (lib/costs.ts) ---
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+// Slim gallery row used to tally spend (action costRows, analyticsData)
+export type CostRow = Pick<GalleryItem, 'type' | 'aiModel' | 'fallbackPath' | 'videoModel' | 'videoTimeline'>;
+
+// --- LIVE CONFIG (lib/configFeed.ts) ---
+
+// Bumped by the backend on every settings / concepts / event change (getSettings, configVersion, /api/config/stream)
+export interface ConfigVersion {
+  version: number;
+  updatedAt: string; // '' = never bumped (fresh backend)
+}
+
+// --- KIOSK FLEET (lib/kiosks.ts) ---
+
+export type KioskCommandType = 'reload' | 'switchEvent' | 'lock' | 'unlock' | 'clearCache';
+export type CameraStatus = 'unknown' | 'ready' | 'denied' | 'missing' | 'error'; // 'unknown' until the camera page opened once
+
+export interface KioskCommand {
+  id: string;
+  type: KioskCommandType;
+  eventId?: string; // switchEvent only: '' = follow the active event again
+  issuedAt: string;
+  issuedBy: string; // admin#<token hash prefix>
+}
+
+// What a kiosk reports every heartbeat (lib/kioskAgent.ts)
+export interface KioskHeartbeat {
+  id: string; // KIOSK_ID credential, or a generated device id
+  name: string;
+  appVersion: string;
+  configVersion: number; // Live config version applied on this kiosk
+  battery: number | null; // 0-100, null = Battery API not available
+  charging: boolean | null;
+  camera: CameraStatus;
+  cameraError?: string;
+  queueDepth: number; // aiQueue waiting + running
+  outboxPending: number;
+  page: string; // AppState
+  eventId: string; // Event the kiosk is shooting for right now
+  pinnedEventId: string; // Set by switchEvent, '' = follows the active event
+  locked: boolean;
+  backend: string; // StorageBackendId
+  userAgent: string;
+}
+
+// One row of the 'Kiosks' sheet as shown in Admin > Fleet
+export interface KioskRecord extends KioskHeartbeat {
+  firstSeen: string;
+  lastSeen: string;
+  online: boolean; // Heartbeat within KIOSK_OFFLINE_MS
+  pendingCommands: KioskCommand[];
+  lastCommand?: KioskCommand & { deliveredAt: string };
+}
+
+// --- ANALYTICS (lib/analytics.ts) ---
+
+// Slim Gallery / GalleryArchive row for the Admin analytics view (action analyticsData)
+export type AnalyticsRow = Pick<GalleryItem, 'id' | 'createdAt' | 'conceptName' | 'eventId' | 'type' | 'originalId' | 'aiModel' | 'videoStatus' | 'videoModel' | 'videoTimeline' | 'prints' | 'deletedAt' | 'purgedAt' | 'fallbackPath'>;
+
+// Slim 'Jobs' sheet row (fast mode): createdAt / updatedAt are epoch ms
+export interface AnalyticsJob {
+  status: ImageJobStatus;
+  conceptName: string;
+  eventId: string;
+  aiModel: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Fast mode background job (persisted in IndexedDB, mirrored to the 'Jobs' sheet)
+export type ImageJobStatus = 'pending' | 'running' | 'retrying' | 'done' | 'dead';
+
+export interface ImageJob {
+  id: string;
+  status: ImageJobStatus;
+  image: string; // Captured photo (Base64)
+  concept: Concept;
+  // Settings snapshot at capture time, so a resumed job uploads to the same place
+  eventName: string;
+  eventId?: string;
+  folderId: string;
+  originalFolderId?: string;
+  overlayImage: string | null;
+  overlayTemplate?: OverlayTemplate | null;
+  outputRatio: AspectRatio;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+  originalId?: string; // Set once the original upload succeeded (not repeated on retry)
+  resultId?: string;
+  aiModel?: string;
+}
+
+// Deferred upload (offline outbox): final image kept in IndexedDB until the backend accepts it
+export interface OutboxEntry {
+  id: string;
+  kind?: 'photo' | 'boomerang'; // Absent = photo
+  image: string; // Final composited image (Base64), boomerang: the GIF
+  original?: string; // Raw capture, only when it still has to go to originalFolderId
+  conceptName: string;
+  eventName: string;
+  eventId?: string;
+  folderId?: string;
+  needsSession?: boolean; // Session folder could not be created yet, create it on upload
+  originalFolderId?: string;
+  sessionFolderId?: string;
+  sessionFolderUrl?: string;
+  aiModel?: string;
+  promptMode?: 'raw' | 'wrapped';
+  fallbackPath?: string; // JSON FallbackAttempt[]
+  stageTimings?: StageTimings; // uploadMs is added by the backend
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+  originalId?: string; // Set once the original upload succeeded (not repeated on retry)
+  layout?: StripLayout;
+  frames?: string[]; // Individual frames of a multi-shot composite (Base64)
+  frameIds?: string[]; // Frames already uploaded (not repeated on retry)
+  video?: string; // Boomerang loop video (MP4 / WebM data URI), uploaded before the GIF row
+  videoId?: string; // Set once the loop video upload succeeded (not repeated on retry)
 }
 
 export interface ProcessNotification {
@@ -87,6 +402,7 @@ export interface ProcessNotification {
 export enum AppState {
   LANDING = 'LANDING',
   THEMES = 'THEMES',
+  CONSENT = 'CONSENT',
   CAMERA = 'CAMERA',
   GENERATING = 'GENERATING',
   RESULT = 'RESULT',
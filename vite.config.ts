@@ -1,11 +1,14 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { readFileSync } from 'node:fs';
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, '.', '');
+  const { version } = JSON.parse(readFileSync('package.json', 'utf8'));
+  const commit = (env.VERCEL_GIT_COMMIT_SHA || '').slice(0, 7);
 
   return {
     plugins: [react()],
@@ -20,12 +23,12 @@ export default defineConfig(({ mode }) => {
       port: 3000
     },
     // Define global constants replacement
-    // Ini PENTING agar Vercel Env Vars terbaca oleh Client Side code
+    // JANGAN expose secret (API key) ke client: semua provider AI berjalan di /api
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
       'process.env.APPS_SCRIPT_BASE_URL': JSON.stringify(env.APPS_SCRIPT_BASE_URL),
+      'process.env.APP_VERSION': JSON.stringify(commit ? `${version}+${commit}` : version),
       // Mencegah crash jika env variable tidak ada
-      'process.env': JSON.stringify(env)
+      'process.env': JSON.stringify({})
     }
   };
 });
\ No newline at end of file